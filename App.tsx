@@ -1,13 +1,131 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { VoiceName, GeneratedAudio } from './types';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { VoiceName, GeneratedAudio, DialogueScript, ScriptLine, TextChunk, ChunkProgress, JoinSettings, DeliveryStyle, ExportOptions, TtsSelection, ProcessingChain, ProcessingMode, ProcessingPreset, MusicBedSettings, LexiconEntry, VoiceProfile, CompareVariant, GenerationUsage, UsageBudgets, UsageRecord, UsageSource } from './types';
 import VoiceSelector from './components/VoiceSelector';
+import ProviderSelector from './components/ProviderSelector';
 import AudioVisualizer from './components/AudioVisualizer';
-import { generateSpeech } from './services/geminiService';
+import ScriptSpeakers from './components/ScriptSpeakers';
+import ChunkProgressPanel from './components/ChunkProgressPanel';
+import DeliveryPanel from './components/DeliveryPanel';
+import ExportSettings from './components/ExportSettings';
+import CaptionDisplay from './components/CaptionDisplay';
+import TransportBar from './components/TransportBar';
+import MarkupPreview from './components/MarkupPreview';
+import BatchPanel from './components/BatchPanel';
+import TimelineEditor, { HISTORY_DRAG_TYPE } from './components/TimelineEditor';
+import ProcessingPanel from './components/ProcessingPanel';
+import MusicBedPanel, { LoadedMusicBed } from './components/MusicBedPanel';
+import ComparePanel from './components/ComparePanel';
+import AudiobookPanel, { GeneratedChapter } from './components/AudiobookPanel';
+import LocalizationPanel, { GeneratedTranslation } from './components/LocalizationPanel';
+import LexiconPanel, { LexiconPreviewLine } from './components/LexiconPanel';
+import VoiceProfileEditor from './components/VoiceProfileEditor';
+import UsageDashboard from './components/UsageDashboard';
+import CachePanel from './components/CachePanel';
+import AudiogramPanel from './components/AudiogramPanel';
+import { generateSpeech, generateDialogue, generateSpeechChunks, streamSpeech, SpeechOptions } from './services/speechService';
+import { DEFAULT_TTS_SELECTION, describeSelection, getProvider } from './services/ttsProvider';
+import { UsageMeter } from './services/usageMeter';
+import { classifyError, ERROR_GUIDANCE, isAbortError, TtsError } from './services/ttsErrors';
+import { CacheMode } from './services/synthesisCache';
+import { splitText } from './utils/textChunker';
+import { joinWithCrossfade } from './utils/audioUtils';
+import { StreamScheduler } from './utils/streamScheduler';
+import { TransportPlayer } from './utils/transportPlayer';
+import { normalizeStyle, summarizeStyle } from './utils/deliveryPrompt';
+import { buildCaptions, buildCaptionsForText, getSpokenText } from './utils/captionAligner';
+import { toSrt, toWebVtt } from './utils/captionFormats';
+import { containsMarkup, parseMarkup, markupToChunks, MarkupError, MarkupIssue, ParsedMarkup } from './utils/ssmlLite';
+import { parseScript, getSpeakers, assignVoices, formatScript } from './utils/scriptParser';
+import { exportAudio, downloadBlob, getExportFilename, DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS } from './services/audioExport';
+import { RenderedTimeline } from './services/timelineRenderer';
+import { exportLocaleZip } from './services/localizationExport';
+import { exportHistoryZip } from './services/historyExport';
+import { BUILT_IN_PRESETS, processAudio, ProcessedAudio, ProcessingReport } from './services/audioProcessor';
+import { savePreset, loadPresets, deletePreset } from './services/presetStore';
+import { saveVoiceProfile, loadVoiceProfiles, deleteVoiceProfile } from './services/voiceProfileStore';
+import { DEFAULT_MUSIC_BED, mixWithMusicBed } from './services/musicBed';
+import { saveHistoryItem, loadHistory, updateHistoryItem, deleteHistoryItem, clearHistory, getStorageUsage, HistoryItemPatch, StorageUsage } from './services/historyStore';
+import { saveUsageRecord, loadUsageRecords, clearUsageRecords, saveBudgets, loadBudgets, DEFAULT_BUDGETS } from './services/usageStore';
+import { budgetWarnings, combineUsage, estimateUsage, UsageEstimate } from './utils/usageStats';
+import { localeName } from './utils/locales';
+import { assignTake, EMPTY_HISTORY_FILTER, groupHistory, HistoryFilter, isFilterActive, parseTags, takeGroupOf, takeNumberOf } from './utils/historyGroups';
+import { VisualizerStyle } from './utils/visualizer';
 import { v4 as uuidv4 } from 'uuid'; // We'll just use a simple random string generator helper actually since we can't install uuid package
 
 // Simple ID generator since we can't rely on external packages besides standard ones
 const generateId = () => Math.random().toString(36).substring(2, 9);
 
+// Texts longer than this are split and generated chunk by chunk
+const MAX_CHUNK_CHARS = 1500;
+
+// Stands in for the history id while a clip is still streaming in
+const STREAMING_AUDIO_ID = 'streaming';
+
+// Id of the mixed-down clip played by the music bed preview
+const MUSIC_BED_PREVIEW_ID = 'music-bed-preview';
+
+const DEFAULT_JOIN_SETTINGS: JoinSettings = {
+  sentencePauseMs: 150,
+  paragraphPauseMs: 600,
+  crossfadeMs: 20,
+};
+
+// Everything needed to (re)generate a history item
+type GenerationParams = Pick<GeneratedAudio, 'text' | 'voice' | 'script' | 'style' | 'profile'> & {
+  engine: TtsSelection;
+  lexicon: LexiconEntry[];
+  cache: CacheMode;
+};
+
+// A long text being generated in chunks; kept around after failures so single chunks can be retried
+interface ChunkSession extends GenerationParams {
+  chunks: TextChunk[];
+  progress: ChunkProgress[];
+  // Spent by earlier runs of the session, so retries add to it
+  usage?: GenerationUsage;
+}
+
+// Items saved before captions existed get them computed on demand
+const getCaptions = (item: GeneratedAudio) =>
+  item.captions ?? (item.audioBuffer ? buildCaptionsForText(item.audioBuffer, getSpokenText(item)) : []);
+
+// Raw and processed versions of the loaded clip for the before/after toggle.
+// `original` is the version stored on the item, which its captions follow.
+interface ProcessingComparison {
+  itemId: string;
+  before: AudioBuffer;
+  after: AudioBuffer;
+  report: ProcessingReport;
+  showing: 'before' | 'after';
+  original: 'before' | 'after';
+}
+
+// Trimming shifts everything earlier, so positions move by the trimmed lead-in
+const mapComparisonTime = (comparison: ProcessingComparison, time: number, from: 'before' | 'after', to: 'before' | 'after') => {
+  if (from === to) return time;
+  return to === 'after' ? time - comparison.report.trimmedStart : time + comparison.report.trimmedStart;
+};
+
+const formatDb = (value: number) => Number.isFinite(value) ? value.toFixed(1) : '-∞';
+
+const formatUsage = (usage: GenerationUsage) => [
+  `${usage.characters.toLocaleString()} characters`,
+  `${usage.requests} request${usage.requests === 1 ? '' : 's'}`,
+  usage.tokens && `${usage.tokens.totalTokens.toLocaleString()} tokens`,
+  `${(usage.latencyMs / 1000).toFixed(1)}s`,
+  usage.retries > 0 && `${usage.retries} retr${usage.retries === 1 ? 'y' : 'ies'}`,
+  usage.model,
+].filter(Boolean).join(' · ');
+
+const historyInputClass = 'bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const historyButtonClass = 'px-2 py-1 rounded-lg text-xs text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors disabled:opacity-40';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 const App: React.FC = () => {
   const [inputText, setInputText] = useState('');
   const [selectedVoice, setSelectedVoice] = useState<VoiceName>(VoiceName.Kore);
@@ -15,19 +133,118 @@ const App: React.FC = () => {
   const [history, setHistory] = useState<GeneratedAudio[]>([]);
   const [currentAudioId, setCurrentAudioId] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Generation failures keep their TtsError so the box can say what to do about them
+  const [error, setError] = useState<string | TtsError | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [isScriptMode, setIsScriptMode] = useState(false);
+  const [speakerOverrides, setSpeakerOverrides] = useState<Record<string, VoiceName>>({});
+  const [joinSettings, setJoinSettings] = useState<JoinSettings>(DEFAULT_JOIN_SETTINGS);
+  const [chunkSession, setChunkSession] = useState<ChunkSession | null>(null);
+  const [deliveryStyle, setDeliveryStyle] = useState<DeliveryStyle>({});
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  // Shared by the live visualizer and audiogram videos
+  const [visualizerStyle, setVisualizerStyle] = useState<VisualizerStyle>('bars');
+  // Language picked for exporting localized clips from history
+  const [exportLocale, setExportLocale] = useState('');
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Take groups listing all their takes, and the item whose tags and notes are open
+  const [expandedTakes, setExpandedTakes] = useState<Set<string>>(new Set());
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  const [bulkVoice, setBulkVoice] = useState<VoiceName>(VoiceName.Kore);
+  const [ttsEngine, setTtsEngine] = useState<TtsSelection>(DEFAULT_TTS_SELECTION);
+  const [streamPlayback, setStreamPlayback] = useState(true);
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+  const [volume, setVolume] = useState(1);
+  // The clip loaded into the transport; may be a preview that isn't in history
+  const [loadedItem, setLoadedItem] = useState<GeneratedAudio | null>(null);
+  const [customPresets, setCustomPresets] = useState<ProcessingPreset[]>([]);
+  const [presetId, setPresetId] = useState(BUILT_IN_PRESETS[0].id);
+  const [processingChain, setProcessingChain] = useState<ProcessingChain>(BUILT_IN_PRESETS[0].chain);
+  const [processingMode, setProcessingMode] = useState<ProcessingMode>('off');
+  const [comparison, setComparison] = useState<ProcessingComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [musicBed, setMusicBed] = useState<LoadedMusicBed | null>(null);
+  const [musicBedSettings, setMusicBedSettings] = useState<MusicBedSettings>(DEFAULT_MUSIC_BED);
+  const [musicBedEnabled, setMusicBedEnabled] = useState(false);
+  const [isMixingPreview, setIsMixingPreview] = useState(false);
+  const [lexiconEntries, setLexiconEntries] = useState<LexiconEntry[]>([]);
+  const [voiceProfiles, setVoiceProfiles] = useState<VoiceProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  const [editingProfile, setEditingProfile] = useState<VoiceProfile | null>(null);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [usageBudgets, setUsageBudgets] = useState<UsageBudgets>(DEFAULT_BUDGETS);
+  const chunkBuffersRef = useRef<(AudioBuffer | null)[]>([]);
+  // Unprocessed audio of clips processed at generation; kept for this session only
+  const rawBuffersRef = useRef(new Map<string, ProcessedAudio>());
+
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...customPresets], [customPresets]);
+  const selectedPreset = presets.find(p => p.id === presetId);
+  const processingLabel = !selectedPreset
+    ? 'Custom'
+    : JSON.stringify(selectedPreset.chain) === JSON.stringify(processingChain) ? selectedPreset.name : `${selectedPreset.name} (modified)`;
+
+  // Parse the textarea as a dialogue script while in script mode
+  const parsedScript = useMemo<{ lines: ScriptLine[]; error: string | null }>(() => {
+    if (!isScriptMode) return { lines: [], error: null };
+    try {
+      return { lines: parseScript(inputText), error: null };
+    } catch (err: any) {
+      return { lines: [], error: err.message };
+    }
+  }, [isScriptMode, inputText]);
+
+  // Validate SSML-lite markup as it's typed (single-voice mode only)
+  const parsedMarkup = useMemo<{ parsed: ParsedMarkup | null; issues: MarkupIssue[] } | null>(() => {
+    if (isScriptMode || !containsMarkup(inputText)) return null;
+    try {
+      return { parsed: parseMarkup(inputText), issues: [] };
+    } catch (err) {
+      if (err instanceof MarkupError) return { parsed: null, issues: err.issues };
+      throw err;
+    }
+  }, [isScriptMode, inputText]);
+
+  const speakerVoices = useMemo(
+    () => assignVoices(getSpeakers(parsedScript.lines), speakerOverrides, selectedVoice),
+    [parsedScript, speakerOverrides, selectedVoice]
+  );
+
+  const selectedProfile = voiceProfiles.find(p => p.id === selectedProfileId) ?? null;
+
+  // What the lexicon preview shows: the spoken text, line by line with each line's voice
+  const lexiconPreviewLines = useMemo<LexiconPreviewLine[]>(() => {
+    if (isScriptMode) {
+      return parsedScript.lines.map(line => ({ prefix: `${line.speaker}: `, text: line.text, voice: speakerVoices[line.speaker] }));
+    }
+    return [{ text: parsedMarkup?.parsed?.spokenText ?? inputText, voice: selectedVoice }];
+  }, [isScriptMode, parsedScript, speakerVoices, parsedMarkup, inputText, selectedVoice]);
 
   // Audio Context & Nodes refs
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+  const playerRef = useRef<TransportPlayer | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
+  // AudioContext time at which the current source started playing
+  const playbackStartRef = useRef(0);
+  // Schedules the pieces of a clip that is still being streamed
+  const streamRef = useRef<StreamScheduler | null>(null);
+  // Cancels the generation started from the editor
+  const abortRef = useRef<AbortController | null>(null);
+  // Stops regenerating the rest of a selection
+  const bulkAbortRef = useRef<AbortController | null>(null);
+  // Latest history, for numbering takes from callbacks that outlive a render
+  const historyRef = useRef<GeneratedAudio[]>([]);
+  historyRef.current = history;
 
   // Initialize Audio Context lazily (user interaction required)
   const getAudioContext = useCallback(() => {
     if (!audioContextRef.current) {
       const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
-      audioContextRef.current = new AudioCtx({ sampleRate: 24000 });
+      // Runs at the device's native rate; clips keep the rate they were generated
+      // at and are resampled by the browser when played
+      audioContextRef.current = new AudioCtx();
       
       // Setup Analyser
       analyserRef.current = audioContextRef.current.createAnalyser();
@@ -40,6 +257,8 @@ const App: React.FC = () => {
       // Connect Graph: Source (created later) -> Analyser -> Gain -> Destination
       analyserRef.current.connect(gainNodeRef.current);
       gainNodeRef.current.connect(audioContextRef.current.destination);
+
+      playerRef.current = new TransportPlayer(audioContextRef.current, analyserRef.current, setIsPlaying);
     }
     
     // Resume if suspended (common browser policy)
@@ -50,146 +269,1093 @@ const App: React.FC = () => {
     return audioContextRef.current;
   }, []);
 
+  // Other players route through the analyser so the visualizer and volume apply to them too
+  const getPlaybackDestination = useCallback(() => {
+    getAudioContext();
+    return analyserRef.current!;
+  }, [getAudioContext]);
+
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch(err => console.error("Failed to read storage usage:", err));
+  }, []);
+
+  // Restore persisted history on first load
+  useEffect(() => {
+    let cancelled = false;
+    loadHistory()
+      .then(items => {
+        if (cancelled) return;
+        // Keep anything generated while the stored items were still loading
+        setHistory(prev => [...prev, ...items.filter(item => !prev.some(p => p.id === item.id))]);
+        refreshStorageUsage();
+      })
+      .catch(err => console.error("Failed to load saved history:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshStorageUsage]);
+
+  useEffect(() => {
+    loadVoiceProfiles()
+      .then(setVoiceProfiles)
+      .catch(err => console.error("Failed to load voice profiles:", err));
+  }, []);
+
+  useEffect(() => {
+    Promise.all([loadUsageRecords(), loadBudgets()])
+      .then(([records, budgets]) => {
+        setUsageRecords(prev => [...records, ...prev]);
+        setUsageBudgets(budgets);
+      })
+      .catch(err => console.error("Failed to load usage log:", err));
+  }, []);
+
+  useEffect(() => {
+    loadPresets()
+      .then(setCustomPresets)
+      .catch(err => console.error("Failed to load presets:", err));
+  }, []);
+
+  useEffect(() => {
+    if (gainNodeRef.current) gainNodeRef.current.gain.value = volume;
+  }, [volume]);
+
   const stopPlayback = useCallback(() => {
-    if (sourceNodeRef.current) {
-      try {
-        sourceNodeRef.current.stop();
-        sourceNodeRef.current.disconnect();
-      } catch (e) {
-        // Ignore errors if already stopped
-      }
-      sourceNodeRef.current = null;
+    playerRef.current?.unload();
+    if (streamRef.current) {
+      streamRef.current.stop();
+      streamRef.current = null;
     }
     setIsPlaying(false);
     setCurrentAudioId(null);
+    setLoadedItem(null);
+    setComparison(null);
   }, []);
 
   const playAudio = useCallback(async (item: GeneratedAudio) => {
-    // If clicking the currently playing item, toggle stop
-    if (currentAudioId === item.id && isPlaying) {
-      stopPlayback();
+    getAudioContext();
+    const player = playerRef.current!;
+
+    // Clicking the loaded item pauses or resumes it from where it was
+    const comparing = comparison?.itemId === item.id && player.buffer === comparison[comparison.showing];
+    if (loadedItem?.id === item.id && (player.buffer === item.audioBuffer || comparing)) {
+      if (isPlaying) {
+        player.pause();
+      } else {
+        await player.play();
+      }
       return;
     }
 
     // Stop any existing playback
     stopPlayback();
-
-    const ctx = getAudioContext();
     if (!item.audioBuffer) return;
 
-    const source = ctx.createBufferSource();
-    source.buffer = item.audioBuffer;
-    
-    if (analyserRef.current) {
-      source.connect(analyserRef.current);
+    player.load(item.audioBuffer);
+    setLoadedItem(item);
+    setCurrentAudioId(item.id);
+    const raw = rawBuffersRef.current.get(item.id);
+    if (raw) {
+      setComparison({ itemId: item.id, before: raw.buffer, after: item.audioBuffer, report: raw.report, showing: 'after', original: 'after' });
+    }
+    try {
+      await player.play();
+    } catch (err) {
+      console.error("Playback failed:", err);
     }
+  }, [loadedItem, isPlaying, comparison, getAudioContext, stopPlayback]);
 
-    source.onended = () => {
+  const togglePlayback = useCallback(() => {
+    if (loadedItem) playAudio(loadedItem);
+  }, [loadedItem, playAudio]);
+
+  const getPlaybackTime = useCallback(() => {
+    const ctx = audioContextRef.current;
+    if (streamRef.current && ctx) return ctx.currentTime - playbackStartRef.current;
+    const time = playerRef.current?.currentTime ?? 0;
+    return comparison ? mapComparisonTime(comparison, time, comparison.showing, comparison.original) : time;
+  }, [comparison]);
+
+  const currentItem = loadedItem ?? history.find(h => h.id === currentAudioId) ?? null;
+  const currentCaptions = useMemo(() => currentItem ? getCaptions(currentItem) : [], [currentItem]);
+
+  const historyEntries = useMemo(() => groupHistory(history, historyFilter), [history, historyFilter]);
+  const takeCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    history.forEach(h => counts.set(takeGroupOf(h), (counts.get(takeGroupOf(h)) ?? 0) + 1));
+    return counts;
+  }, [history]);
+  const selectedItems = history.filter(h => selectedIds.has(h.id));
+  const historyLocales = useMemo(
+    () => [...new Set(history.flatMap(h => h.localization ? [h.localization.locale] : []))].sort(),
+    [history]
+  );
+
+  // Runs the chain on a new clip when it's applied at generation; the raw clip is kept for before/after
+  const processGenerated = async (raw: AudioBuffer): Promise<{ buffer: AudioBuffer; processed: ProcessedAudio | null }> => {
+    if (processingMode !== 'generation') return { buffer: raw, processed: null };
+    const processed = await processAudio(raw, processingChain);
+    return { buffer: processed.buffer, processed: { buffer: raw, report: processed.report } };
+  };
+
+  // Exports get the chain here unless it was already applied at generation (batch clips
+  // never are, so they pass chainApplied = false), then go over the music bed if it's on
+  const prepareForExport = async (buffer: AudioBuffer, chainApplied = processingMode !== 'export', withBed = musicBedEnabled) => {
+    const processed = !chainApplied && processingMode !== 'off' ? (await processAudio(buffer, processingChain)).buffer : buffer;
+    return musicBed && withBed ? mixWithMusicBed(processed, musicBed.buffer, musicBedSettings) : processed;
+  };
+
+  // Only remote providers are metered; local generations are free and never logged
+  const handleUsage = useCallback((record: UsageRecord) => {
+    if (!getProvider(record.provider).capabilities.remote) return;
+    setUsageRecords(prev => [...prev, record]);
+    saveUsageRecord(record).catch(err => console.error("Failed to save usage:", err));
+  }, []);
+
+  const logUsage = (meter: UsageMeter, source: UsageSource) => {
+    if (!meter.isEmpty) handleUsage(meter.toRecord(source));
+  };
+
+  // Asks before a generation that would take any budget past its limit
+  const confirmBudget = useCallback((estimate: UsageEstimate) => {
+    if (!getProvider(estimate.provider).capabilities.remote) return true;
+    const warnings = budgetWarnings(usageRecords, usageBudgets, estimate);
+    return warnings.length === 0 || window.confirm(
+      `This generation would go over your usage budget:\n\n${warnings.join('\n')}\n\nGenerate anyway?`
+    );
+  }, [usageRecords, usageBudgets]);
+
+  const handleBudgetsChange = (budgets: UsageBudgets) => {
+    setUsageBudgets(budgets);
+    saveBudgets(budgets).catch(err => console.error("Failed to save budgets:", err));
+  };
+
+  const handleClearUsage = async () => {
+    try {
+      await clearUsageRecords();
+      setUsageRecords([]);
+    } catch (err: any) {
+      setError(err.message || "Failed to clear the usage log.");
+    }
+  };
+
+  const addToHistory = (generated: GeneratedAudio, autoplay = true, raw: ProcessedAudio | null = null) => {
+    const newItem = assignTake(generated, historyRef.current);
+    historyRef.current = [newItem, ...historyRef.current];
+    if (raw) rawBuffersRef.current.set(newItem.id, raw);
+    setHistory(prev => [newItem, ...prev]);
+    saveHistoryItem(newItem)
+      .then(refreshStorageUsage)
+      .catch(err => console.error("Failed to save generation:", err));
+    
+    // Auto-play the new generation
+    if (autoplay) playAudio(newItem);
+  };
+
+  // Streams a single request, playing each piece as it arrives. The finished clip
+  // goes into history without replaying; it becomes the "now playing" item if the
+  // stream is still audible.
+  const runStreaming = async (params: GenerationParams, options: SpeechOptions & { meter: UsageMeter }) => {
+    const { text, voice, style, engine, profile, lexicon } = params;
+    const ctx = getAudioContext();
+    const scheduler = new StreamScheduler(ctx, analyserRef.current!, () => {
+      if (streamRef.current === scheduler) streamRef.current = null;
       setIsPlaying(false);
       setCurrentAudioId(null);
-    };
+    });
+    streamRef.current = scheduler;
 
-    source.start();
-    sourceNodeRef.current = source;
-    setCurrentAudioId(item.id);
-    setIsPlaying(true);
-  }, [currentAudioId, isPlaying, getAudioContext, stopPlayback]);
+    try {
+      const rawBuffer = await streamSpeech(text, voice, ctx, engine, style, (piece) => {
+        if (streamRef.current !== scheduler) return;
+        const first = scheduler.startTime === null;
+        scheduler.enqueue(piece);
+        if (first) {
+          playbackStartRef.current = scheduler.startTime!;
+          setCurrentAudioId(STREAMING_AUDIO_ID);
+          setIsPlaying(true);
+        }
+      }, lexicon, options);
+      const { buffer: audioBuffer, processed } = await processGenerated(rawBuffer);
+
+      const item: GeneratedAudio = {
+        id: generateId(),
+        text: text,
+        voice: voice,
+        timestamp: Date.now(),
+        audioBuffer: audioBuffer,
+        duration: audioBuffer.duration,
+        style: style,
+        captions: buildCaptionsForText(audioBuffer, getSpokenText({ text })),
+        engine: engine,
+        processing: processed ? processingLabel : undefined,
+        profile: profile,
+        usage: options.meter.summary
+      };
+      if (streamRef.current === scheduler) {
+        setCurrentAudioId(item.id);
+        scheduler.finish();
+      }
+      addToHistory(item, false, processed);
+    } catch (err) {
+      if (streamRef.current === scheduler) stopPlayback();
+      throw err;
+    }
+  };
+
+  const runGeneration = async (params: GenerationParams) => {
+    const { text, voice, script, style, engine, profile, lexicon } = params;
+
+    // Markup and long texts go out as one request per chunk. Breaks are inserted as
+    // real silence between the separately generated pieces.
+    let chunks: TextChunk[] | null = null;
+    if (!script && containsMarkup(text)) {
+      try {
+        chunks = markupToChunks(parseMarkup(text), MAX_CHUNK_CHARS);
+      } catch (err: any) {
+        setError(err.message);
+        return;
+      }
+    } else if (!script && text.length > MAX_CHUNK_CHARS) {
+      chunks = splitText(text, MAX_CHUNK_CHARS);
+    }
+
+    // A dialogue is one request when the provider can voice all its speakers at once
+    const parts = script
+      ? script.lines.map(line => ({ voice: script.speakers[line.speaker], text: line.text }))
+      : (chunks ?? [{ text }]).map(chunk => ({ voice, text: chunk.text }));
+    const requests = script && getSpeakers(script.lines).length <= getProvider(engine.provider).capabilities.maxSpeakers ? 1 : parts.length;
+    if (!confirmBudget(estimateUsage(engine, parts, requests))) return;
+
+    if (chunks) {
+      chunkBuffersRef.current = chunks.map(() => null);
+      await runChunks({ ...params, chunks, progress: chunks.map(() => ({ status: 'pending' })) });
+      return;
+    }
 
-  const handleGenerate = async () => {
-    if (!inputText.trim()) return;
-    
     setError(null);
     setIsGenerating(true);
     stopPlayback();
+    const meter = new UsageMeter(engine);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const options = { meter, signal: controller.signal, cache: params.cache };
 
     try {
+      if (!script && streamPlayback && getProvider(engine.provider).capabilities.streaming) {
+        await runStreaming(params, options);
+        return;
+      }
+
       const ctx = getAudioContext();
-      const audioBuffer = await generateSpeech(inputText, selectedVoice, ctx);
+      const rawBuffer = script
+        ? await generateDialogue(script, ctx, engine, style, lexicon, options)
+        : await generateSpeech(text, voice, ctx, engine, style, lexicon, options);
+      const { buffer: audioBuffer, processed } = await processGenerated(rawBuffer);
       
-      const newItem: GeneratedAudio = {
+      addToHistory({
         id: generateId(),
-        text: inputText,
-        voice: selectedVoice,
+        text: text,
+        voice: voice,
         timestamp: Date.now(),
         audioBuffer: audioBuffer,
-        duration: audioBuffer.duration
-      };
-
-      setHistory(prev => [newItem, ...prev]);
-      
-      // Auto-play the new generation
-      playAudio(newItem);
+        duration: audioBuffer.duration,
+        script: script,
+        style: style,
+        captions: buildCaptionsForText(audioBuffer, getSpokenText({ text, script })),
+        engine: engine,
+        processing: processed ? processingLabel : undefined,
+        profile: profile,
+        usage: meter.summary
+      }, true, processed);
       
     } catch (err: any) {
-      setError(err.message || "Failed to generate speech. Please try again.");
+      if (!isAbortError(err)) setError(classifyError(err));
     } finally {
+      logUsage(meter, 'editor');
+      abortRef.current = null;
       setIsGenerating(false);
     }
   };
 
-  const handleDownload = (item: GeneratedAudio) => {
-    if (!item.audioBuffer) return;
-    
-    // Quick WAV export logic
-    const buffer = item.audioBuffer;
-    const numOfChan = buffer.numberOfChannels;
-    const length = buffer.length * numOfChan * 2 + 44;
-    const bufferOut = new ArrayBuffer(length);
-    const view = new DataView(bufferOut);
-    const channels = [];
-    let i;
-    let sample;
-    let offset = 0;
-    let pos = 0;
-
-    // write WAVE header
-    setUint32(0x46464952);                         // "RIFF"
-    setUint32(length - 8);                         // file length - 8
-    setUint32(0x45564157);                         // "WAVE"
-
-    setUint32(0x20746d66);                         // "fmt " chunk
-    setUint32(16);                                 // length = 16
-    setUint16(1);                                  // PCM (uncompressed)
-    setUint16(numOfChan);
-    setUint32(buffer.sampleRate);
-    setUint32(buffer.sampleRate * 2 * numOfChan);  // avg. bytes/sec
-    setUint16(numOfChan * 2);                      // block-align
-    setUint16(16);                                 // 16-bit (hardcoded in this example)
-
-    setUint32(0x61746164);                         // "data" - chunk
-    setUint32(length - pos - 4);                   // chunk length
-
-    // write interleaved data
-    for(i = 0; i < buffer.numberOfChannels; i++)
-      channels.push(buffer.getChannelData(i));
-
-    while(pos < buffer.length) {
-      for(i = 0; i < numOfChan; i++) {             // interleave channels
-        sample = Math.max(-1, Math.min(1, channels[i][pos])); // clamp
-        sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767)|0; // scale to 16-bit signed int
-        view.setInt16(44 + offset, sample, true);          // write 16-bit sample
-        offset += 2;
+  // Generates the missing chunks of a session (or only `indices`), then joins them once all are present
+  const runChunks = async (session: ChunkSession, indices?: number[]) => {
+    setError(null);
+    setIsGenerating(true);
+    setChunkSession(session);
+    stopPlayback();
+    const meter = new UsageMeter(session.engine);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const ctx = getAudioContext();
+      const buffers = await generateSpeechChunks(
+        session.chunks,
+        session.voice,
+        ctx,
+        session.engine,
+        session.style,
+        chunkBuffersRef.current,
+        (index, progress) => setChunkSession(prev => prev && {
+          ...prev,
+          progress: prev.progress.map((p, i) => i === index ? progress : p)
+        }),
+        indices,
+        session.lexicon,
+        { meter, signal: controller.signal, cache: session.cache }
+      );
+      chunkBuffersRef.current = buffers;
+      const usage = combineUsage(session.usage ?? null, meter.summary);
+
+      const failedCount = buffers.filter(b => !b).length;
+      if (failedCount > 0) {
+        setChunkSession(prev => prev && { ...prev, usage });
+        // A cancelled session stays open so it can be resumed
+        if (controller.signal.aborted) return;
+        setError(`${failedCount} of ${session.chunks.length} chunks failed. Retry them below to finish the clip.`);
+        return;
+      }
+
+      const gaps = session.chunks.map(chunk => chunk.breakAfter ??
+        (chunk.pauseAfter === 'paragraph' ? joinSettings.paragraphPauseMs : joinSettings.sentencePauseMs) / 1000
+      );
+      const { buffer: joined, starts } = joinWithCrossfade(buffers as AudioBuffer[], ctx, gaps, joinSettings.crossfadeMs / 1000);
+      const { buffer: audioBuffer, processed } = await processGenerated(joined);
+      // Chunk boundaries are known exactly, so captions are aligned chunk by chunk
+      const shift = processed?.report.trimmedStart ?? 0;
+      const toProcessed = (time: number) => Math.max(0, Math.min(audioBuffer.duration, time - shift));
+      const captions = buildCaptions(audioBuffer, session.chunks.map((chunk, i) => ({
+        text: chunk.text,
+        start: toProcessed(starts[i]),
+        end: toProcessed(starts[i + 1] ?? joined.duration),
+      })));
+
+      setChunkSession(null);
+      chunkBuffersRef.current = [];
+      addToHistory({
+        id: generateId(),
+        text: session.text,
+        voice: session.voice,
+        timestamp: Date.now(),
+        audioBuffer: audioBuffer,
+        duration: audioBuffer.duration,
+        style: session.style,
+        captions: captions,
+        engine: session.engine,
+        processing: processed ? processingLabel : undefined,
+        profile: session.profile,
+        usage: usage
+      }, true, processed);
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(classifyError(err));
+    } finally {
+      logUsage(meter, 'editor');
+      abortRef.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  const handleRetryChunks = (index?: number) => {
+    if (!chunkSession) return;
+    runChunks(chunkSession, index === undefined ? undefined : [index]);
+  };
+
+  const handleDiscardChunks = () => {
+    setChunkSession(null);
+    chunkBuffersRef.current = [];
+    setError(null);
+  };
+
+  // Delivery panel settings override the profile's defaults field by field
+  const generationStyle = normalizeStyle({ ...selectedProfile?.style, ...normalizeStyle(deliveryStyle) });
+  const generationLexicon = [...(selectedProfile?.lexicon ?? []), ...lexiconEntries];
+
+  const handleGenerate = () => {
+    if (!inputText.trim()) return;
+
+    const style = generationStyle;
+    const cache: CacheMode = forceRegenerate ? 'refresh' : 'use';
+    const profileParams = {
+      profile: selectedProfile?.name,
+      lexicon: generationLexicon,
+      cache,
+    };
+    if (!isScriptMode) {
+      runGeneration({ text: inputText, voice: selectedVoice, style, engine: ttsEngine, ...profileParams });
+      return;
+    }
+
+    if (parsedScript.error || parsedScript.lines.length === 0) {
+      setError(parsedScript.error || "Script has no lines to speak.");
+      return;
+    }
+    const script: DialogueScript = { lines: parsedScript.lines, speakers: speakerVoices };
+    runGeneration({ text: formatScript(script), voice: speakerVoices[parsedScript.lines[0].speaker], script, style, engine: ttsEngine, ...profileParams });
+  };
+
+  // A different voice only applies to single-voice clips; dialogues keep their cast
+  const handleRegenerate = (item: GeneratedAudio, voice = item.voice) => {
+    // The profile's own overrides still apply if it hasn't been deleted or renamed since
+    const profile = voiceProfiles.find(p => p.name === item.profile);
+    return runGeneration({
+      text: item.text,
+      voice: voice,
+      script: item.script,
+      style: item.style,
+      engine: item.engine ?? DEFAULT_TTS_SELECTION,
+      // The profile is named only while its voice is the one speaking
+      profile: voice === item.voice ? item.profile : undefined,
+      lexicon: [...(profile?.lexicon ?? []), ...lexiconEntries],
+      // Asking for the same clip again means a new take, not the cached one
+      cache: 'refresh',
+    });
+  };
+
+  const handleSelectVoice = (voice: VoiceName) => {
+    setSelectedVoice(voice);
+    setSelectedProfileId(null);
+  };
+
+  // A profile brings its base voice and, if it has one, its processing preset
+  const handleSelectProfile = (profile: VoiceProfile) => {
+    setSelectedVoice(profile.baseVoice);
+    setSelectedProfileId(profile.id);
+    const preset = presets.find(p => p.id === profile.presetId);
+    if (preset) {
+      handleSelectPreset(preset);
+      if (processingMode === 'off') setProcessingMode('generation');
+    }
+  };
+
+  const handleSaveProfile = async (profile: VoiceProfile) => {
+    try {
+      await saveVoiceProfile(profile);
+      setVoiceProfiles(prev => [...prev.filter(p => p.id !== profile.id), profile].sort((a, b) => a.name.localeCompare(b.name)));
+      setEditingProfile(null);
+    } catch (err: any) {
+      console.error("Failed to save voice profile:", err);
+      setError(err.message || "Failed to save the voice profile.");
+    }
+  };
+
+  const handleNewProfile = (profile: VoiceProfile | null) => {
+    setEditingProfile(profile ?? {
+      id: generateId(),
+      name: '',
+      baseVoice: selectedVoice,
+      description: '',
+      tags: [],
+      style: normalizeStyle(deliveryStyle),
+      lexicon: [],
+      updatedAt: Date.now(),
+    });
+  };
+
+  const handleDuplicateProfile = (profile: VoiceProfile) => {
+    handleSaveProfile({
+      ...profile,
+      id: generateId(),
+      name: `${profile.name} copy`,
+      lexicon: profile.lexicon.map(entry => ({ ...entry, id: generateId() })),
+      updatedAt: Date.now(),
+    });
+  };
+
+  const handleDeleteProfile = async (profile: VoiceProfile) => {
+    if (!window.confirm(`Delete the voice profile "${profile.name}"?`)) return;
+    setVoiceProfiles(prev => prev.filter(p => p.id !== profile.id));
+    if (selectedProfileId === profile.id) setSelectedProfileId(null);
+    try {
+      await deleteVoiceProfile(profile.id);
+    } catch (err) {
+      console.error("Failed to delete voice profile:", err);
+    }
+  };
+
+  const handleDelete = async (item: GeneratedAudio) => {
+    if (currentAudioId === item.id) stopPlayback();
+    setHistory(prev => prev.filter(h => h.id !== item.id));
+    rawBuffersRef.current.delete(item.id);
+    try {
+      await deleteHistoryItem(item.id);
+    } catch (err) {
+      console.error("Failed to delete saved generation:", err);
+    }
+    refreshStorageUsage();
+  };
+
+  // Metadata changes are saved without rewriting the clip's audio
+  const updateItem = (id: string, patch: HistoryItemPatch) => {
+    setHistory(prev => prev.map(h => h.id === id ? { ...h, ...patch } : h));
+    updateHistoryItem(id, patch).catch(err => console.error("Failed to save changes:", err));
+  };
+
+  // Makes a take the one shown for its group, or unmarks it so the newest is shown
+  const handleToggleBest = (item: GeneratedAudio) => {
+    const group = takeGroupOf(item);
+    const makeBest = !item.best;
+    history.forEach(h => {
+      if (takeGroupOf(h) !== group) return;
+      const best = makeBest && h.id === item.id;
+      if (best !== !!h.best) updateItem(h.id, { best });
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  const toggleExpandedTakes = (group: string) => {
+    setExpandedTakes(prev => {
+      const next = new Set(prev);
+      if (!next.delete(group)) next.add(group);
+      return next;
+    });
+  };
+
+  // Selects every clip the list is showing
+  const handleSelectVisible = () => {
+    setSelectedIds(new Set(historyEntries.flatMap(entry => entry.kind === 'group'
+      ? entry.items.map(item => item.id)
+      : expandedTakes.has(takeGroupOf(entry.item)) ? entry.takes.map(take => take.id) : [entry.item.id]
+    )));
+  };
+
+  const handleDeleteSelected = async () => {
+    const items = selectedItems;
+    if (items.length === 0 || !window.confirm(`Delete ${items.length} selected generation${items.length === 1 ? '' : 's'}? This cannot be undone.`)) return;
+    const ids = new Set(items.map(item => item.id));
+    if (currentAudioId && ids.has(currentAudioId)) stopPlayback();
+    setHistory(prev => prev.filter(h => !ids.has(h.id)));
+    setSelectedIds(new Set());
+    ids.forEach(id => rawBuffersRef.current.delete(id));
+    try {
+      for (const item of items) await deleteHistoryItem(item.id);
+    } catch (err) {
+      console.error("Failed to delete saved generations:", err);
+    }
+    refreshStorageUsage();
+  };
+
+  // Regenerates the selection one clip at a time; each result becomes a new take
+  const handleRegenerateSelected = async (voice: VoiceName) => {
+    const controller = new AbortController();
+    bulkAbortRef.current = controller;
+    try {
+      for (const item of selectedItems) {
+        if (controller.signal.aborted) break;
+        await handleRegenerate(item, item.script ? item.voice : voice);
       }
-      pos++;
+    } finally {
+      bulkAbortRef.current = null;
+    }
+  };
+
+  const handleDownloadSelected = async () => {
+    const items = selectedItems.filter(item => item.audioBuffer);
+    if (items.length === 0) return;
+
+    setExportingId('selected');
+    try {
+      const blob = await exportHistoryZip(items, exportOptions, buffer => prepareForExport(buffer));
+      downloadBlob(blob, `gemini-voice-selection-${items.length}.zip`);
+    } catch (err: any) {
+      console.error("Export failed:", err);
+      setError(err.message || "Failed to export the selected clips.");
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    if (!window.confirm("Delete all saved generations? This cannot be undone.")) return;
+    stopPlayback();
+    setHistory([]);
+    setSelectedIds(new Set());
+    rawBuffersRef.current.clear();
+    try {
+      await clearHistory();
+    } catch (err) {
+      console.error("Failed to clear saved history:", err);
+    }
+    refreshStorageUsage();
+  };
+
+  const handleDownloadCaptions = (item: GeneratedAudio, format: 'srt' | 'vtt') => {
+    const cues = getCaptions(item);
+    const content = format === 'srt' ? toSrt(cues) : toWebVtt(cues);
+    const blob = new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' });
+    downloadBlob(blob, `gemini-voice-${item.voice}-${item.id}.${format}`);
+  };
+
+  // Timeline renders are played like any other clip, without being added to history
+  const handlePreviewTimeline = ({ buffer, segments, voice }: RenderedTimeline) => {
+    playAudio({
+      id: 'timeline-preview',
+      text: 'Timeline preview',
+      voice: voice,
+      timestamp: Date.now(),
+      audioBuffer: buffer,
+      duration: buffer.duration,
+      captions: buildCaptions(buffer, segments),
+    });
+  };
+
+  const handleExportTimeline = async ({ buffer }: RenderedTimeline, name: string) => {
+    try {
+      const blob = await exportAudio(await prepareForExport(buffer), exportOptions);
+      downloadBlob(blob, getExportFilename(name.trim().replace(/[^\w-]+/g, '-') || 'timeline', exportOptions));
+    } catch (err: any) {
+      console.error("Export failed:", err);
+      setError(err.message || "Failed to export audio.");
+    }
+  };
+
+  const handleTimelineToHistory = ({ buffer, segments, voice }: RenderedTimeline, name: string) => {
+    addToHistory({
+      id: generateId(),
+      text: segments.map(s => s.text).join('\n') || name,
+      voice: voice,
+      timestamp: Date.now(),
+      audioBuffer: buffer,
+      duration: buffer.duration,
+      captions: buildCaptions(buffer, segments)
+    });
+  };
+
+  // The take is processed like a fresh generation; the compare run already applied the lexicon
+  const handlePromoteTake = async (variant: CompareVariant, rawBuffer: AudioBuffer, usage?: GenerationUsage) => {
+    try {
+      const { buffer, processed } = await processGenerated(rawBuffer);
+      addToHistory({
+        id: generateId(),
+        text: inputText,
+        voice: variant.voice,
+        timestamp: Date.now(),
+        audioBuffer: buffer,
+        duration: buffer.duration,
+        style: variant.style,
+        captions: buildCaptionsForText(buffer, getSpokenText({ text: inputText })),
+        engine: ttsEngine,
+        processing: processed ? processingLabel : undefined,
+        usage: usage
+      }, false, processed);
+    } catch (err: any) {
+      setError(err.message || "Failed to add the take to history.");
+    }
+  };
+
+  // Chapter boundaries within the clip are known, so captions are aligned piece by piece
+  const handleChapterGenerated = async ({ chapter, buffer: rawBuffer, segments, voice, style, engine, usage }: GeneratedChapter) => {
+    try {
+      const { buffer, processed } = await processGenerated(rawBuffer);
+      const shift = processed?.report.trimmedStart ?? 0;
+      const toProcessed = (time: number) => Math.max(0, Math.min(buffer.duration, time - shift));
+      addToHistory({
+        id: generateId(),
+        text: chapter.text,
+        voice: voice,
+        timestamp: Date.now(),
+        audioBuffer: buffer,
+        duration: buffer.duration,
+        style: style,
+        captions: buildCaptions(buffer, segments.map(s => ({ ...s, start: toProcessed(s.start), end: toProcessed(s.end) }))),
+        engine: engine,
+        processing: processed ? processingLabel : undefined,
+        profile: selectedProfile?.name,
+        usage: usage
+      }, false, processed);
+    } catch (err: any) {
+      setError(err.message || `Failed to add "${chapter.title}" to history.`);
     }
+  };
 
-    // Helper functions for WAV header
-    function setUint16(data: number) {
-      view.setUint16(pos, data, true);
-      pos += 2;
+  const handleTranslationGenerated = async ({ localization, text, buffer: rawBuffer, voice, style, engine, usage }: GeneratedTranslation) => {
+    try {
+      const { buffer, processed } = await processGenerated(rawBuffer);
+      addToHistory({
+        id: generateId(),
+        text: text,
+        voice: voice,
+        timestamp: Date.now(),
+        audioBuffer: buffer,
+        duration: buffer.duration,
+        style: style,
+        captions: buildCaptionsForText(buffer, getSpokenText({ text })),
+        engine: engine,
+        processing: processed ? processingLabel : undefined,
+        usage: usage,
+        localization: localization
+      }, false, processed);
+    } catch (err: any) {
+      setError(err.message || `Failed to add the ${localization.locale} line to history.`);
     }
-    function setUint32(data: number) {
-      view.setUint32(pos, data, true);
-      pos += 4;
+  };
+
+  // The newest clip of every source line in one language, as a ZIP
+  const handleExportLanguage = async (locale: string) => {
+    const seen = new Set<string>();
+    const clips = history.flatMap(item => {
+      const info = item.localization;
+      if (info?.locale !== locale || !item.audioBuffer || seen.has(info.groupId)) return [];
+      seen.add(info.groupId);
+      return [{ line: info.line, sourceText: info.sourceText, text: item.text, voice: item.voice, buffer: item.audioBuffer }];
+    });
+    if (clips.length === 0) return;
+
+    setExportingId(`locale-${locale}`);
+    try {
+      const blob = await exportLocaleZip(locale, clips, exportOptions, buffer => prepareForExport(buffer));
+      downloadBlob(blob, `localized-${locale}.zip`);
+    } catch (err: any) {
+      console.error("Export failed:", err);
+      setError(err.message || `Failed to export ${localeName(locale)}.`);
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const handleDownload = async (item: GeneratedAudio) => {
+    if (!item.audioBuffer) return;
+
+    setExportingId(item.id);
+    try {
+      const blob = await exportAudio(await prepareForExport(item.audioBuffer), exportOptions);
+      downloadBlob(blob, getExportFilename(`gemini-voice-${item.voice}-${item.id}`, exportOptions));
+    } catch (err: any) {
+      console.error("Export failed:", err);
+      setError(err.message || "Failed to export audio.");
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const handleSelectPreset = (preset: ProcessingPreset) => {
+    setPresetId(preset.id);
+    setProcessingChain(preset.chain);
+  };
+
+  const handleSavePreset = async (name: string, overwrite: boolean) => {
+    const preset: ProcessingPreset = { id: overwrite ? presetId : generateId(), name, chain: processingChain };
+    try {
+      await savePreset(preset);
+      setCustomPresets(prev => [...prev.filter(p => p.id !== preset.id), preset].sort((a, b) => a.name.localeCompare(b.name)));
+      setPresetId(preset.id);
+    } catch (err: any) {
+      console.error("Failed to save preset:", err);
+      setError(err.message || "Failed to save the preset.");
+    }
+  };
+
+  const handleDeletePreset = async (preset: ProcessingPreset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    try {
+      await deletePreset(preset.id);
+      setCustomPresets(prev => prev.filter(p => p.id !== preset.id));
+      handleSelectPreset(BUILT_IN_PRESETS[0]);
+    } catch (err) {
+      console.error("Failed to delete preset:", err);
+    }
+  };
+
+  // Swaps the loaded clip between its raw and processed versions, keeping the position
+  const showComparison = (next: ProcessingComparison, version: 'before' | 'after') => {
+    const player = playerRef.current;
+    if (!player) return;
+    const wasPlaying = isPlaying;
+    const time = comparison ? mapComparisonTime(next, player.currentTime, comparison.showing, version) : player.currentTime;
+    player.load(next[version]);
+    player.seek(time);
+    setComparison({ ...next, showing: version });
+    if (wasPlaying) player.play().catch(err => console.error("Playback failed:", err));
+  };
+
+  // Processes the loaded clip with the current settings so it can be compared with the original
+  const handlePreviewProcessing = async () => {
+    if (!loadedItem?.audioBuffer) return;
+    setIsComparing(true);
+    try {
+      const { buffer, report } = await processAudio(loadedItem.audioBuffer, processingChain);
+      showComparison({
+        itemId: loadedItem.id,
+        before: loadedItem.audioBuffer,
+        after: buffer,
+        report: report,
+        showing: 'before',
+        original: 'before',
+      }, 'after');
+    } catch (err: any) {
+      console.error("Processing failed:", err);
+      setError(err.message || "Failed to process audio.");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const processBatchClip = processingMode === 'off' && !(musicBed && musicBedEnabled)
+    ? undefined
+    : (buffer: AudioBuffer) => prepareForExport(buffer, false);
+
+  // Plays the current clip the way it would be exported, over the music bed
+  const handlePreviewMusicBed = async () => {
+    const item = currentItem;
+    if (!item?.audioBuffer || !musicBed) return;
+    setIsMixingPreview(true);
+    try {
+      const mixed = await prepareForExport(item.audioBuffer, processingMode !== 'export', true);
+      const shift = musicBedSettings.intro;
+      playAudio({
+        ...item,
+        id: MUSIC_BED_PREVIEW_ID,
+        audioBuffer: mixed,
+        duration: mixed.duration,
+        captions: getCaptions(item).map(cue => ({
+          ...cue,
+          start: cue.start + shift,
+          end: cue.end + shift,
+          words: cue.words?.map(word => ({ ...word, start: word.start + shift, end: word.end + shift })),
+        })),
+      });
+    } catch (err: any) {
+      console.error("Music bed mix failed:", err);
+      setError(err.message || "Failed to mix the music bed.");
+    } finally {
+      setIsMixingPreview(false);
     }
+  };
 
-    const blob = new Blob([bufferOut], { type: 'audio/wav' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `gemini-voice-${item.voice}-${item.id}.wav`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const activeComparison = comparison && comparison.itemId === loadedItem?.id ? comparison : null;
+
+  // One clip in the history list; localized clips and other takes are rendered inside their entry
+  const renderHistoryItem = (item: GeneratedAudio) => {
+    const takeCount = takeCounts.get(takeGroupOf(item)) ?? 1;
+    return (
+      <div 
+        key={item.id} 
+        draggable={!!item.audioBuffer}
+        onDragStart={(e) => {
+          e.dataTransfer.setData(HISTORY_DRAG_TYPE, item.id);
+          e.dataTransfer.effectAllowed = 'copy';
+        }}
+        className={`
+          group bg-slate-900 border rounded-xl p-4 transition-all
+          ${currentAudioId === item.id 
+            ? 'border-blue-500/50 bg-blue-900/10' 
+            : 'border-slate-800 hover:border-slate-700'
+          }
+        `}
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4 justify-between">
+          <div className="flex items-start gap-4 flex-1">
+            <input
+              type="checkbox"
+              checked={selectedIds.has(item.id)}
+              onChange={() => toggleSelected(item.id)}
+              className="mt-4 accent-blue-500 shrink-0"
+              title="Select"
+            />
+            <button
+              onClick={() => playAudio(item)}
+              className={`
+                w-12 h-12 rounded-full flex items-center justify-center shrink-0 transition-all
+                ${currentAudioId === item.id 
+                  ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/30' 
+                  : 'bg-slate-800 text-slate-400 group-hover:bg-slate-700 group-hover:text-white'
+                }
+              `}
+            >
+              {currentAudioId === item.id && isPlaying ? (
+                 <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+                  <path fillRule="evenodd" d="M6.75 5.25a.75.75 0 01.75-.75H9a.75.75 0 01.75.75v13.5a.75.75 0 01-.75.75H7.5a.75.75 0 01-.75-.75V5.25zm7.5 0A.75.75 0 0115 4.5h1.5a.75.75 0 01.75.75v13.5a.75.75 0 01-.75.75H15a.75.75 0 01-.75-.75V5.25z" clipRule="evenodd" />
+                </svg>
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 ml-0.5">
+                  <path fillRule="evenodd" d="M4.5 5.653c0-1.426 1.529-2.33 2.779-1.643l11.54 6.348c1.295.712 1.295 2.573 0 3.285L7.28 19.991c-1.25.687-2.779-.217-2.779-1.643V5.653z" clipRule="evenodd" />
+                </svg>
+              )}
+            </button>
+          
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="px-2 py-0.5 rounded text-xs font-bold bg-slate-800 text-slate-300 border border-slate-700">
+                  {item.voice}
+                </span>
+                {takeCount > 1 && (
+                  <span
+                    className={`px-2 py-0.5 rounded text-xs font-medium border ${item.best ? 'bg-yellow-900/30 text-yellow-300 border-yellow-800/50' : 'bg-slate-800/60 text-slate-400 border-slate-700/50'}`}
+                    title={item.best ? 'Chosen as the best take' : undefined}
+                  >
+                    Take {takeNumberOf(item)} of {takeCount}{item.best ? ' · Best' : ''}
+                  </span>
+                )}
+                {item.localization && (
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-amber-900/30 text-amber-300 border border-amber-800/50" title={localeName(item.localization.locale)}>
+                    {item.localization.locale}
+                  </span>
+                )}
+                {item.script && (
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-purple-900/40 text-purple-300 border border-purple-800/50">
+                    Dialogue · {Object.keys(item.script.speakers).length} speakers
+                  </span>
+                )}
+                {item.profile && (
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-purple-900/30 text-purple-300 border border-purple-800/50">
+                    {item.profile}
+                  </span>
+                )}
+                {item.processing && (
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-900/30 text-green-300 border border-green-800/50" title="Post-processed at generation">
+                    {item.processing}
+                  </span>
+                )}
+                {item.style && (
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-blue-900/30 text-blue-300 border border-blue-800/50 truncate max-w-[16rem]" title={summarizeStyle(item.style)}>
+                    {summarizeStyle(item.style)}
+                  </span>
+                )}
+                {item.usage?.cacheHits ? (
+                  <span
+                    className="px-2 py-0.5 rounded text-xs font-medium bg-teal-900/30 text-teal-300 border border-teal-800/50"
+                    title="Served from the synthesis cache, without a new API call"
+                  >
+                    {item.usage.requests === 0 ? 'Cached' : `${item.usage.cacheHits} of ${item.usage.cacheHits + item.usage.requests} cached`}
+                  </span>
+                ) : null}
+                {item.usage && item.usage.requests > 0 && (
+                  <span className="px-2 py-0.5 rounded text-xs font-mono bg-slate-800/60 text-slate-400 border border-slate-700/50" title={formatUsage(item.usage)}>
+                    {item.usage.characters.toLocaleString()} ch
+                  </span>
+                )}
+                <span className="text-xs text-slate-500">
+                  {new Date(item.timestamp).toLocaleTimeString()}
+                </span>
+              </div>
+              <p className="text-slate-300 text-sm line-clamp-2 whitespace-pre-line">
+                {item.text}
+              </p>
+              {(item.tags?.length || item.notes) && (
+                <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+                  {item.tags?.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => setHistoryFilter(prev => ({ ...prev, query: tag }))}
+                      className="px-1.5 py-0.5 rounded text-[11px] bg-slate-800 text-slate-400 hover:text-blue-300 transition-colors"
+                      title="Search for this tag"
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                  {item.notes && <span className="text-xs text-slate-500 italic line-clamp-1">{item.notes}</span>}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 sm:self-center pl-16 sm:pl-0">
+            <button
+              onClick={() => updateItem(item.id, { favorite: !item.favorite })}
+              className={`p-2 rounded-lg hover:bg-slate-800 transition-colors ${item.favorite ? 'text-yellow-400' : 'text-slate-400 hover:text-yellow-400'}`}
+              title={item.favorite ? 'Remove from favorites' : 'Add to favorites'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill={item.favorite ? 'currentColor' : 'none'} viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.499a.562.562 0 011.04 0l2.125 5.111a.563.563 0 00.475.345l5.518.442c.499.04.701.663.321.988l-4.204 3.602a.563.563 0 00-.182.557l1.285 5.385a.562.562 0 01-.84.61l-4.725-2.885a.563.563 0 00-.586 0L6.982 20.54a.562.562 0 01-.84-.61l1.285-5.386a.562.562 0 00-.182-.557l-4.204-3.602a.563.563 0 01.321-.988l5.518-.442a.563.563 0 00.475-.345L11.48 3.5z" />
+              </svg>
+            </button>
+            {takeCount > 1 && (
+              <button
+                onClick={() => handleToggleBest(item)}
+                className={`px-1.5 py-1 text-[10px] font-bold uppercase tracking-wide border rounded-md transition-colors ${item.best ? 'text-yellow-300 border-yellow-800/60 hover:bg-slate-800' : 'text-slate-400 hover:text-yellow-300 hover:bg-slate-800 border-slate-700'}`}
+                title={item.best ? 'Stop showing this take first' : 'Show this take for its group'}
+              >
+                Best
+              </button>
+            )}
+            <button
+              onClick={() => setDetailsId(detailsId === item.id ? null : item.id)}
+              className={`p-2 rounded-lg hover:bg-slate-800 transition-colors ${detailsId === item.id ? 'text-blue-400' : 'text-slate-400 hover:text-blue-400'}`}
+              title="Tags and notes"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9.568 3H5.25A2.25 2.25 0 003 5.25v4.318c0 .597.237 1.17.659 1.591l9.581 9.581c.699.699 1.78.872 2.607.33a18.095 18.095 0 005.223-5.223c.542-.827.369-1.908-.33-2.607L11.16 3.66A2.25 2.25 0 009.568 3z" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 6h.008v.008H6V6z" />
+              </svg>
+            </button>
+            <button 
+              onClick={() => handleRegenerate(item)}
+              disabled={isGenerating}
+              className="p-2 text-slate-400 hover:text-purple-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Regenerate"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+              </svg>
+            </button>
+             <button 
+              onClick={() => handleDownload(item)}
+              disabled={exportingId === item.id}
+              className={`p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors ${exportingId === item.id ? 'animate-pulse' : ''}`}
+              title={`Download ${EXPORT_FORMATS[exportOptions.format].label}`}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+              </svg>
+            </button>
+            {(['srt', 'vtt'] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleDownloadCaptions(item, format)}
+                className="px-1.5 py-1 text-[10px] font-bold uppercase tracking-wide text-slate-400 hover:text-blue-400 hover:bg-slate-800 border border-slate-700 rounded-md transition-colors"
+                title={`Download ${format === 'srt' ? 'SRT' : 'WebVTT'} captions`}
+              >
+                {format}
+              </button>
+            ))}
+            <button 
+              onClick={() => handleDelete(item)}
+              className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors"
+              title="Delete"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.76-2.164-1.978-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-1.918 1.022-1.918 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Saved when the field loses focus */}
+        {detailsId === item.id && (
+          <div className="mt-3 pt-3 border-t border-slate-800 grid gap-2 sm:grid-cols-[1fr_2fr] text-xs text-slate-400">
+            <label className="flex flex-col gap-1">
+              Tags (comma-separated)
+              <input
+                type="text"
+                defaultValue={item.tags?.join(', ') ?? ''}
+                onBlur={(e) => updateItem(item.id, { tags: parseTags(e.target.value) })}
+                placeholder="intro, final, needs-review"
+                className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Notes
+              <textarea
+                defaultValue={item.notes ?? ''}
+                onBlur={(e) => updateItem(item.id, { notes: e.target.value.trim() || undefined })}
+                rows={2}
+                placeholder="What works, what to fix…"
+                className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+              />
+            </label>
+          </div>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -209,7 +1375,7 @@ const App: React.FC = () => {
             </h1>
           </div>
           <div className="text-xs text-slate-500 font-mono">
-            Powered by Gemini 2.5 Flash
+            Powered by {describeSelection(ttsEngine)}
           </div>
         </div>
       </header>
@@ -222,26 +1388,83 @@ const App: React.FC = () => {
           {/* Left Column: Inputs */}
           <div className="lg:col-span-7 space-y-6">
             
+            <div className="space-y-3">
+              <label className="block text-sm font-medium text-slate-300">
+                Engine
+              </label>
+              <ProviderSelector
+                selection={ttsEngine}
+                onChange={setTtsEngine}
+                disabled={isGenerating}
+              />
+            </div>
+
             <div className="space-y-3">
               <label className="block text-sm font-medium text-slate-300">
                 1. Select Character Voice
               </label>
               <VoiceSelector 
+                voices={getProvider(ttsEngine.provider).voices}
                 selectedVoice={selectedVoice} 
-                onSelect={setSelectedVoice} 
+                onSelect={handleSelectVoice} 
+                profiles={voiceProfiles}
+                selectedProfileId={selectedProfileId}
+                onSelectProfile={handleSelectProfile}
+                onEditProfile={handleNewProfile}
+                onDuplicateProfile={handleDuplicateProfile}
+                onDeleteProfile={handleDeleteProfile}
                 disabled={isGenerating}
               />
+              {editingProfile && (
+                <VoiceProfileEditor
+                  key={editingProfile.id}
+                  profile={editingProfile}
+                  voices={getProvider(ttsEngine.provider).voices}
+                  presets={presets}
+                  onSave={handleSaveProfile}
+                  onCancel={() => setEditingProfile(null)}
+                />
+              )}
             </div>
 
             <div className="space-y-3">
               <label className="block text-sm font-medium text-slate-300">
-                2. Enter Text to Speak
+                Delivery <span className="text-slate-500 font-normal">
+                  {getProvider(ttsEngine.provider).capabilities.styleInstructions ? '(optional)' : '(only pace is used by this engine)'}
+                </span>
               </label>
+              <DeliveryPanel
+                style={deliveryStyle}
+                onChange={setDeliveryStyle}
+                disabled={isGenerating}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium text-slate-300">
+                  2. Enter Text to Speak
+                </label>
+                <div className="flex rounded-lg bg-slate-900 border border-slate-700 p-0.5 text-xs font-medium">
+                  {[false, true].map((scriptMode) => (
+                    <button
+                      key={String(scriptMode)}
+                      onClick={() => setIsScriptMode(scriptMode)}
+                      disabled={isGenerating}
+                      className={`px-3 py-1 rounded-md transition-colors ${isScriptMode === scriptMode ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                    >
+                      {scriptMode ? 'Dialogue Script' : 'Single Voice'}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <div className="relative">
                 <textarea
                   value={inputText}
                   onChange={(e) => setInputText(e.target.value)}
-                  placeholder="Type something here for the AI to speak... (e.g., 'Hello world, this is a test of the emergency broadcast system.')"
+                  placeholder={isScriptMode
+                    ? "Narrator: It was a quiet night in the city.\nKore: Did you hear that?\nPuck: Hear what?"
+                    : "Type something here for the AI to speak... (e.g., 'Hello world, this is a test of the emergency broadcast system.')"}
                   disabled={isGenerating}
                   className="w-full h-40 bg-slate-900 border border-slate-700 rounded-xl p-4 text-base focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none transition-all placeholder:text-slate-600 shadow-inner"
                 />
@@ -249,14 +1472,81 @@ const App: React.FC = () => {
                   {inputText.length} chars
                 </div>
               </div>
+              {isScriptMode && (
+                <ScriptSpeakers
+                  lines={parsedScript.lines}
+                  speakers={speakerVoices}
+                  onAssign={(speaker, voice) => setSpeakerOverrides(prev => ({ ...prev, [speaker]: voice }))}
+                  parseError={parsedScript.error}
+                  disabled={isGenerating}
+                />
+              )}
+              {parsedMarkup && (
+                <MarkupPreview parsed={parsedMarkup.parsed} issues={parsedMarkup.issues} />
+              )}
+              {!isScriptMode && !parsedMarkup && inputText.length > MAX_CHUNK_CHARS && (
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-400">
+                  <span className="text-slate-300">
+                    Long text: generated in {splitText(inputText, MAX_CHUNK_CHARS).length} chunks
+                  </span>
+                  {([
+                    ['sentencePauseMs', 'Sentence pause'],
+                    ['paragraphPauseMs', 'Paragraph pause'],
+                    ['crossfadeMs', 'Crossfade'],
+                  ] as [keyof JoinSettings, string][]).map(([key, label]) => (
+                    <label key={key} className="flex items-center gap-1.5">
+                      {label}
+                      <input
+                        type="number"
+                        min={0}
+                        max={5000}
+                        step={10}
+                        value={joinSettings[key]}
+                        onChange={(e) => setJoinSettings(prev => ({ ...prev, [key]: Math.max(0, Number(e.target.value) || 0) }))}
+                        disabled={isGenerating}
+                        className="w-16 bg-slate-900 border border-slate-700 rounded-md px-1.5 py-0.5 text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      ms
+                    </label>
+                  ))}
+                </div>
+              )}
             </div>
 
+            {!isScriptMode && getProvider(ttsEngine.provider).capabilities.streaming && (
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={streamPlayback}
+                  onChange={(e) => setStreamPlayback(e.target.checked)}
+                  disabled={isGenerating}
+                  className="accent-blue-500"
+                />
+                Start playing while the audio is still generating
+                <span className="text-slate-500">(texts up to {MAX_CHUNK_CHARS} characters without markup)</span>
+              </label>
+            )}
+
+            {getProvider(ttsEngine.provider).capabilities.remote && (
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={forceRegenerate}
+                  onChange={(e) => setForceRegenerate(e.target.checked)}
+                  disabled={isGenerating}
+                  className="accent-blue-500"
+                />
+                Force regenerate
+                <span className="text-slate-500">(skip cached audio for identical requests)</span>
+              </label>
+            )}
+
             <button
               onClick={handleGenerate}
-              disabled={isGenerating || !inputText.trim()}
+              disabled={isGenerating || !inputText.trim() || !!parsedMarkup?.issues.length}
               className={`
                 w-full py-4 rounded-xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 transition-all duration-200
-                ${isGenerating || !inputText.trim()
+                ${isGenerating || !inputText.trim() || !!parsedMarkup?.issues.length
                   ? 'bg-slate-800 text-slate-500 cursor-not-allowed'
                   : 'bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white shadow-blue-500/20 active:scale-[0.98]'
                 }
@@ -268,7 +1558,11 @@ const App: React.FC = () => {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  <span>Generating Audio...</span>
+                  <span>
+                    {chunkSession
+                      ? `Generating chunk ${Math.min(chunkSession.progress.filter(p => p.status === 'done').length + 1, chunkSession.chunks.length)} of ${chunkSession.chunks.length}...`
+                      : 'Generating Audio...'}
+                  </span>
                 </>
               ) : (
                 <>
@@ -280,12 +1574,40 @@ const App: React.FC = () => {
               )}
             </button>
 
+            {isGenerating && (
+              <button
+                onClick={() => {
+                  bulkAbortRef.current?.abort();
+                  abortRef.current?.abort();
+                }}
+                className="w-full py-2 rounded-lg text-sm font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+
+            {chunkSession && (
+              <ChunkProgressPanel
+                chunks={chunkSession.chunks}
+                progress={chunkSession.progress}
+                isGenerating={isGenerating}
+                onRetry={handleRetryChunks}
+                onDiscard={handleDiscardChunks}
+              />
+            )}
+
             {error && (
               <div className="p-4 rounded-lg bg-red-900/30 border border-red-800/50 text-red-200 text-sm flex items-start gap-2">
                 <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 shrink-0 mt-0.5">
                   <path fillRule="evenodd" d="M9.401 3.003c1.155-2 4.043-2 5.197 0l7.355 12.748c1.154 2-.29 4.5-2.599 4.5H4.645c-2.309 0-3.752-2.5-2.598-4.5L9.4 3.003zM12 8.25a.75.75 0 01.75.75v3.75a.75.75 0 01-1.5 0V9a.75.75 0 01.75-.75zm0 8.25a.75.75 0 100-1.5.75.75 0 000 1.5z" clipRule="evenodd" />
                 </svg>
-                {error}
+                {error instanceof TtsError ? (
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-semibold">{ERROR_GUIDANCE[error.kind].title}</p>
+                    <p className="break-words">{error.message}</p>
+                    <p className="text-red-300/80">{ERROR_GUIDANCE[error.kind].guidance}</p>
+                  </div>
+                ) : error}
               </div>
             )}
           </div>
@@ -304,97 +1626,414 @@ const App: React.FC = () => {
               <AudioVisualizer 
                 analyser={analyserRef.current} 
                 isPlaying={isPlaying} 
+                variant={visualizerStyle}
               />
+
+              {loadedItem?.audioBuffer && playerRef.current && (
+                <div className="mt-4">
+                  <TransportBar
+                    player={playerRef.current}
+                    buffer={activeComparison ? activeComparison[activeComparison.showing] : loadedItem.audioBuffer}
+                    isPlaying={isPlaying}
+                    onTogglePlay={togglePlayback}
+                    volume={volume}
+                    onVolumeChange={setVolume}
+                  />
+                </div>
+              )}
+
+              {loadedItem?.audioBuffer && (
+                <div className="mt-4 space-y-2 text-xs text-slate-400">
+                  <div className="flex items-center gap-2">
+                    {activeComparison && (
+                      <div className="flex rounded-lg bg-slate-900 border border-slate-700 p-0.5 font-medium">
+                        {(['before', 'after'] as const).map((version) => (
+                          <button
+                            key={version}
+                            onClick={() => showComparison(activeComparison, version)}
+                            className={`px-3 py-1 rounded-md capitalize transition-colors ${activeComparison.showing === version ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                          >
+                            {version}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {activeComparison?.original !== 'after' && (
+                      <button
+                        onClick={handlePreviewProcessing}
+                        disabled={isComparing}
+                        className="px-2 py-1 rounded-md text-xs font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors disabled:opacity-40"
+                        title={`Process this clip with "${processingLabel}" to compare`}
+                      >
+                        {isComparing ? 'Processing...' : activeComparison ? 'Re-run processing' : 'Compare processed'}
+                      </button>
+                    )}
+                  </div>
+                  {activeComparison && (
+                    <div className="grid grid-cols-3 gap-2 font-mono">
+                      <span title="Integrated loudness">{formatDb(activeComparison.report.inputLufs)} → {formatDb(activeComparison.report.outputLufs)} LUFS</span>
+                      <span title="Sample peak">{formatDb(activeComparison.report.inputPeakDb)} → {formatDb(activeComparison.report.outputPeakDb)} dBFS</span>
+                      <span title="Silence trimmed from start / end">-{activeComparison.report.trimmedStart.toFixed(2)}s / -{activeComparison.report.trimmedEnd.toFixed(2)}s</span>
+                    </div>
+                  )}
+                </div>
+              )}
               
               <div className="mt-4 flex items-center justify-between text-sm text-slate-400">
                 <span>Status</span>
                 <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${isPlaying ? 'bg-green-900/50 text-green-400' : 'bg-slate-800 text-slate-400'}`}>
-                  {isPlaying ? 'Playing' : 'Ready'}
+                  {currentAudioId === STREAMING_AUDIO_ID ? 'Streaming' : isPlaying ? 'Playing' : 'Ready'}
                 </span>
               </div>
               
-              {history.length > 0 && currentAudioId && (
+              {currentItem && (
                 <div className="mt-4 pt-4 border-t border-slate-800">
                   <p className="text-xs text-slate-500 uppercase tracking-wider font-semibold mb-1">Now Playing</p>
-                  <p className="text-sm text-slate-300 line-clamp-2 italic">
-                    "{history.find(h => h.id === currentAudioId)?.text}"
-                  </p>
+                  {currentCaptions.length > 0 ? (
+                    <CaptionDisplay cues={currentCaptions} getTime={getPlaybackTime} isPlaying={isPlaying} />
+                  ) : (
+                    <p className="text-sm text-slate-300 line-clamp-2 italic">
+                      "{currentItem.text}"
+                    </p>
+                  )}
                 </div>
               )}
             </div>
           </div>
         </section>
 
+        {/* Compare Section */}
+        {!isScriptMode && (
+          <section>
+            <h2 className="text-xl font-bold text-white mb-4">Compare Voices</h2>
+            <ComparePanel
+              text={inputText}
+              voices={getProvider(ttsEngine.provider).voices}
+              defaultVoice={selectedVoice}
+              engine={ttsEngine}
+              lexicon={generationLexicon}
+              getAudioContext={getAudioContext}
+              getDestination={getPlaybackDestination}
+              onPlaybackStart={stopPlayback}
+              onPromote={handlePromoteTake}
+              onUsage={handleUsage}
+              confirmBudget={confirmBudget}
+              disabled={isGenerating}
+            />
+          </section>
+        )}
+
+        {/* Pronunciation Section */}
+        <section>
+          <h2 className="text-xl font-bold text-white mb-4">Pronunciation</h2>
+          <LexiconPanel
+            voices={getProvider(ttsEngine.provider).voices}
+            previewLines={lexiconPreviewLines}
+            extraEntries={selectedProfile?.lexicon}
+            onActiveChange={setLexiconEntries}
+            disabled={isGenerating}
+          />
+        </section>
+
+        {/* Post-processing Section */}
+        <section>
+          <h2 className="text-xl font-bold text-white mb-4">Post-processing</h2>
+          <ProcessingPanel
+            presets={presets}
+            selectedId={presetId}
+            onSelect={handleSelectPreset}
+            chain={processingChain}
+            onChainChange={setProcessingChain}
+            mode={processingMode}
+            onModeChange={setProcessingMode}
+            onSave={handleSavePreset}
+            onDelete={handleDeletePreset}
+            disabled={isGenerating}
+          />
+        </section>
+
+        {/* Music Bed Section */}
+        <section>
+          <h2 className="text-xl font-bold text-white mb-4">Music Bed</h2>
+          <MusicBedPanel
+            bed={musicBed}
+            onBedChange={setMusicBed}
+            settings={musicBedSettings}
+            onSettingsChange={setMusicBedSettings}
+            enabled={musicBedEnabled}
+            onEnabledChange={setMusicBedEnabled}
+            onPreview={currentItem?.audioBuffer && currentItem.id !== MUSIC_BED_PREVIEW_ID ? handlePreviewMusicBed : undefined}
+            isPreviewing={isMixingPreview}
+          />
+        </section>
+
+        {/* Batch Section */}
+        <section>
+          <h2 className="text-xl font-bold text-white mb-4">Batch Generation</h2>
+          <BatchPanel
+            defaultVoice={selectedVoice}
+            engine={ttsEngine}
+            lexicon={lexiconEntries}
+            getAudioContext={getAudioContext}
+            exportOptions={exportOptions}
+            onPlay={playAudio}
+            processForExport={processBatchClip}
+            onUsage={handleUsage}
+            confirmBudget={confirmBudget}
+          />
+        </section>
+
+        {/* Audiobook Section */}
+        <section>
+          <h2 className="text-xl font-bold text-white mb-4">Audiobook</h2>
+          <AudiobookPanel
+            voice={selectedVoice}
+            style={generationStyle}
+            engine={ttsEngine}
+            lexicon={generationLexicon}
+            joinSettings={joinSettings}
+            maxChunkChars={MAX_CHUNK_CHARS}
+            getAudioContext={getAudioContext}
+            onChapterGenerated={handleChapterGenerated}
+            onUsage={handleUsage}
+            confirmBudget={confirmBudget}
+            processForExport={processBatchClip}
+          />
+        </section>
+
+        {/* Localization Section */}
+        {!isScriptMode && (
+          <section>
+            <h2 className="text-xl font-bold text-white mb-4">Localization</h2>
+            <LocalizationPanel
+              text={inputText}
+              voices={getProvider(ttsEngine.provider).voices}
+              style={generationStyle}
+              engine={ttsEngine}
+              joinSettings={joinSettings}
+              maxChunkChars={MAX_CHUNK_CHARS}
+              getAudioContext={getAudioContext}
+              exportOptions={exportOptions}
+              onPlay={playAudio}
+              onGenerated={handleTranslationGenerated}
+              onUsage={handleUsage}
+              confirmBudget={confirmBudget}
+              processForExport={processBatchClip}
+              disabled={isGenerating}
+            />
+          </section>
+        )}
+
+        {/* Usage Section */}
+        <section>
+          <h2 className="text-xl font-bold text-white mb-4">Usage</h2>
+          <UsageDashboard
+            records={usageRecords}
+            budgets={usageBudgets}
+            onBudgetsChange={handleBudgetsChange}
+            onClear={handleClearUsage}
+          />
+        </section>
+
+        {/* Cache Section */}
+        <section>
+          <h2 className="text-xl font-bold text-white mb-4">Synthesis Cache</h2>
+          <CachePanel refreshKey={history.length + usageRecords.length} />
+        </section>
+
+        {/* Timeline Section */}
+        {history.length > 0 && (
+          <section>
+            <h2 className="text-xl font-bold text-white mb-4">Timeline</h2>
+            <TimelineEditor
+              history={history}
+              onPreview={handlePreviewTimeline}
+              onExport={handleExportTimeline}
+              onAddToHistory={handleTimelineToHistory}
+            />
+          </section>
+        )}
+
+        {/* Audiogram Section */}
+        {currentItem?.audioBuffer && (
+          <section>
+            <h2 className="text-xl font-bold text-white mb-4">Audiogram Video</h2>
+            <AudiogramPanel
+              item={currentItem}
+              captions={currentCaptions}
+              style={visualizerStyle}
+              onStyleChange={setVisualizerStyle}
+            />
+          </section>
+        )}
+
         {/* History Section */}
         {history.length > 0 && (
           <section>
-            <div className="flex items-center justify-between mb-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
               <h2 className="text-xl font-bold text-white">Generation History</h2>
-              <span className="text-sm text-slate-500">{history.length} items</span>
+              <ExportSettings options={exportOptions} onChange={setExportOptions} />
+              <div className="flex items-center gap-3 text-sm text-slate-500">
+                <span>
+                  {isFilterActive(historyFilter)
+                    ? `${historyEntries.length} of ${history.length} items`
+                    : `${history.length} items`}
+                </span>
+                {historyLocales.length > 0 && (
+                  <span className="flex items-center gap-1.5">
+                    <select
+                      value={exportLocale}
+                      onChange={(e) => setExportLocale(e.target.value)}
+                      className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Export language…</option>
+                      {historyLocales.map(locale => <option key={locale} value={locale}>{localeName(locale)}</option>)}
+                    </select>
+                    <button
+                      onClick={() => handleExportLanguage(exportLocale)}
+                      disabled={!exportLocale || exportingId !== null}
+                      className="px-2 py-1 rounded-lg text-xs text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors disabled:opacity-40"
+                    >
+                      {exportingId === `locale-${exportLocale}` ? 'Exporting…' : 'Export ZIP'}
+                    </button>
+                  </span>
+                )}
+                {storageUsage && (
+                  <span title={storageUsage.quota ? `${formatBytes(storageUsage.usage ?? 0)} of ${formatBytes(storageUsage.quota)} used by this site` : undefined}>
+                    {formatBytes(storageUsage.historyBytes)} stored
+                  </span>
+                )}
+                <button
+                  onClick={handleClearHistory}
+                  className="px-2 py-1 rounded-lg text-xs text-slate-400 hover:text-red-400 hover:bg-slate-800 transition-colors"
+                >
+                  Clear all
+                </button>
+              </div>
             </div>
             
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-slate-400">
+              <input
+                type="search"
+                value={historyFilter.query}
+                onChange={(e) => setHistoryFilter(prev => ({ ...prev, query: e.target.value }))}
+                placeholder="Search text, tags and notes"
+                className={`${historyInputClass} flex-1 min-w-[12rem]`}
+              />
+              <select
+                value={historyFilter.voice}
+                onChange={(e) => setHistoryFilter(prev => ({ ...prev, voice: e.target.value as VoiceName | '' }))}
+                className={historyInputClass}
+              >
+                <option value="">All voices</option>
+                {Object.values(VoiceName).map(voice => <option key={voice} value={voice}>{voice}</option>)}
+              </select>
+              <label className="flex items-center gap-1.5">
+                From
+                <input
+                  type="date"
+                  value={historyFilter.from}
+                  max={historyFilter.to || undefined}
+                  onChange={(e) => setHistoryFilter(prev => ({ ...prev, from: e.target.value }))}
+                  className={historyInputClass}
+                />
+              </label>
+              <label className="flex items-center gap-1.5">
+                To
+                <input
+                  type="date"
+                  value={historyFilter.to}
+                  min={historyFilter.from || undefined}
+                  onChange={(e) => setHistoryFilter(prev => ({ ...prev, to: e.target.value }))}
+                  className={historyInputClass}
+                />
+              </label>
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={historyFilter.favoritesOnly}
+                  onChange={(e) => setHistoryFilter(prev => ({ ...prev, favoritesOnly: e.target.checked }))}
+                  className="accent-blue-500"
+                />
+                Favorites
+              </label>
+              {isFilterActive(historyFilter) && (
+                <button onClick={() => setHistoryFilter(EMPTY_HISTORY_FILTER)} className={historyButtonClass}>
+                  Reset
+                </button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mb-4 text-xs text-slate-400">
+              <span>{selectedItems.length} selected</span>
+              <button onClick={handleSelectVisible} className={historyButtonClass}>Select shown</button>
+              {selectedItems.length > 0 && (
+                <>
+                  <button onClick={() => setSelectedIds(new Set())} className={historyButtonClass}>Clear</button>
+                  <button
+                    onClick={handleDownloadSelected}
+                    disabled={exportingId !== null}
+                    className={historyButtonClass}
+                  >
+                    {exportingId === 'selected' ? 'Exporting…' : 'Download ZIP'}
+                  </button>
+                  <button onClick={handleDeleteSelected} className={`${historyButtonClass} hover:text-red-400`}>
+                    Delete
+                  </button>
+                  <span className="flex items-center gap-1.5">
+                    <button
+                      onClick={() => handleRegenerateSelected(bulkVoice)}
+                      disabled={isGenerating}
+                      className={historyButtonClass}
+                      title="Dialogues keep their own voices"
+                    >
+                      Regenerate with
+                    </button>
+                    <select
+                      value={bulkVoice}
+                      onChange={(e) => setBulkVoice(e.target.value as VoiceName)}
+                      disabled={isGenerating}
+                      className={historyInputClass}
+                    >
+                      {Object.values(VoiceName).map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                    </select>
+                  </span>
+                </>
+              )}
+            </div>
+
             <div className="space-y-3">
-              {history.map((item) => (
-                <div 
-                  key={item.id} 
-                  className={`
-                    group bg-slate-900 border rounded-xl p-4 transition-all
-                    ${currentAudioId === item.id 
-                      ? 'border-blue-500/50 bg-blue-900/10' 
-                      : 'border-slate-800 hover:border-slate-700'
-                    }
-                  `}
-                >
-                  <div className="flex flex-col sm:flex-row sm:items-center gap-4 justify-between">
-                    <div className="flex items-start gap-4 flex-1">
-                      <button
-                        onClick={() => playAudio(item)}
-                        className={`
-                          w-12 h-12 rounded-full flex items-center justify-center shrink-0 transition-all
-                          ${currentAudioId === item.id 
-                            ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/30' 
-                            : 'bg-slate-800 text-slate-400 group-hover:bg-slate-700 group-hover:text-white'
-                          }
-                        `}
-                      >
-                        {currentAudioId === item.id && isPlaying ? (
-                           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
-                            <path fillRule="evenodd" d="M6.75 5.25a.75.75 0 01.75-.75H9a.75.75 0 01.75.75v13.5a.75.75 0 01-.75.75H7.5a.75.75 0 01-.75-.75V5.25zm7.5 0A.75.75 0 0115 4.5h1.5a.75.75 0 01.75.75v13.5a.75.75 0 01-.75.75H15a.75.75 0 01-.75-.75V5.25z" clipRule="evenodd" />
-                          </svg>
-                        ) : (
-                          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 ml-0.5">
-                            <path fillRule="evenodd" d="M4.5 5.653c0-1.426 1.529-2.33 2.779-1.643l11.54 6.348c1.295.712 1.295 2.573 0 3.285L7.28 19.991c-1.25.687-2.779-.217-2.779-1.643V5.653z" clipRule="evenodd" />
-                          </svg>
-                        )}
-                      </button>
-                      
-                      <div className="min-w-0">
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="px-2 py-0.5 rounded text-xs font-bold bg-slate-800 text-slate-300 border border-slate-700">
-                            {item.voice}
-                          </span>
-                          <span className="text-xs text-slate-500">
-                            {new Date(item.timestamp).toLocaleTimeString()}
-                          </span>
-                        </div>
-                        <p className="text-slate-300 text-sm line-clamp-2">
-                          {item.text}
-                        </p>
+              {historyEntries.length === 0 && (
+                <p className="text-sm text-slate-500 text-center py-6">No generations match these filters.</p>
+              )}
+              {historyEntries.map((entry) => entry.kind === 'item' ? (
+                entry.takes.length === 1 ? renderHistoryItem(entry.item) : (
+                  <div key={takeGroupOf(entry.item)} className="space-y-2">
+                    {renderHistoryItem(entry.item)}
+                    <button
+                      onClick={() => toggleExpandedTakes(takeGroupOf(entry.item))}
+                      className="ml-4 text-xs text-slate-400 hover:text-blue-400 transition-colors"
+                    >
+                      {expandedTakes.has(takeGroupOf(entry.item))
+                        ? 'Hide other takes'
+                        : `Show ${entry.takes.length - 1} other take${entry.takes.length === 2 ? '' : 's'}`}
+                    </button>
+                    {expandedTakes.has(takeGroupOf(entry.item)) && (
+                      <div className="ml-4 pl-3 border-l border-slate-800 space-y-2">
+                        {entry.takes.filter(take => take !== entry.item).map(renderHistoryItem)}
                       </div>
-                    </div>
-
-                    <div className="flex items-center gap-2 sm:self-center pl-16 sm:pl-0">
-                       <button 
-                        onClick={() => handleDownload(item)}
-                        className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors"
-                        title="Download WAV"
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
-                        </svg>
-                      </button>
-                    </div>
+                    )}
+                  </div>
+                )
+              ) : (
+                <div key={entry.groupId} className="border border-slate-800 rounded-xl p-3 space-y-3 bg-slate-900/40">
+                  <div className="flex items-start gap-2 text-xs text-slate-400">
+                    <span className="px-2 py-0.5 rounded font-medium bg-amber-900/30 text-amber-300 border border-amber-800/50 shrink-0">
+                      {entry.items.length} language{entry.items.length === 1 ? '' : 's'}
+                    </span>
+                    <p className="text-slate-300 line-clamp-2">{entry.sourceText}</p>
                   </div>
+                  {entry.items.map(renderHistoryItem)}
                 </div>
               ))}
             </div>
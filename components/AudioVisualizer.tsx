@@ -1,11 +1,15 @@
 import React, { useRef, useEffect } from 'react';
+import { drawVisualization, VisualizerStyle } from '../utils/visualizer';
 
 interface AudioVisualizerProps {
   analyser: AnalyserNode | null;
   isPlaying: boolean;
+  variant?: VisualizerStyle;
 }
 
-const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, isPlaying }) => {
+// Live view of whatever is playing. Drawing is shared with video export
+// (utils/visualizer), which renders the same styles frame by frame offline.
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, isPlaying, variant }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
 
@@ -16,42 +20,12 @@ const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, isPlaying }
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-
     const draw = () => {
       const width = canvas.width;
       const height = canvas.height;
 
-      analyser.getByteFrequencyData(dataArray);
-
       ctx.clearRect(0, 0, width, height);
-
-      // Draw background
-      // ctx.fillStyle = 'rgba(15, 23, 42, 0.5)'; // Transparent clear
-      // ctx.fillRect(0, 0, width, height);
-
-      const barWidth = (width / bufferLength) * 2.5;
-      let barHeight;
-      let x = 0;
-
-      for (let i = 0; i < bufferLength; i++) {
-        barHeight = (dataArray[i] / 255) * height;
-
-        // Gradient for bars
-        const gradient = ctx.createLinearGradient(0, height, 0, height - barHeight);
-        gradient.addColorStop(0, '#3b82f6'); // Blue 500
-        gradient.addColorStop(1, '#a855f7'); // Purple 500
-
-        ctx.fillStyle = gradient;
-        
-        // Rounded caps aesthetic
-        ctx.beginPath();
-        ctx.roundRect(x, height - barHeight, barWidth, barHeight, 2);
-        ctx.fill();
-
-        x += barWidth + 1;
-      }
+      drawVisualization(ctx, analyser, variant ?? 'bars', { x: 0, y: 0, width, height });
 
       if (isPlaying) {
         animationRef.current = requestAnimationFrame(draw);
@@ -77,13 +51,13 @@ const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, isPlaying }
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [analyser, isPlaying]);
+  }, [analyser, isPlaying, variant]);
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={600} 
-      height={100} 
+    <canvas
+      ref={canvasRef}
+      width={600}
+      height={100}
       className="w-full h-24 rounded-lg bg-slate-900/50 border border-slate-700/50"
     />
   );
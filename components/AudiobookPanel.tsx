@@ -0,0 +1,316 @@
+import React, { useRef, useState } from 'react';
+import { ChunkStatus, DeliveryStyle, DocumentChapter, GenerationUsage, ImportedDocument, JoinSettings, LexiconEntry, TtsSelection, UsageRecord, VoiceName } from '../types';
+import { DOCUMENT_ACCEPT, importDocument } from '../services/documentImport';
+import { AUDIOBOOK_FORMATS, AudiobookFormat, exportAudiobook } from '../services/audiobookExport';
+import { downloadBlob, MP3_BITRATES } from '../services/audioExport';
+import { toSafeFilename } from '../services/batchExport';
+import { generateSpeechChunks } from '../services/speechService';
+import { UsageMeter } from '../services/usageMeter';
+import { describeError, isAbortError } from '../services/ttsErrors';
+import { joinWithCrossfade } from '../utils/audioUtils';
+import { TimedSegment } from '../utils/captionAligner';
+import { splitText } from '../utils/textChunker';
+import { estimateUsage, UsageEstimate } from '../utils/usageStats';
+
+// What a finished chapter was generated with, for its history item
+export interface GeneratedChapter {
+  chapter: DocumentChapter;
+  buffer: AudioBuffer;
+  // Where each piece of the chapter's text sits in the buffer
+  segments: TimedSegment[];
+  voice: VoiceName;
+  style?: DeliveryStyle;
+  engine: TtsSelection;
+  usage: GenerationUsage;
+}
+
+interface AudiobookPanelProps {
+  voice: VoiceName;
+  style?: DeliveryStyle;
+  engine: TtsSelection;
+  lexicon: LexiconEntry[];
+  joinSettings: JoinSettings;
+  maxChunkChars: number;
+  getAudioContext: () => AudioContext;
+  onChapterGenerated: (chapter: GeneratedChapter) => void;
+  onUsage: (record: UsageRecord) => void;
+  // Returns false when the user backs out of a generation that would exceed a budget
+  confirmBudget: (estimate: UsageEstimate) => boolean;
+  // Applied to every chapter in the exported book
+  processForExport?: (buffer: AudioBuffer) => Promise<AudioBuffer>;
+  disabled?: boolean;
+}
+
+interface ChapterRow extends DocumentChapter {
+  id: string;
+  included: boolean;
+  status: ChunkStatus;
+  // Pieces finished while the chapter is generating
+  progress?: [number, number];
+  error?: string;
+}
+
+const STATUS_STYLES: Record<ChunkStatus, string> = {
+  pending: 'bg-slate-800 text-slate-400',
+  generating: 'bg-blue-900/50 text-blue-300 animate-pulse',
+  done: 'bg-green-900/40 text-green-300',
+  error: 'bg-red-900/40 text-red-300',
+};
+
+const DEFAULT_BOOK_BITRATE = 96;
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+};
+
+// Turns a document into chapters, narrates them one by one (each becomes a history
+// item) and packs the finished chapters into an audiobook
+const AudiobookPanel: React.FC<AudiobookPanelProps> = ({
+  voice, style, engine, lexicon, joinSettings, maxChunkChars, getAudioContext, onChapterGenerated, onUsage, confirmBudget,
+  processForExport, disabled
+}) => {
+  const [book, setBook] = useState<Omit<ImportedDocument, 'chapters'> | null>(null);
+  const [chapters, setChapters] = useState<ChapterRow[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [format, setFormat] = useState<AudiobookFormat>('m4b');
+  const [bitrate, setBitrate] = useState(DEFAULT_BOOK_BITRATE);
+  const [error, setError] = useState<string | null>(null);
+  const buffersRef = useRef(new Map<string, AudioBuffer>());
+  const stopRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateChapter = (id: string, patch: Partial<ChapterRow>) =>
+    setChapters(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setIsImporting(true);
+    try {
+      const { chapters: imported, ...meta } = await importDocument(file);
+      buffersRef.current.clear();
+      setBook(meta);
+      setChapters(imported.map(chapter => ({ ...chapter, id: generateId(), included: true, status: 'pending' })));
+    } catch (err: any) {
+      setError(err.message || "Could not read the document.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Long chapters go out in pieces, like long texts in the editor, and are joined
+  // with the same pauses
+  const generateChapter = async (row: ChapterRow) => {
+    const ctx = getAudioContext();
+    const chunks = splitText(row.text, maxChunkChars);
+    let finished = 0;
+    updateChapter(row.id, { status: 'generating', error: undefined, progress: [0, chunks.length] });
+
+    const meter = new UsageMeter(engine);
+    let buffers: (AudioBuffer | null)[];
+    try {
+      buffers = await generateSpeechChunks(chunks, voice, ctx, engine, style, chunks.map(() => null), (_, progress) => {
+        if (progress.status === 'done') updateChapter(row.id, { progress: [++finished, chunks.length] });
+      }, undefined, lexicon, { meter, signal: abortRef.current?.signal });
+    } finally {
+      if (!meter.isEmpty) onUsage(meter.toRecord('audiobook'));
+    }
+
+    if (abortRef.current?.signal.aborted) throw new DOMException("Chapter cancelled", 'AbortError');
+    const failed = buffers.filter(b => !b).length;
+    if (failed > 0) throw new Error(`${failed} of ${chunks.length} parts failed`);
+
+    const gaps = chunks.map(chunk => (chunk.pauseAfter === 'paragraph' ? joinSettings.paragraphPauseMs : joinSettings.sentencePauseMs) / 1000);
+    const { buffer, starts } = joinWithCrossfade(buffers as AudioBuffer[], ctx, gaps, joinSettings.crossfadeMs / 1000);
+    buffersRef.current.set(row.id, buffer);
+    onChapterGenerated({
+      chapter: { title: row.title, text: row.text },
+      buffer,
+      segments: chunks.map((chunk, i) => ({ text: chunk.text, start: starts[i], end: starts[i + 1] ?? buffer.duration })),
+      voice,
+      style,
+      engine,
+      usage: meter.summary,
+    });
+  };
+
+  // Chapters run one after another. Stop takes effect once the current one is done;
+  // Cancel abandons it too.
+  const handleGenerate = async (rows: ChapterRow[]) => {
+    // Each chapter goes out as one request per chunk
+    const parts = rows.flatMap(row => splitText(row.text, maxChunkChars).map(chunk => ({ voice, text: chunk.text })));
+    if (!confirmBudget(estimateUsage(engine, parts))) return;
+    setError(null);
+    setIsRunning(true);
+    stopRef.current = false;
+    abortRef.current = new AbortController();
+    for (const row of rows) {
+      if (stopRef.current || abortRef.current.signal.aborted) break;
+      try {
+        await generateChapter(row);
+        updateChapter(row.id, { status: 'done', progress: undefined });
+      } catch (err: any) {
+        updateChapter(row.id, isAbortError(err)
+          ? { status: 'pending', progress: undefined }
+          : { status: 'error', error: describeError(err), progress: undefined });
+      }
+    }
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleExport = async () => {
+    if (!book) return;
+    setError(null);
+    setIsExporting(true);
+    try {
+      const ready = chapters.filter(c => c.included && buffersRef.current.has(c.id));
+      const parts = await Promise.all(ready.map(async c => {
+        const buffer = buffersRef.current.get(c.id)!;
+        return { title: c.title, buffer: processForExport ? await processForExport(buffer) : buffer };
+      }));
+      const blob = await exportAudiobook(parts, format, book, bitrate);
+      downloadBlob(blob, `${toSafeFilename(book.title)}.${AUDIOBOOK_FORMATS[format].extension}`);
+    } catch (err: any) {
+      console.error("Audiobook export failed:", err);
+      setError(err.message || "Failed to export the audiobook.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const included = chapters.filter(c => c.included);
+  const todo = included.filter(c => c.status !== 'done');
+  const doneCount = included.length - todo.length;
+  const totalChars = included.reduce((sum, c) => sum + c.text.length, 0);
+  const totalDuration = included.reduce((sum, c) => sum + (buffersRef.current.get(c.id)?.duration ?? 0), 0);
+  const busy = disabled || isRunning || isImporting;
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 space-y-4 text-xs text-slate-400">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={DOCUMENT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+        <button onClick={() => fileInputRef.current?.click()} disabled={busy} className={buttonClass}>
+          {isImporting ? 'Reading...' : book ? 'Import another document' : 'Import document'}
+        </button>
+        {book ? (
+          <span className="text-slate-300">
+            {book.title}{book.author ? ` · ${book.author}` : ''} · {chapters.length} chapters
+          </span>
+        ) : (
+          <span>TXT, Markdown, HTML, EPUB or text-based PDF. Chapters are detected from headings.</span>
+        )}
+      </div>
+
+      {chapters.length > 0 && (
+        <>
+          <div className="max-h-80 overflow-y-auto pr-1 space-y-1.5">
+            {chapters.map((chapter, i) => (
+              <div key={chapter.id} className={`p-2 rounded-lg bg-slate-800/40 space-y-1.5 ${chapter.included ? '' : 'opacity-50'}`}>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={chapter.included}
+                    onChange={(e) => updateChapter(chapter.id, { included: e.target.checked })}
+                    disabled={isRunning}
+                    className="accent-blue-500"
+                    title="Include in the audiobook"
+                  />
+                  <span className="w-6 text-right font-mono text-slate-500">{i + 1}</span>
+                  <input
+                    value={chapter.title}
+                    onChange={(e) => updateChapter(chapter.id, { title: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-0`}
+                  />
+                  <span className="font-mono w-24 text-right">
+                    {buffersRef.current.has(chapter.id)
+                      ? formatDuration(buffersRef.current.get(chapter.id)!.duration)
+                      : `${chapter.text.length.toLocaleString()} chars`}
+                  </span>
+                  <span className={`px-1.5 py-0.5 rounded w-20 text-center ${STATUS_STYLES[chapter.status]}`}>
+                    {chapter.progress ? `${chapter.progress[0]}/${chapter.progress[1]}` : chapter.status}
+                  </span>
+                  <button onClick={() => setExpandedId(expandedId === chapter.id ? null : chapter.id)} className="text-slate-500 hover:text-slate-300">
+                    {expandedId === chapter.id ? 'Hide' : 'Text'}
+                  </button>
+                  <button
+                    onClick={() => handleGenerate([chapter])}
+                    disabled={busy || !chapter.included}
+                    className="text-slate-500 hover:text-slate-300 disabled:opacity-40"
+                  >
+                    {chapter.status === 'done' ? 'Redo' : chapter.status === 'error' ? 'Retry' : 'Generate'}
+                  </button>
+                </div>
+                {chapter.error && <p className="pl-14 text-red-400">{chapter.error}</p>}
+                {expandedId === chapter.id && (
+                  <p className="pl-14 max-h-40 overflow-y-auto whitespace-pre-wrap text-slate-300">{chapter.text}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            {isRunning ? (
+              <>
+                <button onClick={() => { stopRef.current = true; }} className={buttonClass}>Stop after this chapter</button>
+                <button onClick={() => abortRef.current?.abort()} className={buttonClass}>Cancel now</button>
+              </>
+            ) : (
+              <button
+                onClick={() => handleGenerate(todo)}
+                disabled={busy || todo.length === 0}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Generate {todo.length} {todo.length === 1 ? 'chapter' : 'chapters'}
+              </button>
+            )}
+            <span>
+              {doneCount}/{included.length} done · {totalChars.toLocaleString()} chars
+              {totalDuration > 0 && ` · ${formatDuration(totalDuration)}`}
+            </span>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select value={format} onChange={(e) => setFormat(e.target.value as AudiobookFormat)} className={inputClass}>
+              {(Object.keys(AUDIOBOOK_FORMATS) as AudiobookFormat[]).map((f) => (
+                <option key={f} value={f}>{AUDIOBOOK_FORMATS[f].label}</option>
+              ))}
+            </select>
+            <select value={bitrate} onChange={(e) => setBitrate(Number(e.target.value))} className={inputClass}>
+              {MP3_BITRATES.map((kbps) => (
+                <option key={kbps} value={kbps}>{kbps} kbps</option>
+              ))}
+            </select>
+            <button onClick={handleExport} disabled={isExporting || isRunning || doneCount === 0} className={buttonClass}>
+              {isExporting ? 'Exporting...' : `Export ${doneCount} ${doneCount === 1 ? 'chapter' : 'chapters'}`}
+            </button>
+            {doneCount > 0 && doneCount < included.length && <span>Chapters that aren't generated yet are left out.</span>}
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default AudiobookPanel;
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CaptionCue, GeneratedAudio } from '../types';
+import { AUDIOGRAM_ASPECTS, AudiogramAspect, DEFAULT_AUDIOGRAM_FPS, drawAudiogramFrame, isAudiogramSupported, renderAudiogram } from '../services/audiogramRenderer';
+import { downloadBlob } from '../services/audioExport';
+import { isAbortError } from '../services/ttsErrors';
+import { BufferAnalyser, VISUALIZER_STYLES, VisualizerStyle } from '../utils/visualizer';
+
+interface AudiogramPanelProps {
+  item: GeneratedAudio;
+  captions: CaptionCue[];
+  style: VisualizerStyle;
+  onStyleChange: (style: VisualizerStyle) => void;
+}
+
+// The preview is drawn at a fraction of the video size; layout scales with the canvas
+const PREVIEW_SCALE = 1 / 3;
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+// Turns the loaded clip into a WebM video with a visualizer, title, background
+// and captions, previewing any frame before recording
+const AudiogramPanel: React.FC<AudiogramPanelProps> = ({ item, captions, style, onStyleChange }) => {
+  const [aspect, setAspect] = useState<AudiogramAspect>('1:1');
+  const [title, setTitle] = useState('');
+  const [background, setBackground] = useState<ImageBitmap | null>(null);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [previewTime, setPreviewTime] = useState(0);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const buffer = item.audioBuffer;
+  const analyser = useMemo(() => buffer ? new BufferAnalyser(buffer) : null, [buffer]);
+  const { width, height } = AUDIOGRAM_ASPECTS[aspect];
+  const supported = isAudiogramSupported();
+
+  useEffect(() => {
+    setPreviewTime(0);
+  }, [item.id]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !analyser || !buffer) return;
+    drawAudiogramFrame(ctx, analyser, previewTime, buffer.duration, {
+      aspect, style, title, background, captions: showCaptions ? captions : null,
+    });
+  }, [analyser, buffer, previewTime, aspect, style, title, background, showCaptions, captions]);
+
+  const handleBackground = async (file: File) => {
+    setError(null);
+    try {
+      setBackground(await createImageBitmap(file));
+    } catch (err: any) {
+      setError(err.message || "Could not read the image.");
+    }
+  };
+
+  const clearBackground = () => {
+    setBackground(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleRender = async () => {
+    if (!buffer) return;
+    setError(null);
+    setProgress(0);
+    abortRef.current = new AbortController();
+    try {
+      const blob = await renderAudiogram(buffer, {
+        aspect, style, title, background, captions: showCaptions ? captions : null, fps: DEFAULT_AUDIOGRAM_FPS,
+      }, setProgress, abortRef.current.signal);
+      downloadBlob(blob, `audiogram-${item.voice}-${item.id}.webm`);
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        console.error("Video export failed:", err);
+        setError(err.message || "Failed to record the video.");
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const isRendering = progress !== null;
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 text-xs text-slate-400">
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="flex flex-col items-center gap-2 shrink-0">
+          <canvas
+            ref={canvasRef}
+            width={Math.round(width * PREVIEW_SCALE)}
+            height={Math.round(height * PREVIEW_SCALE)}
+            className="rounded-lg border border-slate-700 max-h-96 max-w-full"
+            style={{ aspectRatio: `${width} / ${height}` }}
+          />
+          <input
+            type="range"
+            min={0}
+            max={buffer?.duration ?? 0}
+            step={1 / DEFAULT_AUDIOGRAM_FPS}
+            value={previewTime}
+            onChange={(e) => setPreviewTime(Number(e.target.value))}
+            disabled={isRendering}
+            className="w-full accent-blue-500"
+            title="Preview frame"
+          />
+        </div>
+
+        <div className="flex-1 space-y-3">
+          <p className="text-slate-300 line-clamp-2">{item.text}</p>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1.5">
+              Format
+              <select value={aspect} onChange={(e) => setAspect(e.target.value as AudiogramAspect)} disabled={isRendering} className={inputClass}>
+                {(Object.keys(AUDIOGRAM_ASPECTS) as AudiogramAspect[]).map(id => (
+                  <option key={id} value={id}>{AUDIOGRAM_ASPECTS[id].label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1.5">
+              Visualizer
+              <select value={style} onChange={(e) => onStyleChange(e.target.value as VisualizerStyle)} disabled={isRendering} className={inputClass}>
+                {VISUALIZER_STYLES.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={showCaptions}
+                onChange={(e) => setShowCaptions(e.target.checked)}
+                disabled={isRendering || captions.length === 0}
+                className="accent-blue-500"
+              />
+              Captions
+            </label>
+          </div>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Title (optional)"
+            disabled={isRendering}
+            className={`${inputClass} w-full`}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <span>Background</span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              disabled={isRendering}
+              onChange={(e) => e.target.files?.[0] && handleBackground(e.target.files[0])}
+              className="text-xs text-slate-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-slate-800 file:text-slate-200 hover:file:bg-slate-700"
+            />
+            {background && <button onClick={clearBackground} disabled={isRendering} className={buttonClass}>Remove</button>}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {!isRendering ? (
+              <button
+                onClick={handleRender}
+                disabled={!supported || !buffer}
+                className={`${buttonClass} bg-blue-600 hover:bg-blue-500 text-white`}
+              >
+                Export WebM
+              </button>
+            ) : (
+              <button onClick={() => abortRef.current?.abort()} className={buttonClass}>Cancel</button>
+            )}
+            <span>
+              {!supported
+                ? "This browser can't record canvas video."
+                : isRendering
+                  ? `Recording… ${Math.round((progress ?? 0) * 100)}% (runs in real time; keep this tab visible)`
+                  : `${width}×${height}, ${DEFAULT_AUDIOGRAM_FPS} fps. Recording takes as long as the clip.`}
+            </span>
+          </div>
+          {isRendering && (
+            <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${(progress ?? 0) * 100}%` }} />
+            </div>
+          )}
+          {error && <p className="text-sm text-red-300">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudiogramPanel;
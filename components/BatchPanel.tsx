@@ -0,0 +1,257 @@
+import React, { useRef, useState } from 'react';
+import { BatchRow, BatchRowState, BatchRowStatus, ExportOptions, GeneratedAudio, LexiconEntry, TtsSelection, UsageRecord, VoiceName } from '../types';
+import { BatchQueue, DEFAULT_BATCH_CONCURRENCY } from '../services/batchQueue';
+import { UsageMeter } from '../services/usageMeter';
+import { exportBatchZip } from '../services/batchExport';
+import { downloadBlob } from '../services/audioExport';
+import { parseBatchFile } from '../utils/batchParser';
+import { estimateUsage, UsageEstimate } from '../utils/usageStats';
+
+interface BatchPanelProps {
+  defaultVoice: VoiceName;
+  engine: TtsSelection;
+  lexicon: LexiconEntry[];
+  getAudioContext: () => AudioContext;
+  exportOptions: ExportOptions;
+  onPlay: (item: GeneratedAudio) => void;
+  // Applied to every clip in the exported ZIP
+  processForExport?: (buffer: AudioBuffer) => Promise<AudioBuffer>;
+  // Each run is logged as one record
+  onUsage: (record: UsageRecord) => void;
+  // Returns false when the user backs out of a run that would exceed a budget
+  confirmBudget: (estimate: UsageEstimate) => boolean;
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<BatchRowStatus, string> = {
+  queued: 'bg-slate-800 text-slate-400',
+  generating: 'bg-blue-900/50 text-blue-300 animate-pulse',
+  waiting: 'bg-amber-900/40 text-amber-300',
+  done: 'bg-green-900/40 text-green-300',
+  error: 'bg-red-900/40 text-red-300',
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+// Imports a CSV/JSON file of prompts, generates them on a queue and exports the results as a ZIP
+const BatchPanel: React.FC<BatchPanelProps> = ({ defaultVoice, engine, lexicon, getAudioContext, exportOptions, onPlay, processForExport, onUsage, confirmBudget, disabled }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [states, setStates] = useState<BatchRowState[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const queueRef = useRef<BatchQueue | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const count = (status: BatchRowStatus) => states.filter(s => s.status === status).length;
+  const doneCount = count('done');
+  const failedIndices = states.map((s, i) => s.status === 'error' ? i : -1).filter(i => i >= 0);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = parseBatchFile(await file.text(), file.name, defaultVoice);
+      setRows(parsed);
+      setStates(parsed.map(() => ({ status: 'queued', attempts: 0 })));
+      setFileName(file.name);
+      queueRef.current = new BatchQueue(parsed, getAudioContext(), (index, state) =>
+        setStates(prev => prev.map((s, i) => i === index ? state : s))
+      );
+    } catch (err: any) {
+      setError(err.message || "Could not read the batch file.");
+    }
+  };
+
+  const run = async (indices?: number[]) => {
+    const queue = queueRef.current;
+    if (!queue) return;
+    if (!confirmBudget(estimateUsage(engine, queue.pending(indices).map(i => rows[i])))) return;
+    setError(null);
+    setIsRunning(true);
+    setIsPaused(false);
+    const meter = new UsageMeter(engine);
+    try {
+      await queue.run(engine, concurrency, indices, lexicon, meter);
+    } catch (err: any) {
+      setError(err.message || "Batch generation stopped unexpectedly.");
+    } finally {
+      if (!meter.isEmpty) onUsage(meter.toRecord('batch'));
+      setIsRunning(false);
+      setIsPaused(false);
+    }
+  };
+
+  const togglePause = () => {
+    const queue = queueRef.current;
+    if (!queue) return;
+    if (queue.isPaused) {
+      queue.resume();
+    } else {
+      queue.pause();
+    }
+    setIsPaused(queue.isPaused);
+  };
+
+  const handleClear = () => {
+    queueRef.current = null;
+    setRows([]);
+    setStates([]);
+    setFileName(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleExport = async () => {
+    const queue = queueRef.current;
+    if (!queue) return;
+    setIsExporting(true);
+    try {
+      const blob = await exportBatchZip(rows, states, queue.buffers, exportOptions, processForExport);
+      const base = (fileName ?? 'batch').replace(/\.[^.]+$/, '');
+      downloadBlob(blob, `${base}-audio.zip`);
+    } catch (err: any) {
+      console.error("Batch export failed:", err);
+      setError(err.message || "Failed to export the batch.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const playRow = (row: BatchRow, index: number) => {
+    const buffer = queueRef.current?.buffers[index];
+    if (!buffer) return;
+    onPlay({
+      id: `batch-${row.id}`,
+      text: row.text,
+      voice: row.voice,
+      timestamp: Date.now(),
+      audioBuffer: buffer,
+      duration: buffer.duration,
+      style: row.style,
+      engine,
+    });
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          disabled={isRunning || disabled}
+          onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          className="text-xs text-slate-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-slate-800 file:text-slate-200 hover:file:bg-slate-700"
+        />
+        <label className="flex items-center gap-1.5 text-xs text-slate-400">
+          Parallel requests
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            disabled={isRunning}
+            className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        {rows.length === 0 && (
+          <span className="text-xs text-slate-500">
+            Columns: <code>id</code>, <code>text</code>, <code>voice</code>, <code>style</code> (text required)
+          </span>
+        )}
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {!isRunning ? (
+              <button
+                onClick={() => run()}
+                disabled={disabled || doneCount === rows.length}
+                className={`${buttonClass} bg-blue-600 hover:bg-blue-500 text-white`}
+              >
+                {doneCount > 0 ? 'Continue' : 'Start'}
+              </button>
+            ) : (
+              <>
+                <button onClick={togglePause} className={buttonClass}>{isPaused ? 'Resume' : 'Pause'}</button>
+                <button onClick={() => queueRef.current?.cancel()} className={buttonClass}>Stop</button>
+              </>
+            )}
+            {!isRunning && failedIndices.length > 0 && (
+              <button onClick={() => run(failedIndices)} className={buttonClass}>
+                Retry {failedIndices.length} failed
+              </button>
+            )}
+            <button onClick={handleExport} disabled={doneCount === 0 || isExporting} className={buttonClass}>
+              {isExporting ? 'Exporting…' : 'Export ZIP'}
+            </button>
+            <button onClick={handleClear} disabled={isRunning} className={`${buttonClass} hover:text-red-400`}>Clear</button>
+            <span className="ml-auto text-xs text-slate-400">
+              {doneCount} / {rows.length} done
+              {count('error') > 0 && <span className="text-red-300"> · {count('error')} failed</span>}
+              {count('waiting') > 0 && <span className="text-amber-300"> · rate limited</span>}
+              {isPaused && <span className="text-slate-300"> · paused</span>}
+            </span>
+          </div>
+
+          <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+            <div className="h-full bg-green-500 transition-all" style={{ width: `${(doneCount / rows.length) * 100}%` }} />
+          </div>
+
+          <div className="max-h-80 overflow-y-auto rounded-lg border border-slate-800">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-slate-900 text-slate-500 text-left">
+                <tr>
+                  <th className="px-3 py-2 font-medium">ID</th>
+                  <th className="px-3 py-2 font-medium">Voice</th>
+                  <th className="px-3 py-2 font-medium w-full">Text</th>
+                  <th className="px-3 py-2 font-medium">Status</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => {
+                  const state = states[index];
+                  return (
+                    <tr key={row.id} className="border-t border-slate-800/70 align-top">
+                      <td className="px-3 py-2 font-mono text-slate-300 whitespace-nowrap">{row.id}</td>
+                      <td className="px-3 py-2 text-slate-300">{row.voice}</td>
+                      <td className="px-3 py-2 text-slate-400">
+                        <p className="line-clamp-2">{row.text}</p>
+                        {state.error && (
+                          <p className={state.status === 'error' ? 'text-red-300' : 'text-amber-300'}>{state.error}</p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span className={`px-2 py-0.5 rounded-full font-medium ${STATUS_STYLES[state.status]}`}>
+                          {state.status}{state.attempts > 1 ? ` ×${state.attempts}` : ''}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2">
+                        {state.status === 'done' && (
+                          <button onClick={() => playRow(row, index)} className="text-slate-400 hover:text-blue-400" title="Play">
+                            ▶
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,108 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CACHE_LIMIT_OPTIONS_MB, clearCache, getCacheStats, setCacheLimit, SynthCacheStats } from '../services/synthesisCache';
+
+interface CachePanelProps {
+  // Changes whenever a generation may have read or filled the cache
+  refreshKey: number;
+}
+
+const MB = 1024 * 1024;
+
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+const formatMb = (bytes: number) => `${(bytes / MB).toFixed(bytes < 10 * MB ? 1 : 0)} MB`;
+
+// Size, limit and hit rate of the synthesis cache
+const CachePanel: React.FC<CachePanelProps> = ({ refreshKey }) => {
+  const [stats, setStats] = useState<SynthCacheStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    getCacheStats()
+      .then(setStats)
+      .catch(err => console.error("Failed to read cache stats:", err));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  const handleLimit = async (mb: number) => {
+    setError(null);
+    try {
+      await setCacheLimit(mb * MB);
+      refresh();
+    } catch (err: any) {
+      setError(err.message || "Failed to change the cache size.");
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Remove all cached audio and reset the hit/miss counts?")) return;
+    setError(null);
+    try {
+      await clearCache();
+      refresh();
+    } catch (err: any) {
+      setError(err.message || "Failed to clear the cache.");
+    }
+  };
+
+  if (!stats) return null;
+  const lookups = stats.hits + stats.misses;
+  const limitMb = Math.round(stats.limitBytes / MB);
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 space-y-4 text-xs text-slate-400">
+      <p>
+        Requests identical to an earlier one (same text, voice, model and style) are answered from audio stored
+        in this browser instead of calling the API again. Use "Force regenerate" or a history item's Regenerate
+        button for a fresh take.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <div className="text-slate-500">Stored</div>
+          <div className="text-sm text-slate-200 font-mono">{stats.entries.toLocaleString()} clips, {formatMb(stats.bytes)}</div>
+          <div className="h-1.5 mt-1 rounded-full bg-slate-800 overflow-hidden">
+            <div className="h-full bg-teal-500" style={{ width: `${Math.min(100, (stats.bytes / stats.limitBytes) * 100)}%` }} />
+          </div>
+        </div>
+        <div>
+          <div className="text-slate-500">Hits / misses</div>
+          <div className="text-sm text-slate-200 font-mono">{stats.hits.toLocaleString()} / {stats.misses.toLocaleString()}</div>
+        </div>
+        <div>
+          <div className="text-slate-500">Hit rate</div>
+          <div className="text-sm text-slate-200 font-mono">{lookups ? `${Math.round((stats.hits / lookups) * 100)}%` : '–'}</div>
+        </div>
+        <div>
+          <div className="text-slate-500">Characters not re-sent</div>
+          <div className="text-sm text-slate-200 font-mono">{stats.savedCharacters.toLocaleString()}</div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2">
+          Size limit
+          <select
+            value={CACHE_LIMIT_OPTIONS_MB.includes(limitMb) ? limitMb : ''}
+            onChange={(e) => handleLimit(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {!CACHE_LIMIT_OPTIONS_MB.includes(limitMb) && <option value="">{formatMb(stats.limitBytes)}</option>}
+            {CACHE_LIMIT_OPTIONS_MB.map(mb => <option key={mb} value={mb}>{mb >= 1000 ? `${mb / 1000} GB` : `${mb} MB`}</option>)}
+          </select>
+        </label>
+        <span className="text-slate-500">Least recently used clips are dropped first.</span>
+        <div className="flex-1" />
+        <button onClick={refresh} className={buttonClass}>Refresh</button>
+        <button onClick={handleClear} disabled={stats.entries === 0 && lookups === 0} className={buttonClass}>Clear cache</button>
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default CachePanel;
@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CaptionCue } from '../types';
+
+interface CaptionDisplayProps {
+  cues: CaptionCue[];
+  // Current playback position in seconds
+  getTime: () => number;
+  isPlaying: boolean;
+}
+
+// Karaoke-style view of the playing clip: the current sentence, with spoken words lit up
+const CaptionDisplay: React.FC<CaptionDisplayProps> = ({ cues, getTime, isPlaying }) => {
+  const [time, setTime] = useState(0);
+  const animationRef = useRef<number>();
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const tick = () => {
+      setTime(getTime());
+      animationRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+
+    return () => {
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current);
+      }
+    };
+  }, [isPlaying, getTime]);
+
+  if (cues.length === 0) return null;
+
+  // Stay on the last cue that started so pauses between sentences don't blank the text
+  let index = 0;
+  for (let i = 0; i < cues.length; i++) {
+    if (cues[i].start <= time) index = i;
+  }
+  const cue = cues[index];
+  const words = cue.words ?? [{ text: cue.text, start: cue.start, end: cue.end }];
+
+  return (
+    <p className="text-sm leading-relaxed">
+      {words.map((word, i) => {
+        const state = time >= word.end ? 'spoken' : time >= word.start ? 'current' : 'upcoming';
+        return (
+          <span
+            key={i}
+            className={`transition-colors duration-100 ${
+              state === 'current'
+                ? 'text-white bg-blue-500/30 rounded px-0.5 -mx-0.5'
+                : state === 'spoken' ? 'text-slate-200' : 'text-slate-500'
+            }`}
+          >
+            {word.text}{i < words.length - 1 ? ' ' : ''}
+          </span>
+        );
+      })}
+    </p>
+  );
+};
+
+export default CaptionDisplay;
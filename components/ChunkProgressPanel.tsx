@@ -0,0 +1,92 @@
+import React from 'react';
+import { ChunkProgress, TextChunk } from '../types';
+
+interface ChunkProgressPanelProps {
+  chunks: TextChunk[];
+  progress: ChunkProgress[];
+  isGenerating: boolean;
+  onRetry: (index?: number) => void;
+  onDiscard: () => void;
+}
+
+const STATUS_STYLES: Record<ChunkProgress['status'], string> = {
+  pending: 'bg-slate-700',
+  generating: 'bg-blue-500 animate-pulse',
+  done: 'bg-green-500',
+  error: 'bg-red-500',
+};
+
+const ChunkProgressPanel: React.FC<ChunkProgressPanelProps> = ({ chunks, progress, isGenerating, onRetry, onDiscard }) => {
+  const doneCount = progress.filter(p => p.status === 'done').length;
+  const failed = progress
+    .map((p, index) => ({ ...p, index }))
+    .filter(p => p.status === 'error');
+  // Chunks left untouched by a cancelled run
+  const pendingCount = progress.filter(p => p.status === 'pending').length;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-slate-300 font-medium">
+          {doneCount} / {chunks.length} chunks generated
+        </span>
+        {!isGenerating && (
+          <button
+            onClick={onDiscard}
+            className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+          >
+            Discard
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-1">
+        {progress.map((p, index) => (
+          <div
+            key={index}
+            title={`Chunk ${index + 1}: ${p.status}${p.error ? ` — ${p.error}` : ''}`}
+            className={`h-2 flex-1 rounded-full transition-colors ${STATUS_STYLES[p.status]}`}
+          />
+        ))}
+      </div>
+
+      {pendingCount > 0 && !isGenerating && (
+        <button
+          onClick={() => onRetry()}
+          className="w-full py-2 rounded-lg text-sm font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors"
+        >
+          Resume ({pendingCount} {pendingCount === 1 ? 'chunk' : 'chunks'} left{failed.length > 0 ? ', retrying failed ones too' : ''})
+        </button>
+      )}
+
+      {failed.length > 0 && !isGenerating && (
+        <div className="space-y-2">
+          {failed.map(({ index, error }) => (
+            <div key={index} className="flex items-start justify-between gap-3 p-2 rounded-lg bg-red-900/20 border border-red-800/40 text-sm">
+              <div className="min-w-0">
+                <p className="text-red-200 font-medium">Chunk {index + 1} failed{error ? `: ${error}` : ''}</p>
+                <p className="text-slate-400 text-xs line-clamp-1">{chunks[index].text}</p>
+              </div>
+              <button
+                onClick={() => onRetry(index)}
+                className="shrink-0 px-2 py-1 rounded-md text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors"
+              >
+                Retry
+              </button>
+            </div>
+          ))}
+          {failed.length > 1 && pendingCount === 0 && (
+            <button
+              onClick={() => onRetry()}
+              className="w-full py-2 rounded-lg text-sm font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors"
+            >
+              Retry all failed chunks
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChunkProgressPanel;
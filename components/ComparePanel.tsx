@@ -0,0 +1,441 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CompareTake, CompareVariant, DeliveryStyle, GenerationUsage, LexiconEntry, TtsSelection, UsageRecord, VoiceName, VoiceOption } from '../types';
+import { generateSpeech } from '../services/speechService';
+import { UsageMeter } from '../services/usageMeter';
+import { describeError, isAbortError } from '../services/ttsErrors';
+import { estimateUsage, UsageEstimate } from '../utils/usageStats';
+import { runWithConcurrency } from '../utils/concurrency';
+import { SyncPlayer } from '../utils/syncPlayer';
+import { EMOTION_PRESETS, PACE_PRESETS, TONE_PRESETS, normalizeStyle, summarizeStyle } from '../utils/deliveryPrompt';
+
+interface ComparePanelProps {
+  text: string;
+  voices: VoiceOption[];
+  defaultVoice: VoiceName;
+  engine: TtsSelection;
+  lexicon: LexiconEntry[];
+  getAudioContext: () => AudioContext;
+  // Takes play through the same output (and visualizer) as the main player
+  getDestination: () => AudioNode;
+  // Called before compare playback starts so the main player can stop
+  onPlaybackStart: () => void;
+  onPromote: (variant: CompareVariant, buffer: AudioBuffer, usage?: GenerationUsage) => void;
+  onUsage: (record: UsageRecord) => void;
+  // Returns false when the user backs out of a generation that would exceed a budget
+  confirmBudget: (estimate: UsageEstimate) => boolean;
+  disabled?: boolean;
+}
+
+// One ABX round: X is secretly either A or B
+interface AbxTrial {
+  a: string;
+  b: string;
+  x: string;
+  answer?: string;
+}
+
+// Parallel requests allowed while generating the takes
+const COMPARE_CONCURRENCY = 3;
+
+const STYLE_FIELDS: { key: keyof DeliveryStyle; label: string; options: string[] }[] = [
+  { key: 'tone', label: 'Tone', options: TONE_PRESETS },
+  { key: 'pace', label: 'Pace', options: PACE_PRESETS },
+  { key: 'emotion', label: 'Emotion', options: EMOTION_PRESETS },
+];
+
+const STATUS_STYLES: Record<CompareTake['status'], string> = {
+  pending: 'bg-slate-800 text-slate-400',
+  generating: 'bg-blue-900/50 text-blue-300 animate-pulse',
+  done: 'bg-green-900/40 text-green-300',
+  error: 'bg-red-900/40 text-red-300',
+};
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+const variantLabel = (variant: CompareVariant) =>
+  variant.style ? `${variant.voice} · ${summarizeStyle(variant.style)}` : variant.voice;
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Generates one text with several voices or deliveries and auditions the takes
+// against each other. All takes play in sync, so switching keeps the position.
+const ComparePanel: React.FC<ComparePanelProps> = ({
+  text, voices, defaultVoice, engine, lexicon, getAudioContext, getDestination, onPlaybackStart, onPromote, onUsage, confirmBudget, disabled
+}) => {
+  const [variants, setVariants] = useState<CompareVariant[]>([{ id: generateId(), voice: defaultVoice }]);
+  // The variants of the last run; edits to the builder don't touch existing takes
+  const [compared, setCompared] = useState<CompareVariant[]>([]);
+  const [takes, setTakes] = useState<Record<string, CompareTake>>({});
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [blind, setBlind] = useState(false);
+  const [order, setOrder] = useState<string[]>([]);
+  const [revealed, setRevealed] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [trial, setTrial] = useState<AbxTrial | null>(null);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+  const [promotedIds, setPromotedIds] = useState<string[]>([]);
+  const playerRef = useRef<SyncPlayer | null>(null);
+  // The takes the player was started with, so a switch to a take outside them restarts it
+  const playingIdsRef = useRef<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => playerRef.current?.stop(), []);
+
+  const getPlayer = () => {
+    if (!playerRef.current) {
+      playerRef.current = new SyncPlayer(getAudioContext(), getDestination(), () => setIsPlaying(false));
+    }
+    return playerRef.current;
+  };
+
+  const stopPlayback = () => {
+    playerRef.current?.stop();
+    setIsPlaying(false);
+  };
+
+  const updateVariant = (id: string, patch: Partial<CompareVariant>) =>
+    setVariants(prev => prev.map(v => v.id === id ? { ...v, ...patch } : v));
+
+  const updateStyle = (variant: CompareVariant, key: keyof DeliveryStyle, value: string) =>
+    updateVariant(variant.id, { style: normalizeStyle({ ...variant.style, [key]: value }) });
+
+  const toggleVoice = (voice: VoiceName) => {
+    const plain = variants.find(v => v.voice === voice && !v.style);
+    setVariants(prev => plain ? prev.filter(v => v.id !== plain.id) : [...prev, { id: generateId(), voice }]);
+  };
+
+  const handleGenerate = async () => {
+    if (!text.trim() || variants.length < 2) return;
+    if (!confirmBudget(estimateUsage(engine, variants.map(v => ({ voice: v.voice, text }))))) return;
+    stopPlayback();
+    const run: CompareVariant[] = variants.map(v => ({ ...v }));
+    setCompared(run);
+    setTakes(Object.fromEntries(run.map(v => [v.id, { status: 'pending', rating: 0, notes: '' }])));
+    setOrder(shuffle(run.map(v => v.id)));
+    setRevealed(false);
+    setActiveId(run[0].id);
+    setTrial(null);
+    setScore({ correct: 0, total: 0 });
+    setPromotedIds([]);
+    setIsGenerating(true);
+
+    const updateTake = (id: string, patch: Partial<CompareTake>) =>
+      setTakes(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+    const ctx = getAudioContext();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    await runWithConcurrency(run, COMPARE_CONCURRENCY, async (variant) => {
+      if (controller.signal.aborted) {
+        updateTake(variant.id, { status: 'error', error: "Cancelled" });
+        return;
+      }
+      updateTake(variant.id, { status: 'generating' });
+      const meter = new UsageMeter(engine);
+      try {
+        const buffer = await generateSpeech(text, variant.voice, ctx, engine, variant.style, lexicon, { meter, signal: controller.signal });
+        updateTake(variant.id, { status: 'done', buffer, usage: meter.summary });
+      } catch (err: any) {
+        updateTake(variant.id, { status: 'error', error: isAbortError(err) ? "Cancelled" : describeError(err) });
+      } finally {
+        if (!meter.isEmpty) onUsage(meter.toRecord('compare'));
+      }
+    });
+    abortRef.current = null;
+    setIsGenerating(false);
+  };
+
+  const readyBuffers = (ids: string[]) => {
+    const buffers = new Map<string, AudioBuffer>();
+    ids.forEach(id => {
+      const buffer = takes[id]?.buffer;
+      if (buffer) buffers.set(id, buffer);
+    });
+    return buffers;
+  };
+
+  // Starts every given take together (from the top) with only `id` audible
+  const startTakes = (ids: string[], id: string) => {
+    onPlaybackStart();
+    playingIdsRef.current = ids;
+    getPlayer().play(readyBuffers(ids), id);
+    setActiveId(id);
+    setIsPlaying(true);
+  };
+
+  // Switches the audible take; playback keeps its position when the take is already running
+  const listenTo = (id: string, group: string[]) => {
+    if (isPlaying && playingIdsRef.current.includes(id)) {
+      getPlayer().setActive(id);
+      setActiveId(id);
+      return;
+    }
+    startTakes(group, id);
+  };
+
+  const doneIds = compared.filter(v => takes[v.id]?.status === 'done').map(v => v.id);
+  const displayIds = blind ? order : compared.map(v => v.id);
+  const byId = new Map<string, CompareVariant>(compared.map(v => [v.id, v]));
+  const blindName = (id: string) => `Take ${order.indexOf(id) + 1}`;
+  const nameOf = (id: string) => blind && !revealed ? blindName(id) : variantLabel(byId.get(id)!);
+
+  const newTrial = (a = trial?.a ?? doneIds[0], b = trial?.b ?? doneIds[1]) => {
+    stopPlayback();
+    setTrial({ a, b, x: Math.random() < 0.5 ? a : b });
+  };
+
+  const answerTrial = (answer: string) => {
+    if (!trial || trial.answer) return;
+    setTrial({ ...trial, answer });
+    setScore(prev => ({ correct: prev.correct + (answer === trial.x ? 1 : 0), total: prev.total + 1 }));
+  };
+
+  const handlePromote = (id: string) => {
+    const variant = byId.get(id);
+    const buffer = takes[id]?.buffer;
+    if (!variant || !buffer) return;
+    onPromote(variant, buffer, takes[id].usage);
+    setPromotedIds(prev => [...prev, id]);
+  };
+
+  const busy = disabled || isGenerating;
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 space-y-4 text-xs text-slate-400">
+      <div className="space-y-2">
+        <p className="text-slate-500 uppercase tracking-wider font-semibold">Voices</p>
+        <div className="flex flex-wrap gap-1.5">
+          {voices.map((voice) => {
+            const selected = variants.some(v => v.voice === voice.id && !v.style);
+            return (
+              <button
+                key={voice.id}
+                onClick={() => toggleVoice(voice.id)}
+                disabled={busy}
+                className={`px-2 py-0.5 rounded-full border transition-colors ${selected ? 'border-blue-500 bg-blue-900/30 text-blue-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+              >
+                {voice.name}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-slate-500 uppercase tracking-wider font-semibold">Variants ({variants.length})</p>
+        {variants.map((variant) => (
+          <div key={variant.id} className="flex flex-wrap items-center gap-2">
+            <select
+              value={variant.voice}
+              onChange={(e) => updateVariant(variant.id, { voice: e.target.value as VoiceName })}
+              disabled={busy}
+              className={inputClass}
+            >
+              {voices.map((voice) => (
+                <option key={voice.id} value={voice.id}>{voice.name}</option>
+              ))}
+            </select>
+            {STYLE_FIELDS.map(({ key, label, options }) => (
+              <select
+                key={key}
+                value={variant.style?.[key] ?? ''}
+                onChange={(e) => updateStyle(variant, key, e.target.value)}
+                disabled={busy}
+                className={inputClass}
+                title={label}
+              >
+                <option value="">{label}: default</option>
+                {options.map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            ))}
+            <button
+              onClick={() => setVariants(prev => prev.filter(v => v.id !== variant.id))}
+              disabled={busy}
+              className="text-slate-500 hover:text-red-400"
+              title="Remove variant"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setVariants(prev => [...prev, { id: generateId(), voice: prev[prev.length - 1]?.voice ?? defaultVoice }])}
+          disabled={busy}
+          className="text-blue-400 hover:text-blue-300"
+        >
+          + Add style variant
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={handleGenerate}
+          disabled={busy || !text.trim() || variants.length < 2}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isGenerating ? 'Generating...' : `Generate ${variants.length} takes`}
+        </button>
+        {isGenerating && (
+          <button onClick={() => abortRef.current?.abort()} className={buttonClass}>Cancel</button>
+        )}
+        <span>{text.trim() ? 'Uses the text from the editor above.' : 'Enter some text above to compare voices.'}</span>
+        {compared.length > 0 && (
+          <label className="flex items-center gap-2 ml-auto text-slate-300">
+            <input
+              type="checkbox"
+              checked={blind}
+              onChange={(e) => { setBlind(e.target.checked); setRevealed(false); }}
+              className="accent-blue-500"
+            />
+            Blind
+          </label>
+        )}
+        {blind && compared.length > 0 && (
+          <button onClick={() => setRevealed(!revealed)} className={buttonClass}>{revealed ? 'Hide names' : 'Reveal'}</button>
+        )}
+      </div>
+
+      {compared.length > 0 && (
+        <>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => isPlaying ? stopPlayback() : startTakes(doneIds, activeId && doneIds.includes(activeId) ? activeId : doneIds[0])}
+              disabled={doneIds.length === 0}
+              className={buttonClass}
+            >
+              {isPlaying ? 'Stop' : 'Play in sync'}
+            </button>
+            <span>Click a take while playing to switch to it at the same position.</span>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {displayIds.map((id) => {
+              const take = takes[id];
+              if (!take) return null;
+              const active = isPlaying && activeId === id;
+              return (
+                <div
+                  key={id}
+                  className={`p-3 rounded-xl border space-y-2 transition-colors ${active ? 'border-blue-500 bg-blue-900/20' : 'border-slate-700 bg-slate-800/40'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      onClick={() => listenTo(id, doneIds)}
+                      disabled={take.status !== 'done'}
+                      className={`font-semibold truncate text-left ${active ? 'text-blue-400' : 'text-slate-200 hover:text-white'}`}
+                    >
+                      {active ? '▶ ' : ''}{nameOf(id)}
+                    </button>
+                    <span className={`px-1.5 py-0.5 rounded shrink-0 ${STATUS_STYLES[take.status]}`}>
+                      {take.status === 'done' ? `${take.buffer!.duration.toFixed(1)}s` : take.status}
+                    </span>
+                  </div>
+                  {take.error && <p className="text-red-400">{take.error}</p>}
+                  <div className="flex items-center gap-0.5">
+                    {[1, 2, 3, 4, 5].map((star) => (
+                      <button
+                        key={star}
+                        onClick={() => setTakes(prev => ({ ...prev, [id]: { ...take, rating: take.rating === star ? 0 : star } }))}
+                        className={`text-base leading-none ${star <= take.rating ? 'text-amber-400' : 'text-slate-600 hover:text-slate-400'}`}
+                        title={`${star} star${star === 1 ? '' : 's'}`}
+                      >
+                        ★
+                      </button>
+                    ))}
+                  </div>
+                  <textarea
+                    value={take.notes}
+                    onChange={(e) => setTakes(prev => ({ ...prev, [id]: { ...take, notes: e.target.value } }))}
+                    placeholder="Notes"
+                    rows={2}
+                    className={`${inputClass} w-full resize-none`}
+                  />
+                  <button
+                    onClick={() => handlePromote(id)}
+                    disabled={take.status !== 'done' || promotedIds.includes(id)}
+                    className={buttonClass}
+                  >
+                    {promotedIds.includes(id) ? 'Added to history' : 'Promote to history'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          {doneIds.length >= 2 && (
+            <div className="p-3 rounded-lg bg-slate-800/40 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-slate-300 font-semibold">ABX test</span>
+                {trial ? (
+                  <>
+                    <select value={trial.a} onChange={(e) => newTrial(e.target.value, trial.b)} className={inputClass}>
+                      {doneIds.map((id) => <option key={id} value={id}>A: {nameOf(id)}</option>)}
+                    </select>
+                    <select value={trial.b} onChange={(e) => newTrial(trial.a, e.target.value)} className={inputClass}>
+                      {doneIds.map((id) => <option key={id} value={id}>B: {nameOf(id)}</option>)}
+                    </select>
+                  </>
+                ) : (
+                  <button onClick={() => newTrial()} className={buttonClass}>Start</button>
+                )}
+                {score.total > 0 && <span className="ml-auto font-mono">{score.correct}/{score.total} correct</span>}
+              </div>
+
+              {trial && trial.a !== trial.b && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {([['A', trial.a], ['B', trial.b], ['X', trial.x]] as const).map(([key, id]) => (
+                    <button
+                      key={key}
+                      onClick={() => {
+                        // X shares a source with A or B, so the three play as two synced takes
+                        if (isPlaying && playingIdsRef.current.includes(id)) {
+                          getPlayer().setActive(id);
+                        } else {
+                          startTakes([trial.a, trial.b], id);
+                        }
+                        setActiveId(key === 'X' ? 'X' : id);
+                      }}
+                      className={`${buttonClass} ${isPlaying && activeId === (key === 'X' ? 'X' : id) ? 'ring-2 ring-blue-500' : ''}`}
+                    >
+                      {key}
+                    </button>
+                  ))}
+                  <span className="mx-1 text-slate-600">|</span>
+                  {trial.answer ? (
+                    <>
+                      <span className={trial.answer === trial.x ? 'text-green-400' : 'text-red-400'}>
+                        {trial.answer === trial.x ? 'Correct' : 'Wrong'}: X was {trial.x === trial.a ? 'A' : 'B'}
+                      </span>
+                      <button onClick={() => newTrial()} className={buttonClass}>Next trial</button>
+                    </>
+                  ) : (
+                    <>
+                      <button onClick={() => answerTrial(trial.a)} className={buttonClass}>X is A</button>
+                      <button onClick={() => answerTrial(trial.b)} className={buttonClass}>X is B</button>
+                    </>
+                  )}
+                </div>
+              )}
+              {trial && trial.a === trial.b && <p>Pick two different takes for A and B.</p>}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparePanel;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { DeliveryStyle } from '../types';
+import { TONE_PRESETS, PACE_PRESETS, EMOTION_PRESETS, ACCENT_PRESETS, buildDirectionPrompt, hasDirection } from '../utils/deliveryPrompt';
+
+interface DeliveryPanelProps {
+  style: DeliveryStyle;
+  onChange: (style: DeliveryStyle) => void;
+  disabled?: boolean;
+}
+
+const PRESET_FIELDS: { key: keyof DeliveryStyle; label: string; options: string[] }[] = [
+  { key: 'tone', label: 'Tone', options: TONE_PRESETS },
+  { key: 'pace', label: 'Pace', options: PACE_PRESETS },
+  { key: 'emotion', label: 'Emotion', options: EMOTION_PRESETS },
+  { key: 'accent', label: 'Accent', options: ACCENT_PRESETS },
+];
+
+const DeliveryPanel: React.FC<DeliveryPanelProps> = ({ style, onChange, disabled }) => {
+  const update = (key: keyof DeliveryStyle, value: string) => onChange({ ...style, [key]: value });
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {PRESET_FIELDS.map(({ key, label, options }) => (
+          <label key={key} className="flex flex-col gap-1 text-xs text-slate-500 uppercase tracking-wider font-semibold">
+            {label}
+            <select
+              value={style[key] ?? ''}
+              onChange={(e) => update(key, e.target.value)}
+              disabled={disabled}
+              className="bg-slate-800/50 border border-slate-700 rounded-md px-2 py-1.5 text-sm normal-case tracking-normal font-normal text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Default</option>
+              {options.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <input
+        type="text"
+        value={style.direction ?? ''}
+        onChange={(e) => update('direction', e.target.value)}
+        placeholder='Free-form direction, e.g. "whisper, as if sharing a secret"'
+        disabled={disabled}
+        className="w-full bg-slate-800/50 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500 placeholder:text-slate-600"
+      />
+
+      {hasDirection(style) && (
+        <div className="flex items-start justify-between gap-3">
+          <p className="text-xs text-slate-400 font-mono truncate" title={buildDirectionPrompt(style)}>
+            {buildDirectionPrompt(style).trim()}
+          </p>
+          <button
+            onClick={() => onChange({})}
+            disabled={disabled}
+            className="shrink-0 text-xs text-slate-500 hover:text-slate-300 transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryPanel;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { ExportFormat, ExportOptions } from '../types';
+import { EXPORT_FORMATS, EXPORT_SAMPLE_RATES, MP3_BITRATES, OPUS_BITRATES } from '../services/audioExport';
+
+interface ExportSettingsProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+}
+
+const selectClassName = 'bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+
+const ExportSettings: React.FC<ExportSettingsProps> = ({ options, onChange }) => {
+  const update = (patch: Partial<ExportOptions>) => onChange({ ...options, ...patch });
+  const { lossy } = EXPORT_FORMATS[options.format];
+  const bitrates = options.format === 'opus' ? OPUS_BITRATES : MP3_BITRATES;
+
+  const handleFormatChange = (format: ExportFormat) => {
+    const nextBitrates = format === 'opus' ? OPUS_BITRATES : MP3_BITRATES;
+    update({
+      format,
+      bitrate: nextBitrates.includes(options.bitrate) ? options.bitrate : nextBitrates[Math.floor(nextBitrates.length / 2)],
+      // FLAC has no float mode
+      bitDepth: format === 'flac' && options.bitDepth === 32 ? 24 : options.bitDepth,
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+      <label className="flex items-center gap-1.5">
+        Format
+        <select
+          value={options.format}
+          onChange={(e) => handleFormatChange(e.target.value as ExportFormat)}
+          className={selectClassName}
+        >
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+            <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+          ))}
+        </select>
+      </label>
+
+      {lossy ? (
+        <label className="flex items-center gap-1.5">
+          Bitrate
+          <select
+            value={options.bitrate}
+            onChange={(e) => update({ bitrate: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {bitrates.map((kbps) => (
+              <option key={kbps} value={kbps}>{kbps} kbps</option>
+            ))}
+          </select>
+        </label>
+      ) : (
+        <label className="flex items-center gap-1.5">
+          Depth
+          <select
+            value={options.bitDepth}
+            onChange={(e) => update({ bitDepth: Number(e.target.value) as ExportOptions['bitDepth'] })}
+            className={selectClassName}
+          >
+            <option value={16}>16-bit</option>
+            <option value={24}>24-bit</option>
+            {options.format === 'wav' && <option value={32}>32-bit float</option>}
+          </select>
+        </label>
+      )}
+
+      {options.format !== 'opus' && (
+        <label className="flex items-center gap-1.5">
+          Rate
+          <select
+            value={options.sampleRate ?? ''}
+            onChange={(e) => update({ sampleRate: e.target.value ? Number(e.target.value) : null })}
+            className={selectClassName}
+          >
+            <option value="">Original</option>
+            {EXPORT_SAMPLE_RATES.map((rate) => (
+              <option key={rate} value={rate}>{(rate / 1000).toFixed(rate % 1000 ? 1 : 0)} kHz</option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ExportSettings;
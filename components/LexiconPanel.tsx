@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Lexicon, LexiconEntry, VoiceOption } from '../types';
+import { deleteLexicon, loadLexicons, saveLexicon } from '../services/lexiconStore';
+import { downloadBlob } from '../services/audioExport';
+import { applyLexicon, parseLexiconFile, serializeLexicon } from '../utils/lexicon';
+
+// One line of the text about to be generated, with the voice that will speak it
+export interface LexiconPreviewLine {
+  prefix?: string;
+  text: string;
+  voice: string;
+}
+
+interface LexiconPanelProps {
+  voices: VoiceOption[];
+  previewLines: LexiconPreviewLine[];
+  // Entries applied ahead of the active lexicon (a voice profile's overrides)
+  extraEntries?: LexiconEntry[];
+  // Called with the entries of the active lexicon (empty when none is active)
+  onActiveChange: (entries: LexiconEntry[]) => void;
+  disabled?: boolean;
+}
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+const createEntry = (): LexiconEntry => ({
+  id: generateId(),
+  term: '',
+  replacement: '',
+  caseSensitive: false,
+  wholeWord: true,
+});
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+// Named pronunciation lexicons (one per project or client), with a preview of what
+// the model will actually be sent. Edits are saved as they're made.
+const LexiconPanel: React.FC<LexiconPanelProps> = ({ voices, previewLines, extraEntries, onActiveChange, disabled }) => {
+  const [lexicons, setLexicons] = useState<Lexicon[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const active = lexicons.find(l => l.id === activeId) ?? null;
+
+  useEffect(() => {
+    loadLexicons()
+      .then(setLexicons)
+      .catch(err => console.error("Failed to load lexicons:", err));
+  }, []);
+
+  useEffect(() => {
+    onActiveChange(active?.entries.filter(entry => entry.term.trim()) ?? []);
+  }, [active, onActiveChange]);
+
+  const persist = (lexicon: Lexicon) => {
+    setLexicons(prev => [...prev.filter(l => l.id !== lexicon.id), lexicon].sort((a, b) => a.name.localeCompare(b.name)));
+    saveLexicon(lexicon).catch(err => {
+      console.error("Failed to save lexicon:", err);
+      setError("Failed to save the lexicon.");
+    });
+  };
+
+  const updateEntries = (update: (entries: LexiconEntry[]) => LexiconEntry[]) => {
+    if (active) persist({ ...active, entries: update(active.entries), updatedAt: Date.now() });
+  };
+
+  const updateEntry = (id: string, patch: Partial<LexiconEntry>) =>
+    updateEntries(entries => entries.map(e => e.id === id ? { ...e, ...patch } : e));
+
+  const setOverride = (entry: LexiconEntry, voice: string, replacement: string | null) => {
+    const overrides = { ...entry.voiceOverrides };
+    if (replacement === null) delete overrides[voice];
+    else overrides[voice] = replacement;
+    updateEntry(entry.id, { voiceOverrides: overrides });
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt("Lexicon name", 'New lexicon');
+    if (!name?.trim()) return;
+    const lexicon: Lexicon = { id: generateId(), name: name.trim(), entries: [createEntry()], updatedAt: Date.now() };
+    persist(lexicon);
+    setActiveId(lexicon.id);
+  };
+
+  const handleRename = () => {
+    if (!active) return;
+    const name = window.prompt("Lexicon name", active.name);
+    if (name?.trim()) persist({ ...active, name: name.trim(), updatedAt: Date.now() });
+  };
+
+  const handleDelete = async () => {
+    if (!active || !window.confirm(`Delete the lexicon "${active.name}"?`)) return;
+    setLexicons(prev => prev.filter(l => l.id !== active.id));
+    setActiveId(null);
+    try {
+      await deleteLexicon(active.id);
+    } catch (err) {
+      console.error("Failed to delete lexicon:", err);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      const { name, entries } = parseLexiconFile(await file.text(), generateId);
+      const lexicon: Lexicon = { id: generateId(), name: name || file.name.replace(/\.json$/i, ''), entries, updatedAt: Date.now() };
+      persist(lexicon);
+      setActiveId(lexicon.id);
+    } catch (err: any) {
+      setError(err.message || "Could not read the lexicon file.");
+    }
+  };
+
+  const handleExport = () => {
+    if (!active) return;
+    const blob = new Blob([serializeLexicon(active.name, active.entries.filter(e => e.term.trim()))], { type: 'application/json' });
+    downloadBlob(blob, `${active.name.replace(/[^\w-]+/g, '-') || 'lexicon'}.lexicon.json`);
+  };
+
+  const preview = useMemo(() => {
+    const entries = [...(extraEntries ?? []), ...(active?.entries.filter(e => e.term.trim()) ?? [])];
+    return previewLines.map(line => ({ ...line, ...applyLexicon(line.text, entries, line.voice) }));
+  }, [active, extraEntries, previewLines]);
+  const substitutionCount = preview.reduce((count, line) => count + line.segments.filter(s => s.entryId).length, 0);
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 space-y-4 text-xs text-slate-400">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1.5">
+          Lexicon
+          <select
+            value={activeId ?? ''}
+            onChange={(e) => setActiveId(e.target.value || null)}
+            disabled={disabled}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            {lexicons.map((lexicon) => (
+              <option key={lexicon.id} value={lexicon.id}>{lexicon.name} ({lexicon.entries.length})</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={handleCreate} disabled={disabled} className={buttonClass}>New</button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className={buttonClass}>Import JSON</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+        {active && (
+          <>
+            <button onClick={handleExport} className={buttonClass}>Export JSON</button>
+            <button onClick={handleRename} disabled={disabled} className={buttonClass}>Rename</button>
+            <button
+              onClick={handleDelete}
+              disabled={disabled}
+              className="px-2 py-1 rounded-lg text-xs text-slate-400 hover:text-red-400 hover:bg-slate-800 transition-colors"
+            >
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+
+      {active && (
+        <div className="space-y-2">
+          {active.entries.map((entry) => (
+            <div key={entry.id} className="p-2 rounded-lg bg-slate-800/40 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  value={entry.term}
+                  onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+                  placeholder="Term (e.g. SQL)"
+                  disabled={disabled}
+                  className={`${inputClass} w-36`}
+                />
+                <span>→</span>
+                <input
+                  value={entry.replacement}
+                  onChange={(e) => updateEntry(entry.id, { replacement: e.target.value })}
+                  placeholder="Say it as (e.g. sequel)"
+                  disabled={disabled}
+                  className={`${inputClass} flex-1 min-w-[10rem]`}
+                />
+                <label className="flex items-center gap-1" title="Match upper/lower case exactly">
+                  <input
+                    type="checkbox"
+                    checked={entry.caseSensitive}
+                    onChange={(e) => updateEntry(entry.id, { caseSensitive: e.target.checked })}
+                    disabled={disabled}
+                    className="accent-blue-500"
+                  />
+                  Aa
+                </label>
+                <label className="flex items-center gap-1" title="Only match the term as a whole word">
+                  <input
+                    type="checkbox"
+                    checked={entry.wholeWord}
+                    onChange={(e) => updateEntry(entry.id, { wholeWord: e.target.checked })}
+                    disabled={disabled}
+                    className="accent-blue-500"
+                  />
+                  Whole word
+                </label>
+                <button
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  className="text-slate-500 hover:text-slate-300"
+                >
+                  Voices{entry.voiceOverrides && Object.keys(entry.voiceOverrides).length > 0 ? ` (${Object.keys(entry.voiceOverrides).length})` : ''}
+                </button>
+                <button
+                  onClick={() => updateEntries(entries => entries.filter(e => e.id !== entry.id))}
+                  disabled={disabled}
+                  className="text-slate-500 hover:text-red-400"
+                  title="Remove entry"
+                >
+                  ×
+                </button>
+              </div>
+
+              {expandedId === entry.id && (
+                <div className="pl-4 space-y-1.5">
+                  {voices.map((voice) => {
+                    const override = entry.voiceOverrides?.[voice.id];
+                    return (
+                      <label key={voice.id} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={override !== undefined}
+                          onChange={(e) => setOverride(entry, voice.id, e.target.checked ? entry.replacement : null)}
+                          disabled={disabled}
+                          className="accent-blue-500"
+                        />
+                        <span className="w-20 text-slate-300">{voice.name}</span>
+                        <input
+                          value={override ?? ''}
+                          onChange={(e) => setOverride(entry, voice.id, e.target.value)}
+                          placeholder={entry.replacement}
+                          disabled={disabled || override === undefined}
+                          className={`${inputClass} flex-1 disabled:opacity-40`}
+                        />
+                      </label>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+          <button onClick={() => updateEntries(entries => [...entries, createEntry()])} disabled={disabled} className="text-blue-400 hover:text-blue-300">
+            + Add entry
+          </button>
+        </div>
+      )}
+
+      {(active || !!extraEntries?.length) && previewLines.some(line => line.text.trim()) && (
+        <div className="space-y-1">
+          <p className="text-slate-500 uppercase tracking-wider font-semibold">
+            Sent to the model · {substitutionCount} {substitutionCount === 1 ? 'substitution' : 'substitutions'}
+          </p>
+          <div className="max-h-40 overflow-y-auto p-2 rounded-md bg-slate-950/60 text-sm text-slate-300 whitespace-pre-wrap">
+            {preview.map((line, i) => (
+              <div key={i}>
+                {line.prefix && <span className="text-slate-500">{line.prefix}</span>}
+                {line.segments.map((segment, j) => segment.entryId ? (
+                  <mark key={j} className="bg-blue-900/50 text-blue-200 rounded px-0.5" title={`"${segment.original}"`}>{segment.text}</mark>
+                ) : (
+                  <React.Fragment key={j}>{segment.text}</React.Fragment>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default LexiconPanel;
@@ -0,0 +1,486 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DeliveryStyle, ExportOptions, GeneratedAudio, GenerationUsage, JoinSettings, LocaleTarget, LocalizationInfo, TextChunk, TtsSelection, UsageRecord, VoiceName, VoiceOption } from '../types';
+import { DEFAULT_TRANSLATION_SELECTION, getTranslationProvider, TRANSLATION_PROVIDERS } from '../services/translationProvider';
+import { DEFAULT_LOCALIZATION_SETTINGS, LocalizationSettings, loadLocalizationSettings, saveLocalizationSettings } from '../services/localizationStore';
+import { exportLocaleZip } from '../services/localizationExport';
+import { downloadBlob } from '../services/audioExport';
+import { generateSpeech, generateSpeechChunks, SpeechOptions } from '../services/speechService';
+import { UsageMeter } from '../services/usageMeter';
+import { describeError, isAbortError, TtsError } from '../services/ttsErrors';
+import { joinWithCrossfade } from '../utils/audioUtils';
+import { runWithConcurrency } from '../utils/concurrency';
+import { localeName, LOCALES } from '../utils/locales';
+import { containsMarkup, markupToChunks, MarkupError, parseMarkup } from '../utils/ssmlLite';
+import { estimateUsage, UsageEstimate } from '../utils/usageStats';
+
+// A finished line in one language, for its history item
+export interface GeneratedTranslation {
+  localization: LocalizationInfo;
+  text: string;
+  voice: VoiceName;
+  style?: DeliveryStyle;
+  engine: TtsSelection;
+  buffer: AudioBuffer;
+  usage: GenerationUsage;
+}
+
+interface LocalizationPanelProps {
+  // The source script, one line per paragraph
+  text: string;
+  voices: VoiceOption[];
+  style?: DeliveryStyle;
+  engine: TtsSelection;
+  // Pauses used to join the pieces of translations with markup
+  joinSettings: JoinSettings;
+  maxChunkChars: number;
+  getAudioContext: () => AudioContext;
+  exportOptions: ExportOptions;
+  onPlay: (item: GeneratedAudio) => void;
+  onGenerated: (clip: GeneratedTranslation) => void;
+  onUsage: (record: UsageRecord) => void;
+  // Returns false when the user backs out of a generation that would exceed a budget
+  confirmBudget: (estimate: UsageEstimate) => boolean;
+  // Applied to every clip in an exported language
+  processForExport?: (buffer: AudioBuffer) => Promise<AudioBuffer>;
+  disabled?: boolean;
+}
+
+type CellStatus = 'idle' | 'translating' | 'generating' | 'error';
+
+// One source line in one language
+interface CellState {
+  status: CellStatus;
+  error?: string;
+  buffer?: AudioBuffer;
+  // The translation the audio was generated from; editing the text makes the audio stale
+  spokenText?: string;
+}
+
+// Translation requests are small, so more of them run at once than speech requests
+const TRANSLATE_CONCURRENCY = 4;
+const SPEECH_CONCURRENCY = 2;
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+// Cells are keyed by locale and source text, so lines keep their translations
+// while the rest of the script is edited
+const cellKey = (locale: string, source: string) => `${locale}\u0000${source}`;
+
+const splitLines = (text: string) => text.split(/\n+/).map(line => line.trim()).filter(Boolean);
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+// Translates every line of the script into each target language with a text model,
+// lets the translations be edited, and voices each language with its own voice.
+// Finished lines go to history grouped by source line.
+const LocalizationPanel: React.FC<LocalizationPanelProps> = ({
+  text, voices, style, engine, joinSettings, maxChunkChars, getAudioContext, exportOptions, onPlay, onGenerated, onUsage,
+  confirmBudget, processForExport, disabled
+}) => {
+  const [settings, setSettings] = useState<LocalizationSettings>(DEFAULT_LOCALIZATION_SETTINGS);
+  const [activeLocale, setActiveLocale] = useState<string | null>(null);
+  const [translations, setTranslations] = useState<Record<string, string>>({});
+  const [cells, setCells] = useState<Record<string, CellState>>({});
+  const [addLocale, setAddLocale] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [exportingLocale, setExportingLocale] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // History group per source line, stable for the session
+  const groupIdsRef = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    loadLocalizationSettings()
+      .then(setSettings)
+      .catch(err => console.error("Failed to load localization settings:", err));
+  }, []);
+
+  const lines = splitLines(text);
+  const { targets, sourceLocale, translator } = settings;
+  const current = targets.find(t => t.locale === activeLocale) ?? targets[0];
+  // Settings saved with a provider that no longer exists fall back to the default
+  const translatorProvider = TRANSLATION_PROVIDERS.find(p => p.id === translator.provider) ?? getTranslationProvider(DEFAULT_TRANSLATION_SELECTION.provider);
+
+  const updateSettings = (patch: Partial<LocalizationSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveLocalizationSettings(next).catch(err => console.error("Failed to save localization settings:", err));
+  };
+
+  const updateCell = (key: string, patch: Partial<CellState>) =>
+    setCells(prev => ({ ...prev, [key]: { status: 'idle', ...prev[key], ...patch } }));
+
+  const setTarget = (locale: string, voice: VoiceName) =>
+    updateSettings({ targets: targets.map(t => t.locale === locale ? { ...t, voice } : t) });
+
+  const handleAddLocale = () => {
+    if (!addLocale || targets.some(t => t.locale === addLocale)) return;
+    updateSettings({ targets: [...targets, { locale: addLocale, voice: current?.voice ?? voices[0].id }] });
+    setActiveLocale(addLocale);
+    setAddLocale('');
+  };
+
+  const handleRemoveLocale = (locale: string) => {
+    updateSettings({ targets: targets.filter(t => t.locale !== locale) });
+    if (activeLocale === locale) setActiveLocale(null);
+  };
+
+  const groupIdFor = (source: string) => {
+    let id = groupIdsRef.current.get(source);
+    if (!id) {
+      id = generateId();
+      groupIdsRef.current.set(source, id);
+    }
+    return id;
+  };
+
+  const startRun = () => {
+    setError(null);
+    setIsRunning(true);
+    abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  };
+
+  const finishRun = () => {
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  // Translates the given lines for the given languages; an already translated
+  // line is only sent again when asked for explicitly
+  const translate = async (locales: string[], sources: string[], force = false) => {
+    const work = locales.flatMap(locale => sources
+      .filter(source => force || !translations[cellKey(locale, source)])
+      .map(source => ({ locale, source })));
+    if (work.length === 0) return;
+
+    const signal = startRun();
+    await runWithConcurrency(work, TRANSLATE_CONCURRENCY, async ({ locale, source }) => {
+      if (signal.aborted) return;
+      const key = cellKey(locale, source);
+      updateCell(key, { status: 'translating', error: undefined });
+      try {
+        const translated = await translatorProvider.translate(
+          { model: translator.model, text: source, sourceLocale, targetLocale: locale }, signal);
+        setTranslations(prev => ({ ...prev, [key]: translated }));
+        updateCell(key, { status: 'idle' });
+      } catch (err: any) {
+        updateCell(key, isAbortError(err) ? { status: 'idle' } : { status: 'error', error: describeError(err) });
+      }
+    });
+    finishRun();
+  };
+
+  // Translations keep the source's markup, which is voiced the way the editor voices it:
+  // one request per segment, joined with the breaks as real silence
+  const synthesize = async (chunks: TextChunk[], voice: VoiceName, ctx: AudioContext, options: SpeechOptions) => {
+    let failure: string | undefined;
+    const buffers = await generateSpeechChunks(chunks, voice, ctx, engine, style, chunks.map(() => null), (_, progress) => {
+      if (progress.status === 'error') failure ??= progress.error;
+    }, undefined, [], options);
+    if (options.signal?.aborted) throw new DOMException("Generation cancelled", 'AbortError');
+    const failed = buffers.filter(b => !b).length;
+    // The part's failure is already described, so it isn't classified again
+    if (failed > 0) throw new TtsError('unknown', `${failed} of ${chunks.length} parts failed. ${failure}`);
+
+    const gaps = chunks.map(chunk => chunk.breakAfter ??
+      (chunk.pauseAfter === 'paragraph' ? joinSettings.paragraphPauseMs : joinSettings.sentencePauseMs) / 1000
+    );
+    return joinWithCrossfade(buffers as AudioBuffer[], ctx, gaps, joinSettings.crossfadeMs / 1000).buffer;
+  };
+
+  // Voices translated lines whose audio is missing or older than the translation.
+  // The lexicon is written for the source language, so translations go out without it.
+  // Lines whose markup doesn't parse are marked with the problem and skipped.
+  const generate = async (locales: string[], sources: string[], force = false) => {
+    const work = locales.flatMap(locale => {
+      const target = targets.find(t => t.locale === locale)!;
+      return sources
+        .map(source => ({ target, source, index: lines.indexOf(source), key: cellKey(locale, source) }))
+        .filter(({ key }) => translations[key]?.trim() && (force || cells[key]?.spokenText !== translations[key]))
+        .flatMap(item => {
+          const translation = translations[item.key];
+          if (!containsMarkup(translation)) return [{ ...item, spoken: translation, chunks: null }];
+          try {
+            const parsed = parseMarkup(translation);
+            return [{ ...item, spoken: parsed.spokenText, chunks: markupToChunks(parsed, maxChunkChars) }];
+          } catch (err) {
+            if (!(err instanceof MarkupError)) throw err;
+            updateCell(item.key, { status: 'error', error: err.message });
+            return [];
+          }
+        });
+    });
+    if (work.length === 0) return;
+    const parts = work.flatMap(w => (w.chunks ?? [{ text: w.spoken }]).map(chunk => ({ voice: w.target.voice, text: chunk.text })));
+    if (!confirmBudget(estimateUsage(engine, parts))) return;
+
+    const signal = startRun();
+    const ctx = getAudioContext();
+    await runWithConcurrency(work, SPEECH_CONCURRENCY, async ({ target, source, index, key, chunks }) => {
+      if (signal.aborted) return;
+      const spokenText = translations[key];
+      updateCell(key, { status: 'generating', error: undefined });
+      const meter = new UsageMeter(engine);
+      try {
+        const buffer = chunks
+          ? await synthesize(chunks, target.voice, ctx, { meter, signal })
+          : await generateSpeech(spokenText, target.voice, ctx, engine, style, [], { meter, signal });
+        updateCell(key, { status: 'idle', buffer, spokenText });
+        onGenerated({
+          localization: { groupId: groupIdFor(source), locale: target.locale, sourceText: source, line: index },
+          text: spokenText,
+          voice: target.voice,
+          style,
+          engine,
+          buffer,
+          usage: meter.summary,
+        });
+      } catch (err: any) {
+        updateCell(key, isAbortError(err) ? { status: 'idle' } : { status: 'error', error: describeError(err) });
+      } finally {
+        if (!meter.isEmpty) onUsage(meter.toRecord('localization'));
+      }
+    });
+    finishRun();
+  };
+
+  const handleExport = async (target: LocaleTarget) => {
+    setError(null);
+    setExportingLocale(target.locale);
+    try {
+      const clips = lines.flatMap((source, line) => {
+        const cell = cells[cellKey(target.locale, source)];
+        return cell?.buffer && cell.spokenText
+          ? [{ line, sourceText: source, text: cell.spokenText, voice: target.voice, buffer: cell.buffer }]
+          : [];
+      });
+      downloadBlob(await exportLocaleZip(target.locale, clips, exportOptions, processForExport), `localized-${target.locale}.zip`);
+    } catch (err: any) {
+      console.error("Localization export failed:", err);
+      setError(err.message || `Failed to export ${localeName(target.locale)}.`);
+    } finally {
+      setExportingLocale(null);
+    }
+  };
+
+  const playCell = (target: LocaleTarget, source: string) => {
+    const cell = cells[cellKey(target.locale, source)];
+    if (!cell?.buffer) return;
+    onPlay({
+      id: `localized-${target.locale}-${groupIdFor(source)}`,
+      text: cell.spokenText ?? '',
+      voice: target.voice,
+      timestamp: Date.now(),
+      audioBuffer: cell.buffer,
+      duration: cell.buffer.duration,
+      style,
+      engine,
+    });
+  };
+
+  const countFor = (locale: string) => {
+    const keys = lines.map(source => cellKey(locale, source));
+    return {
+      translated: keys.filter(key => translations[key]).length,
+      voiced: keys.filter(key => cells[key]?.buffer && cells[key].spokenText === translations[key]).length,
+    };
+  };
+
+  const allLocales = targets.map(t => t.locale);
+  const busy = disabled || isRunning;
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 space-y-4 text-xs text-slate-400">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1.5">
+          Translator
+          <select
+            value={`${translator.provider}/${translator.model}`}
+            onChange={(e) => {
+              const [provider, model] = e.target.value.split('/');
+              updateSettings({ translator: { provider, model } });
+            }}
+            disabled={isRunning}
+            className={inputClass}
+          >
+            {TRANSLATION_PROVIDERS.flatMap(provider => provider.models.map(model => (
+              <option key={`${provider.id}/${model.id}`} value={`${provider.id}/${model.id}`}>
+                {provider.label} · {model.label}
+              </option>
+            )))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          Source language
+          <select value={sourceLocale} onChange={(e) => updateSettings({ sourceLocale: e.target.value })} disabled={isRunning} className={inputClass}>
+            {LOCALES.map(locale => <option key={locale} value={locale}>{localeName(locale)}</option>)}
+          </select>
+        </label>
+        <span>
+          {lines.length > 0
+            ? `${lines.length} source line${lines.length === 1 ? '' : 's'} from the editor above.`
+            : 'Enter the source script above, one line per paragraph.'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {targets.map(target => {
+          const { translated, voiced } = countFor(target.locale);
+          const active = current?.locale === target.locale;
+          return (
+            <div
+              key={target.locale}
+              className={`flex items-center gap-1.5 rounded-lg border px-2 py-1 ${active ? 'border-blue-500 bg-blue-900/20' : 'border-slate-700'}`}
+            >
+              <button onClick={() => setActiveLocale(target.locale)} className="text-slate-200 font-medium" title={target.locale}>
+                {localeName(target.locale)}
+              </button>
+              <select
+                value={target.voice}
+                onChange={(e) => setTarget(target.locale, e.target.value as VoiceName)}
+                disabled={isRunning}
+                className={inputClass}
+                title="Voice for this language"
+              >
+                {voices.map(voice => <option key={voice.id} value={voice.id}>{voice.name}</option>)}
+              </select>
+              {lines.length > 0 && <span className="font-mono">{translated}/{voiced}</span>}
+              <button
+                onClick={() => handleRemoveLocale(target.locale)}
+                disabled={isRunning}
+                className="text-slate-500 hover:text-red-400 disabled:opacity-40"
+                title="Remove language"
+              >
+                ×
+              </button>
+            </div>
+          );
+        })}
+        <select value={addLocale} onChange={(e) => setAddLocale(e.target.value)} disabled={isRunning} className={inputClass}>
+          <option value="">Add language…</option>
+          {LOCALES.filter(locale => locale !== sourceLocale && !targets.some(t => t.locale === locale)).map(locale => (
+            <option key={locale} value={locale}>{localeName(locale)}</option>
+          ))}
+        </select>
+        <button onClick={handleAddLocale} disabled={!addLocale || isRunning} className={buttonClass}>Add</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {!isRunning ? (
+          <>
+            <button
+              onClick={() => translate(allLocales, lines)}
+              disabled={busy || lines.length === 0 || targets.length === 0}
+              className={`${buttonClass} bg-blue-600 hover:bg-blue-500 text-white`}
+            >
+              Translate all
+            </button>
+            <button onClick={() => generate(allLocales, lines)} disabled={busy || lines.length === 0} className={buttonClass}>
+              Voice all languages
+            </button>
+          </>
+        ) : (
+          <button onClick={() => abortRef.current?.abort()} className={buttonClass}>Cancel</button>
+        )}
+        <span>Lines already translated or voiced are skipped; edited translations are voiced again.</span>
+      </div>
+
+      {current && lines.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className="text-sm font-semibold text-slate-200">{localeName(current.locale)}</h3>
+            <span className="text-slate-500">voiced by {current.voice}</span>
+            <div className="flex-1" />
+            <button onClick={() => translate([current.locale], lines, true)} disabled={busy} className={buttonClass}>
+              Retranslate
+            </button>
+            <button onClick={() => generate([current.locale], lines)} disabled={busy} className={buttonClass}>
+              Voice {localeName(current.locale)}
+            </button>
+            <button
+              onClick={() => handleExport(current)}
+              disabled={countFor(current.locale).voiced === 0 || exportingLocale !== null}
+              className={buttonClass}
+            >
+              {exportingLocale === current.locale ? 'Exporting…' : 'Export ZIP'}
+            </button>
+          </div>
+
+          <div className="max-h-[28rem] overflow-y-auto rounded-lg border border-slate-800">
+            <table className="w-full">
+              <thead className="sticky top-0 bg-slate-900 text-slate-500 text-left">
+                <tr>
+                  <th className="px-3 py-2 font-medium">#</th>
+                  <th className="px-3 py-2 font-medium w-2/5">Source</th>
+                  <th className="px-3 py-2 font-medium w-3/5">Translation</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((source, index) => {
+                  const key = cellKey(current.locale, source);
+                  const cell = cells[key];
+                  const translation = translations[key] ?? '';
+                  const stale = !!cell?.buffer && cell.spokenText !== translation;
+                  return (
+                    <tr key={key} className="border-t border-slate-800/70 align-top">
+                      <td className="px-3 py-2 font-mono text-slate-500">{index + 1}</td>
+                      <td className="px-3 py-2 text-slate-300 whitespace-pre-line">{source}</td>
+                      <td className="px-3 py-2 space-y-1">
+                        <textarea
+                          value={translation}
+                          onChange={(e) => setTranslations(prev => ({ ...prev, [key]: e.target.value }))}
+                          placeholder={cell?.status === 'translating' ? 'Translating…' : 'Not translated yet'}
+                          rows={Math.min(6, Math.max(2, Math.ceil(source.length / 60)))}
+                          disabled={cell?.status === 'translating' || cell?.status === 'generating'}
+                          className={`${inputClass} w-full resize-y`}
+                        />
+                        {cell?.status === 'error' && <p className="text-red-300 whitespace-pre-line">{cell.error}</p>}
+                        {stale && <p className="text-amber-300">Edited since it was voiced</p>}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap space-x-2">
+                        {cell?.status === 'translating' || cell?.status === 'generating' ? (
+                          <span className="text-blue-300 animate-pulse">{cell.status}…</span>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => translate([current.locale], [source], true)}
+                              disabled={busy}
+                              className="text-slate-400 hover:text-blue-400 disabled:opacity-40"
+                              title="Translate again"
+                            >
+                              ↻
+                            </button>
+                            <button
+                              onClick={() => generate([current.locale], [source], true)}
+                              disabled={busy || !translation.trim()}
+                              className="text-slate-400 hover:text-purple-400 disabled:opacity-40"
+                              title="Voice this line"
+                            >
+                              🎙
+                            </button>
+                            {cell?.buffer && (
+                              <button onClick={() => playCell(current, source)} className="text-slate-400 hover:text-blue-400" title="Play">
+                                ▶
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default LocalizationPanel;
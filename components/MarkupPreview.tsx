@@ -0,0 +1,53 @@
+import React from 'react';
+import { MarkupIssue, ParsedMarkup } from '../utils/ssmlLite';
+
+interface MarkupPreviewProps {
+  parsed: ParsedMarkup | null;
+  issues: MarkupIssue[];
+}
+
+// Shows what will actually be spoken for SSML-lite input, or why it can't be parsed
+const MarkupPreview: React.FC<MarkupPreviewProps> = ({ parsed, issues }) => {
+  if (issues.length > 0) {
+    return (
+      <div className="p-3 rounded-lg bg-amber-900/20 border border-amber-800/50 text-sm space-y-1">
+        <p className="text-amber-200 font-medium">
+          {issues.length === 1 ? '1 markup problem' : `${issues.length} markup problems`}
+        </p>
+        <ul className="space-y-0.5 text-amber-100/80">
+          {issues.map((issue, i) => (
+            <li key={i}>
+              <span className="font-mono text-xs text-amber-400/80 mr-2">{issue.line}:{issue.column}</span>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  if (!parsed) return null;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-2">
+      <p className="text-xs text-slate-500 uppercase tracking-wider font-semibold">Markup preview</p>
+      <p className="text-sm text-slate-300 leading-relaxed">
+        {parsed.segments.map((segment, i) => (
+          <React.Fragment key={i}>
+            <span title={segment.direction}>
+              {segment.text}
+              {segment.direction && <span className="ml-1 text-xs text-purple-400">✦</span>}
+            </span>
+            {segment.breakAfter !== undefined && (
+              <span className="mx-1.5 px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-xs font-mono text-blue-300">
+                {segment.breakAfter >= 1 ? `${segment.breakAfter}s` : `${Math.round(segment.breakAfter * 1000)}ms`}
+              </span>
+            )}{' '}
+          </React.Fragment>
+        ))}
+      </p>
+    </div>
+  );
+};
+
+export default MarkupPreview;
@@ -0,0 +1,181 @@
+import React, { useRef, useState } from 'react';
+import { MusicBedSettings } from '../types';
+import { decodeMusicFile } from '../services/musicBed';
+
+export interface LoadedMusicBed {
+  name: string;
+  buffer: AudioBuffer;
+}
+
+interface MusicBedPanelProps {
+  bed: LoadedMusicBed | null;
+  onBedChange: (bed: LoadedMusicBed | null) => void;
+  settings: MusicBedSettings;
+  onSettingsChange: (settings: MusicBedSettings) => void;
+  // Whether exports are mixed over the bed
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  // Mixes the loaded clip with the bed and plays it; absent when nothing is loaded
+  onPreview?: () => void;
+  isPreviewing?: boolean;
+}
+
+type NumericField = 'gainDb' | 'fadeIn' | 'fadeOut' | 'intro' | 'outro';
+type DuckingField = 'amountDb' | 'thresholdDb' | 'attackMs' | 'releaseMs';
+
+// [field, label, min, max, step, unit]
+const BED_FIELDS: [NumericField, string, number, number, number, string][] = [
+  ['gainDb', 'Level', -40, 6, 1, 'dB'],
+  ['fadeIn', 'Fade in', 0, 10, 0.1, 's'],
+  ['fadeOut', 'Fade out', 0, 10, 0.1, 's'],
+  ['intro', 'Intro', 0, 30, 0.5, 's'],
+  ['outro', 'Outro', 0, 30, 0.5, 's'],
+];
+
+const DUCKING_FIELDS: [DuckingField, string, number, number, number, string][] = [
+  ['amountDb', 'Duck by', 0, 40, 1, 'dB'],
+  ['thresholdDb', 'Speech above', -70, -10, 1, 'dB'],
+  ['attackMs', 'Attack', 0, 2000, 10, 'ms'],
+  ['releaseMs', 'Release', 0, 4000, 10, 'ms'],
+];
+
+const inputClass = 'w-16 bg-slate-900 border border-slate-700 rounded-md px-1.5 py-0.5 text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Imports a background track and sets how it sits under the voice in exports
+const MusicBedPanel: React.FC<MusicBedPanelProps> = ({
+  bed, onBedChange, settings, onSettingsChange, enabled, onEnabledChange, onPreview, isPreviewing
+}) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      onBedChange({ name: file.name, buffer: await decodeMusicFile(file) });
+      onEnabledChange(true);
+    } catch (err: any) {
+      setError(err.message || "Could not load the music file.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateDucking = (patch: Partial<MusicBedSettings['ducking']>) =>
+    onSettingsChange({ ...settings, ducking: { ...settings.ducking, ...patch } });
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 space-y-4 text-xs text-slate-400">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+        <button onClick={() => fileInputRef.current?.click()} disabled={isLoading} className={buttonClass}>
+          {isLoading ? 'Loading...' : bed ? 'Replace track' : 'Import music track'}
+        </button>
+        {bed ? (
+          <>
+            <span className="text-slate-300 truncate max-w-[14rem]" title={bed.name}>{bed.name}</span>
+            <span className="font-mono">{bed.buffer.duration.toFixed(1)}s</span>
+            <button onClick={() => onBedChange(null)} className="text-slate-500 hover:text-red-400" title="Remove track">×</button>
+          </>
+        ) : (
+          <span>No background track. Any audio format the browser can decode works.</span>
+        )}
+        {bed && (
+          <label className="flex items-center gap-2 ml-auto text-slate-300">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => onEnabledChange(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Mix under exports
+          </label>
+        )}
+      </div>
+
+      {bed && (
+        <>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            {BED_FIELDS.map(([field, label, min, max, step, unit]) => (
+              <label key={field} className="flex items-center gap-1.5">
+                {label}
+                <input
+                  type="number"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={settings[field]}
+                  onChange={(e) => onSettingsChange({ ...settings, [field]: clamp(Number(e.target.value) || 0, min, max) })}
+                  className={inputClass}
+                />
+                {unit}
+              </label>
+            ))}
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={settings.loop}
+                onChange={(e) => onSettingsChange({ ...settings, loop: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Loop
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <label className="flex items-center gap-1.5 text-slate-300">
+              <input
+                type="checkbox"
+                checked={settings.ducking.enabled}
+                onChange={(e) => updateDucking({ enabled: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Duck under speech
+            </label>
+            {DUCKING_FIELDS.map(([field, label, min, max, step, unit]) => (
+              <label key={field} className={`flex items-center gap-1.5 ${settings.ducking.enabled ? '' : 'opacity-40'}`}>
+                {label}
+                <input
+                  type="number"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={settings.ducking[field]}
+                  onChange={(e) => updateDucking({ [field]: clamp(Number(e.target.value) || 0, min, max) })}
+                  disabled={!settings.ducking.enabled}
+                  className={inputClass}
+                />
+                {unit}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button onClick={onPreview} disabled={!onPreview || isPreviewing} className={buttonClass}>
+              {isPreviewing ? 'Mixing...' : 'Preview with current clip'}
+            </button>
+            <span>Exports are mixed down in stereo at 48 kHz unless a rate is chosen.</span>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default MusicBedPanel;
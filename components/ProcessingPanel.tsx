@@ -0,0 +1,211 @@
+import React from 'react';
+import { EqBand, ProcessingChain, ProcessingMode, ProcessingPreset } from '../types';
+
+interface ProcessingPanelProps {
+  presets: ProcessingPreset[];
+  selectedId: string;
+  onSelect: (preset: ProcessingPreset) => void;
+  // The chain being edited; starts as a copy of the selected preset
+  chain: ProcessingChain;
+  onChainChange: (chain: ProcessingChain) => void;
+  mode: ProcessingMode;
+  onModeChange: (mode: ProcessingMode) => void;
+  onSave: (name: string, overwrite: boolean) => void;
+  onDelete: (preset: ProcessingPreset) => void;
+  disabled?: boolean;
+}
+
+type Section = keyof ProcessingChain;
+
+const MODES: [ProcessingMode, string][] = [
+  ['off', 'Off'],
+  ['generation', 'At generation'],
+  ['export', 'At export'],
+];
+
+const SECTION_LABELS: Record<Section, string> = {
+  trim: 'Trim silence',
+  highPass: 'High-pass',
+  eq: 'EQ',
+  compressor: 'Compressor',
+  reverb: 'Reverb',
+  normalize: 'Loudness',
+  limiter: 'Limiter',
+};
+
+// [field, label, min, max, step, unit] for the plain numeric settings of each section
+const SECTION_FIELDS: { [S in Section]?: [string, string, number, number, number, string][] } = {
+  trim: [['thresholdDb', 'Threshold', -90, -20, 1, 'dB'], ['paddingMs', 'Padding', 0, 2000, 10, 'ms']],
+  highPass: [['frequency', 'Cutoff', 20, 400, 5, 'Hz']],
+  compressor: [
+    ['thresholdDb', 'Threshold', -60, 0, 1, 'dB'],
+    ['ratio', 'Ratio', 1, 20, 0.5, ':1'],
+    ['kneeDb', 'Knee', 0, 40, 1, 'dB'],
+    ['attackMs', 'Attack', 0, 1000, 1, 'ms'],
+    ['releaseMs', 'Release', 10, 1000, 10, 'ms'],
+    ['makeupDb', 'Makeup', 0, 24, 0.5, 'dB'],
+  ],
+  reverb: [['decaySeconds', 'Decay', 0.1, 6, 0.1, 's'], ['mix', 'Mix', 0, 1, 0.05, '']],
+  normalize: [['targetLufs', 'Target', -36, -6, 1, 'LUFS']],
+  limiter: [['ceilingDb', 'Ceiling', -12, 0, 0.1, 'dBTP']],
+};
+
+const NEW_BAND: EqBand = { type: 'peaking', frequency: 1000, gainDb: 0, q: 1 };
+
+const inputClass = 'w-16 bg-slate-900 border border-slate-700 rounded-md px-1.5 py-0.5 text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const selectClass = 'bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Preset picker and editor for the post-processing chain, plus when to apply it
+const ProcessingPanel: React.FC<ProcessingPanelProps> = ({
+  presets, selectedId, onSelect, chain, onChainChange, mode, onModeChange, onSave, onDelete, disabled
+}) => {
+  const selected = presets.find(p => p.id === selectedId);
+  const isModified = !selected || JSON.stringify(selected.chain) !== JSON.stringify(chain);
+
+  const updateSection = <S extends Section>(section: S, patch: Partial<ProcessingChain[S]>) =>
+    onChainChange({ ...chain, [section]: { ...chain[section], ...patch } });
+
+  const updateBand = (index: number, patch: Partial<EqBand>) =>
+    updateSection('eq', { bands: chain.eq.bands.map((band, i) => i === index ? { ...band, ...patch } : band) });
+
+  const handleSave = (overwrite: boolean) => {
+    const name = overwrite ? selected!.name : window.prompt("Preset name", selected ? `${selected.name} copy` : 'My preset');
+    if (name?.trim()) onSave(name.trim(), overwrite);
+  };
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 space-y-4 text-xs text-slate-400">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1.5">
+          Preset
+          <select
+            value={selectedId}
+            onChange={(e) => {
+              const preset = presets.find(p => p.id === e.target.value);
+              if (preset) onSelect(preset);
+            }}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>{preset.name}{preset.builtIn ? '' : ' (custom)'}</option>
+            ))}
+          </select>
+        </label>
+        {isModified && <span className="text-amber-400">Modified</span>}
+        <div className="flex rounded-lg bg-slate-900 border border-slate-700 p-0.5 font-medium ml-auto">
+          {MODES.map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => onModeChange(value)}
+              disabled={disabled}
+              className={`px-3 py-1 rounded-md transition-colors ${mode === value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {(Object.keys(SECTION_LABELS) as Section[]).map((section) => (
+          <fieldset key={section} disabled={disabled} className="p-3 rounded-lg bg-slate-800/40 space-y-2">
+            <label className="flex items-center gap-2 text-slate-300 font-medium">
+              <input
+                type="checkbox"
+                checked={chain[section].enabled}
+                onChange={(e) => updateSection(section, { enabled: e.target.checked })}
+                className="accent-blue-500"
+              />
+              {SECTION_LABELS[section]}
+            </label>
+
+            <div className={`flex flex-wrap gap-x-3 gap-y-1.5 ${chain[section].enabled ? '' : 'opacity-40'}`}>
+              {SECTION_FIELDS[section]?.map(([field, label, min, max, step, unit]) => (
+                <label key={field} className="flex items-center gap-1">
+                  {label}
+                  <input
+                    type="number"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={(chain[section] as unknown as Record<string, number>)[field]}
+                    onChange={(e) => updateSection(section, { [field]: clamp(Number(e.target.value) || 0, min, max) })}
+                    className={inputClass}
+                  />
+                  {unit}
+                </label>
+              ))}
+
+              {section === 'eq' && (
+                <div className="w-full space-y-1.5">
+                  {chain.eq.bands.map((band, i) => (
+                    <div key={i} className="flex flex-wrap items-center gap-1.5">
+                      <select
+                        value={band.type}
+                        onChange={(e) => updateBand(i, { type: e.target.value as EqBand['type'] })}
+                        className={selectClass}
+                      >
+                        <option value="peaking">Bell</option>
+                        <option value="lowshelf">Low shelf</option>
+                        <option value="highshelf">High shelf</option>
+                      </select>
+                      <input type="number" min={20} max={20000} step={10} value={band.frequency}
+                        onChange={(e) => updateBand(i, { frequency: clamp(Number(e.target.value) || 20, 20, 20000) })}
+                        className={inputClass} title="Frequency (Hz)" />
+                      Hz
+                      <input type="number" min={-24} max={24} step={0.5} value={band.gainDb}
+                        onChange={(e) => updateBand(i, { gainDb: clamp(Number(e.target.value) || 0, -24, 24) })}
+                        className={inputClass} title="Gain (dB)" />
+                      dB
+                      <input type="number" min={0.1} max={18} step={0.1} value={band.q}
+                        onChange={(e) => updateBand(i, { q: clamp(Number(e.target.value) || 0.1, 0.1, 18) })}
+                        className={inputClass} title="Q" />
+                      Q
+                      <button
+                        onClick={() => updateSection('eq', { bands: chain.eq.bands.filter((_, j) => j !== i) })}
+                        className="text-slate-500 hover:text-red-400"
+                        title="Remove band"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  <button onClick={() => updateSection('eq', { bands: [...chain.eq.bands, NEW_BAND] })} className="text-blue-400 hover:text-blue-300">
+                    + Add band
+                  </button>
+                </div>
+              )}
+            </div>
+          </fieldset>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => handleSave(false)} disabled={disabled} className={buttonClass}>Save as preset…</button>
+        {selected && !selected.builtIn && (
+          <>
+            <button onClick={() => handleSave(true)} disabled={disabled || !isModified} className={buttonClass}>Update "{selected.name}"</button>
+            <button
+              onClick={() => onDelete(selected)}
+              disabled={disabled}
+              className="px-2 py-1 rounded-lg text-xs text-slate-400 hover:text-red-400 hover:bg-slate-800 transition-colors"
+            >
+              Delete preset
+            </button>
+          </>
+        )}
+        {selected && isModified && (
+          <button onClick={() => onChainChange(selected.chain)} disabled={disabled} className="text-slate-500 hover:text-slate-300">
+            Revert
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProcessingPanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { TtsSelection } from '../types';
+import { TTS_PROVIDERS, getProvider } from '../services/ttsProvider';
+
+interface ProviderSelectorProps {
+  selection: TtsSelection;
+  onChange: (selection: TtsSelection) => void;
+  disabled?: boolean;
+}
+
+const selectClassName = 'bg-slate-900 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+
+const ProviderSelector: React.FC<ProviderSelectorProps> = ({ selection, onChange, disabled }) => {
+  const provider = getProvider(selection.provider);
+  const { capabilities } = provider;
+  const notes = [
+    capabilities.maxSpeakers > 1 ? `${capabilities.maxSpeakers} speakers per request` : 'one speaker per request',
+    capabilities.styleInstructions ? 'delivery directions' : 'pace only',
+    capabilities.remote ? 'needs API key' : 'offline',
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <select
+        value={selection.provider}
+        onChange={(e) => onChange({ provider: e.target.value, model: getProvider(e.target.value).models[0].id })}
+        disabled={disabled}
+        className={selectClassName}
+        aria-label="TTS provider"
+      >
+        {TTS_PROVIDERS.map(p => (
+          <option key={p.id} value={p.id}>{p.label}</option>
+        ))}
+      </select>
+      <select
+        value={selection.model}
+        onChange={(e) => onChange({ ...selection, model: e.target.value })}
+        disabled={disabled}
+        className={selectClassName}
+        aria-label="Model"
+      >
+        {provider.models.map(m => (
+          <option key={m.id} value={m.id}>{m.label}</option>
+        ))}
+      </select>
+      <span className="text-xs text-slate-500">{notes.join(' · ')}</span>
+    </div>
+  );
+};
+
+export default ProviderSelector;
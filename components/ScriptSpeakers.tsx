@@ -0,0 +1,62 @@
+import React from 'react';
+import { ScriptLine, VoiceName } from '../types';
+
+interface ScriptSpeakersProps {
+  lines: ScriptLine[];
+  speakers: Record<string, VoiceName>;
+  onAssign: (speaker: string, voice: VoiceName) => void;
+  parseError?: string | null;
+  disabled?: boolean;
+}
+
+const ScriptSpeakers: React.FC<ScriptSpeakersProps> = ({ lines, speakers, onAssign, parseError, disabled }) => {
+  if (parseError) {
+    return (
+      <div className="p-3 rounded-lg bg-amber-900/20 border border-amber-800/50 text-amber-200 text-sm">
+        {parseError}
+      </div>
+    );
+  }
+
+  const names = Object.keys(speakers);
+  if (names.length === 0) {
+    return (
+      <p className="text-sm text-slate-500">
+        Write one turn per line as <span className="font-mono text-slate-400">Speaker: text</span> to assign voices.
+      </p>
+    );
+  }
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between text-xs text-slate-500 uppercase tracking-wider font-semibold">
+        <span>Speakers</span>
+        <span>{lines.length} turns</span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {names.map((speaker) => (
+          <label key={speaker} className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-slate-800/50 border border-slate-700">
+            <span className="text-sm font-medium text-slate-200 truncate">{speaker}</span>
+            <select
+              value={speakers[speaker]}
+              onChange={(e) => onAssign(speaker, e.target.value as VoiceName)}
+              disabled={disabled}
+              className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Object.values(VoiceName).map((voice) => (
+                <option key={voice} value={voice}>{voice}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      {names.length > 2 && (
+        <p className="text-xs text-slate-500">
+          More than two speakers are generated turn by turn and joined into one clip.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ScriptSpeakers;
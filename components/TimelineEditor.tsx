@@ -0,0 +1,490 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GeneratedAudio, TimelineClip, TimelineProject } from '../types';
+import { renderTimeline, getClipDuration, getTimelineDuration, RenderedTimeline } from '../services/timelineRenderer';
+import { saveProject, loadProjects, deleteProject } from '../services/projectStore';
+import { computePeaks } from '../utils/audioUtils';
+
+// dataTransfer type used when dragging history items onto a track
+export const HISTORY_DRAG_TYPE = 'application/x-voice-studio-history-id';
+
+interface TimelineEditorProps {
+  history: GeneratedAudio[];
+  onPreview: (rendered: RenderedTimeline) => void;
+  onExport: (rendered: RenderedTimeline, name: string) => void;
+  onAddToHistory: (rendered: RenderedTimeline, name: string) => void;
+}
+
+const TRACK_HEIGHT = 64;
+const MIN_PIXELS_PER_SECOND = 10;
+const MAX_PIXELS_PER_SECOND = 200;
+// Width shown for clips whose history item has been deleted
+const MISSING_CLIP_SECONDS = 2;
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+const createProject = (): TimelineProject => ({
+  id: generateId(),
+  name: 'Untitled project',
+  trackCount: 2,
+  clips: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+interface ClipWaveformProps {
+  buffer: AudioBuffer;
+  clip: TimelineClip;
+  width: number;
+}
+
+const ClipWaveform: React.FC<ClipWaveformProps> = ({ buffer, clip, width }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pixelWidth = Math.max(1, Math.min(4000, Math.round(width)));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const peaks = computePeaks(buffer, pixelWidth, clip.trimStart, buffer.duration - clip.trimEnd);
+    const middle = canvas.height / 2;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = 'rgba(191, 219, 254, 0.7)';
+    peaks.forEach((peak, x) => {
+      const h = Math.max(1, peak * middle);
+      ctx.fillRect(x, middle - h, 1, h * 2);
+    });
+  }, [buffer, clip.trimStart, clip.trimEnd, pixelWidth]);
+
+  return <canvas ref={canvasRef} width={pixelWidth} height={TRACK_HEIGHT - 24} className="absolute inset-x-0 bottom-1 w-full h-10 pointer-events-none" />;
+};
+
+type DragMode = 'move' | 'trim-start' | 'trim-end';
+
+interface DragState {
+  mode: DragMode;
+  clipId: string;
+  startX: number;
+  startY: number;
+  original: TimelineClip;
+}
+
+const TimelineEditor: React.FC<TimelineEditorProps> = ({ history, onPreview, onExport, onAddToHistory }) => {
+  const [project, setProject] = useState<TimelineProject>(createProject);
+  const [savedProjects, setSavedProjects] = useState<TimelineProject[]>([]);
+  const [selectedClipId, setSelectedClipId] = useState<string | null>(null);
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(40);
+  const [appendGap, setAppendGap] = useState(0.5);
+  const [isRendering, setIsRendering] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const sources = useMemo(() => new Map(history.map(item => [item.id, item])), [history]);
+  const selectedClip = project.clips.find(c => c.id === selectedClipId) ?? null;
+  const duration = getTimelineDuration(project, sources);
+  const visibleSeconds = Math.max(duration + 5, 20);
+
+  useEffect(() => {
+    loadProjects()
+      .then(setSavedProjects)
+      .catch(err => console.error("Failed to load projects:", err));
+  }, []);
+
+  const updateProject = (update: (prev: TimelineProject) => TimelineProject) => {
+    setProject(prev => ({ ...update(prev), updatedAt: Date.now() }));
+    setIsDirty(true);
+  };
+
+  const updateClip = (id: string, patch: Partial<TimelineClip>) => {
+    updateProject(prev => ({
+      ...prev,
+      clips: prev.clips.map(c => c.id === id ? { ...c, ...patch } : c),
+    }));
+  };
+
+  const clipLength = (clip: TimelineClip) => {
+    const buffer = sources.get(clip.sourceId)?.audioBuffer;
+    return buffer ? getClipDuration(clip, buffer) : MISSING_CLIP_SECONDS;
+  };
+
+  const trackEnd = (track: number, clips: TimelineClip[] = project.clips) =>
+    clips.filter(c => c.track === track).reduce((end, c) => Math.max(end, c.start + clipLength(c)), 0);
+
+  const addClip = (sourceId: string, track: number, start?: number) => {
+    if (!sources.get(sourceId)?.audioBuffer) return;
+    const clip: TimelineClip = {
+      id: generateId(),
+      sourceId,
+      track,
+      // Without a drop position, append after the track's last clip
+      start: round(start ?? (trackEnd(track) > 0 ? trackEnd(track) + appendGap : 0)),
+      trimStart: 0,
+      trimEnd: 0,
+      gainDb: 0,
+      fadeIn: 0,
+      fadeOut: 0,
+    };
+    updateProject(prev => ({ ...prev, clips: [...prev.clips, clip] }));
+    setSelectedClipId(clip.id);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, track: number) => {
+    e.preventDefault();
+    const sourceId = e.dataTransfer.getData(HISTORY_DRAG_TYPE);
+    if (!sourceId) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    addClip(sourceId, track, Math.max(0, (e.clientX - rect.left) / pixelsPerSecond));
+  };
+
+  const startDrag = (e: React.PointerEvent, clip: TimelineClip, mode: DragMode) => {
+    e.stopPropagation();
+    dragRef.current = { mode, clipId: clip.id, startX: e.clientX, startY: e.clientY, original: clip };
+    setSelectedClipId(clip.id);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const buffer = sources.get(drag.original.sourceId)?.audioBuffer;
+    const delta = (e.clientX - drag.startX) / pixelsPerSecond;
+    const { original } = drag;
+
+    if (drag.mode === 'move') {
+      const trackDelta = Math.round((e.clientY - drag.startY) / TRACK_HEIGHT);
+      updateClip(drag.clipId, {
+        start: round(Math.max(0, original.start + delta)),
+        track: Math.max(0, Math.min(project.trackCount - 1, original.track + trackDelta)),
+      });
+    } else if (buffer && drag.mode === 'trim-start') {
+      // Keep at least 50 ms of audio and don't move the clip before zero
+      const maxTrim = buffer.duration - original.trimEnd - 0.05;
+      const trim = Math.max(0, Math.min(maxTrim, original.trimStart + delta, original.trimStart + original.start));
+      updateClip(drag.clipId, {
+        trimStart: round(trim),
+        start: round(original.start + (trim - original.trimStart)),
+      });
+    } else if (buffer && drag.mode === 'trim-end') {
+      const maxTrim = buffer.duration - original.trimStart - 0.05;
+      updateClip(drag.clipId, { trimEnd: round(Math.max(0, Math.min(maxTrim, original.trimEnd - delta))) });
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const removeClip = (id: string) => {
+    updateProject(prev => ({ ...prev, clips: prev.clips.filter(c => c.id !== id) }));
+    setSelectedClipId(null);
+  };
+
+  const duplicateClip = (clip: TimelineClip) => {
+    const copy = { ...clip, id: generateId(), start: round(trackEnd(clip.track) + appendGap) };
+    updateProject(prev => ({ ...prev, clips: [...prev.clips, copy] }));
+    setSelectedClipId(copy.id);
+  };
+
+  // Shifts every clip on the track that starts at or after `from`
+  const insertGap = (track: number, from: number, seconds: number) => {
+    updateProject(prev => ({
+      ...prev,
+      clips: prev.clips.map(c => c.track === track && c.start >= from ? { ...c, start: round(c.start + seconds) } : c),
+    }));
+  };
+
+  const removeTrack = (track: number) => {
+    if (project.trackCount <= 1) return;
+    updateProject(prev => ({
+      ...prev,
+      trackCount: prev.trackCount - 1,
+      clips: prev.clips
+        .filter(c => c.track !== track)
+        .map(c => c.track > track ? { ...c, track: c.track - 1 } : c),
+    }));
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveProject(project);
+      setSavedProjects(await loadProjects());
+      setIsDirty(false);
+    } catch (err: any) {
+      setError(err.message || "Failed to save project.");
+    }
+  };
+
+  const handleLoad = (id: string) => {
+    const found = savedProjects.find(p => p.id === id);
+    if (!found) return;
+    if (isDirty && !window.confirm("Discard unsaved changes to the current project?")) return;
+    setProject(found);
+    setSelectedClipId(null);
+    setIsDirty(false);
+  };
+
+  const handleNew = () => {
+    if (isDirty && !window.confirm("Discard unsaved changes to the current project?")) return;
+    setProject(createProject());
+    setSelectedClipId(null);
+    setIsDirty(false);
+  };
+
+  const handleDeleteProject = async () => {
+    if (!window.confirm(`Delete project "${project.name}"?`)) return;
+    try {
+      await deleteProject(project.id);
+      setSavedProjects(await loadProjects());
+    } catch (err: any) {
+      setError(err.message || "Failed to delete project.");
+    }
+    setProject(createProject());
+    setSelectedClipId(null);
+    setIsDirty(false);
+  };
+
+  const withRender = async (action: (rendered: RenderedTimeline) => void) => {
+    setError(null);
+    setIsRendering(true);
+    try {
+      action(await renderTimeline(project, sources));
+    } catch (err: any) {
+      setError(err.message || "Failed to render the timeline.");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const missingCount = project.clips.filter(c => !sources.get(c.sourceId)?.audioBuffer).length;
+  const tickStep = pixelsPerSecond >= 80 ? 1 : pixelsPerSecond >= 30 ? 2 : 5;
+  const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+  const inputClass = 'bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-4">
+      {/* Project bar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={project.name}
+          onChange={(e) => updateProject(prev => ({ ...prev, name: e.target.value }))}
+          className={`${inputClass} w-48 text-sm`}
+          aria-label="Project name"
+        />
+        <select
+          value={savedProjects.some(p => p.id === project.id) ? project.id : ''}
+          onChange={(e) => handleLoad(e.target.value)}
+          className={inputClass}
+          aria-label="Open project"
+        >
+          <option value="">{savedProjects.length ? 'Open project…' : 'No saved projects'}</option>
+          {savedProjects.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button onClick={handleNew} className={buttonClass}>New</button>
+        <button onClick={handleSave} className={buttonClass}>{isDirty ? 'Save*' : 'Save'}</button>
+        {savedProjects.some(p => p.id === project.id) && (
+          <button onClick={handleDeleteProject} className={`${buttonClass} hover:text-red-400`}>Delete</button>
+        )}
+
+        <div className="flex-1" />
+
+        <button disabled={isRendering} onClick={() => withRender(onPreview)} className={buttonClass}>Preview</button>
+        <button disabled={isRendering} onClick={() => withRender(r => onExport(r, project.name))} className={buttonClass}>Export</button>
+        <button disabled={isRendering} onClick={() => withRender(r => onAddToHistory(r, project.name))} className={buttonClass}>Add to History</button>
+      </div>
+
+      {/* Editing controls */}
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+        <select
+          value=""
+          onChange={(e) => e.target.value && addClip(e.target.value, selectedClip?.track ?? 0)}
+          className={inputClass}
+          aria-label="Add clip"
+        >
+          <option value="">Add clip from history…</option>
+          {history.filter(h => h.audioBuffer).map(item => (
+            <option key={item.id} value={item.id}>
+              {item.voice}: {item.text.slice(0, 48)}{item.text.length > 48 ? '…' : ''}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1.5">
+          Gap when appending
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={appendGap}
+            onChange={(e) => setAppendGap(Math.max(0, Number(e.target.value) || 0))}
+            className={`${inputClass} w-16`}
+          />
+          s
+        </label>
+        <label className="flex items-center gap-1.5">
+          Zoom
+          <input
+            type="range"
+            min={MIN_PIXELS_PER_SECOND}
+            max={MAX_PIXELS_PER_SECOND}
+            value={pixelsPerSecond}
+            onChange={(e) => setPixelsPerSecond(Number(e.target.value))}
+          />
+        </label>
+        <button
+          onClick={() => updateProject(prev => ({ ...prev, trackCount: prev.trackCount + 1 }))}
+          className={buttonClass}
+        >
+          + Track
+        </button>
+        <span className="ml-auto font-mono">{duration.toFixed(2)}s</span>
+      </div>
+
+      {/* Tracks */}
+      <div className="overflow-x-auto rounded-lg border border-slate-800 bg-slate-950/50">
+        {/* Drags are tracked here rather than on the clip, which remounts when it changes track */}
+        <div
+          style={{ width: visibleSeconds * pixelsPerSecond + 96 }}
+          className="relative"
+          onPointerMove={handlePointerMove}
+          onPointerUp={endDrag}
+          onPointerLeave={endDrag}
+        >
+          <div className="flex h-6 border-b border-slate-800 text-[10px] text-slate-500 font-mono">
+            <div className="w-24 shrink-0" />
+            <div className="relative flex-1">
+              {Array.from({ length: Math.ceil(visibleSeconds / tickStep) }, (_, i) => (
+                <span key={i} className="absolute top-1 border-l border-slate-700 pl-1" style={{ left: i * tickStep * pixelsPerSecond }}>
+                  {i * tickStep}s
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {Array.from({ length: project.trackCount }, (_, track) => (
+            <div key={track} className="flex border-b border-slate-800/70 last:border-b-0" style={{ height: TRACK_HEIGHT }}>
+              <div className="w-24 shrink-0 flex items-center justify-between px-2 text-xs text-slate-500 border-r border-slate-800 sticky left-0 bg-slate-900 z-10">
+                Track {track + 1}
+                {project.trackCount > 1 && (
+                  <button onClick={() => removeTrack(track)} className="text-slate-600 hover:text-red-400" title="Remove track">×</button>
+                )}
+              </div>
+              <div
+                className="relative flex-1"
+                onDragOver={(e) => {
+                  if (e.dataTransfer.types.includes(HISTORY_DRAG_TYPE)) e.preventDefault();
+                }}
+                onDrop={(e) => handleDrop(e, track)}
+                onClick={() => setSelectedClipId(null)}
+              >
+                {project.clips.filter(c => c.track === track).map(clip => {
+                  const item = sources.get(clip.sourceId);
+                  const length = clipLength(clip);
+                  const width = length * pixelsPerSecond;
+                  return (
+                    <div
+                      key={clip.id}
+                      onPointerDown={(e) => startDrag(e, clip, 'move')}
+                      onClick={(e) => e.stopPropagation()}
+                      className={`absolute top-1 bottom-1 rounded-md overflow-hidden cursor-grab active:cursor-grabbing select-none border ${
+                        !item?.audioBuffer
+                          ? 'bg-red-900/40 border-red-700/60'
+                          : selectedClipId === clip.id
+                            ? 'bg-blue-600/50 border-blue-400'
+                            : 'bg-blue-900/50 border-blue-800 hover:border-blue-600'
+                      }`}
+                      style={{ left: clip.start * pixelsPerSecond, width: Math.max(width, 4) }}
+                      title={item?.text ?? 'Missing history item'}
+                    >
+                      {item?.audioBuffer && <ClipWaveform buffer={item.audioBuffer} clip={clip} width={width} />}
+                      {clip.fadeIn > 0 && (
+                        <div className="absolute inset-y-0 left-0 bg-gradient-to-r from-slate-950/70 to-transparent pointer-events-none" style={{ width: Math.min(clip.fadeIn, length / 2) * pixelsPerSecond }} />
+                      )}
+                      {clip.fadeOut > 0 && (
+                        <div className="absolute inset-y-0 right-0 bg-gradient-to-l from-slate-950/70 to-transparent pointer-events-none" style={{ width: Math.min(clip.fadeOut, length / 2) * pixelsPerSecond }} />
+                      )}
+                      <span className="relative block px-2 pt-0.5 text-[10px] text-blue-100 truncate pointer-events-none">
+                        {item ? `${item.voice} · ${item.text}` : 'Missing clip'}
+                      </span>
+                      <div onPointerDown={(e) => startDrag(e, clip, 'trim-start')} className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize hover:bg-white/40" />
+                      <div onPointerDown={(e) => startDrag(e, clip, 'trim-end')} className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize hover:bg-white/40" />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {project.clips.length === 0 && (
+        <p className="text-sm text-slate-500 text-center">
+          Drag clips from the history below onto a track, or add one from the menu above.
+        </p>
+      )}
+      {missingCount > 0 && (
+        <p className="text-xs text-red-300">
+          {missingCount} clip{missingCount > 1 ? 's refer' : ' refers'} to deleted history items and will be skipped when rendering.
+        </p>
+      )}
+
+      {/* Clip inspector */}
+      {selectedClip && (
+        <div className="flex flex-wrap items-end gap-3 p-3 rounded-lg bg-slate-800/40 border border-slate-700 text-xs text-slate-400">
+          {([
+            ['start', 'Start (s)', 0, undefined, 0.05],
+            ['trimStart', 'Trim head (s)', 0, undefined, 0.05],
+            ['trimEnd', 'Trim tail (s)', 0, undefined, 0.05],
+            ['gainDb', 'Gain (dB)', -24, 12, 0.5],
+            ['fadeIn', 'Fade in (s)', 0, undefined, 0.05],
+            ['fadeOut', 'Fade out (s)', 0, undefined, 0.05],
+          ] as [keyof TimelineClip, string, number, number | undefined, number][]).map(([key, label, min, max, step]) => (
+            <label key={key} className="flex flex-col gap-1">
+              {label}
+              <input
+                type="number"
+                min={min}
+                max={max}
+                step={step}
+                value={selectedClip[key] as number}
+                onChange={(e) => {
+                  let value = Number(e.target.value) || 0;
+                  value = Math.max(min, max !== undefined ? Math.min(max, value) : value);
+                  updateClip(selectedClip.id, { [key]: round(value) });
+                }}
+                className={`${inputClass} w-24`}
+              />
+            </label>
+          ))}
+          <label className="flex flex-col gap-1">
+            Track
+            <select
+              value={selectedClip.track}
+              onChange={(e) => updateClip(selectedClip.id, { track: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {Array.from({ length: project.trackCount }, (_, t) => (
+                <option key={t} value={t}>Track {t + 1}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-2 ml-auto">
+            <button onClick={() => insertGap(selectedClip.track, selectedClip.start, 1)} className={buttonClass} title="Push this clip and everything after it on the track back by 1s">
+              +1s gap before
+            </button>
+            <button onClick={() => duplicateClip(selectedClip)} className={buttonClass}>Duplicate</button>
+            <button onClick={() => removeClip(selectedClip.id)} className={`${buttonClass} hover:text-red-400`}>Remove</button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-300">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default TimelineEditor;
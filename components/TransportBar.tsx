@@ -0,0 +1,313 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { computePeaks } from '../utils/audioUtils';
+import { LoopRegion, MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE, TransportPlayer } from '../utils/transportPlayer';
+
+interface TransportBarProps {
+  player: TransportPlayer;
+  buffer: AudioBuffer;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  volume: number;
+  onVolumeChange: (volume: number) => void;
+}
+
+const WAVEFORM_BUCKETS = 300;
+const SEEK_STEP = 5;
+const FINE_SEEK_STEP = 1;
+const RATE_STEP = 0.25;
+const VOLUME_STEP = 0.1;
+const MAX_VOLUME = 1.5;
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds - m * 60;
+  return `${m}:${s.toFixed(1).padStart(4, '0')}`;
+};
+
+const SHORTCUTS: [string, string][] = [
+  ['Space', 'Play / pause'],
+  ['← →', `Seek ${SEEK_STEP}s (Shift: ${FINE_SEEK_STEP}s)`],
+  ['Home', 'Back to start'],
+  ['[ ]', 'Set loop start / end'],
+  ['L', 'Loop on / off'],
+  ['- =', 'Slower / faster'],
+  ['↑ ↓', 'Volume'],
+  ['M', 'Mute'],
+];
+
+// Keyboard shortcuts are ignored while typing in a form field
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Waveform overview with click-to-seek and shift-drag loop selection, plus time, rate and volume controls
+const TransportBar: React.FC<TransportBarProps> = ({ player, buffer, isPlaying, onTogglePlay, volume, onVolumeChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [time, setTime] = useState(player.currentTime);
+  const [rate, setRate] = useState(player.playbackRate);
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const [loopEnd, setLoopEnd] = useState<number | null>(null);
+  const [loopEnabled, setLoopEnabled] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const selectionRef = useRef<number | null>(null);
+  const unmutedVolumeRef = useRef(1);
+  const duration = buffer.duration;
+  const peaks = useRef<Float32Array | null>(null);
+
+  const loop: LoopRegion | null = loopStart !== null && loopEnd !== null && loopEnd > loopStart
+    ? { start: loopStart, end: loopEnd }
+    : null;
+
+  // A new clip starts without a loop
+  useEffect(() => {
+    peaks.current = computePeaks(buffer, WAVEFORM_BUCKETS);
+    setLoopStart(null);
+    setLoopEnd(null);
+    setLoopEnabled(false);
+    setTime(player.currentTime);
+  }, [buffer, player]);
+
+  useEffect(() => {
+    player.setLoop(loopEnabled ? loop : null);
+  }, [player, loopEnabled, loop?.start, loop?.end]);
+
+  // Follow the playhead while playing
+  useEffect(() => {
+    if (!isPlaying) {
+      setTime(player.currentTime);
+      return;
+    }
+    let frame: number;
+    const tick = () => {
+      setTime(player.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, player]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !peaks.current) return;
+
+    const { width, height } = canvas;
+    const middle = height / 2;
+    const barWidth = width / WAVEFORM_BUCKETS;
+    const playheadX = (time / duration) * width;
+    ctx.clearRect(0, 0, width, height);
+
+    if (loop) {
+      ctx.fillStyle = loopEnabled ? 'rgba(168, 85, 247, 0.2)' : 'rgba(148, 163, 184, 0.12)';
+      ctx.fillRect((loop.start / duration) * width, 0, ((loop.end - loop.start) / duration) * width, height);
+    }
+
+    peaks.current.forEach((peak, i) => {
+      const x = i * barWidth;
+      ctx.fillStyle = x < playheadX ? '#60a5fa' : '#475569';
+      const h = Math.max(1, peak * middle);
+      ctx.fillRect(x, middle - h, Math.max(1, barWidth - 1), h * 2);
+    });
+
+    for (const marker of [loopStart, loopEnd]) {
+      if (marker === null) continue;
+      ctx.fillStyle = '#a855f7';
+      ctx.fillRect((marker / duration) * width - 1, 0, 2, height);
+    }
+
+    ctx.fillStyle = '#f8fafc';
+    ctx.fillRect(playheadX - 1, 0, 2, height);
+  }, [time, duration, loopStart, loopEnd, loopEnabled, buffer]);
+
+  const seek = (seconds: number) => {
+    player.seek(seconds);
+    setTime(player.currentTime);
+  };
+
+  const changeRate = (value: number) => {
+    player.setPlaybackRate(Math.round(value * 100) / 100);
+    setRate(player.playbackRate);
+  };
+
+  const changeVolume = (value: number) => onVolumeChange(Math.max(0, Math.min(MAX_VOLUME, Math.round(value * 100) / 100)));
+
+  const toggleMute = () => {
+    if (volume > 0) {
+      unmutedVolumeRef.current = volume;
+      changeVolume(0);
+    } else {
+      changeVolume(unmutedVolumeRef.current || 1);
+    }
+  };
+
+  const setMarker = (which: 'start' | 'end', at = player.currentTime) => {
+    if (which === 'start') {
+      setLoopStart(at);
+      if (loopEnd !== null && loopEnd <= at) setLoopEnd(null);
+    } else {
+      // Without a usable A marker the loop runs from the start of the clip
+      setLoopStart(loopStart !== null && loopStart < at ? loopStart : 0);
+      setLoopEnd(at);
+      setLoopEnabled(true);
+    }
+  };
+
+  const clearLoop = () => {
+    setLoopStart(null);
+    setLoopEnd(null);
+    setLoopEnabled(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (isTypingTarget(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+    // Space already clicks a focused button
+    if (e.key === ' ' && e.target instanceof HTMLButtonElement) return;
+    const step = e.shiftKey ? FINE_SEEK_STEP : SEEK_STEP;
+    const handlers: Record<string, () => void> = {
+      ' ': onTogglePlay,
+      ArrowLeft: () => seek(player.currentTime - step),
+      ArrowRight: () => seek(player.currentTime + step),
+      Home: () => seek(0),
+      '[': () => setMarker('start'),
+      ']': () => setMarker('end'),
+      l: () => loop && setLoopEnabled(enabled => !enabled),
+      '-': () => changeRate(player.playbackRate - RATE_STEP),
+      '=': () => changeRate(player.playbackRate + RATE_STEP),
+      '+': () => changeRate(player.playbackRate + RATE_STEP),
+      ArrowUp: () => changeVolume(volume + VOLUME_STEP),
+      ArrowDown: () => changeVolume(volume - VOLUME_STEP),
+      m: toggleMute,
+    };
+    const handler = handlers[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+    if (!handler) return;
+    e.preventDefault();
+    handler();
+  };
+
+  // The window listener is registered once and always calls the latest handler
+  const keyHandlerRef = useRef(handleKeyDown);
+  keyHandlerRef.current = handleKeyDown;
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
+  const timeAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((e.clientX - rect.left) / rect.width) * duration));
+  };
+
+  // Click seeks; shift-drag selects a loop region
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.shiftKey) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      selectionRef.current = timeAt(e);
+      setLoopStart(selectionRef.current);
+      setLoopEnd(null);
+    } else {
+      seek(timeAt(e));
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (selectionRef.current === null) return;
+    const a = selectionRef.current;
+    const b = timeAt(e);
+    setLoopStart(Math.min(a, b));
+    setLoopEnd(Math.max(a, b));
+  };
+
+  const handlePointerUp = () => {
+    if (selectionRef.current === null) return;
+    selectionRef.current = null;
+    setLoopEnabled(true);
+  };
+
+  const buttonClass = 'px-2 py-1 rounded-md text-xs font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={56}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="w-full h-14 rounded-md bg-slate-950/60 cursor-pointer"
+        title="Click to seek, shift-drag to select a loop"
+      />
+
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        <button onClick={onTogglePlay} className={buttonClass} title="Play / pause (Space)">
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <span className="font-mono text-slate-300">
+          {formatTime(time)} / {formatTime(duration)}
+        </span>
+        <div className="flex-1" />
+        <button onClick={() => setMarker('start')} className={buttonClass} title="Set loop start ([)">A</button>
+        <button onClick={() => setMarker('end')} className={buttonClass} title="Set loop end (])">B</button>
+        <button
+          onClick={() => setLoopEnabled(enabled => !enabled)}
+          disabled={!loop}
+          className={`${buttonClass} ${loopEnabled && loop ? 'bg-purple-600 text-white hover:bg-purple-500' : ''}`}
+          title="Loop (L)"
+        >
+          Loop
+        </button>
+        {(loopStart !== null || loopEnd !== null) && (
+          <button onClick={clearLoop} className="text-slate-500 hover:text-slate-300" title="Clear loop">×</button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-400">
+        <label className="flex items-center gap-1.5">
+          Speed
+          <input
+            type="range"
+            min={MIN_PLAYBACK_RATE}
+            max={MAX_PLAYBACK_RATE}
+            step={0.05}
+            value={rate}
+            onChange={(e) => changeRate(Number(e.target.value))}
+            onDoubleClick={() => changeRate(1)}
+            className="w-20"
+          />
+          <span className="font-mono w-10">{rate.toFixed(2)}x</span>
+        </label>
+        <label className="flex items-center gap-1.5">
+          <button onClick={toggleMute} className="hover:text-slate-200" title="Mute (M)">
+            {volume === 0 ? 'Muted' : 'Volume'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={MAX_VOLUME}
+            step={0.05}
+            value={volume}
+            onChange={(e) => changeVolume(Number(e.target.value))}
+            className="w-20"
+          />
+          <span className="font-mono w-10">{Math.round(volume * 100)}%</span>
+        </label>
+        <button onClick={() => setShowShortcuts(show => !show)} className="ml-auto text-slate-500 hover:text-slate-300">
+          Shortcuts
+        </button>
+      </div>
+
+      {showShortcuts && (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs p-2 rounded-md bg-slate-800/40">
+          {SHORTCUTS.map(([keys, action]) => (
+            <React.Fragment key={keys}>
+              <dt className="font-mono text-slate-300">{keys}</dt>
+              <dd className="text-slate-500">{action}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
+
+export default TransportBar;
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { UsageBudgets, UsageRecord } from '../types';
+import { downloadBlob } from '../services/audioExport';
+import { charactersByVoice, dayKey, monthKey, sumUsage, totalsByDay, usageToCsv } from '../utils/usageStats';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  budgets: UsageBudgets;
+  onBudgetsChange: (budgets: UsageBudgets) => void;
+  onClear: () => void;
+}
+
+const RANGES: [number | null, string][] = [
+  [7, 'Last 7 days'],
+  [30, 'Last 30 days'],
+  [90, 'Last 90 days'],
+  [null, 'All time'],
+];
+
+const BUDGET_FIELDS: [keyof UsageBudgets, string][] = [
+  ['dailyCharacters', 'Characters per day'],
+  ['monthlyCharacters', 'Characters per month'],
+  ['dailyRequests', 'Requests per day'],
+  ['voiceDailyCharacters', 'Characters per voice per day'],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClass = 'w-28 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+const formatCount = (value: number) => value.toLocaleString();
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Used against limit as a bar; over-budget bars turn red
+const BudgetMeter: React.FC<{ label: string; used: number; limit: number | null }> = ({ label, used, limit }) => {
+  const ratio = limit ? used / limit : 0;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between gap-2">
+        <span>{label}</span>
+        <span className={`font-mono ${limit !== null && used > limit ? 'text-red-400' : 'text-slate-300'}`}>
+          {formatCount(used)}{limit !== null && ` / ${formatCount(limit)}`}
+        </span>
+      </div>
+      {limit !== null && (
+        <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+          <div
+            className={`h-full ${ratio > 1 ? 'bg-red-500' : ratio > 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`}
+            style={{ width: `${Math.min(100, ratio * 100)}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Totals per day and per voice from the usage log, measured against the budgets
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, budgets, onBudgetsChange, onClear }) => {
+  const [rangeDays, setRangeDays] = useState<number | null>(30);
+
+  const now = Date.now();
+  const today = sumUsage(records.filter(r => dayKey(r.timestamp) === dayKey(now)));
+  const month = sumUsage(records.filter(r => monthKey(r.timestamp) === monthKey(now)));
+  const inRange = rangeDays === null ? records : records.filter(r => r.timestamp >= now - rangeDays * DAY_MS);
+  const rangeTotals = sumUsage(inRange);
+  const days = totalsByDay(inRange);
+  const voices = charactersByVoice(inRange);
+  const busiestVoice = voices[0]?.[1] ?? 0;
+
+  const setBudget = (key: keyof UsageBudgets, value: string) => {
+    const parsed = Math.floor(Number(value));
+    onBudgetsChange({ ...budgets, [key]: value.trim() && parsed > 0 ? parsed : null });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([usageToCsv(inRange)], { type: 'text/csv' });
+    downloadBlob(blob, `usage-${dayKey(now)}.csv`);
+  };
+
+  const handleClear = () => {
+    if (window.confirm("Clear the whole usage log? Budgets are kept.")) onClear();
+  };
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-4 space-y-4 text-xs text-slate-400">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-200">Today</h3>
+          <BudgetMeter label="Characters" used={today.characters} limit={budgets.dailyCharacters} />
+          <BudgetMeter label="Requests" used={today.requests} limit={budgets.dailyRequests} />
+        </div>
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-200">This month</h3>
+          <BudgetMeter label="Characters" used={month.characters} limit={budgets.monthlyCharacters} />
+          <BudgetMeter label="Requests" used={month.requests} limit={null} />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        {BUDGET_FIELDS.map(([key, label]) => (
+          <label key={key} className="flex flex-col gap-1">
+            <span>{label}</span>
+            <input
+              type="number"
+              min={1}
+              placeholder="No limit"
+              value={budgets[key] ?? ''}
+              onChange={(e) => setBudget(key, e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={rangeDays ?? ''}
+          onChange={(e) => setRangeDays(e.target.value ? Number(e.target.value) : null)}
+          className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {RANGES.map(([days, label]) => <option key={label} value={days ?? ''}>{label}</option>)}
+        </select>
+        <span>
+          {formatCount(rangeTotals.generations)} generations, {formatCount(rangeTotals.characters)} characters,
+          {' '}{formatCount(rangeTotals.requests)} requests
+          {rangeTotals.tokens > 0 && `, ${formatCount(rangeTotals.tokens)} tokens`}
+        </span>
+        <div className="flex-1" />
+        <button onClick={handleExport} disabled={inRange.length === 0} className={buttonClass}>Export CSV</button>
+        <button onClick={handleClear} disabled={records.length === 0} className={buttonClass}>Clear log</button>
+      </div>
+
+      {inRange.length === 0 ? (
+        <p className="text-slate-500">Nothing generated in this period.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="lg:col-span-2 overflow-x-auto max-h-72 overflow-y-auto">
+            <table className="w-full text-left">
+              <thead className="text-slate-500 sticky top-0 bg-slate-900">
+                <tr>
+                  <th className="py-1 pr-3 font-medium">Day</th>
+                  <th className="py-1 pr-3 font-medium text-right">Clips</th>
+                  <th className="py-1 pr-3 font-medium text-right">Characters</th>
+                  <th className="py-1 pr-3 font-medium text-right">Requests</th>
+                  <th className="py-1 pr-3 font-medium text-right">Tokens</th>
+                  <th className="py-1 pr-3 font-medium text-right">Avg latency</th>
+                  <th className="py-1 font-medium text-right">Retries</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-slate-300">
+                {days.map(([day, totals]) => (
+                  <tr key={day} className="border-t border-slate-800">
+                    <td className="py-1 pr-3">{day}</td>
+                    <td className="py-1 pr-3 text-right">{formatCount(totals.generations)}</td>
+                    <td className={`py-1 pr-3 text-right ${budgets.dailyCharacters !== null && totals.characters > budgets.dailyCharacters ? 'text-red-400' : ''}`}>
+                      {formatCount(totals.characters)}
+                    </td>
+                    <td className={`py-1 pr-3 text-right ${budgets.dailyRequests !== null && totals.requests > budgets.dailyRequests ? 'text-red-400' : ''}`}>
+                      {formatCount(totals.requests)}
+                    </td>
+                    <td className="py-1 pr-3 text-right">{totals.tokens ? formatCount(totals.tokens) : '–'}</td>
+                    <td className="py-1 pr-3 text-right">{formatSeconds(totals.latencyMs / Math.max(1, totals.requests))}</td>
+                    <td className="py-1 text-right">{totals.retries}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-1.5 max-h-72 overflow-y-auto">
+            <h3 className="text-sm font-semibold text-slate-200">By voice</h3>
+            {voices.map(([voice, characters]) => (
+              <div key={voice} className="space-y-0.5">
+                <div className="flex justify-between gap-2">
+                  <span className="text-slate-300">{voice}</span>
+                  <span className="font-mono">{formatCount(characters)}</span>
+                </div>
+                <div className="h-1 rounded-full bg-slate-800 overflow-hidden">
+                  <div className="h-full bg-purple-500" style={{ width: `${(characters / busiestVoice) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsageDashboard;
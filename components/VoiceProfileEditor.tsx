@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { DeliveryStyle, LexiconEntry, ProcessingPreset, VoiceName, VoiceOption, VoiceProfile } from '../types';
+import DeliveryPanel from './DeliveryPanel';
+import { normalizeStyle } from '../utils/deliveryPrompt';
+
+interface VoiceProfileEditorProps {
+  profile: VoiceProfile;
+  voices: VoiceOption[];
+  presets: ProcessingPreset[];
+  onSave: (profile: VoiceProfile) => void;
+  onCancel: () => void;
+}
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'flex flex-col gap-1 text-xs text-slate-500 uppercase tracking-wider font-semibold';
+
+// Form for creating or editing a voice profile; nothing is saved until Save
+const VoiceProfileEditor: React.FC<VoiceProfileEditorProps> = ({ profile, voices, presets, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<VoiceProfile>(profile);
+  const [tagText, setTagText] = useState(profile.tags.join(', '));
+  const [style, setStyle] = useState<DeliveryStyle>(profile.style ?? {});
+
+  const update = (patch: Partial<VoiceProfile>) => setDraft(prev => ({ ...prev, ...patch }));
+  const updateEntry = (id: string, patch: Partial<LexiconEntry>) =>
+    update({ lexicon: draft.lexicon.map(e => e.id === id ? { ...e, ...patch } : e) });
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      tags: [...new Set(tagText.split(',').map(t => t.trim().toLowerCase()).filter(Boolean))],
+      style: normalizeStyle(style),
+      lexicon: draft.lexicon.filter(e => e.term.trim()),
+      updatedAt: Date.now(),
+    });
+  };
+
+  return (
+    <div className="bg-slate-900 border border-blue-500/40 rounded-xl p-4 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className={labelClass}>
+          Name
+          <input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="Calm Narrator" className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Base voice
+          <select value={draft.baseVoice} onChange={(e) => update({ baseVoice: e.target.value as VoiceName })} className={inputClass}>
+            {voices.map((voice) => (
+              <option key={voice.id} value={voice.id}>{voice.name} · {voice.gender} · {voice.description}</option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Description
+          <input value={draft.description} onChange={(e) => update({ description: e.target.value })} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Tags <span className="normal-case tracking-normal font-normal">(comma separated)</span>
+          <input value={tagText} onChange={(e) => setTagText(e.target.value)} placeholder="narration, audiobook" className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Processing preset
+          <select value={draft.presetId ?? ''} onChange={(e) => update({ presetId: e.target.value || undefined })} className={inputClass}>
+            <option value="">Keep current settings</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-slate-500 uppercase tracking-wider font-semibold">Default delivery</p>
+        <DeliveryPanel style={style} onChange={setStyle} />
+      </div>
+
+      <div className="space-y-2 text-xs text-slate-400">
+        <p className="text-slate-500 uppercase tracking-wider font-semibold">Pronunciation overrides</p>
+        {draft.lexicon.map((entry) => (
+          <div key={entry.id} className="flex items-center gap-2">
+            <input
+              value={entry.term}
+              onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+              placeholder="Term"
+              className={`${inputClass} w-36`}
+            />
+            <span>→</span>
+            <input
+              value={entry.replacement}
+              onChange={(e) => updateEntry(entry.id, { replacement: e.target.value })}
+              placeholder="Say it as"
+              className={`${inputClass} flex-1`}
+            />
+            <button onClick={() => update({ lexicon: draft.lexicon.filter(e => e.id !== entry.id) })} className="text-slate-500 hover:text-red-400" title="Remove">×</button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({ lexicon: [...draft.lexicon, { id: generateId(), term: '', replacement: '', caseSensitive: false, wholeWord: true }] })}
+          className="text-blue-400 hover:text-blue-300"
+        >
+          + Add override
+        </button>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1.5 rounded-lg text-xs font-medium text-slate-400 hover:text-slate-200">Cancel</button>
+        <button
+          onClick={handleSave}
+          disabled={!draft.name.trim()}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Save profile
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceProfileEditor;
@@ -1,52 +1,177 @@
-import React from 'react';
-import { VoiceName, VoiceOption } from '../types';
+import React, { useMemo, useState } from 'react';
+import { VoiceName, VoiceOption, VoiceProfile } from '../types';
+import { summarizeStyle } from '../utils/deliveryPrompt';
 
 interface VoiceSelectorProps {
+  voices: VoiceOption[];
   selectedVoice: VoiceName;
   onSelect: (voice: VoiceName) => void;
+  profiles: VoiceProfile[];
+  selectedProfileId: string | null;
+  onSelectProfile: (profile: VoiceProfile) => void;
+  // Opens the profile editor; null starts a new profile
+  onEditProfile: (profile: VoiceProfile | null) => void;
+  onDuplicateProfile: (profile: VoiceProfile) => void;
+  onDeleteProfile: (profile: VoiceProfile) => void;
   disabled?: boolean;
 }
 
-const VOICES: VoiceOption[] = [
-  { id: VoiceName.Kore, name: 'Kore', description: 'Calm, soothing, nature-inspired', gender: 'Female' },
-  { id: VoiceName.Fenrir, name: 'Fenrir', description: 'Deep, resonant, authoritative', gender: 'Male' },
-  { id: VoiceName.Puck, name: 'Puck', description: 'Playful, energetic, mischievous', gender: 'Male' },
-  { id: VoiceName.Charon, name: 'Charon', description: 'Steady, deep, composed', gender: 'Male' },
-  { id: VoiceName.Zephyr, name: 'Zephyr', description: 'Light, airy, soft', gender: 'Female' },
-];
+type GenderFilter = 'All' | VoiceOption['gender'];
+
+const GENDER_FILTERS: GenderFilter[] = ['All', 'Female', 'Male'];
+
+const cardClass = (selected: boolean, disabled?: boolean) => `
+  relative p-4 rounded-xl border text-left transition-all duration-200
+  ${selected
+    ? 'border-blue-500 bg-blue-900/20 shadow-[0_0_15px_rgba(59,130,246,0.3)]'
+    : 'border-slate-700 bg-slate-800/50 hover:border-slate-500 hover:bg-slate-800'
+  }
+  ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+`;
+
+const matchesQuery = (query: string, ...fields: string[]) =>
+  !query || fields.some(field => field.toLowerCase().includes(query));
+
+const VoiceSelector: React.FC<VoiceSelectorProps> = ({
+  voices, selectedVoice, onSelect, profiles, selectedProfileId, onSelectProfile,
+  onEditProfile, onDuplicateProfile, onDeleteProfile, disabled
+}) => {
+  const [search, setSearch] = useState('');
+  const [gender, setGender] = useState<GenderFilter>('All');
+  const [tag, setTag] = useState<string | null>(null);
+
+  const voiceById = useMemo(() => new Map(voices.map(v => [v.id, v])), [voices]);
+  const allTags = useMemo(() => {
+    const tags = new Set<string>();
+    profiles.forEach(p => p.tags.forEach(t => tags.add(t)));
+    voices.forEach(v => v.tags?.forEach(t => tags.add(t)));
+    return [...tags].sort();
+  }, [voices, profiles]);
+
+  const query = search.trim().toLowerCase();
+  // A profile takes the gender of its base voice
+  const visibleProfiles = profiles.filter(profile => {
+    const base = voiceById.get(profile.baseVoice);
+    return (gender === 'All' || base?.gender === gender)
+      && (!tag || profile.tags.includes(tag))
+      && matchesQuery(query, profile.name, profile.description, profile.baseVoice, ...profile.tags);
+  });
+  const visibleVoices = voices.filter(voice =>
+    (gender === 'All' || voice.gender === gender)
+    && (!tag || voice.tags?.includes(tag))
+    && matchesQuery(query, voice.name, voice.description, ...(voice.tags ?? []))
+  );
 
-const VoiceSelector: React.FC<VoiceSelectorProps> = ({ selectedVoice, onSelect, disabled }) => {
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-      {VOICES.map((voice) => (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search voices and profiles"
+          className="flex-1 min-w-[10rem] bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex rounded-lg bg-slate-900 border border-slate-700 p-0.5 font-medium">
+          {GENDER_FILTERS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setGender(option)}
+              className={`px-3 py-1 rounded-md transition-colors ${gender === option ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
         <button
-          key={voice.id}
-          onClick={() => onSelect(voice.id)}
+          onClick={() => onEditProfile(null)}
           disabled={disabled}
-          className={`
-            relative p-4 rounded-xl border text-left transition-all duration-200
-            ${selectedVoice === voice.id 
-              ? 'border-blue-500 bg-blue-900/20 shadow-[0_0_15px_rgba(59,130,246,0.3)]' 
-              : 'border-slate-700 bg-slate-800/50 hover:border-slate-500 hover:bg-slate-800'
-            }
-            ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
-          `}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
         >
-          <div className="flex items-center justify-between mb-1">
-            <span className={`font-semibold ${selectedVoice === voice.id ? 'text-blue-400' : 'text-slate-200'}`}>
-              {voice.name}
-            </span>
-            <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-slate-700 text-slate-300">
-              {voice.gender}
-            </span>
-          </div>
-          <p className="text-sm text-slate-400">{voice.description}</p>
-          
-          {selectedVoice === voice.id && (
-            <div className="absolute top-2 right-2 w-2 h-2 rounded-full bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.8)]" />
-          )}
+          + New profile
         </button>
-      ))}
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 text-xs">
+          {allTags.map((t) => (
+            <button
+              key={t}
+              onClick={() => setTag(tag === t ? null : t)}
+              className={`px-2 py-0.5 rounded-full border transition-colors ${tag === t ? 'border-blue-500 bg-blue-900/30 text-blue-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="max-h-[28rem] overflow-y-auto pr-1 space-y-3">
+        {visibleProfiles.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {visibleProfiles.map((profile) => (
+              <div
+                key={profile.id}
+                role="button"
+                tabIndex={0}
+                onClick={() => !disabled && onSelectProfile(profile)}
+                onKeyDown={(e) => e.key === 'Enter' && !disabled && onSelectProfile(profile)}
+                className={cardClass(selectedProfileId === profile.id, disabled)}
+              >
+                <div className="flex items-center justify-between mb-1 gap-2">
+                  <span className={`font-semibold truncate ${selectedProfileId === profile.id ? 'text-blue-400' : 'text-slate-200'}`}>
+                    {profile.name}
+                  </span>
+                  <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-purple-900/40 text-purple-300 shrink-0">
+                    {profile.baseVoice}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-400 line-clamp-2">
+                  {profile.description || (profile.style ? summarizeStyle(profile.style) : 'No default delivery')}
+                </p>
+                <div className="mt-2 flex flex-wrap items-center gap-1.5 text-xs">
+                  {profile.tags.map((t) => (
+                    <span key={t} className="px-1.5 py-0.5 rounded bg-slate-700/60 text-slate-300">{t}</span>
+                  ))}
+                  <span className="ml-auto flex gap-2 text-slate-500">
+                    <button onClick={(e) => { e.stopPropagation(); onEditProfile(profile); }} disabled={disabled} className="hover:text-slate-200">Edit</button>
+                    <button onClick={(e) => { e.stopPropagation(); onDuplicateProfile(profile); }} disabled={disabled} className="hover:text-slate-200">Duplicate</button>
+                    <button onClick={(e) => { e.stopPropagation(); onDeleteProfile(profile); }} disabled={disabled} className="hover:text-red-400">Delete</button>
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {visibleVoices.map((voice) => (
+            <button
+              key={voice.id}
+              onClick={() => onSelect(voice.id)}
+              disabled={disabled}
+              className={cardClass(!selectedProfileId && selectedVoice === voice.id, disabled)}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className={`font-semibold ${!selectedProfileId && selectedVoice === voice.id ? 'text-blue-400' : 'text-slate-200'}`}>
+                  {voice.name}
+                </span>
+                <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-slate-700 text-slate-300">
+                  {voice.gender}
+                </span>
+              </div>
+              <p className="text-sm text-slate-400">{voice.description}</p>
+
+              {!selectedProfileId && selectedVoice === voice.id && (
+                <div className="absolute top-2 right-2 w-2 h-2 rounded-full bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.8)]" />
+              )}
+            </button>
+          ))}
+        </div>
+
+        {visibleProfiles.length === 0 && visibleVoices.length === 0 && (
+          <p className="text-sm text-slate-500">No voices match these filters.</p>
+        )}
+      </div>
     </div>
   );
 };
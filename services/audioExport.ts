@@ -0,0 +1,56 @@
+import { ExportFormat, ExportOptions } from "../types";
+import { resampleAudioBuffer } from "../utils/audioUtils";
+import { encodeWav } from "../utils/wavEncoder";
+import { encodeFlac } from "../utils/flacEncoder";
+import { encodeMp3 } from "../utils/mp3Encoder";
+import { encodeOggOpus, OPUS_SAMPLE_RATE } from "../utils/oggOpusEncoder";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; lossy: boolean }> = {
+  wav: { label: 'WAV', extension: 'wav', lossy: false },
+  flac: { label: 'FLAC', extension: 'flac', lossy: false },
+  mp3: { label: 'MP3', extension: 'mp3', lossy: true },
+  opus: { label: 'Opus (Ogg)', extension: 'ogg', lossy: true },
+};
+
+export const EXPORT_SAMPLE_RATES = [24000, 44100, 48000];
+export const MP3_BITRATES = [64, 96, 128, 192, 256, 320];
+export const OPUS_BITRATES = [32, 48, 64, 96, 128, 192];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'wav',
+  bitDepth: 16,
+  bitrate: 128,
+  sampleRate: null,
+};
+
+// Encodes a buffer in the requested format, resampling first if asked to.
+// Everything runs in the browser; nothing is uploaded.
+export const exportAudio = async (buffer: AudioBuffer, options: ExportOptions): Promise<Blob> => {
+  // Opus is always encoded at 48 kHz, whatever the chosen rate
+  const targetRate = options.format === 'opus' ? OPUS_SAMPLE_RATE : options.sampleRate ?? buffer.sampleRate;
+  const source = await resampleAudioBuffer(buffer, targetRate);
+
+  switch (options.format) {
+    case 'wav':
+      return new Blob([encodeWav(source, options.bitDepth)], { type: 'audio/wav' });
+    case 'flac':
+      return new Blob([encodeFlac(source, options.bitDepth === 16 ? 16 : 24) as BlobPart], { type: 'audio/flac' });
+    case 'mp3':
+      return encodeMp3(source, options.bitrate);
+    case 'opus':
+      return encodeOggOpus(source, options.bitrate * 1000);
+  }
+};
+
+export const getExportFilename = (baseName: string, options: ExportOptions): string =>
+  `${baseName}.${EXPORT_FORMATS[options.format].extension}`;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,260 @@
+import { ProcessingChain, ProcessingPreset } from "../types";
+import { measureLoudness, measurePeakDb } from "../utils/loudness";
+import { hashString } from "../utils/formantSynth";
+
+export interface ProcessingReport {
+  inputLufs: number;
+  outputLufs: number;
+  inputPeakDb: number;
+  outputPeakDb: number;
+  // Seconds of silence removed from each end
+  trimmedStart: number;
+  trimmedEnd: number;
+}
+
+export interface ProcessedAudio {
+  buffer: AudioBuffer;
+  report: ProcessingReport;
+}
+
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.08;
+
+export const DEFAULT_CHAIN: ProcessingChain = {
+  trim: { enabled: true, thresholdDb: -50, paddingMs: 150 },
+  highPass: { enabled: true, frequency: 80 },
+  eq: { enabled: false, bands: [] },
+  compressor: { enabled: false, thresholdDb: -20, ratio: 3, kneeDb: 6, attackMs: 5, releaseMs: 120, makeupDb: 0 },
+  reverb: { enabled: false, decaySeconds: 1.2, mix: 0.15 },
+  normalize: { enabled: true, targetLufs: -16 },
+  limiter: { enabled: true, ceilingDb: -1 },
+};
+
+export const BUILT_IN_PRESETS: ProcessingPreset[] = [
+  {
+    id: 'builtin-podcast',
+    name: 'Podcast (-16 LUFS)',
+    builtIn: true,
+    chain: {
+      ...DEFAULT_CHAIN,
+      compressor: { ...DEFAULT_CHAIN.compressor, enabled: true },
+    },
+  },
+  {
+    id: 'builtin-broadcast',
+    name: 'Broadcast (-23 LUFS)',
+    builtIn: true,
+    chain: {
+      ...DEFAULT_CHAIN,
+      compressor: { ...DEFAULT_CHAIN.compressor, enabled: true, ratio: 2 },
+      normalize: { enabled: true, targetLufs: -23 },
+      limiter: { enabled: true, ceilingDb: -2 },
+    },
+  },
+  {
+    id: 'builtin-clean',
+    name: 'Clean voice',
+    builtIn: true,
+    chain: {
+      ...DEFAULT_CHAIN,
+      eq: {
+        enabled: true,
+        bands: [
+          { type: 'peaking', frequency: 300, gainDb: -2, q: 1 },
+          { type: 'peaking', frequency: 3500, gainDb: 2, q: 1.2 },
+        ],
+      },
+      compressor: { ...DEFAULT_CHAIN.compressor, enabled: true },
+    },
+  },
+  {
+    id: 'builtin-room',
+    name: 'Warm room',
+    builtIn: true,
+    chain: {
+      ...DEFAULT_CHAIN,
+      eq: { enabled: true, bands: [{ type: 'lowshelf', frequency: 200, gainDb: 2, q: 0.7 }] },
+      reverb: { enabled: true, decaySeconds: 1.4, mix: 0.2 },
+    },
+  },
+];
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Finds where the audio first and last rises above the threshold, keeping some padding
+function findTrimBounds(buffer: AudioBuffer, thresholdDb: number, paddingMs: number): { start: number; end: number } {
+  const threshold = dbToGain(thresholdDb);
+  let first = buffer.length;
+  let last = -1;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < first; i++) {
+      if (Math.abs(data[i]) > threshold) { first = i; break; }
+    }
+    for (let i = data.length - 1; i > last; i--) {
+      if (Math.abs(data[i]) > threshold) { last = i; break; }
+    }
+  }
+  // Nothing above the threshold: leave the clip alone rather than emptying it
+  if (last < first) return { start: 0, end: buffer.length };
+
+  const padding = Math.round((paddingMs / 1000) * buffer.sampleRate);
+  return { start: Math.max(0, first - padding), end: Math.min(buffer.length, last + 1 + padding) };
+}
+
+// Exponentially decaying noise; seeded so a preset always renders the same way
+function createImpulseResponse(ctx: BaseAudioContext, decaySeconds: number, channels: number): AudioBuffer {
+  const length = Math.max(1, Math.round(decaySeconds * ctx.sampleRate));
+  const impulse = ctx.createBuffer(channels, length, ctx.sampleRate);
+  for (let channel = 0; channel < channels; channel++) {
+    let seed = hashString(`reverb-${channel}`);
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+      const noise = seed / 2147483648 - 1;
+      // -60 dB at decaySeconds
+      data[i] = noise * Math.pow(10, (-3 * i) / length);
+    }
+  }
+  return impulse;
+}
+
+// Brick-wall peak limiter with a short lookahead: gain drops before a peak
+// arrives and recovers exponentially afterwards.
+function limit(buffer: AudioBuffer, ceilingDb: number) {
+  const ceiling = dbToGain(ceilingDb);
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD_SECONDS * buffer.sampleRate));
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE_SECONDS * buffer.sampleRate));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  const required = new Float32Array(buffer.length);
+  for (let i = 0; i < buffer.length; i++) {
+    let peak = 0;
+    for (const data of channels) peak = Math.max(peak, Math.abs(data[i]));
+    required[i] = peak > ceiling ? ceiling / peak : 1;
+  }
+
+  // Sliding minimum of the required gain over [i, i + lookahead] (monotonic deque)
+  const deque = new Int32Array(buffer.length);
+  let head = 0;
+  let tail = 0;
+  let gain = 1;
+  for (let i = 0, next = 0; i < buffer.length; i++) {
+    for (; next < buffer.length && next <= i + lookahead; next++) {
+      while (tail > head && required[deque[tail - 1]] >= required[next]) tail--;
+      deque[tail++] = next;
+    }
+    while (deque[head] < i) head++;
+    const target = required[deque[head]];
+    gain = target < gain ? target : gain + (target - gain) * release;
+    for (const data of channels) data[i] *= gain;
+  }
+}
+
+// Runs the chain on a copy of the buffer. Filters, compression and reverb are
+// rendered in an OfflineAudioContext; trimming, loudness and limiting in JS.
+export const processAudio = async (input: AudioBuffer, chain: ProcessingChain): Promise<ProcessedAudio> => {
+  const inputLufs = measureLoudness(input);
+  const inputPeakDb = measurePeakDb(input);
+
+  const { start, end } = chain.trim.enabled
+    ? findTrimBounds(input, chain.trim.thresholdDb, chain.trim.paddingMs)
+    : { start: 0, end: input.length };
+  const sampleRate = input.sampleRate;
+  const channels = input.numberOfChannels;
+  const tail = chain.reverb.enabled ? chain.reverb.decaySeconds : 0;
+  const ctx = new OfflineAudioContext(channels, end - start + Math.round(tail * sampleRate), sampleRate);
+
+  const trimmed = ctx.createBuffer(channels, end - start, sampleRate);
+  for (let channel = 0; channel < channels; channel++) {
+    trimmed.copyToChannel(input.getChannelData(channel).subarray(start, end), channel);
+  }
+  const source = ctx.createBufferSource();
+  source.buffer = trimmed;
+
+  let node: AudioNode = source;
+  const connect = (next: AudioNode) => {
+    node.connect(next);
+    node = next;
+  };
+
+  if (chain.highPass.enabled) {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = chain.highPass.frequency;
+    filter.Q.value = Math.SQRT1_2;
+    connect(filter);
+  }
+
+  if (chain.eq.enabled) {
+    for (const band of chain.eq.bands) {
+      const filter = ctx.createBiquadFilter();
+      filter.type = band.type;
+      filter.frequency.value = band.frequency;
+      filter.gain.value = band.gainDb;
+      filter.Q.value = band.q;
+      connect(filter);
+    }
+  }
+
+  if (chain.compressor.enabled) {
+    const { thresholdDb, ratio, kneeDb, attackMs, releaseMs, makeupDb } = chain.compressor;
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.threshold.value = thresholdDb;
+    compressor.ratio.value = ratio;
+    compressor.knee.value = kneeDb;
+    compressor.attack.value = attackMs / 1000;
+    compressor.release.value = releaseMs / 1000;
+    connect(compressor);
+    const makeup = ctx.createGain();
+    makeup.gain.value = dbToGain(makeupDb);
+    connect(makeup);
+  }
+
+  if (chain.reverb.enabled) {
+    const convolver = ctx.createConvolver();
+    convolver.buffer = createImpulseResponse(ctx, chain.reverb.decaySeconds, Math.min(2, channels));
+    const dry = ctx.createGain();
+    const wet = ctx.createGain();
+    dry.gain.value = 1 - chain.reverb.mix;
+    wet.gain.value = chain.reverb.mix;
+    node.connect(dry);
+    node.connect(convolver);
+    convolver.connect(wet);
+    const sum = ctx.createGain();
+    dry.connect(sum);
+    wet.connect(sum);
+    node = sum;
+  }
+
+  node.connect(ctx.destination);
+  source.start();
+  const buffer = await ctx.startRendering();
+
+  if (chain.normalize.enabled) {
+    const lufs = measureLoudness(buffer);
+    if (Number.isFinite(lufs)) {
+      const gain = dbToGain(chain.normalize.targetLufs - lufs);
+      for (let channel = 0; channel < channels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < data.length; i++) data[i] *= gain;
+      }
+    }
+  }
+
+  if (chain.limiter.enabled) {
+    limit(buffer, chain.limiter.ceilingDb);
+  }
+
+  return {
+    buffer,
+    report: {
+      inputLufs,
+      outputLufs: measureLoudness(buffer),
+      inputPeakDb,
+      outputPeakDb: measurePeakDb(buffer),
+      trimmedStart: start / sampleRate,
+      trimmedEnd: (input.length - end) / sampleRate,
+    },
+  };
+};
@@ -0,0 +1,75 @@
+import { concatAudioBuffers, resampleAudioBuffer } from "../utils/audioUtils";
+import { encodeM4b, M4bMetadata } from "../utils/m4bEncoder";
+import { buildId3Tag } from "../utils/id3";
+import { createZip, ZipEntry } from "../utils/zipWriter";
+import { exportAudio } from "./audioExport";
+import { toSafeFilename } from "./batchExport";
+
+export type AudiobookFormat = 'm4b' | 'mp3';
+
+export const AUDIOBOOK_FORMATS: Record<AudiobookFormat, { label: string; extension: string }> = {
+  m4b: { label: 'M4B (one file, chapter markers)', extension: 'm4b' },
+  mp3: { label: 'MP3 set (ZIP, one file per chapter)', extension: 'zip' },
+};
+
+export interface AudiobookChapter {
+  title: string;
+  buffer: AudioBuffer;
+}
+
+// Silence between chapters in the single-file book
+const CHAPTER_GAP_SECONDS = 1.5;
+
+// AAC is reliably supported at 44.1 kHz; speech comes in at 24 kHz
+const M4B_SAMPLE_RATE = 44100;
+
+async function exportM4b(chapters: AudiobookChapter[], metadata: M4bMetadata, kbps: number): Promise<Blob> {
+  const numChannels = Math.min(2, Math.max(...chapters.map(c => c.buffer.numberOfChannels)));
+  const buffers = await Promise.all(chapters.map(c => resampleAudioBuffer(c.buffer, M4B_SAMPLE_RATE, numChannels)));
+
+  const starts: number[] = [];
+  let position = 0;
+  for (const buffer of buffers) {
+    starts.push(position);
+    position += buffer.duration + CHAPTER_GAP_SECONDS;
+  }
+  const book = concatAudioBuffers(buffers, new OfflineAudioContext(numChannels, 1, M4B_SAMPLE_RATE), CHAPTER_GAP_SECONDS);
+  return encodeM4b(book, chapters.map((c, i) => ({ title: c.title, start: starts[i] })), metadata, kbps * 1000);
+}
+
+// One tagged MP3 per chapter, numbered so they sort in order, plus an M3U playlist
+async function exportMp3Set(chapters: AudiobookChapter[], metadata: M4bMetadata, kbps: number): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const playlist = ['#EXTM3U'];
+  const digits = Math.max(2, String(chapters.length).length);
+
+  for (let i = 0; i < chapters.length; i++) {
+    const { title, buffer } = chapters[i];
+    const number = String(i + 1).padStart(digits, '0');
+    const name = `${number}-${toSafeFilename(title).slice(0, 60)}.mp3`;
+    const mp3 = await exportAudio(buffer, { format: 'mp3', bitrate: kbps, bitDepth: 16, sampleRate: null });
+    const tag = buildId3Tag({ title, album: metadata.title, artist: metadata.author, track: `${i + 1}/${chapters.length}` });
+
+    const data = new Uint8Array(tag.length + mp3.size);
+    data.set(tag, 0);
+    data.set(new Uint8Array(await mp3.arrayBuffer()), tag.length);
+    entries.push({ name, data });
+    playlist.push(`#EXTINF:${Math.round(buffer.duration)},${title}`, name);
+  }
+
+  entries.push({ name: 'playlist.m3u', data: new TextEncoder().encode(playlist.join('\n') + '\n') });
+  return createZip(entries);
+}
+
+// Packs generated chapters into an audiobook. kbps is the AAC or MP3 bitrate.
+export const exportAudiobook = async (
+  chapters: AudiobookChapter[],
+  format: AudiobookFormat,
+  metadata: M4bMetadata,
+  kbps: number
+): Promise<Blob> => {
+  if (chapters.length === 0) {
+    throw new Error("No chapters have been generated yet");
+  }
+  return format === 'm4b' ? exportM4b(chapters, metadata, kbps) : exportMp3Set(chapters, metadata, kbps);
+};
@@ -0,0 +1,252 @@
+import { CaptionCue } from "../types";
+import { findCueIndex } from "../utils/captionAligner";
+import { BufferAnalyser, drawVisualization, VisualizerStyle } from "../utils/visualizer";
+
+// Renders a clip as a social-media video: background, title, visualizer and
+// burned-in captions drawn on a canvas, recorded together with the audio through
+// MediaRecorder. Each frame is drawn for the exact audio time it shows, so the
+// picture stays in step with the sound even when frames are late.
+
+export type AudiogramAspect = '1:1' | '9:16' | '16:9';
+
+export const AUDIOGRAM_ASPECTS: Record<AudiogramAspect, { label: string; width: number; height: number }> = {
+  '1:1': { label: 'Square 1:1', width: 1080, height: 1080 },
+  '9:16': { label: 'Portrait 9:16', width: 1080, height: 1920 },
+  '16:9': { label: 'Landscape 16:9', width: 1920, height: 1080 },
+};
+
+export interface AudiogramOptions {
+  aspect: AudiogramAspect;
+  style: VisualizerStyle;
+  title: string;
+  // Drawn to cover the frame, under a dark scrim so the text stays readable
+  background: ImageBitmap | null;
+  // null leaves captions out
+  captions: CaptionCue[] | null;
+  fps: number;
+}
+
+export const DEFAULT_AUDIOGRAM_FPS = 30;
+
+const VIDEO_BITRATE = 6_000_000;
+const AUDIO_BITRATE = 128_000;
+// Lead-in before the audio starts, so the recorder is running when it does
+const START_DELAY_SECONDS = 0.2;
+// Kept after the last frame so the tail of the audio makes it into the file
+const END_PADDING_MS = 300;
+
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+const HIGHLIGHT = '#93c5fd'; // Blue 300
+
+export const isAudiogramSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' &&
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'captureStream' in HTMLCanvasElement.prototype &&
+  MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+// Splits words into lines no wider than maxWidth with the current font
+const wrapWords = (ctx: CanvasRenderingContext2D, words: string[], maxWidth: number): number[][] => {
+  const lines: number[][] = [];
+  let line: number[] = [];
+  words.forEach((word, i) => {
+    const candidate = [...line.map(j => words[j]), word].join(' ');
+    if (line.length > 0 && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = [];
+    }
+    line.push(i);
+  });
+  if (line.length > 0) lines.push(line);
+  return lines;
+};
+
+const drawBackground = (ctx: CanvasRenderingContext2D, width: number, height: number, image: ImageBitmap | null) => {
+  if (image) {
+    const scale = Math.max(width / image.width, height / image.height);
+    const w = image.width * scale;
+    const h = image.height * scale;
+    ctx.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+    ctx.fillStyle = 'rgba(2, 6, 23, 0.55)';
+    ctx.fillRect(0, 0, width, height);
+  } else {
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, '#0f172a'); // Slate 900
+    gradient.addColorStop(1, '#1e1b4b'); // Indigo 950
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+};
+
+// Centered lines of words; the word being spoken (if known) is highlighted
+const drawWords = (
+  ctx: CanvasRenderingContext2D,
+  words: string[],
+  centerX: number,
+  top: number,
+  maxWidth: number,
+  lineHeight: number,
+  maxLines: number,
+  activeWord = -1,
+) => {
+  const lines = wrapWords(ctx, words, maxWidth).slice(0, maxLines);
+  const space = ctx.measureText(' ').width;
+  lines.forEach((line, row) => {
+    const lineWidth = ctx.measureText(line.map(i => words[i]).join(' ')).width;
+    let x = centerX - lineWidth / 2;
+    for (const i of line) {
+      ctx.fillStyle = i === activeWord ? HIGHLIGHT : '#f8fafc';
+      ctx.fillText(words[i], x, top + row * lineHeight);
+      x += ctx.measureText(words[i]).width + space;
+    }
+  });
+};
+
+// Draws the whole frame shown at `time` seconds into the clip
+export function drawAudiogramFrame(
+  ctx: CanvasRenderingContext2D,
+  analyser: BufferAnalyser,
+  time: number,
+  duration: number,
+  options: Omit<AudiogramOptions, 'fps'>,
+) {
+  const { width, height } = ctx.canvas;
+  const unit = Math.min(width, height);
+  const padding = unit * 0.07;
+  const textWidth = width - padding * 2;
+
+  drawBackground(ctx, width, height, options.background);
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+
+  if (options.title.trim()) {
+    const size = Math.round(unit * 0.06);
+    ctx.font = `700 ${size}px Inter, system-ui, sans-serif`;
+    drawWords(ctx, options.title.trim().split(/\s+/), width / 2, padding, textWidth, size * 1.25, 3);
+  }
+
+  analyser.seek(time);
+  const visualHeight = height * (height > width ? 0.22 : 0.3);
+  drawVisualization(ctx, analyser, options.style, {
+    x: padding,
+    y: height * 0.42 - visualHeight / 2,
+    width: textWidth,
+    height: visualHeight,
+  });
+
+  const cues = options.captions;
+  const cueIndex = cues ? findCueIndex(cues, time) : -1;
+  if (cues && cueIndex >= 0) {
+    const cue = cues[cueIndex];
+    const size = Math.round(unit * 0.05);
+    ctx.font = `600 ${size}px Inter, system-ui, sans-serif`;
+    const words = cue.words?.map(w => w.text) ?? cue.text.split(/\s+/);
+    const activeWord = cue.words?.findIndex(w => time >= w.start && time < w.end) ?? -1;
+    drawWords(ctx, words, width / 2, height * 0.66, textWidth, size * 1.3, 4, activeWord);
+  }
+
+  // Progress along the bottom edge
+  const barHeight = Math.max(4, unit * 0.006);
+  ctx.fillStyle = 'rgba(148, 163, 184, 0.25)';
+  ctx.fillRect(0, height - barHeight, width, barHeight);
+  ctx.fillStyle = '#3b82f6';
+  ctx.fillRect(0, height - barHeight, width * Math.min(1, time / duration), barHeight);
+}
+
+// Records the clip as a WebM video. MediaRecorder only records in real time, so
+// this takes as long as the clip and plays it silently into the recording. Keep
+// the tab in the foreground: background tabs throttle the timers that draw frames.
+export async function renderAudiogram(
+  buffer: AudioBuffer,
+  options: AudiogramOptions,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal,
+): Promise<Blob> {
+  if (!isAudiogramSupported()) {
+    throw new Error("This browser can't record video from a canvas. Try a recent Chrome, Edge or Firefox.");
+  }
+
+  const { width, height } = AUDIOGRAM_ASPECTS[options.aspect];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const analyser = new BufferAnalyser(buffer);
+  const drawAt = (time: number) => drawAudiogramFrame(ctx, analyser, time, buffer.duration, options);
+
+  // Frames are pushed with requestFrame() after each draw rather than sampled on a timer
+  const videoStream = canvas.captureStream(0);
+  const videoTrack = videoStream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  const source = audioContext.createBufferSource();
+  source.buffer = buffer;
+  source.connect(audioDestination);
+
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))!;
+  const recorder = new MediaRecorder(new MediaStream([videoTrack, ...audioDestination.stream.getAudioTracks()]), {
+    mimeType,
+    videoBitsPerSecond: VIDEO_BITRATE,
+    audioBitsPerSecond: AUDIO_BITRATE,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await audioContext.resume();
+    drawAt(0);
+    videoTrack.requestFrame();
+    recorder.start(1000);
+    const startTime = audioContext.currentTime + START_DELAY_SECONDS;
+    source.start(startTime);
+
+    // The audio clock decides which frame is due; frames are drawn for their own
+    // time, not for whenever the timer happened to fire
+    await new Promise<void>((resolve, reject) => {
+      let lastFrame = -1;
+      const tick = () => {
+        if (signal?.aborted) {
+          reject(new DOMException("Video export cancelled", 'AbortError'));
+          return;
+        }
+        const elapsed = audioContext.currentTime - startTime;
+        const frame = Math.max(0, Math.floor(elapsed * options.fps));
+        if (frame !== lastFrame) {
+          lastFrame = frame;
+          drawAt(Math.min(buffer.duration, frame / options.fps));
+          videoTrack.requestFrame();
+          onProgress?.(Math.min(1, Math.max(0, elapsed / buffer.duration)));
+        }
+        if (elapsed >= buffer.duration) {
+          resolve();
+          return;
+        }
+        timer = setTimeout(tick, 1000 / options.fps / 2);
+      };
+      tick();
+    });
+
+    drawAt(buffer.duration);
+    videoTrack.requestFrame();
+    await new Promise(resolve => setTimeout(resolve, END_PADDING_MS));
+    recorder.stop();
+    await stopped;
+    onProgress?.(1);
+    return new Blob(chunks, { type: recorder.mimeType || mimeType });
+  } finally {
+    clearTimeout(timer);
+    if (recorder.state !== 'inactive') recorder.stop();
+    try {
+      source.stop();
+    } catch {
+      // Never started
+    }
+    videoStream.getTracks().forEach(track => track.stop());
+    audioDestination.stream.getTracks().forEach(track => track.stop());
+    audioContext.close().catch(() => {});
+  }
+}
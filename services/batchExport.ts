@@ -0,0 +1,63 @@
+import { BatchRow, BatchRowState, ExportOptions } from "../types";
+import { EXPORT_FORMATS, exportAudio } from "./audioExport";
+import { createZip, ZipEntry } from "../utils/zipWriter";
+
+// One entry of manifest.json, describing a row and where its audio ended up
+interface ManifestRow extends BatchRow {
+  status: BatchRowState['status'];
+  file: string | null;
+  duration: number | null;
+  error?: string;
+}
+
+// Row ids become filenames, so anything outside a safe set is replaced
+export const toSafeFilename = (id: string) => id.replace(/[^\w.-]+/g, '_').replace(/^\.+/, '_') || 'row';
+
+// Encodes every finished row with the current export settings and packs them into a
+// ZIP next to manifest.json. Rows without audio are listed in the manifest only.
+// `process` runs on each clip before encoding (e.g. the post-processing chain).
+export const exportBatchZip = async (
+  rows: BatchRow[],
+  states: BatchRowState[],
+  buffers: (AudioBuffer | null)[],
+  options: ExportOptions,
+  process?: (buffer: AudioBuffer) => Promise<AudioBuffer>
+): Promise<Blob> => {
+  const { extension } = EXPORT_FORMATS[options.format];
+  const entries: ZipEntry[] = [];
+  const manifest: ManifestRow[] = [];
+  const usedNames = new Set<string>();
+
+  for (let i = 0; i < rows.length; i++) {
+    const buffer = buffers[i];
+    let file: string | null = null;
+
+    if (buffer) {
+      // Distinct ids can still collide once sanitized
+      const base = toSafeFilename(rows[i].id);
+      file = `${base}.${extension}`;
+      for (let n = 2; usedNames.has(file); n++) file = `${base}-${n}.${extension}`;
+      usedNames.add(file);
+
+      const blob = await exportAudio(process ? await process(buffer) : buffer, options);
+      entries.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+
+    manifest.push({
+      ...rows[i],
+      status: states[i].status,
+      file,
+      duration: buffer ? Math.round(buffer.duration * 1000) / 1000 : null,
+      error: buffer ? undefined : states[i].error,
+    });
+  }
+
+  const manifestJson = JSON.stringify({
+    createdAt: new Date().toISOString(),
+    format: options.format,
+    rows: manifest,
+  }, null, 2);
+  entries.push({ name: 'manifest.json', data: new TextEncoder().encode(manifestJson) });
+
+  return createZip(entries);
+};
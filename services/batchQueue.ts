@@ -0,0 +1,140 @@
+import { BatchRow, BatchRowState, LexiconEntry, TtsSelection } from "../types";
+import { generateSpeech } from "./speechService";
+import { classifyError, describeError, isAbortError } from "./ttsErrors";
+import { UsageMeter } from "./usageMeter";
+import { runWithConcurrency } from "../utils/concurrency";
+import { backoffDelay, sleep } from "../utils/backoff";
+
+// Attempts per row before a rate-limited row is marked as failed
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+// Rate limits are waited out here, queue-wide, and not retried again per request in
+// speechService; anything else fails the row
+export const isRateLimitError = (error: unknown): boolean => classifyError(error).kind === 'quota';
+
+// Runs batch rows through generateSpeech with a concurrency limit. A rate-limit
+// response puts the whole queue into a shared cooldown with exponential backoff,
+// since every worker is hitting the same quota. Pausing lets in-flight requests
+// finish but starts no new ones until resumed; cancelling aborts them.
+export class BatchQueue {
+  readonly buffers: (AudioBuffer | null)[];
+  private paused = false;
+  private cancelled = false;
+  private resumeWaiters: (() => void)[] = [];
+  private cooldownUntil = 0;
+  private controller: AbortController | null = null;
+
+  constructor(
+    private readonly rows: BatchRow[],
+    private readonly audioContext: AudioContext,
+    private readonly onUpdate: (index: number, state: BatchRowState) => void,
+    buffers?: (AudioBuffer | null)[]
+  ) {
+    this.buffers = rows.map((_, i) => buffers?.[i] ?? null);
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Generates every row without audio yet (or only `indices`). Requests and
+  // rate-limit retries are charged to the meter when one is given.
+  async run(
+    engine: TtsSelection,
+    concurrency: number,
+    indices?: number[],
+    lexicon: LexiconEntry[] = [],
+    meter?: UsageMeter
+  ): Promise<void> {
+    this.cancelled = false;
+    this.controller = new AbortController();
+    const todo = this.pending(indices);
+    todo.forEach(index => this.onUpdate(index, { status: 'queued', attempts: 0 }));
+    await runWithConcurrency(todo, concurrency, index => this.runRow(index, engine, lexicon, meter));
+    this.controller = null;
+  }
+
+  // Rows a run with these indices would generate
+  pending(indices?: number[]): number[] {
+    return (indices ?? this.rows.map((_, i) => i)).filter(i => !this.buffers[i]);
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+    this.releaseWaiters();
+  }
+
+  // Unfinished rows, including the ones in flight, go back to queued so a later run picks them up
+  cancel() {
+    this.cancelled = true;
+    this.paused = false;
+    this.controller?.abort();
+    this.releaseWaiters();
+  }
+
+  private releaseWaiters() {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  // Resolves once the queue is neither paused nor cooling down
+  private async waitForTurn(): Promise<void> {
+    while (!this.cancelled) {
+      if (this.paused) {
+        await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+      } else if (Date.now() < this.cooldownUntil) {
+        await sleep(this.cooldownUntil - Date.now()).catch(() => {});
+      } else {
+        return;
+      }
+    }
+  }
+
+  private async runRow(index: number, engine: TtsSelection, lexicon: LexiconEntry[], meter?: UsageMeter): Promise<void> {
+    const row = this.rows[index];
+
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForTurn();
+      if (this.cancelled) {
+        this.onUpdate(index, { status: 'queued', attempts: attempt - 1 });
+        return;
+      }
+
+      this.onUpdate(index, { status: 'generating', attempts: attempt });
+      try {
+        this.buffers[index] = await generateSpeech(
+          row.text, row.voice, this.audioContext, engine, row.style, lexicon, { meter, signal: this.controller?.signal, retryRateLimits: false }
+        );
+        this.onUpdate(index, { status: 'done', attempts: attempt });
+        return;
+      } catch (error: any) {
+        if (isAbortError(error)) {
+          this.onUpdate(index, { status: 'queued', attempts: attempt - 1 });
+          return;
+        }
+        if (isRateLimitError(error) && attempt < MAX_ATTEMPTS) {
+          const delay = backoffDelay(attempt, BASE_BACKOFF_MS, MAX_BACKOFF_MS);
+          this.cooldownUntil = Math.max(this.cooldownUntil, Date.now() + delay);
+          meter?.recordRetry();
+          this.onUpdate(index, {
+            status: 'waiting',
+            attempts: attempt,
+            error: `Rate limited, retrying in ${Math.ceil(delay / 1000)}s`,
+          });
+          continue;
+        }
+        this.onUpdate(index, { status: 'error', attempts: attempt, error: describeError(error) });
+        return;
+      }
+    }
+  }
+}
@@ -0,0 +1,83 @@
+// Shared IndexedDB connection for everything the studio keeps locally.
+// Bump DB_VERSION and extend the upgrade handler when adding a store.
+
+const DB_NAME = 'gemini-voice-studio';
+const DB_VERSION = 7;
+
+export const HISTORY_STORE = 'history';
+export const PROJECTS_STORE = 'projects';
+export const PRESETS_STORE = 'presets';
+export const LEXICONS_STORE = 'lexicons';
+export const VOICE_PROFILES_STORE = 'voiceProfiles';
+export const USAGE_STORE = 'usage';
+// Single settings records, keyed by name
+export const SETTINGS_STORE = 'settings';
+// Cached synthesis audio, and the small bookkeeping records used for LRU eviction
+export const SYNTH_CACHE_STORE = 'synthCache';
+export const SYNTH_CACHE_ENTRIES_STORE = 'synthCacheEntries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          const store = db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(PRESETS_STORE)) {
+          db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(LEXICONS_STORE)) {
+          db.createObjectStore(LEXICONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(VOICE_PROFILES_STORE)) {
+          db.createObjectStore(VOICE_PROFILES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          const store = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
+        if (!db.objectStoreNames.contains(SYNTH_CACHE_STORE)) {
+          db.createObjectStore(SYNTH_CACHE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(SYNTH_CACHE_ENTRIES_STORE)) {
+          const store = db.createObjectStore(SYNTH_CACHE_ENTRIES_STORE, { keyPath: 'key' });
+          store.createIndex('lastUsed', 'lastUsed');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return requestToPromise(run(tx.objectStore(storeName)));
+};
@@ -0,0 +1,170 @@
+import { DocumentChapter, ImportedDocument } from "../types";
+import { blocksToChapters, DocumentBlock, markdownToBlocks, stripPageFurniture, textToBlocks } from "../utils/documentParser";
+import { extractPdfText } from "../utils/pdfText";
+import { ZipArchive } from "../utils/zipReader";
+
+export const DOCUMENT_ACCEPT = '.txt,.md,.markdown,.html,.htm,.xhtml,.epub,.pdf';
+
+// Page chrome that never belongs in a narration
+const BOILERPLATE_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'nav', 'body > header', 'body > footer', 'aside', 'form', 'button',
+  'iframe', 'svg', 'math', 'figure', 'pre', 'table', '[role="navigation"]', '[role="banner"]',
+  '[role="contentinfo"]', '[aria-hidden="true"]', '[hidden]',
+].join(',');
+
+const BLOCK_SELECTOR = 'h1,h2,h3,h4,h5,h6,p,li,blockquote,dt,dd';
+
+// EPUB spine items that are usually front or back matter rather than chapters
+const FRONT_MATTER = /(^|[^a-z])(cover|toc|nav|copyright|titlepage|title-page|halftitle|colophon|dedication)([^a-z]|$)/i;
+const FRONT_MATTER_MAX_CHARS = 1500;
+
+const fileTitle = (name: string) => name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || 'Document';
+
+const collapse = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+
+// Reads headings and paragraphs out of an HTML document in reading order, preferring
+// the main article when the page marks one
+function htmlToBlocks(doc: Document): DocumentBlock[] {
+  const root = doc.querySelector('main, article, [role="main"]') ?? doc.body;
+  if (!root) return [];
+  root.querySelectorAll(BOILERPLATE_SELECTOR).forEach(el => el.remove());
+
+  const blocks: DocumentBlock[] = [];
+  root.querySelectorAll(BLOCK_SELECTOR).forEach(el => {
+    // A paragraph inside a list item or quote is read as part of it
+    if (el.parentElement?.closest(BLOCK_SELECTOR)) return;
+    const text = collapse(el.textContent);
+    if (!text) return;
+    const heading = el.tagName.match(/^H([1-6])$/i);
+    blocks.push({ level: heading ? Number(heading[1]) : 0, text });
+  });
+
+  // Pages built only from divs and line breaks
+  if (blocks.length === 0) {
+    return textToBlocks((root as HTMLElement).innerText ?? root.textContent ?? '');
+  }
+  return blocks;
+}
+
+const parseHtml = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+// Resolves an href found in `base` (a path inside the archive) to an archive path
+const resolvePath = (base: string, href: string) => {
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+// Chapter titles from the EPUB 3 navigation document or the EPUB 2 NCX, by file
+async function readTocTitles(zip: ZipArchive, opf: Document, opfPath: string): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  const items = [...opf.getElementsByTagName('item')];
+  const nav = items.find(item => (item.getAttribute('properties') ?? '').split(/\s+/).includes('nav'));
+  const ncx = items.find(item => item.getAttribute('media-type') === 'application/x-dtbncx+xml');
+
+  if (nav) {
+    const navPath = resolvePath(opfPath, nav.getAttribute('href') ?? '');
+    if (zip.has(navPath)) {
+      const doc = parseHtml(await zip.readText(navPath));
+      const toc = [...doc.querySelectorAll('nav')].find(n => n.getAttribute('epub:type') === 'toc') ?? doc.querySelector('nav');
+      toc?.querySelectorAll('a[href]').forEach(a => {
+        const path = resolvePath(navPath, a.getAttribute('href')!);
+        if (!titles.has(path)) titles.set(path, collapse(a.textContent));
+      });
+    }
+  }
+  if (titles.size === 0 && ncx) {
+    const ncxPath = resolvePath(opfPath, ncx.getAttribute('href') ?? '');
+    if (zip.has(ncxPath)) {
+      const doc = new DOMParser().parseFromString(await zip.readText(ncxPath), 'application/xml');
+      [...doc.getElementsByTagName('navPoint')].forEach(point => {
+        const src = point.getElementsByTagName('content')[0]?.getAttribute('src');
+        const label = collapse(point.getElementsByTagName('text')[0]?.textContent);
+        if (!src || !label) return;
+        const path = resolvePath(ncxPath, src);
+        if (!titles.has(path)) titles.set(path, label);
+      });
+    }
+  }
+  return titles;
+}
+
+// Each spine document becomes a chapter, titled from the table of contents
+async function importEpub(bytes: Uint8Array, fallbackTitle: string): Promise<ImportedDocument> {
+  const zip = new ZipArchive(bytes);
+  const container = new DOMParser().parseFromString(await zip.readText('META-INF/container.xml'), 'application/xml');
+  const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath || !zip.has(opfPath)) throw new Error("The EPUB has no package document");
+
+  const opf = new DOMParser().parseFromString(await zip.readText(opfPath), 'application/xml');
+  const metadata = (tag: string) => collapse(opf.getElementsByTagNameNS('*', tag)[0]?.textContent) || undefined;
+  const manifest = new Map([...opf.getElementsByTagName('item')].map(item => [item.getAttribute('id') ?? '', item]));
+  const titles = await readTocTitles(zip, opf, opfPath);
+
+  const chapters: DocumentChapter[] = [];
+  for (const ref of [...opf.getElementsByTagName('itemref')]) {
+    if (ref.getAttribute('linear') === 'no') continue;
+    const item = manifest.get(ref.getAttribute('idref') ?? '');
+    if (!item || (item.getAttribute('properties') ?? '').includes('nav')) continue;
+    const path = resolvePath(opfPath, item.getAttribute('href') ?? '');
+    if (!zip.has(path)) continue;
+
+    const blocks = htmlToBlocks(parseHtml(await zip.readText(path)));
+    const text = blocks.map(b => b.text).join('\n\n');
+    if (!text || (FRONT_MATTER.test(`${item.getAttribute('id')} ${path}`) && text.length < FRONT_MATTER_MAX_CHARS)) continue;
+
+    const heading = blocks.find(b => b.level > 0)?.text;
+    chapters.push({ title: titles.get(path) || heading || `Section ${chapters.length + 1}`, text });
+  }
+
+  return { title: metadata('title') ?? fallbackTitle, author: metadata('creator'), chapters };
+}
+
+// Pulls clean, chaptered text out of a TXT, Markdown, HTML, EPUB or (text-based) PDF file
+export async function importDocument(file: File): Promise<ImportedDocument> {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const fallbackTitle = fileTitle(file.name);
+  let document: ImportedDocument;
+
+  switch (extension) {
+    case 'epub':
+      document = await importEpub(new Uint8Array(await file.arrayBuffer()), fallbackTitle);
+      break;
+    case 'pdf': {
+      const pages = stripPageFurniture(await extractPdfText(new Uint8Array(await file.arrayBuffer())));
+      if (!pages.some(page => page.trim())) {
+        throw new Error("No text found in this PDF. Scanned documents need to be run through OCR first.");
+      }
+      document = { title: fallbackTitle, chapters: blocksToChapters(textToBlocks(pages.join('\n')), fallbackTitle) };
+      break;
+    }
+    case 'html':
+    case 'htm':
+    case 'xhtml': {
+      const doc = parseHtml(await file.text());
+      const title = collapse(doc.title) || fallbackTitle;
+      document = { title, chapters: blocksToChapters(htmlToBlocks(doc), title) };
+      break;
+    }
+    case 'md':
+    case 'markdown': {
+      const blocks = markdownToBlocks(await file.text());
+      const title = blocks.find(b => b.level === 1)?.text || fallbackTitle;
+      document = { title, chapters: blocksToChapters(blocks, title) };
+      break;
+    }
+    case 'txt':
+      document = { title: fallbackTitle, chapters: blocksToChapters(textToBlocks(await file.text()), fallbackTitle) };
+      break;
+    default:
+      throw new Error(`Unsupported file type ".${extension}". Use TXT, Markdown, HTML, EPUB or PDF.`);
+  }
+
+  if (document.chapters.length === 0) {
+    throw new Error("No readable text was found in this document.");
+  }
+  return document;
+}
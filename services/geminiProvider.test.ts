@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { GenerateContentResponse } from '@google/genai';
+import { decodeResponseAudio, getAudioParts } from './geminiProvider';
+import { createFakeAudioContext } from '../test/fakeAudioContext';
+import { pcm16, toBase64, WAV_WITH_EXTRA_CHUNKS } from '../test/fixtures/audio';
+
+const responseWith = (...parts: { inlineData?: { data?: string; mimeType?: string }; text?: string }[]) =>
+  ({ candidates: [{ content: { parts } }] }) as GenerateContentResponse;
+
+describe('getAudioParts', () => {
+  it('collects every inline audio part in order, defaulting the MIME type', () => {
+    const response = responseWith(
+      { inlineData: { data: 'AAAA', mimeType: 'audio/L16;rate=24000' } },
+      { text: 'not audio' },
+      { inlineData: { data: 'BBBB', mimeType: 'image/png' } },
+      { inlineData: { data: 'CCCC' } },
+    );
+    expect(getAudioParts(response)).toEqual([
+      { data: 'AAAA', mimeType: 'audio/L16;rate=24000' },
+      { data: 'CCCC', mimeType: 'audio/L16;rate=24000' },
+    ]);
+  });
+});
+
+describe('decodeResponseAudio', () => {
+  const ctx = createFakeAudioContext();
+
+  it('merges several parts into one buffer, in order', async () => {
+    const buffer = await decodeResponseAudio([
+      { data: toBase64(pcm16([16384, 16384])), mimeType: 'audio/L16;rate=24000' },
+      { data: toBase64(pcm16([-16384])), mimeType: 'audio/L16;rate=24000' },
+    ], ctx);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0.5, -0.5]);
+  });
+
+  it('brings parts of different formats to a common sample rate', async () => {
+    const buffer = await decodeResponseAudio([
+      { data: toBase64(pcm16(new Array(240).fill(8192))), mimeType: 'audio/L16;rate=24000' },
+      { data: toBase64(WAV_WITH_EXTRA_CHUNKS), mimeType: 'audio/wav' },
+    ], ctx);
+    expect(buffer.sampleRate).toBe(24000);
+    // 22.05 kHz part: 3 samples become round(3 * 24000 / 22050) = 3
+    expect(buffer.length).toBe(243);
+  });
+
+  it('reports undecodable audio as a decode error', async () => {
+    await expect(decodeResponseAudio([{ data: toBase64(Uint8Array.of(1)), mimeType: 'audio/L16' }], ctx))
+      .rejects.toMatchObject({ kind: 'decode' });
+  });
+});
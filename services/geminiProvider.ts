@@ -0,0 +1,194 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Modality, SpeechConfig } from "@google/genai";
+import { TokenUsage, VoiceName, VoiceOption } from "../types";
+import { concatAudioBuffers, decodeBase64 } from "../utils/audioUtils";
+import { decodeAudioPayload } from "../utils/audioFormat";
+import { getSpeakers } from "../utils/scriptParser";
+import { applyDirection, buildDirectionPrompt } from "../utils/deliveryPrompt";
+import { SynthesisRequest, TtsProvider } from "./ttsProvider";
+import { TtsError } from "./ttsErrors";
+
+const API_KEY = process.env.API_KEY || '';
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so the app can run against other providers without a key.
+// Shared with the Gemini translator.
+export const getGeminiClient = () => {
+  if (!client) {
+    if (!API_KEY) {
+      console.warn("Missing API_KEY in process.env");
+    }
+    client = new GoogleGenAI({ apiKey: API_KEY });
+  }
+  return client;
+};
+
+// Every prebuilt voice of the 2.5 TTS models. Tags are Google's one-word character for each voice.
+export const GEMINI_VOICES: VoiceOption[] = [
+  { id: VoiceName.Kore, name: 'Kore', description: 'Calm, soothing, nature-inspired', gender: 'Female', tags: ['firm'] },
+  { id: VoiceName.Fenrir, name: 'Fenrir', description: 'Deep, resonant, authoritative', gender: 'Male', tags: ['excitable'] },
+  { id: VoiceName.Puck, name: 'Puck', description: 'Playful, energetic, mischievous', gender: 'Male', tags: ['upbeat'] },
+  { id: VoiceName.Charon, name: 'Charon', description: 'Steady, deep, composed', gender: 'Male', tags: ['informative'] },
+  { id: VoiceName.Zephyr, name: 'Zephyr', description: 'Light, airy, soft', gender: 'Female', tags: ['bright'] },
+  { id: VoiceName.Leda, name: 'Leda', description: 'Youthful', gender: 'Female', tags: ['youthful'] },
+  { id: VoiceName.Orus, name: 'Orus', description: 'Firm', gender: 'Male', tags: ['firm'] },
+  { id: VoiceName.Aoede, name: 'Aoede', description: 'Breezy', gender: 'Female', tags: ['breezy'] },
+  { id: VoiceName.Callirrhoe, name: 'Callirrhoe', description: 'Easy-going', gender: 'Female', tags: ['easy-going'] },
+  { id: VoiceName.Autonoe, name: 'Autonoe', description: 'Bright', gender: 'Female', tags: ['bright'] },
+  { id: VoiceName.Enceladus, name: 'Enceladus', description: 'Breathy', gender: 'Male', tags: ['breathy'] },
+  { id: VoiceName.Iapetus, name: 'Iapetus', description: 'Clear', gender: 'Male', tags: ['clear'] },
+  { id: VoiceName.Umbriel, name: 'Umbriel', description: 'Easy-going', gender: 'Male', tags: ['easy-going'] },
+  { id: VoiceName.Algieba, name: 'Algieba', description: 'Smooth', gender: 'Male', tags: ['smooth'] },
+  { id: VoiceName.Despina, name: 'Despina', description: 'Smooth', gender: 'Female', tags: ['smooth'] },
+  { id: VoiceName.Erinome, name: 'Erinome', description: 'Clear', gender: 'Female', tags: ['clear'] },
+  { id: VoiceName.Algenib, name: 'Algenib', description: 'Gravelly', gender: 'Male', tags: ['gravelly'] },
+  { id: VoiceName.Rasalgethi, name: 'Rasalgethi', description: 'Informative', gender: 'Male', tags: ['informative'] },
+  { id: VoiceName.Laomedeia, name: 'Laomedeia', description: 'Upbeat', gender: 'Female', tags: ['upbeat'] },
+  { id: VoiceName.Achernar, name: 'Achernar', description: 'Soft', gender: 'Female', tags: ['soft'] },
+  { id: VoiceName.Alnilam, name: 'Alnilam', description: 'Firm', gender: 'Male', tags: ['firm'] },
+  { id: VoiceName.Schedar, name: 'Schedar', description: 'Even', gender: 'Male', tags: ['even'] },
+  { id: VoiceName.Gacrux, name: 'Gacrux', description: 'Mature', gender: 'Female', tags: ['mature'] },
+  { id: VoiceName.Pulcherrima, name: 'Pulcherrima', description: 'Forward', gender: 'Female', tags: ['forward'] },
+  { id: VoiceName.Achird, name: 'Achird', description: 'Friendly', gender: 'Male', tags: ['friendly'] },
+  { id: VoiceName.Zubenelgenubi, name: 'Zubenelgenubi', description: 'Casual', gender: 'Male', tags: ['casual'] },
+  { id: VoiceName.Vindemiatrix, name: 'Vindemiatrix', description: 'Gentle', gender: 'Female', tags: ['gentle'] },
+  { id: VoiceName.Sadachbia, name: 'Sadachbia', description: 'Lively', gender: 'Male', tags: ['lively'] },
+  { id: VoiceName.Sadaltager, name: 'Sadaltager', description: 'Knowledgeable', gender: 'Male', tags: ['knowledgeable'] },
+  { id: VoiceName.Sulafat, name: 'Sulafat', description: 'Warm', gender: 'Female', tags: ['warm'] },
+];
+
+// Builds the prompt text and speech config for a request. Multi-speaker requests
+// name the speakers in the prompt so the model can match them to the voice configs.
+const buildRequest = ({ text, voice, style, script }: SynthesisRequest): { prompt: string; speechConfig: SpeechConfig } => {
+  if (!script) {
+    return {
+      prompt: applyDirection(text, style),
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+    };
+  }
+
+  const speakers = getSpeakers(script.lines);
+  return {
+    prompt: buildDirectionPrompt(style) +
+      `TTS the following conversation between ${speakers.join(' and ')}:\n` +
+      script.lines.map(line => `${line.speaker}: ${line.text}`).join('\n'),
+    speechConfig: {
+      multiSpeakerVoiceConfig: {
+        speakerVoiceConfigs: speakers.map(speaker => ({
+          speaker,
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: script.speakers[speaker] } },
+        })),
+      },
+    },
+  };
+};
+
+const buildParams = (request: SynthesisRequest, signal?: AbortSignal) => {
+  const { prompt, speechConfig } = buildRequest(request);
+  return {
+    model: request.model,
+    contents: [{ parts: [{ text: prompt }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig,
+      abortSignal: signal,
+    },
+  };
+};
+
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII, FinishReason.RECITATION,
+];
+
+// A blocked prompt or response comes back as a normal response without audio
+const checkBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new TtsError('safety', response.promptFeedback?.blockReasonMessage || `Prompt blocked (${blockReason})`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new TtsError('safety', `Response blocked (${finishReason})`);
+  }
+};
+
+interface AudioPart {
+  data: string;
+  mimeType: string;
+}
+
+// What the TTS models send when a part doesn't say: 24kHz 16-bit mono PCM
+const DEFAULT_AUDIO_MIME_TYPE = 'audio/L16;rate=24000';
+
+// Every inline audio part of the response, in order. Longer responses can split
+// the audio across several parts.
+export const getAudioParts = (response: GenerateContentResponse): AudioPart[] =>
+  (response.candidates?.[0]?.content?.parts ?? []).flatMap(part => {
+    const { data, mimeType = DEFAULT_AUDIO_MIME_TYPE } = part.inlineData ?? {};
+    return data && mimeType.toLowerCase().startsWith('audio/') ? [{ data, mimeType }] : [];
+  });
+
+const getUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const metadata = response.usageMetadata;
+  if (!metadata) return undefined;
+  const promptTokens = metadata.promptTokenCount ?? 0;
+  const outputTokens = metadata.candidatesTokenCount ?? 0;
+  return { promptTokens, outputTokens, totalTokens: metadata.totalTokenCount ?? promptTokens + outputTokens };
+};
+
+// Decodes each part as its MIME type says and joins them into one buffer. Gemini
+// labels its PCM audio/L16 but sends it little-endian, so that is the default.
+export const decodeResponseAudio = async (parts: AudioPart[], audioContext: BaseAudioContext) => {
+  try {
+    const buffers = await Promise.all(parts.map(part =>
+      decodeAudioPayload(decodeBase64(part.data), part.mimeType, audioContext, { bigEndian: false })));
+    return buffers.length === 1 ? buffers[0] : concatAudioBuffers(buffers, audioContext);
+  } catch (error) {
+    throw new TtsError('decode', "Could not decode the audio returned by Gemini", undefined, { cause: error });
+  }
+};
+
+export const geminiProvider: TtsProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  models: [
+    { id: 'gemini-2.5-flash-preview-tts', label: '2.5 Flash TTS' },
+    { id: 'gemini-2.5-pro-preview-tts', label: '2.5 Pro TTS' },
+  ],
+  voices: GEMINI_VOICES,
+  capabilities: {
+    maxSpeakers: 2,
+    styleInstructions: true,
+    streaming: true,
+    remote: true,
+  },
+
+  synthesize: async (request, audioContext, signal) => {
+    const response = await getGeminiClient().models.generateContent(buildParams(request, signal));
+    checkBlocked(response);
+    const audioParts = getAudioParts(response);
+    if (audioParts.length === 0) {
+      throw new TtsError('empty', "No audio data received from Gemini API");
+    }
+    return { buffer: await decodeResponseAudio(audioParts, audioContext), usage: getUsage(response) };
+  },
+
+  stream: async function* (request, audioContext, signal) {
+    const responses = await getGeminiClient().models.generateContentStream(buildParams(request, signal));
+    let received = false;
+    // Usage metadata is a running total and can arrive on chunks without audio,
+    // so each piece carries the latest total seen so far
+    let usage: TokenUsage | undefined;
+    for await (const response of responses) {
+      checkBlocked(response);
+      usage = getUsage(response) ?? usage;
+      const audioParts = getAudioParts(response);
+      if (audioParts.length === 0) continue;
+      received = true;
+      yield { buffer: await decodeResponseAudio(audioParts, audioContext), usage };
+    }
+    if (!received) {
+      throw new TtsError('empty', "No audio data received from Gemini API");
+    }
+  },
+};
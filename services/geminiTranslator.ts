@@ -0,0 +1,47 @@
+import { FinishReason } from "@google/genai";
+import { localeName } from "../utils/locales";
+import { getGeminiClient } from "./geminiProvider";
+import { TranslationProvider } from "./translationProvider";
+import { TtsError } from "./ttsErrors";
+
+// The translation is read aloud as is, so the model is told to return nothing else
+// and to leave SSML-lite markup for the speech step
+const buildInstruction = (sourceLocale: string, targetLocale: string) =>
+  `You translate voice-over scripts from ${localeName(sourceLocale)} (${sourceLocale}) ` +
+  `to ${localeName(targetLocale)} (${targetLocale}). Keep the meaning, tone and register, ` +
+  `and phrase it the way a native speaker would say it out loud. ` +
+  `Leave XML-style tags such as <break time="500ms"/> or <emphasis> unchanged and in place. ` +
+  `Reply with the translation only, without quotes, notes or alternatives.`;
+
+export const geminiTranslator: TranslationProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  models: [
+    { id: 'gemini-2.5-flash', label: '2.5 Flash' },
+    { id: 'gemini-2.5-flash-lite', label: '2.5 Flash-Lite' },
+    { id: 'gemini-2.5-pro', label: '2.5 Pro' },
+  ],
+  remote: true,
+
+  translate: async ({ model, text, sourceLocale, targetLocale }, signal) => {
+    const response = await getGeminiClient().models.generateContent({
+      model,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        systemInstruction: buildInstruction(sourceLocale, targetLocale),
+        temperature: 0.3,
+        abortSignal: signal,
+      },
+    });
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason || response.candidates?.[0]?.finishReason === FinishReason.SAFETY) {
+      throw new TtsError('safety', response.promptFeedback?.blockReasonMessage || `Translation blocked (${blockReason ?? FinishReason.SAFETY})`);
+    }
+    const translated = response.text?.trim();
+    if (!translated) {
+      throw new TtsError('unknown', "Gemini returned an empty translation");
+    }
+    return translated;
+  },
+};
@@ -0,0 +1,49 @@
+import { ExportOptions, GeneratedAudio } from "../types";
+import { EXPORT_FORMATS, exportAudio } from "./audioExport";
+import { toSafeFilename } from "./batchExport";
+import { takeNumberOf } from "../utils/historyGroups";
+import { createZip, ZipEntry } from "../utils/zipWriter";
+
+// Packs a selection of history clips into a ZIP, numbered in the order given, with
+// a manifest carrying each clip's text, voice, take, tags and notes.
+// `process` runs on each clip before encoding (e.g. the post-processing chain).
+export const exportHistoryZip = async (
+  items: GeneratedAudio[],
+  options: ExportOptions,
+  process?: (buffer: AudioBuffer) => Promise<AudioBuffer>
+): Promise<Blob> => {
+  const { extension } = EXPORT_FORMATS[options.format];
+  const clips = items.filter(item => item.audioBuffer);
+  const digits = Math.max(3, String(clips.length).length);
+  const entries: ZipEntry[] = [];
+
+  const files = [];
+  for (const [index, item] of clips.entries()) {
+    const buffer = item.audioBuffer!;
+    const take = takeNumberOf(item);
+    const file = `${String(index + 1).padStart(digits, '0')}-${toSafeFilename(item.voice)}${take > 1 ? `-take-${take}` : ''}.${extension}`;
+    const blob = await exportAudio(process ? await process(buffer) : buffer, options);
+    entries.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+    files.push({
+      file,
+      text: item.text,
+      voice: item.voice,
+      take,
+      best: item.best ?? false,
+      favorite: item.favorite ?? false,
+      tags: item.tags ?? [],
+      notes: item.notes ?? '',
+      createdAt: new Date(item.timestamp).toISOString(),
+      duration: Math.round(buffer.duration * 1000) / 1000,
+    });
+  }
+
+  const manifestJson = JSON.stringify({
+    createdAt: new Date().toISOString(),
+    format: options.format,
+    clips: files,
+  }, null, 2);
+  entries.push({ name: 'manifest.json', data: new TextEncoder().encode(manifestJson) });
+
+  return createZip(entries);
+};
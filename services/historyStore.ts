@@ -0,0 +1,89 @@
+import { GeneratedAudio } from "../types";
+import { decodeAudioData, encodePcm16 } from "../utils/audioUtils";
+import { HISTORY_STORE, openDatabase, requestToPromise, withStore } from "./database";
+
+// What actually lands in IndexedDB: everything except the live AudioBuffer,
+// which is replaced by its raw 16-bit PCM so it can be rebuilt on load.
+type StoredAudio = Omit<GeneratedAudio, 'audioBuffer'> & {
+  pcm: ArrayBuffer;
+  sampleRate: number;
+  numChannels: number;
+};
+
+// The details of an item that can change after it's generated
+export type HistoryItemPatch = Partial<Pick<GeneratedAudio, 'best' | 'favorite' | 'tags' | 'notes'>>;
+
+export interface StorageUsage {
+  itemCount: number;
+  historyBytes: number;
+  // Origin-wide figures from the Storage API, when the browser exposes them
+  usage?: number;
+  quota?: number;
+}
+
+export const saveHistoryItem = async (item: GeneratedAudio): Promise<void> => {
+  if (!item.audioBuffer) return;
+
+  const { audioBuffer, ...meta } = item;
+  const pcm = encodePcm16(audioBuffer);
+  const record: StoredAudio = {
+    ...meta,
+    pcm: pcm.buffer as ArrayBuffer,
+    sampleRate: audioBuffer.sampleRate,
+    numChannels: audioBuffer.numberOfChannels,
+  };
+  await withStore(HISTORY_STORE, 'readwrite', store => store.put(record));
+};
+
+// Loads every stored item, newest first, rebuilding each AudioBuffer from PCM.
+// Decoding runs in an OfflineAudioContext so it can happen on page load, before
+// the user has made the gesture a live AudioContext needs. A record that can't be
+// decoded is skipped instead of taking the rest of the history down with it.
+export const loadHistory = async (): Promise<GeneratedAudio[]> => {
+  const records = await withStore<StoredAudio[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  records.sort((a, b) => b.timestamp - a.timestamp);
+  // Its own rate doesn't matter; each buffer is created at the rate it was stored at
+  const ctx = new OfflineAudioContext(1, 1, 24000);
+
+  const items = await Promise.all(records.map(async ({ pcm, sampleRate, numChannels, ...meta }) => {
+    try {
+      const audioBuffer = await decodeAudioData(new Uint8Array(pcm), ctx, sampleRate, numChannels);
+      return { ...meta, audioBuffer };
+    } catch (err) {
+      console.error(`Skipping saved history item ${meta.id} that could not be decoded:`, err);
+      return null;
+    }
+  }));
+  return items.filter((item): item is GeneratedAudio => item !== null);
+};
+
+// Updates a saved item's details in place, leaving its stored audio as it is
+export const updateHistoryItem = async (id: string, patch: HistoryItemPatch): Promise<void> => {
+  const db = await openDatabase();
+  const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+  const record = await requestToPromise<StoredAudio | undefined>(store.get(id));
+  if (record) await requestToPromise(store.put({ ...record, ...patch }));
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', store => store.clear());
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const records = await withStore<StoredAudio[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  const historyBytes = records.reduce((total, record) => total + record.pcm.byteLength, 0);
+
+  let usage: number | undefined;
+  let quota: number | undefined;
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage = estimate.usage;
+    quota = estimate.quota;
+  }
+
+  return { itemCount: records.length, historyBytes, usage, quota };
+};
@@ -0,0 +1,15 @@
+import { Lexicon } from "../types";
+import { LEXICONS_STORE, withStore } from "./database";
+
+export const saveLexicon = async (lexicon: Lexicon): Promise<void> => {
+  await withStore(LEXICONS_STORE, 'readwrite', store => store.put(lexicon));
+};
+
+export const loadLexicons = async (): Promise<Lexicon[]> => {
+  const lexicons = await withStore<Lexicon[]>(LEXICONS_STORE, 'readonly', store => store.getAll());
+  return lexicons.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const deleteLexicon = async (id: string): Promise<void> => {
+  await withStore(LEXICONS_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,62 @@
+import { ExportOptions, VoiceName } from "../types";
+import { EXPORT_FORMATS, exportAudio } from "./audioExport";
+import { toSafeFilename } from "./batchExport";
+import { localeName } from "../utils/locales";
+import { createZip, ZipEntry } from "../utils/zipWriter";
+
+// One line of the script in one language
+export interface LocalizedClip {
+  // Position of the line in the source script
+  line: number;
+  sourceText: string;
+  text: string;
+  voice: VoiceName;
+  buffer: AudioBuffer;
+}
+
+// Packs one language's clips into a ZIP, one numbered file per source line in
+// script order, with a manifest pairing each file with its source and translation.
+// `process` runs on each clip before encoding (e.g. the post-processing chain).
+export const exportLocaleZip = async (
+  locale: string,
+  clips: LocalizedClip[],
+  options: ExportOptions,
+  process?: (buffer: AudioBuffer) => Promise<AudioBuffer>
+): Promise<Blob> => {
+  const { extension } = EXPORT_FORMATS[options.format];
+  const folder = toSafeFilename(locale);
+  const digits = Math.max(3, String(Math.max(...clips.map(c => c.line + 1))).length);
+  const entries: ZipEntry[] = [];
+  const usedNames = new Set<string>();
+
+  const lines = [];
+  for (const clip of [...clips].sort((a, b) => a.line - b.line)) {
+    // Clips from different scripts can share a line number
+    const base = `${folder}/${String(clip.line + 1).padStart(digits, '0')}`;
+    let file = `${base}.${extension}`;
+    for (let n = 2; usedNames.has(file); n++) file = `${base}-${n}.${extension}`;
+    usedNames.add(file);
+
+    const blob = await exportAudio(process ? await process(clip.buffer) : clip.buffer, options);
+    entries.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+    lines.push({
+      line: clip.line + 1,
+      source: clip.sourceText,
+      text: clip.text,
+      voice: clip.voice,
+      file,
+      duration: Math.round(clip.buffer.duration * 1000) / 1000,
+    });
+  }
+
+  const manifestJson = JSON.stringify({
+    createdAt: new Date().toISOString(),
+    locale,
+    language: localeName(locale),
+    format: options.format,
+    lines,
+  }, null, 2);
+  entries.push({ name: `${folder}/manifest.json`, data: new TextEncoder().encode(manifestJson) });
+
+  return createZip(entries);
+};
@@ -0,0 +1,32 @@
+import { LocaleTarget, TranslationSelection, VoiceName } from "../types";
+import { DEFAULT_TRANSLATION_SELECTION } from "./translationProvider";
+import { SETTINGS_STORE, withStore } from "./database";
+
+const SETTINGS_KEY = 'localization';
+
+// The languages a script goes out in and who voices each one. Kept between
+// sessions since the same set is used for every script of a product.
+export interface LocalizationSettings {
+  sourceLocale: string;
+  targets: LocaleTarget[];
+  translator: TranslationSelection;
+}
+
+export const DEFAULT_LOCALIZATION_SETTINGS: LocalizationSettings = {
+  sourceLocale: 'en-US',
+  targets: [
+    { locale: 'de-DE', voice: VoiceName.Kore },
+    { locale: 'fr-FR', voice: VoiceName.Puck },
+    { locale: 'es-ES', voice: VoiceName.Charon },
+  ],
+  translator: DEFAULT_TRANSLATION_SELECTION,
+};
+
+export const saveLocalizationSettings = async (settings: LocalizationSettings): Promise<void> => {
+  await withStore(SETTINGS_STORE, 'readwrite', store => store.put(settings, SETTINGS_KEY));
+};
+
+export const loadLocalizationSettings = async (): Promise<LocalizationSettings> => {
+  const settings = await withStore<LocalizationSettings | undefined>(SETTINGS_STORE, 'readonly', store => store.get(SETTINGS_KEY));
+  return { ...DEFAULT_LOCALIZATION_SETTINGS, ...settings };
+};
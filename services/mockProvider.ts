@@ -0,0 +1,90 @@
+import { DeliveryStyle, VoiceName, VoiceOption } from "../types";
+import { splitSentences } from "../utils/textChunker";
+import { hashString, synthesizeText, SynthMode } from "../utils/formantSynth";
+import { throwIfAborted } from "../utils/backoff";
+import { SynthesisRequest, TtsProvider } from "./ttsProvider";
+
+const SAMPLE_RATE = 24000;
+
+interface VoiceShape {
+  pitch: number;
+  formantScale: number;
+}
+
+// Pitch and vocal tract size per voice, loosely following the Gemini voice descriptions
+const VOICE_SHAPES: Partial<Record<VoiceName, VoiceShape>> = {
+  [VoiceName.Puck]: { pitch: 135, formantScale: 1.0 },
+  [VoiceName.Charon]: { pitch: 100, formantScale: 0.95 },
+  [VoiceName.Kore]: { pitch: 200, formantScale: 1.15 },
+  [VoiceName.Fenrir]: { pitch: 85, formantScale: 0.9 },
+  [VoiceName.Zephyr]: { pitch: 230, formantScale: 1.2 },
+};
+
+const PACE_RATES: Record<string, number> = {
+  'very slow': 0.6, 'slow': 0.8, 'measured': 0.9, 'brisk': 1.2, 'fast': 1.4,
+};
+
+// Voices without a hand-picked shape get a stable one derived from the name
+const getShape = (voice: VoiceName): VoiceShape => {
+  const shape = VOICE_SHAPES[voice];
+  if (shape) return shape;
+  const pitch = 85 + (hashString(voice) % 156);
+  return { pitch, formantScale: 0.9 + ((pitch - 85) / 155) * 0.3 };
+};
+
+const MOCK_VOICES: VoiceOption[] = Object.values(VoiceName).map(voice => ({
+  id: voice,
+  name: voice,
+  description: `Synthetic, ${getShape(voice).pitch} Hz`,
+  gender: getShape(voice).pitch >= 170 ? 'Female' : 'Male',
+}));
+
+const getRate = (style?: DeliveryStyle) => PACE_RATES[style?.pace?.toLowerCase() ?? ''] ?? 1;
+
+// Spoken text of a request; dialogue turns are voiced one after another in the request voice
+const getRequestText = ({ text, script }: SynthesisRequest) =>
+  script ? script.lines.map(line => line.text).join('\n') : text;
+
+const render = (text: string, request: SynthesisRequest, audioContext: AudioContext): AudioBuffer => {
+  const mode: SynthMode = request.model === 'mock-tone' ? 'tone' : 'formant';
+  const samples = synthesizeText(text, {
+    sampleRate: SAMPLE_RATE,
+    ...getShape(request.voice),
+    rate: getRate(request.style),
+    mode,
+  });
+  const buffer = audioContext.createBuffer(1, Math.max(1, samples.length), SAMPLE_RATE);
+  buffer.copyToChannel(samples, 0);
+  return buffer;
+};
+
+// Offline provider: same input always gives the same audio, with no network or key
+export const mockProvider: TtsProvider = {
+  id: 'mock',
+  label: 'Local mock',
+  models: [
+    { id: 'mock-formant', label: 'Formant speech' },
+    { id: 'mock-tone', label: 'Tones' },
+  ],
+  voices: MOCK_VOICES,
+  capabilities: {
+    maxSpeakers: 1,
+    styleInstructions: false,
+    streaming: true,
+    remote: false,
+  },
+
+  synthesize: async (request, audioContext, signal) => {
+    throwIfAborted(signal);
+    return { buffer: render(getRequestText(request), request, audioContext) };
+  },
+
+  // One sentence at a time, like a remote stream would deliver it
+  stream: async function* (request, audioContext, signal) {
+    const sentences = getRequestText(request).split(/\n+/).flatMap(line => splitSentences(line));
+    for (const sentence of sentences) {
+      throwIfAborted(signal);
+      yield { buffer: render(sentence, request, audioContext) };
+    }
+  },
+};
@@ -0,0 +1,25 @@
+import { throwIfAborted } from "../utils/backoff";
+import { TranslationProvider } from "./translationProvider";
+
+// Pseudo-localization: swaps letters for accented look-alikes and tags the line
+// with its locale. Useful for trying the workflow (and layouts) without a key.
+const ACCENTED: Record<string, string> = {
+  a: 'á', e: 'é', i: 'í', o: 'ö', u: 'ü', c: 'ç', n: 'ñ',
+  A: 'Å', E: 'É', I: 'Î', O: 'Ø', U: 'Ú', C: 'Ç', N: 'Ñ',
+};
+
+// Markup tags pass through untouched, like the real translator is told to do
+const pseudoLocalize = (text: string) =>
+  text.split(/(<[^>]*>)/).map(part => part.startsWith('<') ? part : part.replace(/[a-zA-Z]/g, ch => ACCENTED[ch] ?? ch)).join('');
+
+export const mockTranslator: TranslationProvider = {
+  id: 'mock',
+  label: 'Local pseudo',
+  models: [{ id: 'pseudo', label: 'Pseudo-localization' }],
+  remote: false,
+
+  translate: async ({ text, targetLocale }, signal) => {
+    throwIfAborted(signal);
+    return `[${targetLocale}] ${pseudoLocalize(text)}`;
+  },
+};
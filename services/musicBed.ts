@@ -0,0 +1,120 @@
+import { MusicBedSettings } from "../types";
+
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+// Mixes are rendered at a music-friendly rate and resampled on export if needed
+export const MIX_SAMPLE_RATE = 48000;
+
+// RMS window for the voice envelope
+const ENVELOPE_WINDOW_SECONDS = 0.02;
+
+export const DEFAULT_MUSIC_BED: MusicBedSettings = {
+  gainDb: -16,
+  fadeIn: 1.5,
+  fadeOut: 2,
+  intro: 2,
+  outro: 2,
+  loop: true,
+  ducking: { enabled: true, amountDb: 12, thresholdDb: -40, attackMs: 200, releaseMs: 600 },
+};
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Decodes an imported music file in stereo at the mix rate
+export const decodeMusicFile = async (file: File): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(2, 1, MIX_SAMPLE_RATE);
+  try {
+    return await ctx.decodeAudioData(await file.arrayBuffer());
+  } catch (err) {
+    throw new Error(`Could not decode "${file.name}". Try a WAV, MP3 or Ogg file.`);
+  }
+};
+
+// Finds where speech is present from the RMS envelope of the voice. Regions closer
+// together than minGapSeconds are merged so the bed doesn't pump between words.
+export function detectSpeech(buffer: AudioBuffer, thresholdDb: number, minGapSeconds: number): SpeechRegion[] {
+  const windowFrames = Math.max(1, Math.round(ENVELOPE_WINDOW_SECONDS * buffer.sampleRate));
+  const threshold = dbToGain(thresholdDb);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const regions: SpeechRegion[] = [];
+
+  for (let start = 0; start < buffer.length; start += windowFrames) {
+    const end = Math.min(buffer.length, start + windowFrames);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i++) sum += data[i] * data[i];
+    }
+    if (Math.sqrt(sum / ((end - start) * channels.length)) < threshold) continue;
+
+    const from = start / buffer.sampleRate;
+    const to = end / buffer.sampleRate;
+    const last = regions[regions.length - 1];
+    if (last && from - last.end <= minGapSeconds) {
+      last.end = to;
+    } else {
+      regions.push({ start: from, end: to });
+    }
+  }
+  return regions;
+}
+
+// Lays the voice over the bed in a stereo OfflineAudioContext: the bed gets its level,
+// fades and (optionally) a ducking envelope that dips ahead of each speech region.
+export const mixWithMusicBed = async (voice: AudioBuffer, bed: AudioBuffer, settings: MusicBedSettings): Promise<AudioBuffer> => {
+  const duration = settings.intro + voice.duration + settings.outro;
+  const ctx = new OfflineAudioContext(2, Math.ceil(duration * MIX_SAMPLE_RATE), MIX_SAMPLE_RATE);
+
+  // A mono voice is up-mixed to both channels by the destination
+  const voiceSource = ctx.createBufferSource();
+  voiceSource.buffer = voice;
+  voiceSource.connect(ctx.destination);
+  voiceSource.start(settings.intro);
+
+  const bedSource = ctx.createBufferSource();
+  bedSource.buffer = bed;
+  bedSource.loop = settings.loop;
+
+  const level = ctx.createGain();
+  level.gain.value = dbToGain(settings.gainDb);
+
+  // Fades get their own node so they don't fight the ducking automation
+  const fade = ctx.createGain();
+  const scale = Math.min(1, duration / Math.max(1e-6, settings.fadeIn + settings.fadeOut));
+  const fadeIn = settings.fadeIn * scale;
+  const fadeOut = settings.fadeOut * scale;
+  fade.gain.setValueAtTime(fadeIn > 0 ? 0 : 1, 0);
+  if (fadeIn > 0) fade.gain.linearRampToValueAtTime(1, fadeIn);
+  if (fadeOut > 0) {
+    fade.gain.setValueAtTime(1, duration - fadeOut);
+    fade.gain.linearRampToValueAtTime(0, duration);
+  }
+
+  const duck = ctx.createGain();
+  duck.gain.setValueAtTime(1, 0);
+  if (settings.ducking.enabled) {
+    const { amountDb, thresholdDb, attackMs, releaseMs } = settings.ducking;
+    const attack = attackMs / 1000;
+    const release = releaseMs / 1000;
+    const ducked = dbToGain(-amountDb);
+    // Gaps too short to fully release and attack again stay ducked
+    for (const region of detectSpeech(voice, thresholdDb, attack + release)) {
+      const start = settings.intro + region.start;
+      const end = settings.intro + region.end;
+      duck.gain.setValueAtTime(1, Math.max(0, start - attack));
+      duck.gain.linearRampToValueAtTime(ducked, start);
+      duck.gain.setValueAtTime(ducked, end);
+      duck.gain.linearRampToValueAtTime(1, end + release);
+    }
+  }
+
+  bedSource.connect(level);
+  level.connect(fade);
+  fade.connect(duck);
+  duck.connect(ctx.destination);
+  bedSource.start(0);
+
+  return ctx.startRendering();
+};
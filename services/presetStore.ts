@@ -0,0 +1,17 @@
+import { ProcessingPreset } from "../types";
+import { PRESETS_STORE, withStore } from "./database";
+
+// Only user presets are stored; built-in ones live in audioProcessor.ts
+
+export const savePreset = async (preset: ProcessingPreset): Promise<void> => {
+  await withStore(PRESETS_STORE, 'readwrite', store => store.put(preset));
+};
+
+export const loadPresets = async (): Promise<ProcessingPreset[]> => {
+  const presets = await withStore<ProcessingPreset[]>(PRESETS_STORE, 'readonly', store => store.getAll());
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await withStore(PRESETS_STORE, 'readwrite', store => store.delete(id));
+};
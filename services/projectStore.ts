@@ -0,0 +1,18 @@
+import { TimelineProject } from "../types";
+import { PROJECTS_STORE, withStore } from "./database";
+
+// Projects only reference history items by id, so they are small and stored as-is
+
+export const saveProject = async (project: TimelineProject): Promise<void> => {
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.put(project));
+};
+
+// Most recently edited first
+export const loadProjects = async (): Promise<TimelineProject[]> => {
+  const projects = await withStore<TimelineProject[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+};
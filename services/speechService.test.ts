@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { VoiceName } from '../types';
+import { generateSpeech } from './speechService';
+import { createFakeAudioContext } from '../test/fakeAudioContext';
+
+const provider = vi.hoisted(() => ({
+  id: 'fake',
+  label: 'Fake',
+  capabilities: { maxSpeakers: 1, styleInstructions: false, streaming: false, remote: false },
+  synthesize: vi.fn(),
+}));
+
+vi.mock('./ttsProvider', () => ({ getProvider: () => provider }));
+
+describe('generateSpeech', () => {
+  const ctx = createFakeAudioContext() as unknown as AudioContext;
+  const engine = { provider: 'fake', model: 'fake-model' };
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('leaves rate limits to the caller when asked to', async () => {
+    provider.synthesize.mockReset().mockRejectedValue(Object.assign(new Error('Too many requests'), { status: 429 }));
+    await expect(generateSpeech('Hello.', VoiceName.Kore, ctx, engine, undefined, [], { retryRateLimits: false }))
+      .rejects.toMatchObject({ kind: 'quota' });
+    expect(provider.synthesize).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails at once on errors that retrying cannot fix', async () => {
+    provider.synthesize.mockReset().mockRejectedValue(Object.assign(new Error('Forbidden'), { status: 403 }));
+    await expect(generateSpeech('Hello.', VoiceName.Kore, ctx, engine)).rejects.toMatchObject({ kind: 'auth' });
+    expect(provider.synthesize).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,260 @@
+import { ChunkProgress, DeliveryStyle, DialogueScript, LexiconEntry, TextChunk, TokenUsage, TtsSelection, VoiceName } from "../types";
+import { concatAudioBuffers } from "../utils/audioUtils";
+import { getSpeakers } from "../utils/scriptParser";
+import { applyLexicon } from "../utils/lexicon";
+import { runWithConcurrency } from "../utils/concurrency";
+import { backoffDelay, sleep } from "../utils/backoff";
+import { getProvider, SynthesisRequest, TtsProvider } from "./ttsProvider";
+import { classifyError, describeError, isAbortError, TtsError } from "./ttsErrors";
+import { UsageMeter } from "./usageMeter";
+import { CacheMode, getCacheKey, lookupCache, storeInCache } from "./synthesisCache";
+
+// Pause inserted between turns when a dialogue is stitched from separate generations
+const TURN_GAP_SECONDS = 0.35;
+
+// Parallel requests allowed while generating the chunks of a long text
+const CHUNK_CONCURRENCY = 3;
+
+// Attempts per request for failures that may pass on their own (rate limits,
+// network trouble, responses without audio)
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 8000;
+
+// Per-call extras shared by every generation entry point
+export interface SpeechOptions {
+  // Charged for every request made on the clip's behalf
+  meter?: UsageMeter;
+  // Aborting rejects with a TtsError of kind 'cancelled'
+  signal?: AbortSignal;
+  // Defaults to 'use'; local providers are never cached
+  cache?: CacheMode;
+  // When false, rate limits are thrown on the first hit instead of retried here,
+  // for callers like the batch queue that back off on their own
+  retryRateLimits?: boolean;
+}
+
+const cancelledError = () => new TtsError('cancelled', "Generation cancelled");
+
+// The cache key for a request, or null when the request shouldn't touch the cache
+const cacheKeyFor = async (provider: TtsProvider, request: SynthesisRequest, mode: CacheMode = 'use') =>
+  provider.capabilities.remote && mode !== 'off' ? getCacheKey(provider.id, request) : null;
+
+// A cache failure never fails the generation; it just falls through to the provider
+const readCache = async (key: string | null, request: SynthesisRequest, audioContext: AudioContext, { meter, cache = 'use' }: SpeechOptions) => {
+  if (!key || cache !== 'use') return null;
+  const cached = await lookupCache(key, request.text.length, audioContext).catch(err => {
+    console.error("Cache lookup failed:", err);
+    return null;
+  });
+  if (cached) meter?.recordCacheHit();
+  return cached;
+};
+
+const writeCache = (key: string | null, request: SynthesisRequest, buffer: AudioBuffer) => {
+  if (key) storeInCache(key, request.text.length, buffer).catch(err => console.error("Failed to cache audio:", err));
+};
+
+// Called when an attempt fails: waits out the backoff if the failure is worth
+// retrying, otherwise throws it as a TtsError
+const handleFailure = async (error: unknown, attempt: number, provider: TtsProvider, { meter, signal, retryRateLimits = true }: SpeechOptions) => {
+  if (signal?.aborted) throw cancelledError();
+  const typed = classifyError(error);
+  if (!typed.retryable || attempt >= MAX_ATTEMPTS || (typed.kind === 'quota' && !retryRateLimits)) {
+    if (typed.kind !== 'cancelled') console.error(`${provider.label} TTS Error:`, error);
+    throw typed;
+  }
+  console.warn(`${provider.label} TTS attempt ${attempt} failed (${typed.kind}), retrying:`, typed.message);
+  meter?.recordRetry();
+  try {
+    await sleep(backoffDelay(attempt, BASE_BACKOFF_MS, MAX_BACKOFF_MS), signal);
+  } catch {
+    throw cancelledError();
+  }
+};
+
+// Every provider request goes through here so it can be cached, retried, timed and metered
+const synthesize = async (
+  request: Omit<SynthesisRequest, 'model'>,
+  audioContext: AudioContext,
+  engine: TtsSelection,
+  options: SpeechOptions
+): Promise<AudioBuffer> => {
+  const { meter, signal } = options;
+  const provider = getProvider(engine.provider);
+  const full = { ...request, model: engine.model };
+  const key = await cacheKeyFor(provider, full, options.cache);
+  const cached = await readCache(key, full, audioContext, options);
+  if (cached) return cached;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw cancelledError();
+    const started = performance.now();
+    try {
+      const { buffer, usage } = await provider.synthesize(full, audioContext, signal);
+      meter?.recordRequest(full, performance.now() - started, usage);
+      writeCache(key, full, buffer);
+      return buffer;
+    } catch (error) {
+      await handleFailure(error, attempt, provider, options);
+    }
+  }
+};
+
+// The lexicon rewrites the text just before it goes to the provider, so history
+// and captions keep the text as written. Identical requests are answered from the
+// synthesis cache unless options.cache says otherwise. Failures are thrown as TtsError.
+export const generateSpeech = async (
+  text: string, 
+  voiceName: VoiceName,
+  audioContext: AudioContext,
+  engine: TtsSelection,
+  style?: DeliveryStyle,
+  lexicon: LexiconEntry[] = [],
+  options: SpeechOptions = {}
+): Promise<AudioBuffer> => {
+  if (!text.trim()) {
+    throw new Error("Text cannot be empty");
+  }
+  return synthesize({ text: applyLexicon(text, lexicon, voiceName).text, voice: voiceName, style }, audioContext, engine, options);
+};
+
+// Like generateSpeech, but hands each piece of audio to onPiece as soon as the
+// provider delivers it. Resolves with the whole clip once the stream ends. Only a
+// stream that fails before its first piece is retried, since the rest has been heard.
+// A cache hit arrives as a single piece.
+export const streamSpeech = async (
+  text: string,
+  voiceName: VoiceName,
+  audioContext: AudioContext,
+  engine: TtsSelection,
+  style: DeliveryStyle | undefined,
+  onPiece: (buffer: AudioBuffer) => void,
+  lexicon: LexiconEntry[] = [],
+  options: SpeechOptions = {}
+): Promise<AudioBuffer> => {
+  if (!text.trim()) {
+    throw new Error("Text cannot be empty");
+  }
+
+  const { meter, signal } = options;
+  const provider = getProvider(engine.provider);
+  const request = { model: engine.model, text: applyLexicon(text, lexicon, voiceName).text, voice: voiceName, style };
+  const key = await cacheKeyFor(provider, request, options.cache);
+  const cached = await readCache(key, request, audioContext, options);
+  if (cached) {
+    onPiece(cached);
+    return cached;
+  }
+
+  const pieces: AudioBuffer[] = [];
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw cancelledError();
+    const started = performance.now();
+    let usage: TokenUsage | undefined;
+    try {
+      for await (const piece of provider.stream(request, audioContext, signal)) {
+        usage = piece.usage ?? usage;
+        pieces.push(piece.buffer);
+        onPiece(piece.buffer);
+      }
+      meter?.recordRequest(request, performance.now() - started, usage);
+      const buffer = concatAudioBuffers(pieces, audioContext);
+      writeCache(key, request, buffer);
+      return buffer;
+    } catch (error) {
+      if (pieces.length === 0) {
+        await handleFailure(error, attempt, provider, options);
+        continue;
+      }
+      // A stream that broke off part way was still paid for
+      meter?.recordRequest(request, performance.now() - started, usage);
+      if (signal?.aborted || isAbortError(error)) throw cancelledError();
+      console.error(`${provider.label} TTS Error:`, error);
+      throw classifyError(error);
+    }
+  }
+};
+
+// Generates a whole dialogue as one AudioBuffer. Scripts whose cast fits the
+// provider's multi-speaker limit go out as a single request; larger casts are
+// generated turn by turn and joined together.
+export const generateDialogue = async (
+  script: DialogueScript,
+  audioContext: AudioContext,
+  engine: TtsSelection,
+  style?: DeliveryStyle,
+  lexicon: LexiconEntry[] = [],
+  options: SpeechOptions = {}
+): Promise<AudioBuffer> => {
+  if (script.lines.length === 0) {
+    throw new Error("Script has no lines to speak");
+  }
+
+  const speakers = getSpeakers(script.lines);
+  const missing = speakers.find(speaker => !script.speakers[speaker]);
+  if (missing) {
+    throw new Error(`No voice assigned to speaker "${missing}"`);
+  }
+
+  // Each turn gets the replacements for its own speaker's voice; the lines are
+  // rewritten once here so nothing below applies the lexicon again
+  if (lexicon.length > 0) {
+    const lines = script.lines.map(line => ({ ...line, text: applyLexicon(line.text, lexicon, script.speakers[line.speaker]).text }));
+    return generateDialogue({ ...script, lines }, audioContext, engine, style, [], options);
+  }
+
+  if (speakers.length === 1) {
+    const text = script.lines.map(line => line.text).join(' ');
+    return generateSpeech(text, script.speakers[speakers[0]], audioContext, engine, style, [], options);
+  }
+
+  if (speakers.length <= getProvider(engine.provider).capabilities.maxSpeakers) {
+    const text = script.lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+    return synthesize({ text, voice: script.speakers[speakers[0]], style, script }, audioContext, engine, options);
+  }
+
+  const turns: AudioBuffer[] = [];
+  for (const line of script.lines) {
+    turns.push(await generateSpeech(line.text, script.speakers[line.speaker], audioContext, engine, style, [], options));
+  }
+  return concatAudioBuffers(turns, audioContext, TURN_GAP_SECONDS);
+};
+
+// Generates every chunk that has no buffer yet (or just the given indices), a few
+// at a time. A failing chunk is reported through onProgress and left as null so it
+// can be retried on its own without regenerating the chunks that already succeeded.
+// Aborting the signal stops starting new chunks and resolves with what finished.
+export const generateSpeechChunks = async (
+  chunks: TextChunk[],
+  voiceName: VoiceName,
+  audioContext: AudioContext,
+  engine: TtsSelection,
+  style: DeliveryStyle | undefined,
+  buffers: (AudioBuffer | null)[],
+  onProgress: (index: number, progress: ChunkProgress) => void,
+  indices?: number[],
+  lexicon: LexiconEntry[] = [],
+  options: SpeechOptions = {}
+): Promise<(AudioBuffer | null)[]> => {
+  const result = chunks.map((_, i) => buffers[i] ?? null);
+  const todo = (indices ?? chunks.map((_, i) => i)).filter(i => !result[i]);
+
+  await runWithConcurrency(todo, CHUNK_CONCURRENCY, async (index) => {
+    if (options.signal?.aborted) return;
+    onProgress(index, { status: 'generating' });
+    try {
+      const { text, direction } = chunks[index];
+      const chunkStyle = direction
+        ? { ...style, direction: [style?.direction, direction].filter(Boolean).join('. ') }
+        : style;
+      result[index] = await generateSpeech(text, voiceName, audioContext, engine, chunkStyle, lexicon, options);
+      onProgress(index, { status: 'done' });
+    } catch (error: any) {
+      // Cancelled chunks go back to pending so resuming picks them up
+      onProgress(index, isAbortError(error) ? { status: 'pending' } : { status: 'error', error: describeError(error) });
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,198 @@
+import { DeliveryStyle, DialogueScript } from "../types";
+import { decodeAudioData, encodePcm16 } from "../utils/audioUtils";
+import { normalizeStyle } from "../utils/deliveryPrompt";
+import { openDatabase, requestToPromise, SETTINGS_STORE, SYNTH_CACHE_ENTRIES_STORE, SYNTH_CACHE_STORE, withStore } from "./database";
+import { SynthesisRequest } from "./ttsProvider";
+
+// Identical requests (same provider, model, voice, style and text) get the same
+// audio back from the cache instead of a second paid API call. Audio is stored as
+// 16-bit PCM to keep entries small, so a hit plays back within 16-bit rounding of
+// the original; it's only exact for audio that arrived as 16-bit PCM and wasn't
+// resampled. The audio and its bookkeeping live in separate stores so eviction and
+// stats never have to load any audio.
+
+interface CachedAudio {
+  key: string;
+  pcm: ArrayBuffer;
+  sampleRate: number;
+  numChannels: number;
+}
+
+interface CacheEntry {
+  key: string;
+  bytes: number;
+  characters: number;
+  createdAt: number;
+  lastUsed: number;
+  hits: number;
+}
+
+export interface SynthCacheStats {
+  entries: number;
+  bytes: number;
+  limitBytes: number;
+  // Lookups since the counters were last reset
+  hits: number;
+  misses: number;
+  // Characters served from the cache instead of being sent again
+  savedCharacters: number;
+}
+
+interface StoredCounters {
+  hits: number;
+  misses: number;
+  savedCharacters: number;
+}
+
+// 'use' reads and fills the cache, 'refresh' skips the lookup but stores the new
+// audio (force regenerate), 'off' leaves the cache alone
+export type CacheMode = 'use' | 'refresh' | 'off';
+
+export const CACHE_LIMIT_OPTIONS_MB = [25, 50, 100, 250, 500, 1000];
+const DEFAULT_LIMIT_BYTES = 100 * 1024 * 1024;
+
+const LIMIT_KEY = 'synthCacheLimit';
+const COUNTERS_KEY = 'synthCacheCounters';
+
+let counters: Promise<StoredCounters> | null = null;
+
+const loadCounters = () => {
+  if (!counters) {
+    counters = withStore<StoredCounters | undefined>(SETTINGS_STORE, 'readonly', store => store.get(COUNTERS_KEY))
+      .then(stored => ({ hits: 0, misses: 0, savedCharacters: 0, ...stored }))
+      .catch(() => ({ hits: 0, misses: 0, savedCharacters: 0 }));
+  }
+  return counters;
+};
+
+const countLookup = async (hit: boolean, characters: number) => {
+  const current = await loadCounters();
+  if (hit) {
+    current.hits++;
+    current.savedCharacters += characters;
+  } else {
+    current.misses++;
+  }
+  await withStore(SETTINGS_STORE, 'readwrite', store => store.put({ ...current }, COUNTERS_KEY));
+};
+
+// Whitespace and Unicode form don't change what gets spoken, so they don't split the cache
+const normalizeText = (text: string) => text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+const sortedStyle = (style?: DeliveryStyle) => {
+  const normalized = style && normalizeStyle(style);
+  return normalized ? Object.fromEntries(Object.entries(normalized).sort(([a], [b]) => a.localeCompare(b))) : null;
+};
+
+const scriptKey = (script?: DialogueScript) => script
+  ? {
+    lines: script.lines.map(line => [line.speaker, normalizeText(line.text)]),
+    speakers: Object.entries(script.speakers).sort(([a], [b]) => a.localeCompare(b)),
+  }
+  : null;
+
+// SHA-256 over everything that affects the audio, as hex
+export const getCacheKey = async (provider: string, request: SynthesisRequest): Promise<string> => {
+  const material = JSON.stringify([
+    provider,
+    request.model,
+    request.voice,
+    normalizeText(request.text),
+    sortedStyle(request.style),
+    scriptKey(request.script),
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCacheLimit = async (): Promise<number> =>
+  (await withStore<number | undefined>(SETTINGS_STORE, 'readonly', store => store.get(LIMIT_KEY))) ?? DEFAULT_LIMIT_BYTES;
+
+export const setCacheLimit = async (bytes: number): Promise<void> => {
+  await withStore(SETTINGS_STORE, 'readwrite', store => store.put(bytes, LIMIT_KEY));
+  await evict(bytes);
+};
+
+// Returns the cached audio for a key and marks it as recently used, or null on a miss
+export const lookupCache = async (key: string, characters: number, audioContext: AudioContext): Promise<AudioBuffer | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SYNTH_CACHE_STORE, SYNTH_CACHE_ENTRIES_STORE], 'readwrite');
+  const entries = tx.objectStore(SYNTH_CACHE_ENTRIES_STORE);
+  const [cached, entry] = await Promise.all([
+    requestToPromise<CachedAudio | undefined>(tx.objectStore(SYNTH_CACHE_STORE).get(key)),
+    requestToPromise<CacheEntry | undefined>(entries.get(key)),
+  ]);
+
+  if (!cached || !entry) {
+    countLookup(false, characters).catch(err => console.error("Failed to update cache stats:", err));
+    return null;
+  }
+  entries.put({ ...entry, lastUsed: Date.now(), hits: entry.hits + 1 });
+  countLookup(true, characters).catch(err => console.error("Failed to update cache stats:", err));
+  return decodeAudioData(new Uint8Array(cached.pcm), audioContext, cached.sampleRate, cached.numChannels);
+};
+
+export const storeInCache = async (key: string, characters: number, buffer: AudioBuffer): Promise<void> => {
+  const pcm = encodePcm16(buffer);
+  const now = Date.now();
+  const db = await openDatabase();
+  const tx = db.transaction([SYNTH_CACHE_STORE, SYNTH_CACHE_ENTRIES_STORE], 'readwrite');
+  tx.objectStore(SYNTH_CACHE_STORE).put({
+    key,
+    pcm: pcm.buffer as ArrayBuffer,
+    sampleRate: buffer.sampleRate,
+    numChannels: buffer.numberOfChannels,
+  } satisfies CachedAudio);
+  await requestToPromise(tx.objectStore(SYNTH_CACHE_ENTRIES_STORE).put({
+    key, bytes: pcm.byteLength, characters, createdAt: now, lastUsed: now, hits: 0,
+  } satisfies CacheEntry));
+  await evict(await getCacheLimit());
+};
+
+// Drops least recently used entries until the cache fits in limitBytes
+const evict = async (limitBytes: number) => {
+  const entries = await withStore<CacheEntry[]>(SYNTH_CACHE_ENTRIES_STORE, 'readonly', store => store.index('lastUsed').getAll());
+  let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  const stale: string[] = [];
+  for (const entry of entries) {
+    if (total <= limitBytes) break;
+    stale.push(entry.key);
+    total -= entry.bytes;
+  }
+  if (stale.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction([SYNTH_CACHE_STORE, SYNTH_CACHE_ENTRIES_STORE], 'readwrite');
+  stale.forEach(key => {
+    tx.objectStore(SYNTH_CACHE_STORE).delete(key);
+    tx.objectStore(SYNTH_CACHE_ENTRIES_STORE).delete(key);
+  });
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getCacheStats = async (): Promise<SynthCacheStats> => {
+  const [entries, limitBytes, { hits, misses, savedCharacters }] = await Promise.all([
+    withStore<CacheEntry[]>(SYNTH_CACHE_ENTRIES_STORE, 'readonly', store => store.getAll()),
+    getCacheLimit(),
+    loadCounters(),
+  ]);
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+    limitBytes,
+    hits,
+    misses,
+    savedCharacters,
+  };
+};
+
+// Empties the cache and resets the hit/miss counters
+export const clearCache = async (): Promise<void> => {
+  await withStore(SYNTH_CACHE_STORE, 'readwrite', store => store.clear());
+  await withStore(SYNTH_CACHE_ENTRIES_STORE, 'readwrite', store => store.clear());
+  counters = Promise.resolve({ hits: 0, misses: 0, savedCharacters: 0 });
+  await withStore(SETTINGS_STORE, 'readwrite', store => store.delete(COUNTERS_KEY));
+};
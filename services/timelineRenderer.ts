@@ -0,0 +1,79 @@
+import { GeneratedAudio, TimelineClip, TimelineProject, VoiceName } from "../types";
+import { TimedSegment, getSpokenText } from "../utils/captionAligner";
+
+export interface RenderedTimeline {
+  buffer: AudioBuffer;
+  // Where each clip's text sits in the render, for caption alignment
+  segments: TimedSegment[];
+  // Voice of the earliest clip, used to label the render in history
+  voice: VoiceName;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Audible length of a clip after trimming
+export const getClipDuration = (clip: TimelineClip, source: AudioBuffer): number =>
+  Math.max(0, source.duration - clip.trimStart - clip.trimEnd);
+
+export const getTimelineDuration = (project: TimelineProject, sources: Map<string, GeneratedAudio>): number =>
+  project.clips.reduce((end, clip) => {
+    const buffer = sources.get(clip.sourceId)?.audioBuffer;
+    return buffer ? Math.max(end, clip.start + getClipDuration(clip, buffer)) : end;
+  }, 0);
+
+// Mixes every clip of the project into one buffer with an OfflineAudioContext.
+// Trims become start offsets/durations, gain and fades become gain automation.
+export const renderTimeline = async (
+  project: TimelineProject,
+  sources: Map<string, GeneratedAudio>
+): Promise<RenderedTimeline> => {
+  const placed = project.clips
+    .map(clip => ({ clip, item: sources.get(clip.sourceId) }))
+    .filter((entry): entry is { clip: TimelineClip; item: GeneratedAudio & { audioBuffer: AudioBuffer } } =>
+      !!entry.item?.audioBuffer && getClipDuration(entry.clip, entry.item.audioBuffer) > 0);
+
+  if (placed.length === 0) {
+    throw new Error("The timeline has no playable clips");
+  }
+
+  // Clips can differ in rate and channel count (e.g. mixed with a music bed); render at the highest
+  const sampleRate = Math.max(...placed.map(p => p.item.audioBuffer.sampleRate));
+  const numChannels = Math.max(...placed.map(p => p.item.audioBuffer.numberOfChannels));
+  const duration = getTimelineDuration(project, sources);
+  const ctx = new OfflineAudioContext(numChannels, Math.ceil(duration * sampleRate), sampleRate);
+
+  for (const { clip, item } of placed) {
+    const length = getClipDuration(clip, item.audioBuffer);
+    const end = clip.start + length;
+    const level = dbToGain(clip.gainDb);
+    const fadeIn = Math.min(clip.fadeIn, length / 2);
+    const fadeOut = Math.min(clip.fadeOut, length / 2);
+
+    const source = ctx.createBufferSource();
+    source.buffer = item.audioBuffer;
+    const gain = ctx.createGain();
+
+    gain.gain.setValueAtTime(fadeIn > 0 ? 0 : level, clip.start);
+    if (fadeIn > 0) gain.gain.linearRampToValueAtTime(level, clip.start + fadeIn);
+    if (fadeOut > 0) {
+      gain.gain.setValueAtTime(level, end - fadeOut);
+      gain.gain.linearRampToValueAtTime(0, end);
+    }
+
+    source.connect(gain);
+    gain.connect(ctx.destination);
+    source.start(clip.start, clip.trimStart, length);
+  }
+
+  const buffer = await ctx.startRendering();
+  const segments = placed
+    .map(({ clip, item }) => ({
+      text: getSpokenText(item),
+      start: clip.start,
+      end: clip.start + getClipDuration(clip, item.audioBuffer),
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  const first = placed.reduce((a, b) => b.clip.start < a.clip.start ? b : a);
+  return { buffer, segments, voice: first.item.voice };
+};
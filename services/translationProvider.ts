@@ -0,0 +1,44 @@
+import { TranslationSelection } from "../types";
+import { geminiTranslator } from "./geminiTranslator";
+import { mockTranslator } from "./mockTranslator";
+
+export interface TranslationModel {
+  id: string;
+  label: string;
+}
+
+export interface TranslationRequest {
+  model: string;
+  text: string;
+  // BCP 47 tags
+  sourceLocale: string;
+  targetLocale: string;
+}
+
+// A text model that translates script lines. Like TtsProvider, implementations
+// are swappable; the rest of the app only sees this interface.
+export interface TranslationProvider {
+  id: string;
+  label: string;
+  models: TranslationModel[];
+  // Whether the provider calls a remote API (and so needs a key and a connection)
+  remote: boolean;
+  // Resolves with the translated text only. Failures should be thrown as TtsError
+  // where the cause is known; an aborted signal stops the request with an AbortError.
+  translate: (request: TranslationRequest, signal?: AbortSignal) => Promise<string>;
+}
+
+export const TRANSLATION_PROVIDERS: TranslationProvider[] = [geminiTranslator, mockTranslator];
+
+export const DEFAULT_TRANSLATION_SELECTION: TranslationSelection = {
+  provider: geminiTranslator.id,
+  model: geminiTranslator.models[0].id,
+};
+
+export const getTranslationProvider = (id: string): TranslationProvider => {
+  const provider = TRANSLATION_PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown translation provider "${id}"`);
+  }
+  return provider;
+};
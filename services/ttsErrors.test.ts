@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError, describeError, isAbortError, TtsError } from './ttsErrors';
+
+describe('classifyError', () => {
+  it('sorts failures by status and message', () => {
+    expect(classifyError(Object.assign(new Error('Too many requests'), { status: 429 }))).toMatchObject({ kind: 'quota', status: 429 });
+    expect(classifyError(new Error('API key not valid'))).toMatchObject({ kind: 'auth', status: undefined });
+    expect(classifyError({ message: 'Service UNAVAILABLE', status: 503 })).toMatchObject({ kind: 'network', status: 503 });
+    expect(classifyError(new Error('Something odd'))).toMatchObject({ kind: 'unknown', message: 'Something odd' });
+  });
+
+  it('copes with thrown values that are not errors', () => {
+    expect(classifyError('RESOURCE_EXHAUSTED')).toMatchObject({ kind: 'quota', message: 'RESOURCE_EXHAUSTED' });
+    expect(classifyError(undefined)).toMatchObject({ kind: 'unknown', message: 'Generation failed' });
+    expect(classifyError(null).message).toBe('Generation failed');
+    expect(classifyError({ message: 42, status: '500' })).toMatchObject({ kind: 'unknown', status: undefined });
+  });
+
+  it('keeps a TtsError as it is', () => {
+    const error = new TtsError('safety', 'Blocked');
+    expect(classifyError(error)).toBe(error);
+  });
+});
+
+describe('isAbortError', () => {
+  it('recognises aborts and cancellations only', () => {
+    expect(isAbortError(new DOMException('Aborted', 'AbortError'))).toBe(true);
+    expect(isAbortError(new TtsError('cancelled', 'Generation cancelled'))).toBe(true);
+    expect(isAbortError(new Error('Aborted'))).toBe(false);
+    expect(isAbortError('AbortError')).toBe(false);
+    expect(isAbortError(null)).toBe(false);
+  });
+});
+
+describe('describeError', () => {
+  it('prefixes the kind of failure unless it is unknown', () => {
+    expect(describeError(new Error('quota exceeded'))).toBe('Rate limit or quota reached: quota exceeded');
+    expect(describeError(new Error('Something odd'))).toBe('Something odd');
+  });
+});
@@ -0,0 +1,95 @@
+// Failures from speech generation, sorted by what the user can do about them.
+// Providers throw TtsError where they know the cause (a blocked prompt, a response
+// without audio); everything else is classified from the status and message.
+
+export type TtsErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'empty' | 'decode' | 'cancelled' | 'unknown';
+
+export class TtsError extends Error {
+  constructor(
+    readonly kind: TtsErrorKind,
+    message: string,
+    // HTTP status of the failed request, when there was one
+    readonly status?: number,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'TtsError';
+  }
+
+  // Worth trying again as is; the others need a change first (or never succeed)
+  get retryable(): boolean {
+    return this.kind === 'quota' || this.kind === 'network' || this.kind === 'empty';
+  }
+}
+
+export const ERROR_GUIDANCE: Record<TtsErrorKind, { title: string; guidance: string }> = {
+  auth: {
+    title: 'API key rejected',
+    guidance: 'Check that API_KEY is set to a valid key with access to the TTS models, or switch to the local mock provider.',
+  },
+  quota: {
+    title: 'Rate limit or quota reached',
+    guidance: 'Wait a minute and try again, lower batch concurrency, or check your plan\'s daily limits.',
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    guidance: 'Reword the text or the delivery direction. Retrying the same prompt will be blocked again.',
+  },
+  network: {
+    title: 'Could not reach the service',
+    guidance: 'Check your connection and try again. If the service is overloaded, waiting a little usually helps.',
+  },
+  empty: {
+    title: 'No audio returned',
+    guidance: 'The model answered without audio. Try again, or shorten or simplify the text.',
+  },
+  decode: {
+    title: 'Audio could not be decoded',
+    guidance: 'The response was not in the expected audio format. Try again or pick another model.',
+  },
+  cancelled: {
+    title: 'Cancelled',
+    guidance: 'Generation was stopped before it finished.',
+  },
+  unknown: {
+    title: 'Generation failed',
+    guidance: 'Try again. If it keeps failing, check the browser console for details.',
+  },
+};
+
+const AUTH_PATTERN = /API[ _]?key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED|unauthori[sz]ed/i;
+const QUOTA_PATTERN = /\b429\b|RESOURCE_EXHAUSTED|rate limit|quota/i;
+const SAFETY_PATTERN = /\bsafety\b|blocked|PROHIBITED_CONTENT|BLOCKLIST|\bSPII\b/i;
+const NETWORK_PATTERN = /failed to fetch|network|ECONNRESET|ETIMEDOUT|timed? ?out|UNAVAILABLE|overloaded|\b50[0234]\b|INTERNAL/i;
+
+// A property of a thrown value, which may be anything at all
+const fieldOf = (error: unknown, key: string): unknown =>
+  error !== null && typeof error === 'object' ? (error as Record<string, unknown>)[key] : undefined;
+
+export const isAbortError = (error: unknown): boolean =>
+  fieldOf(error, 'name') === 'AbortError' || (error instanceof TtsError && error.kind === 'cancelled');
+
+// Wraps any thrown value in a TtsError, keeping the original as the cause
+export const classifyError = (error: unknown): TtsError => {
+  if (error instanceof TtsError) return error;
+
+  const rawMessage = fieldOf(error, 'message');
+  const rawStatus = fieldOf(error, 'status');
+  const message = (typeof rawMessage === 'string' && rawMessage) || String(error ?? 'Generation failed');
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+  const wrap = (kind: TtsErrorKind) => new TtsError(kind, message, status, { cause: error });
+
+  if (isAbortError(error)) return wrap('cancelled');
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) return wrap('auth');
+  if (status === 429 || QUOTA_PATTERN.test(message)) return wrap('quota');
+  if (SAFETY_PATTERN.test(message)) return wrap('safety');
+  if ((status !== undefined && status >= 500) || NETWORK_PATTERN.test(message)) return wrap('network');
+  if (error instanceof DOMException && error.name === 'EncodingError') return wrap('decode');
+  return wrap('unknown');
+};
+
+// The message prefixed with the kind of failure, for places that show a single line
+export const describeError = (error: unknown): string => {
+  const typed = classifyError(error);
+  return typed.kind === 'unknown' ? typed.message : `${ERROR_GUIDANCE[typed.kind].title}: ${typed.message}`;
+};
@@ -0,0 +1,69 @@
+import { DeliveryStyle, DialogueScript, TokenUsage, TtsSelection, VoiceName, VoiceOption } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+export interface TtsModel {
+  id: string;
+  label: string;
+}
+
+export interface TtsCapabilities {
+  // Most distinct speakers one request can voice; larger casts are generated turn by turn
+  maxSpeakers: number;
+  // Whether free-text delivery directions (tone, emotion, ...) are understood
+  styleInstructions: boolean;
+  // Whether stream() yields audio before the whole clip is synthesized
+  streaming: boolean;
+  // Whether the provider calls a remote API (and so needs a key and a connection)
+  remote: boolean;
+}
+
+export interface SynthesisRequest {
+  model: string;
+  text: string;
+  voice: VoiceName;
+  style?: DeliveryStyle;
+  // Set for multi-speaker requests; only sent when the cast fits maxSpeakers
+  script?: DialogueScript;
+}
+
+export interface SynthesisResult {
+  buffer: AudioBuffer;
+  // Absent when the provider doesn't report usage
+  usage?: TokenUsage;
+}
+
+export interface TtsProvider {
+  id: string;
+  label: string;
+  models: TtsModel[];
+  voices: VoiceOption[];
+  capabilities: TtsCapabilities;
+  // Failures should be thrown as TtsError where the cause is known; an aborted
+  // signal stops the request with an AbortError.
+  synthesize: (request: SynthesisRequest, audioContext: AudioContext, signal?: AbortSignal) => Promise<SynthesisResult>;
+  // Yields consecutive pieces of the clip as they become available. Usage, when
+  // reported, is cumulative: the last piece that carries it has the request's total.
+  stream: (request: SynthesisRequest, audioContext: AudioContext, signal?: AbortSignal) => AsyncGenerator<SynthesisResult>;
+}
+
+export const TTS_PROVIDERS: TtsProvider[] = [geminiProvider, mockProvider];
+
+export const DEFAULT_TTS_SELECTION: TtsSelection = {
+  provider: geminiProvider.id,
+  model: geminiProvider.models[0].id,
+};
+
+export const getProvider = (id: string): TtsProvider => {
+  const provider = TTS_PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown TTS provider "${id}"`);
+  }
+  return provider;
+};
+
+export const describeSelection = (selection: TtsSelection): string => {
+  const provider = TTS_PROVIDERS.find(p => p.id === selection.provider);
+  const model = provider?.models.find(m => m.id === selection.model);
+  return provider ? `${provider.label} · ${model?.label ?? selection.model}` : selection.model;
+};
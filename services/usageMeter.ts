@@ -0,0 +1,70 @@
+import { GenerationUsage, TokenUsage, TtsSelection, UsageRecord, UsageSource } from "../types";
+import { SynthesisRequest } from "./ttsProvider";
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+// Tallies what one generation spends across all of its provider requests. The speech
+// service reports each request (and each retry) here; callers turn the tally into a
+// GeneratedAudio.usage summary and a record for the usage log.
+export class UsageMeter {
+  private characters = 0;
+  private requests = 0;
+  private retries = 0;
+  private cacheHits = 0;
+  private latencyMs = 0;
+  private tokens: TokenUsage | null = null;
+  private voices: Record<string, number> = {};
+
+  constructor(private engine: TtsSelection) {}
+
+  get isEmpty(): boolean {
+    return this.requests === 0;
+  }
+
+  // Characters are counted per voice; a multi-speaker request splits its lines
+  // across the voices of their speakers
+  recordRequest(request: SynthesisRequest, latencyMs: number, tokens?: TokenUsage) {
+    const parts = request.script
+      ? request.script.lines.map(line => ({ voice: request.script!.speakers[line.speaker] ?? request.voice, text: line.text }))
+      : [{ voice: request.voice, text: request.text }];
+    for (const { voice, text } of parts) {
+      this.voices[voice] = (this.voices[voice] ?? 0) + text.length;
+      this.characters += text.length;
+    }
+    this.requests++;
+    this.latencyMs += latencyMs;
+    if (tokens) {
+      this.tokens = {
+        promptTokens: (this.tokens?.promptTokens ?? 0) + tokens.promptTokens,
+        outputTokens: (this.tokens?.outputTokens ?? 0) + tokens.outputTokens,
+        totalTokens: (this.tokens?.totalTokens ?? 0) + tokens.totalTokens,
+      };
+    }
+  }
+
+  recordRetry() {
+    this.retries++;
+  }
+
+  // A request answered from the synthesis cache; it costs nothing, so only the hit is counted
+  recordCacheHit() {
+    this.cacheHits++;
+  }
+
+  get summary(): GenerationUsage {
+    return {
+      provider: this.engine.provider,
+      model: this.engine.model,
+      characters: this.characters,
+      requests: this.requests,
+      ...(this.tokens ? { tokens: { ...this.tokens } } : {}),
+      latencyMs: Math.round(this.latencyMs),
+      retries: this.retries,
+      ...(this.cacheHits ? { cacheHits: this.cacheHits } : {}),
+    };
+  }
+
+  toRecord(source: UsageSource): UsageRecord {
+    return { ...this.summary, id: generateId(), timestamp: Date.now(), source, voices: { ...this.voices } };
+  }
+}
@@ -0,0 +1,32 @@
+import { UsageBudgets, UsageRecord } from "../types";
+import { SETTINGS_STORE, USAGE_STORE, withStore } from "./database";
+
+const BUDGETS_KEY = 'usageBudgets';
+
+export const DEFAULT_BUDGETS: UsageBudgets = {
+  dailyCharacters: null,
+  monthlyCharacters: null,
+  dailyRequests: null,
+  voiceDailyCharacters: null,
+};
+
+export const saveUsageRecord = async (record: UsageRecord): Promise<void> => {
+  await withStore(USAGE_STORE, 'readwrite', store => store.put(record));
+};
+
+// Oldest first
+export const loadUsageRecords = async (): Promise<UsageRecord[]> =>
+  withStore<UsageRecord[]>(USAGE_STORE, 'readonly', store => store.index('timestamp').getAll());
+
+export const clearUsageRecords = async (): Promise<void> => {
+  await withStore(USAGE_STORE, 'readwrite', store => store.clear());
+};
+
+export const saveBudgets = async (budgets: UsageBudgets): Promise<void> => {
+  await withStore(SETTINGS_STORE, 'readwrite', store => store.put(budgets, BUDGETS_KEY));
+};
+
+export const loadBudgets = async (): Promise<UsageBudgets> => {
+  const budgets = await withStore<UsageBudgets | undefined>(SETTINGS_STORE, 'readonly', store => store.get(BUDGETS_KEY));
+  return { ...DEFAULT_BUDGETS, ...budgets };
+};
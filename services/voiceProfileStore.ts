@@ -0,0 +1,15 @@
+import { VoiceProfile } from "../types";
+import { VOICE_PROFILES_STORE, withStore } from "./database";
+
+export const saveVoiceProfile = async (profile: VoiceProfile): Promise<void> => {
+  await withStore(VOICE_PROFILES_STORE, 'readwrite', store => store.put(profile));
+};
+
+export const loadVoiceProfiles = async (): Promise<VoiceProfile[]> => {
+  const profiles = await withStore<VoiceProfile[]>(VOICE_PROFILES_STORE, 'readonly', store => store.getAll());
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const deleteVoiceProfile = async (id: string): Promise<void> => {
+  await withStore(VOICE_PROFILES_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,31 @@
+// Just enough of AudioBuffer and BaseAudioContext for the audio utils, which only
+// create buffers and read or write their channel data. Node has no Web Audio.
+
+class FakeAudioBuffer {
+  readonly length: number;
+  readonly duration: number;
+  private readonly channels: Float32Array[];
+
+  constructor(readonly numberOfChannels: number, length: number, readonly sampleRate: number) {
+    this.length = length;
+    this.duration = length / sampleRate;
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  getChannelData(channel: number): Float32Array {
+    return this.channels[channel];
+  }
+}
+
+export const createFakeAudioContext = (): BaseAudioContext => ({
+  createBuffer: (numberOfChannels: number, length: number, sampleRate: number) =>
+    new FakeAudioBuffer(numberOfChannels, length, sampleRate),
+  decodeAudioData: () => Promise.reject(new Error("Containers can't be decoded in tests")),
+}) as unknown as BaseAudioContext;
+
+// A buffer filled from per-channel sample arrays
+export const bufferFrom = (ctx: BaseAudioContext, sampleRate: number, ...channels: number[][]): AudioBuffer => {
+  const buffer = ctx.createBuffer(channels.length, channels[0].length, sampleRate);
+  channels.forEach((samples, channel) => buffer.getChannelData(channel).set(samples));
+  return buffer;
+};
@@ -0,0 +1,93 @@
+// Audio payloads for the decoder tests, built byte by byte so each one's layout is
+// visible here. Sample values are chosen to be exact in every bit depth used.
+
+const bytesOf = (length: number, write: (view: DataView) => void): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  write(new DataView(bytes.buffer));
+  return bytes;
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+export const pcm16 = (samples: number[], littleEndian = true) =>
+  bytesOf(samples.length * 2, view => samples.forEach((s, i) => view.setInt16(i * 2, s, littleEndian)));
+
+export const pcm24 = (samples: number[], littleEndian = true) =>
+  bytesOf(samples.length * 3, view => samples.forEach((s, i) => {
+    const bytes = [s & 0xff, (s >> 8) & 0xff, (s >> 16) & 0xff];
+    (littleEndian ? bytes : bytes.reverse()).forEach((b, j) => view.setUint8(i * 3 + j, b));
+  }));
+
+export const float32 = (samples: number[], littleEndian = true) =>
+  bytesOf(samples.length * 4, view => samples.forEach((s, i) => view.setFloat32(i * 4, s, littleEndian)));
+
+// A RIFF chunk with its size and the pad byte odd sizes get
+export const chunk = (id: string, body: Uint8Array, size = body.byteLength) =>
+  concat(ascii(id), bytesOf(4, view => view.setUint32(0, size, true)), body, new Uint8Array(body.byteLength % 2));
+
+export const riffWave = (...chunks: Uint8Array[]) => {
+  const body = concat(ascii('WAVE'), ...chunks);
+  return concat(ascii('RIFF'), bytesOf(4, view => view.setUint32(0, body.byteLength, true)), body);
+};
+
+interface FmtOptions {
+  formatTag: number;
+  numChannels: number;
+  sampleRate: number;
+  bitDepth: number;
+  // Written as WAVE_FORMAT_EXTENSIBLE with formatTag as the sub-format
+  extensible?: boolean;
+}
+
+export const fmtChunk = ({ formatTag, numChannels, sampleRate, bitDepth, extensible }: FmtOptions) => {
+  const blockAlign = numChannels * bitDepth / 8;
+  return chunk('fmt ', bytesOf(extensible ? 40 : 16, view => {
+    view.setUint16(0, extensible ? 0xfffe : formatTag, true);
+    view.setUint16(2, numChannels, true);
+    view.setUint32(4, sampleRate, true);
+    view.setUint32(8, sampleRate * blockAlign, true);
+    view.setUint16(12, blockAlign, true);
+    view.setUint16(14, bitDepth, true);
+    if (extensible) {
+      view.setUint16(16, 22, true); // Extension size
+      view.setUint16(18, bitDepth, true); // Valid bits
+      view.setUint32(20, numChannels === 2 ? 0x3 : 0x4, true); // Channel mask
+      // Sub-format GUID: the format tag, then the fixed KSDATAFORMAT suffix
+      view.setUint16(24, formatTag, true);
+      [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71]
+        .forEach((b, i) => view.setUint8(26 + i, b));
+    }
+  }));
+};
+
+// 16-bit mono at 22.05 kHz between a LIST chunk of odd size (so it's padded) and a fact chunk
+export const WAV_WITH_EXTRA_CHUNKS = riffWave(
+  chunk('LIST', concat(ascii('INFO'), ascii('a'))),
+  fmtChunk({ formatTag: 1, numChannels: 1, sampleRate: 22050, bitDepth: 16 }),
+  chunk('fact', bytesOf(4, view => view.setUint32(0, 3, true))),
+  chunk('data', pcm16([0, 16384, -16384])),
+);
+
+// 32-bit float stereo at 48 kHz behind a WAVE_FORMAT_EXTENSIBLE header
+export const WAV_EXTENSIBLE_FLOAT = riffWave(
+  fmtChunk({ formatTag: 3, numChannels: 2, sampleRate: 48000, bitDepth: 32, extensible: true }),
+  chunk('data', float32([0.5, -0.5, 0.25, -0.25])),
+);
+
+// As written by a streaming encoder that never went back to fill in the data size
+export const WAV_ZERO_DATA_SIZE = riffWave(
+  fmtChunk({ formatTag: 1, numChannels: 1, sampleRate: 24000, bitDepth: 16 }),
+  chunk('data', pcm16([8192, -8192, 32767, -32768]), 0),
+);
+
+export const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
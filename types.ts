@@ -1,9 +1,35 @@
+// Gemini's prebuilt voices
 export enum VoiceName {
   Puck = 'Puck',
   Charon = 'Charon',
   Kore = 'Kore',
   Fenrir = 'Fenrir',
   Zephyr = 'Zephyr',
+  Leda = 'Leda',
+  Orus = 'Orus',
+  Aoede = 'Aoede',
+  Callirrhoe = 'Callirrhoe',
+  Autonoe = 'Autonoe',
+  Enceladus = 'Enceladus',
+  Iapetus = 'Iapetus',
+  Umbriel = 'Umbriel',
+  Algieba = 'Algieba',
+  Despina = 'Despina',
+  Erinome = 'Erinome',
+  Algenib = 'Algenib',
+  Rasalgethi = 'Rasalgethi',
+  Laomedeia = 'Laomedeia',
+  Achernar = 'Achernar',
+  Alnilam = 'Alnilam',
+  Schedar = 'Schedar',
+  Gacrux = 'Gacrux',
+  Pulcherrima = 'Pulcherrima',
+  Achird = 'Achird',
+  Zubenelgenubi = 'Zubenelgenubi',
+  Vindemiatrix = 'Vindemiatrix',
+  Sadachbia = 'Sadachbia',
+  Sadaltager = 'Sadaltager',
+  Sulafat = 'Sulafat',
 }
 
 export interface VoiceOption {
@@ -11,6 +37,81 @@ export interface VoiceOption {
   name: string;
   description: string;
   gender: 'Male' | 'Female';
+  tags?: string[];
+}
+
+export interface ScriptLine {
+  speaker: string;
+  text: string;
+}
+
+export interface DialogueScript {
+  lines: ScriptLine[];
+  speakers: Record<string, VoiceName>;
+}
+
+export interface TextChunk {
+  text: string;
+  // Which kind of boundary follows this chunk; decides the pause inserted when joining
+  pauseAfter: 'sentence' | 'paragraph';
+  // Explicit silence after this chunk in seconds (from markup), overriding pauseAfter
+  breakAfter?: number;
+  // Extra delivery instruction for just this chunk
+  direction?: string;
+}
+
+export type ChunkStatus = 'pending' | 'generating' | 'done' | 'error';
+
+export interface ChunkProgress {
+  status: ChunkStatus;
+  error?: string;
+}
+
+export interface JoinSettings {
+  sentencePauseMs: number;
+  paragraphPauseMs: number;
+  crossfadeMs: number;
+}
+
+// Natural-language delivery direction sent along with the text
+export interface DeliveryStyle {
+  tone?: string;
+  pace?: string;
+  emotion?: string;
+  accent?: string;
+  direction?: string;
+}
+
+export type ExportFormat = 'wav' | 'flac' | 'mp3' | 'opus';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // WAV: 16/24-bit PCM or 32-bit float. FLAC: 16 or 24-bit (float exports as 24)
+  bitDepth: 16 | 24 | 32;
+  // Lossy formats only, in kbit/s
+  bitrate: number;
+  // null keeps the clip's own rate
+  sampleRate: number | null;
+}
+
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// One caption cue (roughly a sentence); times are seconds from the start of the clip
+export interface CaptionCue {
+  text: string;
+  start: number;
+  end: number;
+  words?: WordTiming[];
+}
+
+// Which TTS provider and model produced (or should produce) a clip
+export interface TtsSelection {
+  provider: string;
+  model: string;
 }
 
 export interface GeneratedAudio {
@@ -20,4 +121,237 @@ export interface GeneratedAudio {
   timestamp: number;
   audioBuffer: AudioBuffer | null;
   duration: number;
+  // Present when the item was generated from a multi-speaker dialogue script
+  script?: DialogueScript;
+  style?: DeliveryStyle;
+  captions?: CaptionCue[];
+  // Missing on items saved before providers were selectable (all Gemini)
+  engine?: TtsSelection;
+  // Name of the processing preset baked into the audio at generation
+  processing?: string;
+  // Name of the voice profile the clip was generated with
+  profile?: string;
+  // Missing on items saved before usage was tracked
+  usage?: GenerationUsage;
+  // Present when the clip is one language of a localized source line
+  localization?: LocalizationInfo;
+  // Regenerations of the same text share a take group (the first take's id) and
+  // are numbered from 1. Missing on a first take: it is its own group, take 1.
+  takeGroup?: string;
+  take?: number;
+  // The take shown for its group; without one, the newest take is
+  best?: boolean;
+  favorite?: boolean;
+  tags?: string[];
+  notes?: string;
+}
+
+// A history clip placed on the timeline. Times are in seconds.
+export interface TimelineClip {
+  id: string;
+  // id of the GeneratedAudio this clip plays
+  sourceId: string;
+  track: number;
+  start: number;
+  trimStart: number;
+  trimEnd: number;
+  gainDb: number;
+  fadeIn: number;
+  fadeOut: number;
+}
+
+export interface TimelineProject {
+  id: string;
+  name: string;
+  trackCount: number;
+  clips: TimelineClip[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One prompt of a batch import
+export interface BatchRow {
+  id: string;
+  text: string;
+  voice: VoiceName;
+  style?: DeliveryStyle;
+}
+
+// 'waiting' means the row was rate limited and is backing off before a retry
+export type BatchRowStatus = 'queued' | 'generating' | 'waiting' | 'done' | 'error';
+
+export interface BatchRowState {
+  status: BatchRowStatus;
+  attempts: number;
+  error?: string;
+}
+
+export interface EqBand {
+  type: 'peaking' | 'lowshelf' | 'highshelf';
+  frequency: number;
+  gainDb: number;
+  q: number;
+}
+
+// Offline cleanup applied to a clip, in the order the fields are listed
+export interface ProcessingChain {
+  trim: { enabled: boolean; thresholdDb: number; paddingMs: number };
+  highPass: { enabled: boolean; frequency: number };
+  eq: { enabled: boolean; bands: EqBand[] };
+  compressor: { enabled: boolean; thresholdDb: number; ratio: number; kneeDb: number; attackMs: number; releaseMs: number; makeupDb: number };
+  reverb: { enabled: boolean; decaySeconds: number; mix: number };
+  normalize: { enabled: boolean; targetLufs: number };
+  limiter: { enabled: boolean; ceilingDb: number };
+}
+
+export interface ProcessingPreset {
+  id: string;
+  name: string;
+  chain: ProcessingChain;
+  // Built-in presets can't be edited or deleted, only copied
+  builtIn?: boolean;
+}
+
+// When the selected preset is applied: baked into new generations, or only to exported files
+export type ProcessingMode = 'off' | 'generation' | 'export';
+
+// Background music laid under the voice on export. Times are in seconds.
+export interface MusicBedSettings {
+  gainDb: number;
+  fadeIn: number;
+  fadeOut: number;
+  // Music heard on its own before the voice starts and after it ends
+  intro: number;
+  outro: number;
+  loop: boolean;
+  // The bed is pulled down by amountDb wherever the voice envelope is above thresholdDb
+  ducking: { enabled: boolean; amountDb: number; thresholdDb: number; attackMs: number; releaseMs: number };
+}
+
+// A pronunciation fix: every match of `term` is sent to the TTS model as `replacement`
+export interface LexiconEntry {
+  id: string;
+  term: string;
+  replacement: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  // Replacement to use instead for particular voices, keyed by voice name
+  voiceOverrides?: Record<string, string>;
+}
+
+export interface Lexicon {
+  id: string;
+  name: string;
+  entries: LexiconEntry[];
+  updatedAt: number;
+}
+
+// A user-defined voice layered on a prebuilt one, e.g. "Calm Narrator"
+export interface VoiceProfile {
+  id: string;
+  name: string;
+  baseVoice: VoiceName;
+  description: string;
+  tags: string[];
+  // Defaults for the delivery settings; anything set in the Delivery panel wins
+  style?: DeliveryStyle;
+  // Processing preset selected along with the profile
+  presetId?: string;
+  // Used ahead of the active lexicon when generating with this profile
+  lexicon: LexiconEntry[];
+  updatedAt: number;
+}
+
+// One contender in a side-by-side comparison: a voice, optionally with its own delivery
+export interface CompareVariant {
+  id: string;
+  voice: VoiceName;
+  style?: DeliveryStyle;
+}
+
+export interface CompareTake {
+  status: 'pending' | 'generating' | 'done' | 'error';
+  buffer?: AudioBuffer;
+  error?: string;
+  usage?: GenerationUsage;
+  // 0 means not rated yet
+  rating: number;
+  notes: string;
+}
+
+// A chapter pulled out of an imported document; each is narrated as its own item
+export interface DocumentChapter {
+  title: string;
+  text: string;
+}
+
+export interface ImportedDocument {
+  title: string;
+  author?: string;
+  chapters: DocumentChapter[];
+}
+
+// Which translation provider and text model localizes the script
+export interface TranslationSelection {
+  provider: string;
+  model: string;
+}
+
+// A language the script is localized into, and the voice that speaks it
+export interface LocaleTarget {
+  // BCP 47 tag, e.g. 'de' or 'pt-BR'
+  locale: string;
+  voice: VoiceName;
+}
+
+// Ties a clip to the source line it was translated from. Every language of a
+// line shares the line's groupId.
+export interface LocalizationInfo {
+  groupId: string;
+  locale: string;
+  sourceText: string;
+  // Position of the line in the source script, for ordering exports
+  line: number;
+}
+
+// Token counts a provider reports for one request
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// What one generation spent, summed over every request it made
+export interface GenerationUsage {
+  provider: string;
+  model: string;
+  // Characters sent for synthesis, after lexicon substitution
+  characters: number;
+  requests: number;
+  // Absent when the provider reports no token counts
+  tokens?: TokenUsage;
+  latencyMs: number;
+  retries: number;
+  // Requests answered from the synthesis cache instead of the provider
+  cacheHits?: number;
+}
+
+export type UsageSource = 'editor' | 'batch' | 'compare' | 'audiobook' | 'localization';
+
+// One entry of the usage log. The log is kept apart from history so that
+// deleting clips (or never keeping them) doesn't hide what was spent.
+export interface UsageRecord extends GenerationUsage {
+  id: string;
+  timestamp: number;
+  source: UsageSource;
+  // Characters per voice; dialogues split across their speakers' voices
+  voices: Record<string, number>;
+}
+
+// Limits the dashboard measures against; null means no limit
+export interface UsageBudgets {
+  dailyCharacters: number | null;
+  monthlyCharacters: number | null;
+  dailyRequests: number | null;
+  voiceDailyCharacters: number | null;
 }
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { decodeAudioPayload, parseAudioMimeType, parseWav } from './audioFormat';
+import { createFakeAudioContext } from '../test/fakeAudioContext';
+import { pcm16, WAV_EXTENSIBLE_FLOAT, WAV_WITH_EXTRA_CHUNKS, WAV_ZERO_DATA_SIZE } from '../test/fixtures/audio';
+
+describe('parseAudioMimeType', () => {
+  it('reads rate, channels and endianness from L16 parameters', () => {
+    expect(parseAudioMimeType('audio/L16;rate=44100;channels=2;endianness=big-endian')).toEqual({
+      kind: 'pcm',
+      format: { sampleRate: 44100, numChannels: 2, bitDepth: 16, bigEndian: true },
+    });
+    expect(parseAudioMimeType('audio/L16; rate="16000"; endianness=little-endian', { bigEndian: true })).toEqual({
+      kind: 'pcm',
+      format: { sampleRate: 16000, numChannels: 1, bitDepth: 16, bigEndian: false },
+    });
+  });
+
+  it('falls back to the defaults when parameters are missing or invalid', () => {
+    expect(parseAudioMimeType('audio/L16')).toEqual({
+      kind: 'pcm',
+      format: { sampleRate: 24000, numChannels: 1, bitDepth: 16, bigEndian: false },
+    });
+    expect(parseAudioMimeType('AUDIO/L24;rate=0;channels=x', { sampleRate: 48000, bigEndian: true })).toEqual({
+      kind: 'pcm',
+      format: { sampleRate: 48000, numChannels: 1, bitDepth: 24, bigEndian: true },
+    });
+    expect(parseAudioMimeType('audio/L8;rate=8000').kind).toBe('pcm');
+  });
+
+  it('tells WAV apart from containers the browser decodes', () => {
+    expect(parseAudioMimeType('audio/wav')).toEqual({ kind: 'wav' });
+    expect(parseAudioMimeType('audio/x-wav')).toEqual({ kind: 'wav' });
+    expect(parseAudioMimeType('audio/mpeg; codecs=mp3')).toEqual({ kind: 'container', mimeType: 'audio/mpeg' });
+  });
+});
+
+describe('parseWav', () => {
+  it('walks past LIST and fact chunks to fmt and data', () => {
+    const { format, data } = parseWav(WAV_WITH_EXTRA_CHUNKS);
+    expect(format).toEqual({ sampleRate: 22050, numChannels: 1, bitDepth: 16, float: false });
+    expect(data).toEqual(pcm16([0, 16384, -16384]));
+  });
+
+  it('takes the sub-format from a WAVE_FORMAT_EXTENSIBLE header', () => {
+    const { format, data } = parseWav(WAV_EXTENSIBLE_FLOAT);
+    expect(format).toEqual({ sampleRate: 48000, numChannels: 2, bitDepth: 32, float: true });
+    expect(data.byteLength).toBe(16);
+  });
+
+  it('reads to the end of the file when the data size is zero', () => {
+    const { data } = parseWav(WAV_ZERO_DATA_SIZE);
+    expect(data).toEqual(pcm16([8192, -8192, 32767, -32768]));
+  });
+
+  it('rejects files that are not RIFF/WAVE', () => {
+    expect(() => parseWav(pcm16([1, 2, 3, 4, 5, 6]))).toThrow('Not a RIFF/WAVE file');
+  });
+});
+
+describe('decodeAudioPayload', () => {
+  const ctx = createFakeAudioContext();
+
+  it('decodes WAV payloads with the format in their header', async () => {
+    const buffer = await decodeAudioPayload(WAV_EXTENSIBLE_FLOAT, 'audio/wav', ctx);
+    expect(buffer.sampleRate).toBe(48000);
+    expect(buffer.numberOfChannels).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0.25]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, -0.25]);
+  });
+
+  it('decodes raw PCM with the layout in its MIME type', async () => {
+    const buffer = await decodeAudioPayload(pcm16([16384, -16384], false), 'audio/L16;rate=16000;endianness=big-endian', ctx);
+    expect(buffer.sampleRate).toBe(16000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, -0.5]);
+  });
+});
@@ -0,0 +1,125 @@
+import { decodePcm, PcmFormat } from "./audioUtils";
+
+// Works out how to decode an audio payload from its MIME type: raw PCM
+// (audio/L16;rate=24000, audio/pcm), RIFF/WAVE, or any container the browser
+// can decode itself (MP3, Ogg, ...).
+
+export type AudioPayloadFormat =
+  | { kind: 'pcm'; format: PcmFormat }
+  | { kind: 'wav' }
+  | { kind: 'container'; mimeType: string };
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const PCM_BIT_DEPTHS: Record<string, PcmFormat['bitDepth']> = { l8: 8, l16: 16, l24: 24 };
+
+const parseParams = (params: string[]): Record<string, string> =>
+  Object.fromEntries(params
+    .map(param => param.split('=').map(part => part.trim().replace(/^"|"$/g, '')))
+    .filter(([name, value]) => name && value !== undefined)
+    .map(([name, value]) => [name.toLowerCase(), value.toLowerCase()]));
+
+const positiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return parsed > 0 ? parsed : fallback;
+};
+
+// Raw PCM types carry their layout in parameters. RFC 2586 makes audio/L16
+// big-endian, but some services (Gemini among them) send little-endian samples
+// under that label, so callers pick the byte order used when none is given.
+export function parseAudioMimeType(
+  mimeType: string,
+  defaults: { sampleRate?: number; bigEndian?: boolean } = {},
+): AudioPayloadFormat {
+  const [type, ...rest] = mimeType.split(';');
+  const subtype = type.trim().toLowerCase().replace(/^audio\//, '');
+  const params = parseParams(rest);
+
+  if (subtype === 'wav' || subtype === 'wave' || subtype === 'x-wav' || subtype === 'vnd.wave') {
+    return { kind: 'wav' };
+  }
+
+  const bitDepth = PCM_BIT_DEPTHS[subtype] ?? (subtype === 'pcm' ? 16 : undefined);
+  if (!bitDepth) {
+    return { kind: 'container', mimeType: type.trim() };
+  }
+
+  const endianness = params.endianness ?? params.endian;
+  return {
+    kind: 'pcm',
+    format: {
+      sampleRate: positiveInt(params.rate, defaults.sampleRate ?? 24000),
+      numChannels: positiveInt(params.channels, 1),
+      bitDepth,
+      bigEndian: endianness ? endianness.startsWith('big') : defaults.bigEndian ?? false,
+    },
+  };
+}
+
+// Finds the fmt and data chunks of a RIFF/WAVE file. Chunks are walked rather than
+// assumed at fixed offsets, since writers add LIST, fact and other chunks freely.
+export function parseWav(bytes: Uint8Array): { format: PcmFormat; data: Uint8Array } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (pos: number) => String.fromCharCode(...bytes.subarray(pos, pos + 4));
+  if (bytes.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error("Not a RIFF/WAVE file");
+  }
+
+  let format: PcmFormat | null = null;
+  let pos = 12;
+  while (pos + 8 <= bytes.byteLength) {
+    const id = tag(pos);
+    const size = view.getUint32(pos + 4, true);
+    const body = pos + 8;
+
+    if (id === 'fmt ') {
+      let formatTag = view.getUint16(body, true);
+      // The extensible header keeps the real format in the first two bytes of its GUID
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+        formatTag = view.getUint16(body + 24, true);
+      }
+      const bitDepth = view.getUint16(body + 14, true);
+      const float = formatTag === WAVE_FORMAT_IEEE_FLOAT;
+      if ((formatTag !== WAVE_FORMAT_PCM && !float) || ![8, 16, 24, 32].includes(bitDepth) || (float && bitDepth !== 32)) {
+        throw new Error(`Unsupported WAV encoding (format ${formatTag}, ${bitDepth}-bit)`);
+      }
+      format = {
+        sampleRate: view.getUint32(body + 4, true),
+        numChannels: view.getUint16(body + 2, true),
+        bitDepth: bitDepth as PcmFormat['bitDepth'],
+        float,
+      };
+    } else if (id === 'data') {
+      if (!format) throw new Error("WAV data chunk before its fmt chunk");
+      // Streamed WAVs may leave the size at 0 or too large; take what is there
+      const end = size === 0 ? bytes.byteLength : Math.min(bytes.byteLength, body + size);
+      return { format, data: bytes.subarray(body, end) };
+    }
+    // Chunks are padded to an even length
+    pos = body + size + (size % 2);
+  }
+  throw new Error("WAV file has no audio data");
+}
+
+// Decodes an audio payload according to its MIME type
+export async function decodeAudioPayload(
+  bytes: Uint8Array,
+  mimeType: string,
+  ctx: BaseAudioContext,
+  defaults?: { sampleRate?: number; bigEndian?: boolean },
+): Promise<AudioBuffer> {
+  const payload = parseAudioMimeType(mimeType, defaults);
+  switch (payload.kind) {
+    case 'pcm':
+      return decodePcm(bytes, ctx, payload.format);
+    case 'wav': {
+      const { format, data } = parseWav(bytes);
+      return decodePcm(data, ctx, format);
+    }
+    case 'container':
+      // decodeAudioData detaches its input, so it gets a copy
+      return ctx.decodeAudioData(bytes.slice().buffer);
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { concatAudioBuffers, decodePcm, resampleChannel } from './audioUtils';
+import { bufferFrom, createFakeAudioContext } from '../test/fakeAudioContext';
+import { float32, pcm16, pcm24 } from '../test/fixtures/audio';
+
+const ctx = createFakeAudioContext();
+
+// The payload placed at an odd offset of a larger buffer, as a subarray view
+const atOffset = (payload: Uint8Array, offset = 3) => {
+  const backing = new Uint8Array(offset + payload.byteLength + 5).fill(0xee);
+  backing.set(payload, offset);
+  return backing.subarray(offset, offset + payload.byteLength);
+};
+
+const samples = (buffer: AudioBuffer, channel = 0) => Array.from(buffer.getChannelData(channel));
+
+describe('decodePcm', () => {
+  it('reads unsigned 8-bit samples', () => {
+    const buffer = decodePcm(atOffset(Uint8Array.of(128, 192, 64, 0)), ctx, { sampleRate: 8000, numChannels: 1, bitDepth: 8 });
+    expect(samples(buffer)).toEqual([0, 0.5, -0.5, -1]);
+  });
+
+  it('reads 16-bit samples from an odd-length view, dropping the partial frame', () => {
+    const data = atOffset(Uint8Array.of(...pcm16([16384, -16384]), 0x7f));
+    const buffer = decodePcm(data, ctx, { sampleRate: 24000, numChannels: 1, bitDepth: 16 });
+    expect(samples(buffer)).toEqual([0.5, -0.5]);
+  });
+
+  it('reads 24-bit samples in either byte order', () => {
+    const values = [0x400000, -0x400000, -1];
+    const expected = [0.5, -0.5, -1 / 8388608];
+    const format = { sampleRate: 48000, numChannels: 1, bitDepth: 24 as const };
+    expect(samples(decodePcm(atOffset(pcm24(values)), ctx, format))).toEqual(expected);
+    expect(samples(decodePcm(atOffset(pcm24(values, false)), ctx, { ...format, bigEndian: true }))).toEqual(expected);
+  });
+
+  it('reads big-endian 16-bit samples', () => {
+    const buffer = decodePcm(atOffset(pcm16([8192, -32768], false)), ctx, { sampleRate: 24000, numChannels: 1, bitDepth: 16, bigEndian: true });
+    expect(samples(buffer)).toEqual([0.25, -1]);
+  });
+
+  it('de-interleaves 32-bit float channels', () => {
+    const data = atOffset(float32([0.5, -0.25, 0.125, 1], false), 1);
+    const buffer = decodePcm(data, ctx, { sampleRate: 44100, numChannels: 2, bitDepth: 32, float: true, bigEndian: true });
+    expect(buffer.length).toBe(2);
+    expect(samples(buffer, 0)).toEqual([0.5, 0.125]);
+    expect(samples(buffer, 1)).toEqual([-0.25, 1]);
+  });
+
+  it('throws when there is not a single complete frame', () => {
+    expect(() => decodePcm(Uint8Array.of(1, 2, 3), ctx, { sampleRate: 24000, numChannels: 2, bitDepth: 16 }))
+      .toThrow('No complete audio frames');
+  });
+});
+
+describe('resampleChannel', () => {
+  const sine = (length: number, frequency: number, sampleRate: number) =>
+    Float32Array.from({ length }, (_, i) => Math.sin(2 * Math.PI * frequency * i / sampleRate));
+  const peak = (data: Float32Array, from: number, to: number) =>
+    Math.max(...Array.from(data.subarray(from, to), Math.abs));
+
+  it('scales the length by the rate ratio', () => {
+    expect(resampleChannel(new Float32Array(2400), 24000, 48000).length).toBe(4800);
+    expect(resampleChannel(new Float32Array(4410), 44100, 24000).length).toBe(2400);
+    expect(resampleChannel(new Float32Array(1000), 16000, 16000).length).toBe(1000);
+  });
+
+  it('keeps a constant signal at unity gain, edges included', () => {
+    const output = resampleChannel(new Float32Array(500).fill(0.5), 22050, 48000);
+    for (const value of output) expect(value).toBeCloseTo(0.5, 5);
+  });
+
+  it('keeps the level of a tone well below the new Nyquist frequency', () => {
+    const output = resampleChannel(sine(4800, 440, 48000), 48000, 24000);
+    // Away from the edges, where the kernel is cut off
+    expect(peak(output, 200, output.length - 200)).toBeCloseTo(1, 1);
+  });
+
+  it('filters out a tone above the new Nyquist frequency when downsampling', () => {
+    const output = resampleChannel(sine(4800, 15000, 48000), 48000, 24000);
+    expect(peak(output, 200, output.length - 200)).toBeLessThan(0.05);
+  });
+});
+
+describe('concatAudioBuffers', () => {
+  it('resamples inputs to the highest sample rate before joining', () => {
+    const joined = concatAudioBuffers([
+      bufferFrom(ctx, 24000, new Array(240).fill(0.25)),
+      bufferFrom(ctx, 48000, new Array(480).fill(-0.25)),
+    ], ctx);
+    expect(joined.sampleRate).toBe(48000);
+    expect(joined.length).toBe(960);
+    expect(joined.getChannelData(0)[100]).toBeCloseTo(0.25, 5);
+    expect(joined.getChannelData(0)[900]).toBeCloseTo(-0.25, 5);
+  });
+});
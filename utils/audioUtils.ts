@@ -9,23 +9,266 @@ export function decodeBase64(base64: string): Uint8Array {
   return bytes;
 }
 
-// Decodes raw PCM data into an AudioBuffer
+// Layout of raw interleaved PCM samples
+export interface PcmFormat {
+  sampleRate: number;
+  numChannels: number;
+  // 8-bit samples are unsigned (offset by 128), wider ones signed two's complement
+  bitDepth: 8 | 16 | 24 | 32;
+  // 32-bit IEEE float instead of integer samples
+  float?: boolean;
+  bigEndian?: boolean;
+}
+
+// Reads raw PCM into an AudioBuffer. Samples are read through a DataView, so the
+// bytes may start at any offset and in either byte order; a trailing partial
+// frame is dropped.
+export function decodePcm(data: Uint8Array, ctx: BaseAudioContext, format: PcmFormat): AudioBuffer {
+  const { sampleRate, numChannels, bitDepth, float = false, bigEndian = false } = format;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = bytesPerSample * numChannels;
+  const frameCount = Math.floor(data.byteLength / blockAlign);
+  if (frameCount === 0) {
+    throw new Error("No complete audio frames in PCM data");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const littleEndian = !bigEndian;
+  const readSample = (pos: number): number => {
+    switch (bitDepth) {
+      case 8:
+        return (view.getUint8(pos) - 128) / 128;
+      case 16:
+        return view.getInt16(pos, littleEndian) / 32768;
+      case 24: {
+        const [lo, hi] = littleEndian ? [pos, pos + 2] : [pos + 2, pos];
+        const value = view.getUint8(lo) | (view.getUint8(pos + 1) << 8) | (view.getInt8(hi) << 16);
+        return value / 8388608;
+      }
+      case 32:
+        return float ? view.getFloat32(pos, littleEndian) : view.getInt32(pos, littleEndian) / 2147483648;
+    }
+  };
+
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = readSample(i * blockAlign + channel * bytesPerSample);
+    }
+  }
+  return buffer;
+}
+
+// Decodes raw 16-bit little-endian PCM into an AudioBuffer
 export async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number = 24000,
   numChannels: number = 1,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  return decodePcm(data, ctx, { sampleRate, numChannels, bitDepth: 16 });
+}
 
+// Encodes an AudioBuffer as raw 16-bit little-endian PCM (channels interleaved)
+export function encodePcm16(buffer: AudioBuffer): Uint8Array {
+  const numChannels = buffer.numberOfChannels;
+  const dataInt16 = new Int16Array(buffer.length * numChannels);
+  const channels: Float32Array[] = [];
   for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      // Convert Int16 to Float32 [-1.0, 1.0]
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    channels.push(buffer.getChannelData(channel));
+  }
+
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      // Clamp and convert Float32 [-1.0, 1.0] to Int16
+      const sample = Math.max(-1, Math.min(1, channels[channel][i]));
+      dataInt16[i * numChannels + channel] = sample < 0 ? sample * 32768 : sample * 32767;
     }
   }
-  return buffer;
+  return new Uint8Array(dataInt16.buffer);
+}
+
+// Zero crossings of the sinc kernel on each side of a resampled point
+const SINC_ZERO_CROSSINGS = 16;
+
+// Band-limited resampling with a Blackman-windowed sinc. When downsampling the
+// kernel is stretched so it also low-passes below the new Nyquist frequency.
+export function resampleChannel(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return input.slice();
+
+  const ratio = toRate / fromRate;
+  const output = new Float32Array(Math.round(input.length * ratio));
+  const cutoff = Math.min(1, ratio);
+  // Kernel half-width in input samples
+  const halfWidth = SINC_ZERO_CROSSINGS / cutoff;
+
+  for (let i = 0; i < output.length; i++) {
+    const center = i / ratio;
+    const first = Math.max(0, Math.ceil(center - halfWidth));
+    const last = Math.min(input.length - 1, Math.floor(center + halfWidth));
+    let sum = 0;
+    let weight = 0;
+    for (let j = first; j <= last; j++) {
+      const distance = j - center;
+      const x = Math.PI * distance * cutoff;
+      const sinc = x === 0 ? 1 : Math.sin(x) / x;
+      const phase = Math.PI * distance / halfWidth;
+      const window = 0.42 + 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+      const k = sinc * window;
+      sum += input[j] * k;
+      weight += k;
+    }
+    // Normalizing by the kernel sum keeps the gain at 1, including near the edges
+    output[i] = weight !== 0 ? sum / weight : 0;
+  }
+  return output;
+}
+
+// Synchronous counterpart of resampleAudioBuffer, for code that joins buffers
+// while building another one
+export function resampleBufferSync(buffer: AudioBuffer, targetSampleRate: number, ctx: BaseAudioContext): AudioBuffer {
+  if (buffer.sampleRate === targetSampleRate) return buffer;
+
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    channels.push(resampleChannel(buffer.getChannelData(channel), buffer.sampleRate, targetSampleRate));
+  }
+  const output = ctx.createBuffer(channels.length, Math.max(1, channels[0].length), targetSampleRate);
+  channels.forEach((data, channel) => output.getChannelData(channel).set(data));
+  return output;
+}
+
+// Brings buffers to one sample rate (the highest among them) so they can be joined
+function matchSampleRates(buffers: AudioBuffer[], ctx: BaseAudioContext): { buffers: AudioBuffer[]; sampleRate: number } {
+  const sampleRate = Math.max(...buffers.map(b => b.sampleRate));
+  return { buffers: buffers.map(b => resampleBufferSync(b, sampleRate, ctx)), sampleRate };
+}
+
+// Joins buffers end to end with an optional gap of silence between them. Buffers
+// at a lower sample rate are resampled to the highest one.
+export function concatAudioBuffers(
+  inputs: AudioBuffer[],
+  ctx: BaseAudioContext,
+  gapSeconds: number = 0,
+): AudioBuffer {
+  if (inputs.length === 0) {
+    throw new Error("Nothing to concatenate");
+  }
+
+  const { buffers, sampleRate } = matchSampleRates(inputs, ctx);
+  const numChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const gapFrames = Math.round(gapSeconds * sampleRate);
+  const totalFrames = buffers.reduce((sum, b) => sum + b.length, 0) + gapFrames * (buffers.length - 1);
+  const output = ctx.createBuffer(numChannels, totalFrames, sampleRate);
+
+  let offset = 0;
+  for (const buffer of buffers) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      // Mono sources are copied into every output channel
+      const source = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+      output.getChannelData(channel).set(source, offset);
+    }
+    offset += buffer.length + gapFrames;
+  }
+  return output;
+}
+
+// Joins buffers with a short linear crossfade at every seam. gapsSeconds[i] is the
+// silence placed after buffers[i]; a zero gap overlaps the neighbouring clips by the
+// crossfade length, a non-zero gap fades each side out/in around the silence.
+// Also returns where each input starts in the joined buffer, in seconds. Mixed
+// sample rates are resampled as in concatAudioBuffers.
+export function joinWithCrossfade(
+  inputs: AudioBuffer[],
+  ctx: BaseAudioContext,
+  gapsSeconds: number[],
+  crossfadeSeconds: number,
+): { buffer: AudioBuffer; starts: number[] } {
+  if (inputs.length === 0) {
+    throw new Error("Nothing to join");
+  }
+
+  const { buffers, sampleRate } = matchSampleRates(inputs, ctx);
+  const numChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const fadeFrames = buffers.map(b => Math.min(Math.round(crossfadeSeconds * sampleRate), Math.floor(b.length / 2)));
+
+  // Start frame of every buffer in the output
+  const offsets: number[] = [];
+  let offset = 0;
+  buffers.forEach((buffer, i) => {
+    offsets.push(offset);
+    if (i === buffers.length - 1) return;
+    const gapFrames = Math.round((gapsSeconds[i] || 0) * sampleRate);
+    const overlap = gapFrames === 0 ? Math.min(fadeFrames[i], fadeFrames[i + 1]) : 0;
+    offset += buffer.length + gapFrames - overlap;
+  });
+  const totalFrames = offset + buffers[buffers.length - 1].length;
+  const output = ctx.createBuffer(numChannels, totalFrames, sampleRate);
+
+  buffers.forEach((buffer, i) => {
+    const fadeIn = i > 0 ? fadeFrames[i] : 0;
+    const fadeOut = i < buffers.length - 1 ? fadeFrames[i] : 0;
+
+    for (let channel = 0; channel < numChannels; channel++) {
+      const source = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+      const target = output.getChannelData(channel);
+      for (let j = 0; j < buffer.length; j++) {
+        let gain = 1;
+        if (j < fadeIn) gain = j / fadeIn;
+        if (j >= buffer.length - fadeOut) gain = Math.min(gain, (buffer.length - j) / fadeOut);
+        target[offsets[i] + j] += source[j] * gain;
+      }
+    }
+  });
+  return { buffer: output, starts: offsets.map(frames => frames / sampleRate) };
+}
+
+// Renders a buffer at another sample rate (and optionally channel count) through
+// an OfflineAudioContext, letting the browser's resampler do the work
+export async function resampleAudioBuffer(
+  buffer: AudioBuffer,
+  targetSampleRate: number,
+  numChannels: number = buffer.numberOfChannels,
+): Promise<AudioBuffer> {
+  if (buffer.sampleRate === targetSampleRate && buffer.numberOfChannels === numChannels) {
+    return buffer;
+  }
+
+  const frameCount = Math.ceil(buffer.duration * targetSampleRate);
+  const offline = new OfflineAudioContext(numChannels, frameCount, targetSampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+}
+
+// Peak amplitude per bucket across [startSeconds, endSeconds), for drawing waveforms
+export function computePeaks(
+  buffer: AudioBuffer,
+  buckets: number,
+  startSeconds: number = 0,
+  endSeconds: number = buffer.duration,
+): Float32Array {
+  const peaks = new Float32Array(Math.max(0, buckets));
+  const from = Math.max(0, Math.floor(startSeconds * buffer.sampleRate));
+  const to = Math.min(buffer.length, Math.ceil(endSeconds * buffer.sampleRate));
+  const framesPerBucket = (to - from) / buckets;
+  if (framesPerBucket <= 0) return peaks;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let b = 0; b < buckets; b++) {
+      const start = from + Math.floor(b * framesPerBucket);
+      const end = Math.min(to, from + Math.floor((b + 1) * framesPerBucket) + 1);
+      let peak = peaks[b];
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+      peaks[b] = peak;
+    }
+  }
+  return peaks;
 }
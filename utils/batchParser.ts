@@ -0,0 +1,157 @@
+import { BatchRow, DeliveryStyle, VoiceName } from "../types";
+import { normalizeStyle } from "./deliveryPrompt";
+
+const STYLE_FIELDS: (keyof DeliveryStyle)[] = ['tone', 'pace', 'emotion', 'accent', 'direction'];
+
+// Splits CSV into records of fields. Handles quoted fields with embedded
+// commas, newlines and doubled quotes; delimiter is ',' or ';' (sniffed from the header).
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const headerEnd = text.search(/\r?\n/);
+  const header = headerEnd < 0 ? text : text.slice(0, headerEnd);
+  const delimiter = header.split(';').length > header.split(',').length ? ';' : ',';
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) {
+    throw new Error("CSV has an unterminated quoted field");
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines are not rows
+  return records.filter(r => r.some(f => f.trim() !== ''));
+}
+
+const parseVoice = (value: unknown, fallback: VoiceName, row: number): VoiceName => {
+  if (value === undefined || value === null || String(value).trim() === '') return fallback;
+  const name = String(value).trim().toLowerCase();
+  const voice = Object.values(VoiceName).find(v => v.toLowerCase() === name);
+  if (!voice) {
+    throw new Error(`Row ${row}: unknown voice "${value}". Use one of ${Object.values(VoiceName).join(', ')}.`);
+  }
+  return voice;
+};
+
+// A style is either an object of DeliveryStyle fields or a free-text direction.
+// CSV cells holding a JSON object are treated as the object.
+const parseStyle = (value: unknown, row: number): DeliveryStyle => {
+  if (value === undefined || value === null || value === '') return {};
+  if (typeof value === 'string') {
+    if (!value.trim().startsWith('{')) return { direction: value };
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new Error(`Row ${row}: style looks like JSON but could not be parsed`);
+    }
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Row ${row}: style must be a string or an object`);
+  }
+  const style: DeliveryStyle = {};
+  for (const key of STYLE_FIELDS) {
+    const field = (value as Record<string, unknown>)[key];
+    if (field !== undefined && field !== null) style[key] = String(field);
+  }
+  return style;
+};
+
+const toRows = (records: Record<string, unknown>[], defaultVoice: VoiceName): BatchRow[] => {
+  const seen = new Set<string>();
+  const rows: BatchRow[] = [];
+
+  records.forEach((record, i) => {
+    const rowNumber = i + 1;
+    const text = String(record.text ?? '').trim();
+    if (!text) return;
+
+    const id = String(record.id ?? '').trim() || `row-${rowNumber}`;
+    if (seen.has(id)) {
+      throw new Error(`Row ${rowNumber}: duplicate id "${id}"`);
+    }
+    seen.add(id);
+
+    // Style fields may also be given as top-level columns next to `style`
+    const style = { ...parseStyle(record.style, rowNumber) };
+    for (const key of STYLE_FIELDS) {
+      const field = record[key];
+      if (typeof field === 'string' && field.trim()) style[key] = field;
+    }
+
+    rows.push({
+      id,
+      text,
+      voice: parseVoice(record.voice, defaultVoice, rowNumber),
+      style: normalizeStyle(style),
+    });
+  });
+
+  if (rows.length === 0) {
+    throw new Error("The file has no rows with text");
+  }
+  return rows;
+};
+
+// Parses a batch file of {id, text, voice, style} rows. JSON may be an array or
+// { rows: [...] }; CSV needs a header row with at least a `text` column.
+export function parseBatchFile(content: string, filename: string, defaultVoice: VoiceName): BatchRow[] {
+  const isJson = /\.json$/i.test(filename) || /^\s*[[{]/.test(content);
+
+  if (isJson) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (err: any) {
+      throw new Error(`Invalid JSON: ${err.message}`);
+    }
+    const records = Array.isArray(data) ? data : (data as { rows?: unknown })?.rows;
+    if (!Array.isArray(records)) {
+      throw new Error("JSON must be an array of rows or an object with a `rows` array");
+    }
+    return toRows(records.map(r => (r && typeof r === 'object' ? r : { text: r })) as Record<string, unknown>[], defaultVoice);
+  }
+
+  const [header, ...lines] = parseCsv(content);
+  if (!header) {
+    throw new Error("The file is empty");
+  }
+  const columns = header.map(name => name.trim().toLowerCase());
+  if (!columns.includes('text')) {
+    throw new Error("CSV header must include a `text` column");
+  }
+  return toRows(
+    lines.map(fields => Object.fromEntries(columns.map((name, i) => [name, fields[i] ?? '']))),
+    defaultVoice
+  );
+}
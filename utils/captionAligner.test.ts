@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { buildCaptions, buildCaptionsForText } from './captionAligner';
+import { bufferFrom, createFakeAudioContext } from '../test/fakeAudioContext';
+
+const ctx = createFakeAudioContext();
+
+// One second of steady tone: speech throughout, no pauses to snap to
+const tone = () => bufferFrom(ctx, 8000, Array.from({ length: 8000 }, (_, i) => 0.5 * Math.sin(i / 3)));
+
+describe('buildCaptions', () => {
+  it('cuts cues only at sentence ends, keeping numbers and abbreviations whole', () => {
+    const cues = buildCaptionsForText(tone(), 'Pi is 3.14 today. Ask Dr. Lee, e.g. by mail at example.com.\nNew line here');
+    expect(cues.map(c => c.text)).toEqual(['Pi is 3.14 today.', 'Ask Dr. Lee, e.g. by mail at example.com.', 'New line here']);
+  });
+
+  it('uses the source text verbatim for cues and words', () => {
+    const text = 'It was 4 p.m.  "Late," he said…   Then silence.';
+    const cues = buildCaptions(tone(), [{ text, start: 0, end: 1 }]);
+    for (const cue of cues) {
+      expect(text).toContain(cue.text);
+      expect(cue.words?.map(w => w.text).join(' ')).toBe(cue.text.split(/\s+/).join(' '));
+    }
+    expect(cues.map(c => c.text).join(' ').replace(/\s+/g, ' ')).toBe(text.replace(/\s+/g, ' '));
+  });
+
+  it('spreads cues over the segment in order without overlap', () => {
+    const cues = buildCaptions(tone(), [{ text: 'One. Two. Three.', start: 0, end: 1 }]);
+    expect(cues).toHaveLength(3);
+    cues.forEach((cue, i) => {
+      expect(cue.end).toBeGreaterThanOrEqual(cue.start);
+      if (i > 0) expect(cue.start).toBeGreaterThanOrEqual(cues[i - 1].end);
+    });
+  });
+});
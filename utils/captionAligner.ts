@@ -0,0 +1,190 @@
+import { CaptionCue, GeneratedAudio, WordTiming } from "../types";
+import { splitSentences } from "./textChunker";
+import { containsMarkup, parseMarkup } from "./ssmlLite";
+
+// A stretch of the clip whose spoken text is known, e.g. one generated chunk
+export interface TimedSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Pause {
+  start: number;
+  end: number;
+}
+
+// Envelope resolution for silence detection
+const WINDOW_SECONDS = 0.01;
+// Windows this far below the loudest window count as silence
+const SILENCE_DB_BELOW_PEAK = 35;
+// Shorter gaps are treated as part of a word
+const MIN_PAUSE_SECONDS = 0.12;
+
+// RMS envelope of the clip (all channels mixed), one value per window
+function computeEnvelope(buffer: AudioBuffer): { envelope: Float32Array; windowSeconds: number } {
+  const windowFrames = Math.max(1, Math.round(WINDOW_SECONDS * buffer.sampleRate));
+  const envelope = new Float32Array(Math.ceil(buffer.length / windowFrames));
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    channels.push(buffer.getChannelData(channel));
+  }
+
+  for (let w = 0; w < envelope.length; w++) {
+    let sum = 0;
+    const from = w * windowFrames;
+    const to = Math.min(buffer.length, from + windowFrames);
+    for (const data of channels) {
+      for (let i = from; i < to; i++) sum += data[i] * data[i];
+    }
+    envelope[w] = Math.sqrt(sum / ((to - from) * channels.length));
+  }
+  return { envelope, windowSeconds: windowFrames / buffer.sampleRate };
+}
+
+// Finds the speech bounds and the pauses between them
+function analyseSpeech(buffer: AudioBuffer): { speechStart: number; speechEnd: number; pauses: Pause[] } {
+  const { envelope, windowSeconds } = computeEnvelope(buffer);
+  const peak = envelope.reduce((max, value) => Math.max(max, value), 0);
+  const threshold = peak * Math.pow(10, -SILENCE_DB_BELOW_PEAK / 20);
+
+  const pauses: Pause[] = [];
+  let firstVoiced = -1;
+  let lastVoiced = -1;
+  let silenceStart = -1;
+
+  for (let w = 0; w < envelope.length; w++) {
+    if (envelope[w] > threshold) {
+      if (firstVoiced < 0) firstVoiced = w;
+      if (silenceStart >= 0 && lastVoiced >= 0 && (w - silenceStart) * windowSeconds >= MIN_PAUSE_SECONDS) {
+        pauses.push({ start: silenceStart * windowSeconds, end: w * windowSeconds });
+      }
+      silenceStart = -1;
+      lastVoiced = w;
+    } else if (silenceStart < 0) {
+      silenceStart = w;
+    }
+  }
+
+  if (firstVoiced < 0) {
+    return { speechStart: 0, speechEnd: buffer.duration, pauses: [] };
+  }
+  return {
+    speechStart: firstVoiced * windowSeconds,
+    speechEnd: Math.min(buffer.duration, (lastVoiced + 1) * windowSeconds),
+    pauses,
+  };
+}
+
+// Rough spoken length of a piece of text, used to share out time
+const speechWeight = (text: string) => text.replace(/[^\p{L}\p{N}]/gu, '').length + 2;
+
+// Spreads words over [start, end] in proportion to their length
+function timeWords(text: string, start: number, end: number): WordTiming[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const total = words.reduce((sum, word) => sum + speechWeight(word), 0);
+  let cursor = start;
+  return words.map(word => {
+    const wordEnd = cursor + ((end - start) * speechWeight(word)) / total;
+    const timing = { text: word, start: cursor, end: wordEnd };
+    cursor = wordEnd;
+    return timing;
+  });
+}
+
+// Splits a segment into sentence cues, each a verbatim slice of the segment's text
+// (line breaks always end a cue). Sentence boundaries are first estimated from
+// text length, then snapped to the nearest sufficiently long pause in the audio.
+function alignSegment(segment: TimedSegment, speech: { speechStart: number; speechEnd: number; pauses: Pause[] }): CaptionCue[] {
+  const sentences = segment.text.split(/\n+/).flatMap(line => splitSentences(line));
+  if (sentences.length === 0) return [];
+
+  // Trim silence at either edge of the segment, e.g. the pause between two chunks
+  let start = Math.max(segment.start, speech.speechStart);
+  let end = Math.min(segment.end, speech.speechEnd);
+  const leading = speech.pauses.find(p => p.start <= start && p.end > start);
+  if (leading) start = leading.end;
+  const trailing = speech.pauses.find(p => p.start < end && p.end >= end);
+  if (trailing) end = trailing.start;
+  end = Math.max(start, end);
+
+  const pauses = speech.pauses.filter(p => p.start >= start && p.end <= end);
+  const weights = sentences.map(speechWeight);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const tolerance = Math.max(1, 0.15 * (end - start));
+
+  const cues: CaptionCue[] = [];
+  let cueStart = start;
+  let consumed = 0;
+  let pauseIndex = 0;
+
+  sentences.forEach((sentence, i) => {
+    consumed += weights[i];
+    let cueEnd = end;
+    let nextStart = end;
+
+    if (i < sentences.length - 1) {
+      const expected = start + ((end - start) * consumed) / totalWeight;
+      let best = -1;
+      let bestScore = -Infinity;
+      for (let p = pauseIndex; p < pauses.length; p++) {
+        const mid = (pauses[p].start + pauses[p].end) / 2;
+        if (mid <= cueStart) continue;
+        const distance = Math.abs(mid - expected);
+        if (distance > tolerance) {
+          if (mid > expected) break;
+          continue;
+        }
+        // Favour long pauses close to where the text says the sentence should end
+        const score = (pauses[p].end - pauses[p].start) - distance * 0.5;
+        if (score > bestScore) {
+          bestScore = score;
+          best = p;
+        }
+      }
+
+      if (best >= 0) {
+        cueEnd = pauses[best].start;
+        nextStart = pauses[best].end;
+        pauseIndex = best + 1;
+      } else {
+        cueEnd = nextStart = Math.max(cueStart, expected);
+      }
+    }
+
+    cues.push({ text: sentence, start: cueStart, end: cueEnd, words: timeWords(sentence, cueStart, cueEnd) });
+    cueStart = nextStart;
+  });
+
+  return cues;
+}
+
+// Builds sentence- and word-level caption cues for a clip. Pass one segment per
+// generated chunk when the chunk boundaries are known; otherwise the whole text is
+// treated as a single segment spanning the clip.
+export function buildCaptions(buffer: AudioBuffer, segments: TimedSegment[]): CaptionCue[] {
+  const speech = analyseSpeech(buffer);
+  return segments.flatMap(segment => alignSegment(segment, speech));
+}
+
+// The words actually spoken, without dialogue speaker labels or markup
+export function getSpokenText(item: Pick<GeneratedAudio, 'text' | 'script'>): string {
+  if (item.script) return item.script.lines.map(line => line.text).join('\n');
+  if (containsMarkup(item.text)) {
+    try {
+      return parseMarkup(item.text).spokenText;
+    } catch {
+      return item.text;
+    }
+  }
+  return item.text;
+}
+
+export function buildCaptionsForText(buffer: AudioBuffer, text: string): CaptionCue[] {
+  return buildCaptions(buffer, [{ text, start: 0, end: buffer.duration }]);
+}
+
+// Index of the cue playing at `time`, or -1 between/after cues
+export function findCueIndex(cues: CaptionCue[], time: number): number {
+  return cues.findIndex(cue => time >= cue.start && time < cue.end);
+}
@@ -0,0 +1,49 @@
+import { CaptionCue } from "../types";
+
+// Longest line shown on screen before a cue is wrapped
+const MAX_LINE_CHARS = 42;
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+function formatTimestamp(seconds: number, decimalSeparator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}${decimalSeparator}${pad(ms, 3)}`;
+}
+
+// Breaks long cue text onto two balanced lines
+function wrapCueText(text: string): string {
+  if (text.length <= MAX_LINE_CHARS) return text;
+  const middle = text.length / 2;
+  let split = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === ' ' && (split < 0 || Math.abs(i - middle) < Math.abs(split - middle))) split = i;
+  }
+  return split < 0 ? text : `${text.slice(0, split)}\n${text.slice(split + 1)}`;
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function toSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${wrapCueText(cue.text)}\n`)
+    .join('\n');
+}
+
+// WebVTT with optional inline word timestamps (<00:00:01.200>word) for karaoke-style players
+export function toWebVtt(cues: CaptionCue[], includeWordTimings: boolean = true): string {
+  const body = cues.map(cue => {
+    const timing = `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`;
+    let text: string;
+    if (includeWordTimings && cue.words && cue.words.length > 1) {
+      text = cue.words
+        .map((word, i) => (i === 0 ? '' : `<${formatTimestamp(word.start, '.')}>`) + escapeVtt(word.text))
+        .join(' ');
+    } else {
+      text = escapeVtt(wrapCueText(cue.text));
+    }
+    return `${timing}\n${text}\n`;
+  });
+  return `WEBVTT\n\n${body.join('\n')}`;
+}
@@ -0,0 +1,16 @@
+// Runs worker over every item with at most `limit` calls in flight at once.
+// Rejections are left to the worker to handle; the first unhandled one rejects the whole run.
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+}
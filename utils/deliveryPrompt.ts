@@ -0,0 +1,50 @@
+import { DeliveryStyle } from "../types";
+
+export const TONE_PRESETS = ['warm', 'neutral', 'authoritative', 'friendly', 'serious', 'playful', 'conversational'];
+export const PACE_PRESETS = ['very slow', 'slow', 'measured', 'brisk', 'fast'];
+export const EMOTION_PRESETS = ['cheerful', 'calm', 'excited', 'sad', 'anxious', 'angry', 'tender', 'mysterious'];
+export const ACCENT_PRESETS = ['American', 'British', 'Australian', 'Irish', 'Scottish', 'Indian', 'South African'];
+
+export function hasDirection(style?: DeliveryStyle): boolean {
+  return !!style && Object.values(style).some(value => !!value?.trim());
+}
+
+// Drops empty fields so stored styles compare and display cleanly
+export function normalizeStyle(style: DeliveryStyle): DeliveryStyle | undefined {
+  const entries = Object.entries(style)
+    .map(([key, value]) => [key, value?.trim()] as const)
+    .filter(([, value]) => !!value);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+// e.g. "in a warm tone, at a slow pace, sounding cheerful, with a British accent"
+function describeStyle(style: DeliveryStyle): string[] {
+  const parts: string[] = [];
+  if (style.tone?.trim()) parts.push(`in a ${style.tone.trim()} tone`);
+  if (style.pace?.trim()) parts.push(`at a ${style.pace.trim()} pace`);
+  if (style.emotion?.trim()) parts.push(`sounding ${style.emotion.trim()}`);
+  if (style.accent?.trim()) parts.push(`with a ${style.accent.trim()} accent`);
+  return parts;
+}
+
+// Builds the instruction line placed before the text, or '' when there is no direction
+export function buildDirectionPrompt(style?: DeliveryStyle): string {
+  if (!style || !hasDirection(style)) return '';
+
+  const parts = describeStyle(style);
+  const direction = style.direction?.trim().replace(/[.:]+$/, '');
+  let instruction = parts.length > 0 ? `Say the following ${parts.join(', ')}` : 'Say the following';
+  if (direction) instruction += `. ${direction}`;
+  return `${instruction}:\n`;
+}
+
+export function applyDirection(text: string, style?: DeliveryStyle): string {
+  return buildDirectionPrompt(style) + text;
+}
+
+// Short label for history badges
+export function summarizeStyle(style: DeliveryStyle): string {
+  return [style.tone, style.pace, style.emotion, style.accent, style.direction]
+    .filter(value => !!value?.trim())
+    .join(' · ');
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { blocksToChapters, textToBlocks } from './documentParser';
+import { splitText } from './textChunker';
+
+// A short book with the numbers, addresses and abbreviations long-form text is full of
+const BOOK = `Chapter 1
+
+The ship left port at 6.45 a.m. on Jan. 3, carrying 12.5 tonnes of grain.
+Mr. Hale checked the manifest twice, e.g. the cargo list and the crew roll.
+
+Details are at https://example.com/voyage.html. Nobody read them.
+
+Chapter 2
+
+By noon the wind was 3.14 times stronger than forecast. Dr. A. Moreau said so, i.e. she was worried.
+It was 4 p.m. before the crew of 23 agreed to turn back.`;
+
+describe('imported chapters split for synthesis', () => {
+  const chapters = blocksToChapters(textToBlocks(BOOK), 'Untitled');
+
+  it('keeps every chunk a verbatim slice of its chapter', () => {
+    expect(chapters.map(c => c.title)).toEqual(['Chapter 1', 'Chapter 2']);
+    for (const chapter of chapters) {
+      for (const maxChars of [40, 80, 1500]) {
+        const chunks = splitText(chapter.text, maxChars);
+        for (const chunk of chunks) expect(chapter.text).toContain(chunk.text);
+        // Nothing is lost or rewritten between the chunks either
+        expect(chunks.map(c => c.text).join(' ').replace(/\s+/g, ' ')).toBe(chapter.text.replace(/\s+/g, ' '));
+      }
+    }
+  });
+
+  it('never breaks inside decimals, addresses or abbreviations', () => {
+    const text = chapters.map(c => splitText(c.text, 80).map(chunk => chunk.text).join('\n')).join('\n');
+    for (const phrase of ['6.45 a.m. on Jan. 3', '12.5 tonnes', 'Mr. Hale', 'e.g. the cargo', 'https://example.com/voyage.html.', '3.14 times', 'Dr. A. Moreau', 'i.e. she', '4 p.m. before']) {
+      expect(text).toContain(phrase);
+    }
+  });
+});
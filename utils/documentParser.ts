@@ -0,0 +1,174 @@
+import { DocumentChapter } from "../types";
+
+// A heading (level 1-6) or a paragraph (level 0) of an imported document
+export interface DocumentBlock {
+  level: number;
+  text: string;
+}
+
+// Lines in plain text (and PDF text) that start a chapter: "Chapter 12", "PART TWO: The Return",
+// "Prologue". The keyword must be capitalised and anything after it must start a new
+// phrase, so sentences that merely begin with "Part of" or "Introduction to" don't match.
+const capitalised = (words: string[]) => words.map(w => `${w[0].toUpperCase()}${w.slice(1)}|${w.toUpperCase()}`).join('|');
+const NUMBER_WORDS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve',
+  'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty', 'thirty', 'forty', 'fifty'];
+const NUMBER = `(?:\\d+|[IVXLCDM]+|(?:${capitalised(NUMBER_WORDS)}|${NUMBER_WORDS.join('|')})(?:[- ](?:${NUMBER_WORDS.slice(0, 9).join('|')}|${capitalised(NUMBER_WORDS.slice(0, 9))}))?)`;
+const CHAPTER_HEADING = new RegExp(
+  `^(?:(?:${capitalised(['chapter', 'part', 'book'])})\\s+${NUMBER}|${capitalised(['prologue', 'epilogue', 'introduction', 'preface', 'foreword', 'afterword', 'interlude', 'appendix'])})`
+  + `(?:[.:\\s\u2013\u2014-]*$|\\s*[.:\u2013\u2014-]?\\s+["'\u201c\u2018]?\\p{Lu})`,
+  'u'
+);
+const MAX_HEADING_LENGTH = 80;
+
+// A spoken chapter needs more than a heading; shorter bodies are treated as boilerplate
+const MIN_CHAPTER_CHARS = 40;
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Project Gutenberg texts wrap the book in licence boilerplate
+function stripGutenberg(text: string): string {
+  const start = text.search(/^\*{3}\s*START OF (?:THE|THIS) PROJECT GUTENBERG.*$/im);
+  const end = text.search(/^\*{3}\s*END OF (?:THE|THIS) PROJECT GUTENBERG.*$/im);
+  const from = start >= 0 ? text.indexOf('\n', start) + 1 : 0;
+  return text.slice(from, end > from ? end : undefined);
+}
+
+// Paragraphs are separated by blank lines; hard-wrapped lines inside one are joined
+// (undoing end-of-line hyphenation) and heading-like lines become their own blocks
+export function textToBlocks(content: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    const text = collapse(paragraph.join('\n').replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2'));
+    if (text) blocks.push({ level: 0, text });
+    paragraph = [];
+  };
+
+  for (const raw of stripGutenberg(content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')).split('\n')) {
+    const line = raw.trim();
+    if (!line || /^\d{1,4}$/.test(line) || /^[-*_=~\s]{3,}$/.test(line)) {
+      // Blank lines, bare page numbers and separator rules
+      flush();
+    } else if (line.length <= MAX_HEADING_LENGTH && CHAPTER_HEADING.test(line) && !/[,;]$/.test(line)) {
+      flush();
+      blocks.push({ level: 1, text: collapse(line) });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+// Strips Markdown down to the words that should be read aloud. Code, images,
+// tables and HTML are dropped; link text and emphasised text are kept.
+export function markdownToBlocks(markdown: string): DocumentBlock[] {
+  const text = markdown
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/^---\n[\s\S]*?\n---\n/, '')            // front matter
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '');
+
+  const inline = (line: string) => collapse(line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[\^[^\]]+\]/g, '')                      // footnote references
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/~~(.+?)~~/g, '$1'));
+
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    const joined = inline(paragraph.join(' '));
+    if (joined) blocks.push({ level: 0, text: joined });
+    paragraph = [];
+  };
+
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const atx = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    // Setext headings are underlined with === or ---
+    const setext = paragraph.length === 0 && line && /^(=+|-+)$/.test(lines[i + 1]?.trim() ?? '') ? lines[i + 1].trim()[0] : null;
+
+    if (atx) {
+      flush();
+      blocks.push({ level: atx[1].length, text: inline(atx[2]) });
+    } else if (setext && !/^[-=]+$/.test(line)) {
+      blocks.push({ level: setext === '=' ? 1 : 2, text: inline(line) });
+      i++;
+    } else if (!line || /^\|/.test(line) || /^([-*_]\s*){3,}$/.test(line) || /^\[[^\]]+\]:\s/.test(line)
+      || (paragraph.length === 0 && /^( {4}|\t)/.test(lines[i]) && !/^\s*([-*+]|\d+[.)])\s/.test(lines[i]))) {
+      // Blank lines, tables, rules, link definitions and indented code
+      flush();
+    } else if (/^([-*+]|\d+[.)])\s+/.test(line)) {
+      flush();
+      paragraph.push(line.replace(/^([-*+]|\d+[.)])\s+/, ''));
+    } else {
+      paragraph.push(line.replace(/^(>\s?)+/, ''));
+    }
+  }
+  flush();
+  return blocks;
+}
+
+// Picks the heading level chapters start at: the one with the most headings among
+// the top three levels (ties go to the shallower level). A book with a single title
+// heading and many section headings splits at the sections.
+function chapterLevel(blocks: DocumentBlock[]): number | null {
+  const counts = [0, 0, 0, 0];
+  blocks.forEach(b => { if (b.level >= 1 && b.level <= 3) counts[b.level]++; });
+  let best: number | null = null;
+  for (let level = 1; level <= 3; level++) {
+    if (counts[level] > 0 && (best === null || counts[level] > counts[best])) best = level;
+  }
+  return best;
+}
+
+// Groups blocks into chapters at the chosen heading level (and any shallower one).
+// Headings stay in the chapter text so they are read out. Chapters with no real body,
+// like a title page or a part heading directly followed by its first chapter, are dropped.
+export function blocksToChapters(blocks: DocumentBlock[], fallbackTitle: string): DocumentChapter[] {
+  const level = chapterLevel(blocks);
+  const groups: { title: string; blocks: DocumentBlock[] }[] = [];
+
+  for (const block of blocks) {
+    if (level !== null && block.level >= 1 && block.level <= level) {
+      groups.push({ title: block.text, blocks: [block] });
+    } else if (groups.length === 0) {
+      groups.push({ title: fallbackTitle, blocks: [block] });
+    } else {
+      groups[groups.length - 1].blocks.push(block);
+    }
+  }
+
+  return groups
+    .filter(group => group.blocks.filter(b => b.level === 0).reduce((sum, b) => sum + b.text.length, 0) >= MIN_CHAPTER_CHARS)
+    .map(group => ({ title: group.title, text: group.blocks.map(b => b.text).join('\n\n') }));
+}
+
+// Header and footer lines that repeat on most pages (running titles, "Page 3 of 20")
+// are removed, comparing lines with their digits masked out
+export function stripPageFurniture(pages: string[]): string[] {
+  const lines = pages.map(page => page.split('\n').map(line => line.trim()).filter(Boolean));
+  if (lines.length < 3) return pages;
+
+  const mask = (line: string) => line.replace(/\d+/g, '#').toLowerCase();
+  const counts = new Map<string, number>();
+  lines.forEach(pageLines => {
+    const edges = new Set([...pageLines.slice(0, 2), ...pageLines.slice(-2)].map(mask));
+    edges.forEach(line => counts.set(line, (counts.get(line) ?? 0) + 1));
+  });
+  const repeated = new Set([...counts].filter(([, count]) => count >= lines.length / 2).map(([line]) => line));
+
+  return lines.map(pageLines => {
+    const edge = (i: number) => i < 2 || i >= pageLines.length - 2;
+    return pageLines.filter((line, i) => !(edge(i) && repeated.has(mask(line)))).join('\n');
+  });
+}
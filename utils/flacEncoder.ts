@@ -0,0 +1,254 @@
+// Minimal FLAC encoder: fixed-blocksize frames, independent channels, constant /
+// fixed-predictor (order 0-4) / verbatim subframes and Rice-coded residuals.
+// Not as tight as libFLAC's LPC, but lossless and typically ~50-60% of WAV for speech.
+
+export type FlacBitDepth = 16 | 24;
+
+const BLOCK_SIZE = 4096;
+const MAX_RICE_PARAM = 14;
+
+// Frame header sample-rate codes; anything else is read from STREAMINFO
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  8000: 0b0100, 16000: 0b0101, 22050: 0b0110, 24000: 0b0111,
+  32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011,
+};
+
+const SAMPLE_SIZE_CODES: Record<FlacBitDepth, number> = { 16: 0b100, 24: 0b110 };
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc8 = i;
+  let crc16 = i << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc8 = crc8 & 0x80 ? ((crc8 << 1) ^ 0x07) & 0xff : (crc8 << 1) & 0xff;
+    crc16 = crc16 & 0x8000 ? ((crc16 << 1) ^ 0x8005) & 0xffff : (crc16 << 1) & 0xffff;
+  }
+  CRC8_TABLE[i] = crc8;
+  CRC16_TABLE[i] = crc16;
+}
+
+function crc8(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  return crc;
+}
+
+// Big-endian bit writer backed by a growable byte array
+class BitWriter {
+  bytes = new Uint8Array(1 << 16);
+  length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  private pushByte(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  // Writes the low `count` bits of a non-negative value (count <= 48)
+  write(value: number, count: number) {
+    if (count > 24) {
+      this.write(Math.floor(value / 0x1000000), count - 24);
+      value %= 0x1000000;
+      count = 24;
+    }
+    this.acc = (this.acc << count) | (value & ((1 << count) - 1));
+    this.accBits += count;
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.pushByte((this.acc >>> this.accBits) & 0xff);
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  writeSigned(value: number, count: number) {
+    this.write(value < 0 ? value + 2 ** count : value, count);
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros >= 16) {
+      this.write(0, 16);
+      zeros -= 16;
+    }
+    this.write(1, zeros + 1);
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+function writeUtf8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  // Number of continuation bytes needed, 6 payload bits each
+  let extra = 1;
+  while (value >= 2 ** (6 * extra + (6 - extra))) extra++;
+  const lead = (0xff00 >> (extra + 1)) & 0xff;
+  writer.write(lead | Math.floor(value / 2 ** (6 * extra)), 8);
+  for (let i = extra - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+function fixedResiduals(samples: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let predicted = 0;
+    switch (order) {
+      case 1: predicted = s[i - 1]; break;
+      case 2: predicted = 2 * s[i - 1] - s[i - 2]; break;
+      case 3: predicted = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3]; break;
+      case 4: predicted = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4]; break;
+    }
+    residual[i - order] = s[i] - predicted;
+  }
+  return residual;
+}
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+// Cheapest Rice parameter for a residual block, with its size in bits
+function bestRiceParam(residual: Int32Array): { param: number; bits: number } {
+  let best = { param: 0, bits: Infinity };
+  for (let param = 0; param <= MAX_RICE_PARAM; param++) {
+    let bits = residual.length * (param + 1);
+    for (let i = 0; i < residual.length; i++) {
+      bits += Math.floor(zigzag(residual[i]) / 2 ** param);
+      if (bits >= best.bits) break;
+    }
+    if (bits < best.bits) best = { param, bits };
+  }
+  return best;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitDepth: number) {
+  if (samples.every(sample => sample === samples[0])) {
+    writer.write(0b00000000, 8);                 // pad, CONSTANT, no wasted bits
+    writer.writeSigned(samples[0], bitDepth);
+    return;
+  }
+
+  let best: { order: number; residual: Int32Array; param: number; bits: number } | null = null;
+  for (let order = 0; order <= 4 && order < samples.length; order++) {
+    const residual = fixedResiduals(samples, order);
+    const rice = bestRiceParam(residual);
+    const bits = order * bitDepth + 6 + rice.bits;
+    if (!best || bits < best.bits) best = { order, residual, ...rice, bits };
+  }
+
+  if (!best || best.bits >= samples.length * bitDepth) {
+    writer.write(0b00000010, 8);                 // pad, VERBATIM, no wasted bits
+    for (let i = 0; i < samples.length; i++) writer.writeSigned(samples[i], bitDepth);
+    return;
+  }
+
+  writer.write((0b001000 | best.order) << 1, 8); // pad, FIXED order n, no wasted bits
+  for (let i = 0; i < best.order; i++) writer.writeSigned(samples[i], bitDepth);
+
+  writer.write(0b00, 2);                         // Rice coding, 4-bit parameter
+  writer.write(0, 4);                            // partition order 0
+  writer.write(best.param, 4);
+  for (let i = 0; i < best.residual.length; i++) {
+    const value = zigzag(best.residual[i]);
+    writer.writeUnary(Math.floor(value / 2 ** best.param));
+    if (best.param > 0) writer.write(value % 2 ** best.param, best.param);
+  }
+}
+
+function toIntegerSamples(data: Float32Array, bitDepth: FlacBitDepth): Int32Array {
+  const max = 2 ** (bitDepth - 1);
+  const out = new Int32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    out[i] = Math.max(-max, Math.min(max - 1, Math.round(sample * max)));
+  }
+  return out;
+}
+
+export function encodeFlac(buffer: AudioBuffer, bitDepth: FlacBitDepth = 16): Uint8Array {
+  const numChannels = buffer.numberOfChannels;
+  if (numChannels > 8) {
+    throw new Error("FLAC supports at most 8 channels");
+  }
+
+  const channels: Int32Array[] = [];
+  for (let channel = 0; channel < numChannels; channel++) {
+    channels.push(toIntegerSamples(buffer.getChannelData(channel), bitDepth));
+  }
+
+  const frames: Uint8Array[] = [];
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+
+  for (let start = 0, frameNumber = 0; start < buffer.length; start += BLOCK_SIZE, frameNumber++) {
+    const blockSize = Math.min(BLOCK_SIZE, buffer.length - start);
+    const writer = new BitWriter();
+
+    writer.write(0b11111111111110, 14);          // sync code
+    writer.write(0, 1);                          // reserved
+    writer.write(0, 1);                          // fixed blocksize stream
+    writer.write(0b0111, 4);                     // blocksize: 16-bit value at end of header
+    writer.write(SAMPLE_RATE_CODES[buffer.sampleRate] ?? 0b0000, 4);
+    writer.write(numChannels - 1, 4);            // independent channels
+    writer.write(SAMPLE_SIZE_CODES[bitDepth], 3);
+    writer.write(0, 1);                          // reserved
+    writeUtf8Number(writer, frameNumber);
+    writer.write(blockSize - 1, 16);
+    writer.write(crc8(writer.bytes, 0, writer.length), 8);
+
+    for (const samples of channels) {
+      writeSubframe(writer, samples.subarray(start, start + blockSize), bitDepth);
+    }
+
+    writer.alignToByte();
+    writer.write(crc16(writer.bytes, 0, writer.length), 16);
+
+    const frame = writer.toUint8Array();
+    minFrameSize = Math.min(minFrameSize, frame.length);
+    maxFrameSize = Math.max(maxFrameSize, frame.length);
+    frames.push(frame);
+  }
+
+  const header = new BitWriter();
+  header.write(0x664c6143, 32);                  // "fLaC"
+  header.write(1, 1);                            // last metadata block
+  header.write(0, 7);                            // STREAMINFO
+  header.write(34, 24);                          // block length
+  header.write(BLOCK_SIZE, 16);                  // min block size
+  header.write(BLOCK_SIZE, 16);                  // max block size
+  header.write(frames.length ? minFrameSize : 0, 24);
+  header.write(maxFrameSize, 24);
+  header.write(buffer.sampleRate, 20);
+  header.write(numChannels - 1, 3);
+  header.write(bitDepth - 1, 5);
+  header.write(buffer.length, 36);               // total samples
+  for (let i = 0; i < 4; i++) header.write(0, 32); // MD5 left unset
+
+  const parts = [header.toUint8Array(), ...frames];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,175 @@
+// Tiny deterministic "speech" synthesizer for offline development. It doesn't
+// produce intelligible words, but the output has the rhythm of the text: voiced
+// vowels shaped by formants, noisy consonants, gaps between words and longer
+// pauses at punctuation, so captions, joins and exports behave as with real speech.
+
+export type SynthMode = 'formant' | 'tone';
+
+export interface SynthOptions {
+  sampleRate: number;
+  // Base pitch in Hz
+  pitch: number;
+  // Formant frequencies are multiplied by this (higher for smaller vocal tracts)
+  formantScale: number;
+  // Speaking rate; 1 is roughly 150 words per minute
+  rate: number;
+  mode: SynthMode;
+}
+
+// F1, F2, F3 of each vowel in Hz (adult male averages)
+const VOWEL_FORMANTS: Record<string, [number, number, number]> = {
+  a: [730, 1090, 2440],
+  e: [530, 1840, 2480],
+  i: [270, 2290, 3010],
+  o: [570, 840, 2410],
+  u: [300, 870, 2240],
+  y: [270, 2290, 3010],
+};
+const FORMANT_BANDWIDTH = 90;
+const TARGET_PEAK = 0.8;
+
+const FRICATIVES = new Set('fhjsvxz');
+const PLOSIVES = new Set('bcdgkpqt');
+const NASALS = new Set('lmnrw');
+
+// Seconds per unit at rate 1
+const VOWEL_SECONDS = 0.11;
+const CONSONANT_SECONDS = 0.06;
+const WORD_GAP_SECONDS = 0.05;
+const PUNCTUATION_PAUSES: Record<string, number> = {
+  ',': 0.22, ';': 0.3, ':': 0.3, '.': 0.5, '!': 0.5, '?': 0.5, '\n': 0.6,
+};
+
+// Small seeded PRNG (mulberry32) so the same text always renders identically
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+};
+
+type Unit =
+  | { kind: 'vowel'; formants: [number, number, number]; seconds: number }
+  | { kind: 'fricative' | 'plosive' | 'nasal' | 'silence'; seconds: number };
+
+// Turns text into a sequence of timed sound units
+function toUnits(text: string, rate: number): Unit[] {
+  const units: Unit[] = [];
+  const lower = text.toLowerCase();
+  let lastWasGap = true;
+
+  for (const char of lower) {
+    const pause = PUNCTUATION_PAUSES[char];
+    if (pause !== undefined) {
+      units.push({ kind: 'silence', seconds: pause / rate });
+      lastWasGap = true;
+    } else if (/\s/.test(char)) {
+      if (!lastWasGap) units.push({ kind: 'silence', seconds: WORD_GAP_SECONDS / rate });
+      lastWasGap = true;
+    } else if (VOWEL_FORMANTS[char]) {
+      units.push({ kind: 'vowel', formants: VOWEL_FORMANTS[char], seconds: VOWEL_SECONDS / rate });
+      lastWasGap = false;
+    } else if (/[\p{L}\p{N}]/u.test(char)) {
+      // Digits and letters outside a-z get a neutral vowel
+      const kind = FRICATIVES.has(char) ? 'fricative' : PLOSIVES.has(char) ? 'plosive' : NASALS.has(char) ? 'nasal' : 'vowel';
+      units.push(kind === 'vowel'
+        ? { kind, formants: VOWEL_FORMANTS.a, seconds: VOWEL_SECONDS / rate }
+        : { kind, seconds: CONSONANT_SECONDS / rate });
+      lastWasGap = false;
+    }
+  }
+  return units;
+}
+
+// Harmonic amplitude at `frequency` for a vowel: a sum of resonance peaks
+const formantGain = (frequency: number, formants: number[]) =>
+  formants.reduce((sum, f, i) => {
+    const d = (frequency - f) / FORMANT_BANDWIDTH;
+    return sum + Math.exp(-0.5 * d * d) / (i + 1);
+  }, 0.02);
+
+export function synthesizeText(text: string, options: SynthOptions): Float32Array {
+  const { sampleRate, pitch, formantScale, rate, mode } = options;
+  const units = toUnits(text, Math.max(0.25, rate));
+  const totalSeconds = units.reduce((sum, u) => sum + u.seconds, 0) + 0.1;
+  const output = new Float32Array(Math.ceil(totalSeconds * sampleRate));
+  const random = createRandom(hashString(text) ^ Math.round(pitch * 100));
+  const twoPi = 2 * Math.PI;
+
+  let cursor = Math.round(0.05 * sampleRate);
+  let phase = 0;
+  let noiseState = 0;
+
+  units.forEach((unit, index) => {
+    const length = Math.round(unit.seconds * sampleRate);
+    // Short attack/release so units don't click
+    const ramp = Math.min(length / 2, Math.round(0.008 * sampleRate));
+    // Pitch drifts down over a phrase and varies a little per unit
+    const unitPitch = pitch * (1.08 - 0.16 * (index / Math.max(1, units.length))) * (0.96 + random() * 0.08);
+
+    if (unit.kind === 'silence') {
+      cursor += length;
+      return;
+    }
+
+    const formants = unit.kind === 'vowel' ? unit.formants.map(f => f * formantScale) : [];
+    const harmonics: { ratio: number; gain: number }[] = [];
+    if (unit.kind === 'vowel' && mode === 'formant') {
+      const count = Math.min(40, Math.floor(4000 / unitPitch));
+      let norm = 0;
+      for (let k = 1; k <= count; k++) {
+        const gain = formantGain(k * unitPitch, formants);
+        harmonics.push({ ratio: k, gain });
+        norm += gain;
+      }
+      harmonics.forEach(h => { h.gain /= norm; });
+    }
+
+    for (let i = 0; i < length && cursor + i < output.length; i++) {
+      const envelope = Math.min(1, i / ramp, (length - i) / ramp);
+      let sample = 0;
+
+      if (unit.kind === 'vowel') {
+        phase += twoPi * unitPitch / sampleRate;
+        if (mode === 'tone') {
+          sample = 0.5 * Math.sin(phase);
+        } else {
+          for (const h of harmonics) sample += h.gain * Math.sin(phase * h.ratio);
+          sample *= 1.6;
+        }
+      } else if (unit.kind === 'nasal') {
+        phase += twoPi * unitPitch / sampleRate;
+        sample = 0.3 * Math.sin(phase) + 0.08 * Math.sin(phase * 2);
+      } else {
+        const noise = random() * 2 - 1;
+        if (unit.kind === 'fricative') {
+          // First-difference of the noise gives a hissy, high-passed sound
+          sample = 0.25 * (noise - noiseState);
+          noiseState = noise;
+        } else {
+          // Plosive: a short burst at the start of the unit, then closure
+          sample = i < length * 0.35 ? 0.4 * noise * (1 - i / (length * 0.35)) : 0;
+        }
+      }
+      output[cursor + i] += sample * envelope;
+    }
+    cursor += length;
+  });
+
+  // Summed harmonics can overshoot; bring the loudest sample to a fixed level
+  const result = output.subarray(0, Math.min(output.length, cursor + Math.round(0.05 * sampleRate)));
+  const peak = result.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  if (peak > 0) {
+    const gain = TARGET_PEAK / peak;
+    for (let i = 0; i < result.length; i++) result[i] *= gain;
+  }
+  return result;
+}
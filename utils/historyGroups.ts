@@ -0,0 +1,105 @@
+import { GeneratedAudio, VoiceName } from "../types";
+import { dayKey } from "./usageStats";
+
+// Items saved before takes were tracked are each the first take of their own group
+export const takeGroupOf = (item: GeneratedAudio) => item.takeGroup ?? item.id;
+export const takeNumberOf = (item: GeneratedAudio) => item.take ?? 1;
+
+// Numbers a new clip as the next take of any earlier generation of the same text.
+// Localized clips are grouped by source line instead, so they never become takes.
+export const assignTake = (item: GeneratedAudio, history: GeneratedAudio[]): GeneratedAudio => {
+  if (item.localization) return item;
+  const previous = history.find(h => !h.localization && h.text === item.text);
+  if (!previous) return item;
+  const group = takeGroupOf(previous);
+  const last = Math.max(...history.filter(h => takeGroupOf(h) === group).map(takeNumberOf));
+  return { ...item, takeGroup: group, take: last + 1 };
+};
+
+export interface HistoryFilter {
+  query: string;
+  // Matches single-voice clips and any dialogue that casts the voice
+  voice: VoiceName | '';
+  // Local calendar days (YYYY-MM-DD), inclusive; empty for no limit
+  from: string;
+  to: string;
+  favoritesOnly: boolean;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = { query: '', voice: '', from: '', to: '', favoritesOnly: false };
+
+export const isFilterActive = (filter: HistoryFilter) =>
+  filter.query.trim() !== '' || filter.voice !== '' || filter.from !== '' || filter.to !== '' || filter.favoritesOnly;
+
+// Splits "a, b,, c" into distinct trimmed tags
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(',').map(tag => tag.trim()).filter(Boolean))];
+
+const searchableText = (item: GeneratedAudio) => [
+  item.text,
+  item.notes,
+  item.profile,
+  item.localization?.sourceText,
+  ...(item.tags ?? []),
+].filter(Boolean).join('\n').toLowerCase();
+
+// Every word of the query has to appear in the clip's text, notes, tags or profile
+export const matchesFilter = (item: GeneratedAudio, filter: HistoryFilter): boolean => {
+  if (filter.favoritesOnly && !item.favorite) return false;
+  if (filter.voice && item.voice !== filter.voice &&
+    !(item.script && Object.values(item.script.speakers).includes(filter.voice))) return false;
+  const day = dayKey(item.timestamp);
+  if (filter.from && day < filter.from) return false;
+  if (filter.to && day > filter.to) return false;
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = searchableText(item);
+  return words.every(word => text.includes(word));
+};
+
+// History as listed. Takes of the same text share one entry showing the best take
+// (or the newest), and localized clips are gathered into one entry per source line;
+// either is placed where its newest clip would be. An entry is kept when any of its
+// clips matches the filter; localized entries list only the clips that match.
+export type HistoryEntry =
+  | { kind: 'item'; item: GeneratedAudio; takes: GeneratedAudio[] }
+  | { kind: 'group'; groupId: string; sourceText: string; items: GeneratedAudio[] };
+
+export const groupHistory = (history: GeneratedAudio[], filter: HistoryFilter = EMPTY_HISTORY_FILTER): HistoryEntry[] => {
+  const entries: HistoryEntry[] = [];
+  const groups = new Map<string, Extract<HistoryEntry, { kind: 'group' }>>();
+  const takes = new Map<string, Extract<HistoryEntry, { kind: 'item' }>>();
+  for (const item of history) {
+    const info = item.localization;
+    if (!info) {
+      const id = takeGroupOf(item);
+      let entry = takes.get(id);
+      if (!entry) {
+        entry = { kind: 'item', item, takes: [] };
+        takes.set(id, entry);
+        entries.push(entry);
+      }
+      entry.takes.push(item);
+      continue;
+    }
+    let group = groups.get(info.groupId);
+    if (!group) {
+      group = { kind: 'group', groupId: info.groupId, sourceText: info.sourceText, items: [] };
+      groups.set(info.groupId, group);
+      entries.push(group);
+    }
+    group.items.push(item);
+  }
+  groups.forEach(group => group.items.sort((a, b) => a.localization!.locale.localeCompare(b.localization!.locale)));
+  takes.forEach(entry => {
+    entry.takes.sort((a, b) => takeNumberOf(b) - takeNumberOf(a));
+    entry.item = entry.takes.find(t => t.best) ?? entry.takes[0];
+  });
+
+  if (!isFilterActive(filter)) return entries;
+  return entries.flatMap((entry): HistoryEntry[] => {
+    if (entry.kind === 'item') return entry.takes.some(t => matchesFilter(t, filter)) ? [entry] : [];
+    const items = entry.items.filter(item => matchesFilter(item, filter));
+    return items.length > 0 ? [{ ...entry, items }] : [];
+  });
+};
@@ -0,0 +1,48 @@
+// ID3v2.4 tags for exported MP3s. Only text frames are written, all as UTF-8.
+
+export interface Id3Tags {
+  title?: string;
+  album?: string;
+  artist?: string;
+  // "3/12" style track position
+  track?: string;
+}
+
+const FRAME_IDS: Record<keyof Id3Tags, string> = {
+  title: 'TIT2',
+  album: 'TALB',
+  artist: 'TPE1',
+  track: 'TRCK',
+};
+
+// ID3v2.4 sizes are "syncsafe": 7 bits per byte
+const syncsafe = (value: number) =>
+  Uint8Array.of((value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f);
+
+function textFrame(id: string, value: string): Uint8Array {
+  const text = new TextEncoder().encode(value);
+  const frame = new Uint8Array(10 + 1 + text.length);
+  frame.set(Uint8Array.from(id, c => c.charCodeAt(0)), 0);
+  frame.set(syncsafe(1 + text.length), 4);
+  // Two flag bytes stay zero; then the encoding byte (3 = UTF-8)
+  frame[10] = 3;
+  frame.set(text, 11);
+  return frame;
+}
+
+export function buildId3Tag(tags: Id3Tags): Uint8Array {
+  const frames = (Object.keys(FRAME_IDS) as (keyof Id3Tags)[])
+    .filter(key => tags[key])
+    .map(key => textFrame(FRAME_IDS[key], tags[key]!));
+  const size = frames.reduce((sum, f) => sum + f.length, 0);
+
+  const tag = new Uint8Array(10 + size);
+  tag.set([0x49, 0x44, 0x33, 4, 0, 0], 0);   // "ID3", version 2.4.0, no flags
+  tag.set(syncsafe(size), 6);
+  let offset = 10;
+  for (const frame of frames) {
+    tag.set(frame, offset);
+    offset += frame.length;
+  }
+  return tag;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseLexiconFile } from './lexicon';
+
+const ids = () => { let n = 0; return () => String(++n); };
+
+describe('parseLexiconFile', () => {
+  it('reads an object with entries, defaulting the flags', () => {
+    const parsed = parseLexiconFile(JSON.stringify({
+      name: 'Brands',
+      entries: [{ term: ' SQL ', replacement: 'sequel', voices: { Kore: 'S Q L' } }],
+    }), ids());
+    expect(parsed).toEqual({
+      name: 'Brands',
+      entries: [{ id: '1', term: 'SQL', replacement: 'sequel', caseSensitive: false, wholeWord: true, voiceOverrides: { Kore: 'S Q L' } }],
+    });
+  });
+
+  it('reads a bare array of entries', () => {
+    expect(parseLexiconFile('[{"term":"GIF","replacement":"jif","caseSensitive":true}]', ids()).entries)
+      .toMatchObject([{ term: 'GIF', caseSensitive: true, voiceOverrides: undefined }]);
+  });
+
+  it('rejects malformed files with a message', () => {
+    const parse = (content: string) => () => parseLexiconFile(content, ids());
+    expect(parse('{')).toThrow('not valid JSON');
+    expect(parse('null')).toThrow('"entries" array');
+    expect(parse('[null]')).toThrow('Entry 1 needs');
+    expect(parse('[{"term":"a","replacement":"b","voices":null}]')).toThrow('Entry 1: "voices" must map');
+    expect(parse('[{"term":"a","replacement":"b","voiceOverrides":null}]')).toThrow('Entry 1: "voices" must map');
+    expect(parse('[{"term":"a","replacement":"b","voices":{"Kore":1}}]')).toThrow('Entry 1: "voices" must map');
+  });
+});
@@ -0,0 +1,121 @@
+import { LexiconEntry } from "../types";
+
+// A run of output text; runs produced by an entry also carry the matched original
+export interface LexiconSegment {
+  text: string;
+  original?: string;
+  entryId?: string;
+}
+
+export interface LexiconResult {
+  text: string;
+  segments: LexiconSegment[];
+}
+
+interface Match {
+  start: number;
+  end: number;
+  entry: LexiconEntry;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const patternFor = (entry: LexiconEntry) => {
+  const term = escapeRegExp(entry.term);
+  const source = entry.wholeWord ? `(?<![\\p{L}\\p{N}_])${term}(?![\\p{L}\\p{N}_])` : term;
+  return new RegExp(source, entry.caseSensitive ? 'gu' : 'giu');
+};
+
+export const replacementFor = (entry: LexiconEntry, voice?: string) =>
+  (voice && entry.voiceOverrides?.[voice]) || entry.replacement;
+
+// Substitutes every entry in one pass over the original text, so a replacement is never
+// matched again by another entry. Where matches overlap the earliest wins, then the longest.
+export function applyLexicon(text: string, entries: LexiconEntry[], voice?: string): LexiconResult {
+  const matches: Match[] = [];
+  for (const entry of entries) {
+    if (!entry.term) continue;
+    for (const match of text.matchAll(patternFor(entry))) {
+      matches.push({ start: match.index!, end: match.index! + match[0].length, entry });
+    }
+  }
+  matches.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const segments: LexiconSegment[] = [];
+  let position = 0;
+  for (const match of matches) {
+    if (match.start < position) continue;
+    if (match.start > position) segments.push({ text: text.slice(position, match.start) });
+    segments.push({
+      text: replacementFor(match.entry, voice),
+      original: text.slice(match.start, match.end),
+      entryId: match.entry.id,
+    });
+    position = match.end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position) });
+
+  return { text: segments.map(s => s.text).join(''), segments };
+}
+
+// ---- JSON import / export ---------------------------------------------------
+
+// The shared file format: ids are local, so they're left out
+interface LexiconFileEntry {
+  term: string;
+  replacement: string;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  voices?: Record<string, string>;
+}
+
+export const serializeLexicon = (name: string, entries: LexiconEntry[]): string =>
+  JSON.stringify({
+    name,
+    entries: entries.map(({ term, replacement, caseSensitive, wholeWord, voiceOverrides }): LexiconFileEntry => ({
+      term,
+      replacement,
+      caseSensitive,
+      wholeWord,
+      ...(voiceOverrides && Object.keys(voiceOverrides).length > 0 ? { voices: voiceOverrides } : {}),
+    })),
+  }, null, 2);
+
+// Accepts { name?, entries: [...] } or a bare array of entries. Missing flags default to
+// case-insensitive whole-word matching, which is what brand names and acronyms want.
+export function parseLexiconFile(content: string, createId: () => string): { name?: string; entries: LexiconEntry[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    throw new Error("The lexicon file is not valid JSON");
+  }
+
+  const list = Array.isArray(data) ? data : (data as { entries?: unknown })?.entries;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected an array of entries or an object with an "entries" array');
+  }
+
+  const entries = list.map((value: unknown, i: number): LexiconEntry => {
+    const item = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    if (typeof item.term !== 'string' || !item.term.trim() || typeof item.replacement !== 'string') {
+      throw new Error(`Entry ${i + 1} needs a non-empty "term" and a "replacement"`);
+    }
+    const voices = 'voices' in item ? item.voices : item.voiceOverrides;
+    if (voices !== undefined && (!voices || typeof voices !== 'object' || Array.isArray(voices)
+      || Object.values(voices).some(v => typeof v !== 'string'))) {
+      throw new Error(`Entry ${i + 1}: "voices" must map voice names to replacements`);
+    }
+    return {
+      id: createId(),
+      term: item.term.trim(),
+      replacement: item.replacement,
+      caseSensitive: item.caseSensitive === true,
+      wholeWord: item.wholeWord !== false,
+      voiceOverrides: voices as Record<string, string> | undefined,
+    };
+  });
+
+  const name = (data as { name?: unknown })?.name;
+  return { name: typeof name === 'string' ? name : undefined, entries };
+}
@@ -0,0 +1,19 @@
+// Languages offered as localization targets. Any BCP 47 tag works; these are the
+// ones the prebuilt voices handle well.
+export const LOCALES = [
+  'en-US', 'en-GB', 'de-DE', 'fr-FR', 'es-ES', 'es-MX', 'it-IT', 'pt-BR', 'pt-PT', 'nl-NL',
+  'pl-PL', 'sv-SE', 'tr-TR', 'ru-RU', 'uk-UA', 'ar-EG', 'hi-IN', 'id-ID', 'ja-JP', 'ko-KR',
+  'zh-CN', 'zh-TW', 'th-TH', 'vi-VN',
+];
+
+let displayNames: Intl.DisplayNames | null = null;
+
+// English name of a locale, e.g. "German (Germany)"; the tag itself if the browser can't name it
+export const localeName = (locale: string): string => {
+  try {
+    displayNames ??= new Intl.DisplayNames(['en'], { type: 'language' });
+    return displayNames.of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+};
@@ -0,0 +1,109 @@
+// Integrated loudness per ITU-R BS.1770-4 / EBU R128: K-weighting, 400 ms blocks
+// with 75% overlap, an absolute gate at -70 LUFS and a relative gate 10 LU below.
+
+interface Biquad {
+  b0: number; b1: number; b2: number; a1: number; a2: number;
+}
+
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1;
+
+// K-weighting prototype parameters
+const SHELF_GAIN_DB = 3.999843853973347;
+const SHELF_Q = 0.7071752369554196;
+const SHELF_FREQUENCY = 1681.974450955533;
+const HIGH_PASS_Q = 0.5003270373238773;
+const HIGH_PASS_FREQUENCY = 38.13547087602444;
+
+// The standard gives coefficients for 48 kHz only; these are derived from the
+// analogue prototypes (as libebur128 does) so any sample rate works
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  // Stage 1: high shelf modelling the acoustic effect of the head
+  let K = Math.tan((Math.PI * SHELF_FREQUENCY) / sampleRate);
+  const Vh = Math.pow(10, SHELF_GAIN_DB / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / SHELF_Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / SHELF_Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / SHELF_Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / SHELF_Q + K * K) / a0,
+  };
+
+  // Stage 2: RLB high-pass
+  K = Math.tan((Math.PI * HIGH_PASS_FREQUENCY) / sampleRate);
+  a0 = 1 + K / HIGH_PASS_Q + K * K;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / HIGH_PASS_Q + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float32Array, f: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// Integrated loudness in LUFS, or -Infinity for silence. All channels are
+// weighted 1.0 (correct for mono and stereo; surround weighting isn't needed here).
+export function measureLoudness(buffer: AudioBuffer): number {
+  const filters = kWeightingFilters(buffer.sampleRate);
+  const weighted: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    weighted.push(filters.reduce(applyBiquad, buffer.getChannelData(channel)));
+  }
+
+  const blockFrames = Math.round(BLOCK_SECONDS * buffer.sampleRate);
+  const stepFrames = Math.round(STEP_SECONDS * buffer.sampleRate);
+  const blocks: number[] = [];
+
+  // Clips shorter than one block are measured as a single partial block
+  for (let start = 0; start === 0 || start + blockFrames <= buffer.length; start += stepFrames) {
+    const end = Math.min(buffer.length, start + blockFrames);
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += data[i] * data[i];
+      power += sum / Math.max(1, end - start);
+    }
+    blocks.push(power);
+  }
+
+  const aboveAbsolute = blocks.filter(power => toLufs(power) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(power => toLufs(power) > relativeGate);
+  return toLufs(mean(gated));
+}
+
+export function measurePeakDb(buffer: AudioBuffer): number {
+  let peak = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return 20 * Math.log10(peak);
+}
@@ -0,0 +1,297 @@
+// AAC audiobook (.m4b) encoding on top of the browser's WebCodecs AudioEncoder.
+// WebCodecs only produces raw AAC frames, so the MP4 container is written here,
+// with chapters stored twice: as a QuickTime chapter text track (Apple players)
+// and as a Nero 'chpl' box (most other players).
+
+export interface M4bChapter {
+  title: string;
+  // Seconds from the start of the book
+  start: number;
+}
+
+export interface M4bMetadata {
+  title: string;
+  author?: string;
+}
+
+// AAC frames always hold 1024 samples per channel
+const SAMPLES_PER_FRAME = 1024;
+
+// Chapter text is timed in milliseconds
+const CHAPTER_TIMESCALE = 1000;
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Big-endian fields
+const u8 = (value: number) => Uint8Array.of(value & 0xff);
+const u16 = (value: number) => Uint8Array.of((value >>> 8) & 0xff, value & 0xff);
+const u32 = (value: number) => Uint8Array.of((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+const u64 = (value: number) => concat([u32(Math.floor(value / 0x100000000)), u32(value % 0x100000000)]);
+
+const box = (type: string, ...content: Uint8Array[]) => {
+  const body = concat(content);
+  return concat([u32(8 + body.length), ascii(type), body]);
+};
+const fullBox = (type: string, version: number, flags: number, ...content: Uint8Array[]) =>
+  box(type, u8(version), u8(flags >> 16), u16(flags & 0xffff), ...content);
+
+const MATRIX = concat([u32(0x00010000), u32(0), u32(0), u32(0), u32(0x00010000), u32(0), u32(0), u32(0), u32(0x40000000)]);
+// ISO-639-2 "und", packed as three 5-bit letters
+const LANGUAGE_UND = 0x55c4;
+
+// AudioSpecificConfig for AAC-LC, used when the encoder doesn't supply one
+function buildAudioSpecificConfig(sampleRate: number, numChannels: number): Uint8Array {
+  const index = AAC_SAMPLE_RATES.indexOf(sampleRate);
+  return u16((2 << 11) | (index << 7) | (numChannels << 3));
+}
+
+// MPEG-4 descriptors use a tag byte and a length; everything here fits in one length byte
+const descriptor = (tag: number, ...content: Uint8Array[]) => {
+  const body = concat(content);
+  return concat([u8(tag), u8(body.length), body]);
+};
+
+function buildEsds(config: Uint8Array, bitrate: number): Uint8Array {
+  return fullBox('esds', 0, 0, descriptor(0x03,
+    u16(0),                                   // ES_ID
+    u8(0),                                    // flags
+    descriptor(0x04,
+      u8(0x40),                               // object type: MPEG-4 audio
+      u8(0x15),                               // stream type: audio
+      concat([u8(0), u16(0)]),                // buffer size
+      u32(bitrate),                           // max bitrate
+      u32(bitrate),                           // average bitrate
+      descriptor(0x05, config)
+    ),
+    descriptor(0x06, u8(0x02))                // SL config: MP4
+  ));
+}
+
+const trackHeader = (trackId: number, duration: number, flags: number, volume: number) =>
+  fullBox('tkhd', 0, flags,
+    u32(0), u32(0),                           // creation and modification time
+    u32(trackId), u32(0), u32(duration),
+    u32(0), u32(0),                           // reserved
+    u16(0), u16(0),                           // layer, alternate group
+    u16(volume), u16(0),
+    MATRIX,
+    u32(0), u32(0)                            // width, height
+  );
+
+const mediaHeader = (timescale: number, duration: number) =>
+  fullBox('mdhd', 0, 0, u32(0), u32(0), u32(timescale), u32(duration), u16(LANGUAGE_UND), u16(0));
+
+const handler = (type: string, name: string) =>
+  fullBox('hdlr', 0, 0, u32(0), ascii(type), u32(0), u32(0), u32(0), utf8(name), u8(0));
+
+const dataInformation = () => box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+
+// Sample tables for samples stored back to back in a single chunk
+const sampleTable = (entry: Uint8Array, durations: number[], sizes: number[], offset: number) => {
+  const runs: [number, number][] = [];
+  for (const duration of durations) {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === duration) last[0]++;
+    else runs.push([1, duration]);
+  }
+  return box('stbl',
+    fullBox('stsd', 0, 0, u32(1), entry),
+    fullBox('stts', 0, 0, u32(runs.length), ...runs.flatMap(([count, duration]) => [u32(count), u32(duration)])),
+    fullBox('stsc', 0, 0, u32(1), u32(1), u32(sizes.length), u32(1)),
+    fullBox('stsz', 0, 0, u32(0), u32(sizes.length), ...sizes.map(u32)),
+    fullBox('stco', 0, 0, u32(1), u32(offset))
+  );
+};
+
+// QuickTime text sample description, as chapter tracks use it
+const textSampleEntry = () => box('text',
+  new Uint8Array(6), u16(1),                  // reserved, data reference index
+  u32(0), u32(0),                             // display flags, justification
+  new Uint8Array(6),                          // background colour
+  new Uint8Array(8),                          // default text box
+  new Uint8Array(8),                          // reserved
+  u16(0), u16(0), u8(0), u16(0),              // font number, face, reserved
+  new Uint8Array(6),                          // foreground colour
+  u8(0)                                       // empty font name
+);
+
+// Each chapter title sample: a length-prefixed UTF-8 string plus an encoding atom
+const chapterSample = (title: string) => {
+  const text = utf8(title).subarray(0, 0xffff);
+  return concat([u16(text.length), text, box('encd', u32(0x00000100))]);
+};
+
+// Nero chapter list: start times in 100 ns units, titles of up to 255 bytes
+const neroChapters = (chapters: M4bChapter[]) => fullBox('chpl', 1, 0,
+  u32(0),
+  u8(Math.min(chapters.length, 255)),
+  ...chapters.slice(0, 255).flatMap(chapter => {
+    const title = utf8(chapter.title).subarray(0, 255);
+    return [u64(Math.round(chapter.start * 1e7)), u8(title.length), title];
+  })
+);
+
+// iTunes-style metadata; 'stik' 2 marks the file as an audiobook
+const itunesMetadata = ({ title, author }: M4bMetadata) => {
+  const text = (type: string, value: string) => box(type, box('data', u32(1), u32(0), utf8(value)));
+  return fullBox('meta', 0, 0,
+    handler('mdir', ''),
+    box('ilst',
+      text('©nam', title),
+      text('©alb', title),
+      ...(author ? [text('©ART', author)] : []),
+      text('©too', 'Gemini Voice Studio'),
+      box('stik', box('data', u32(21), u32(0), u8(2)))
+    )
+  );
+};
+
+export async function isAacEncodingSupported(sampleRate: number, numChannels: number, bitrate: number): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({ codec: 'mp4a.40.2', sampleRate, numberOfChannels: numChannels, bitrate });
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+// Encodes a whole book as AAC-LC in an .m4b with chapter markers. bitrate is in bits
+// per second; the buffer's rate must be one AAC supports (44.1 or 48 kHz are safest).
+export async function encodeM4b(buffer: AudioBuffer, chapters: M4bChapter[], metadata: M4bMetadata, bitrate: number): Promise<Blob> {
+  const sampleRate = buffer.sampleRate;
+  const numChannels = Math.min(buffer.numberOfChannels, 2);
+  if (!AAC_SAMPLE_RATES.includes(sampleRate)) {
+    throw new Error(`AAC does not support ${sampleRate} Hz audio`);
+  }
+  if (!(await isAacEncodingSupported(sampleRate, numChannels, bitrate))) {
+    throw new Error("This browser can't encode AAC, which M4B needs. Try Chrome, Edge or Safari, or export an MP3 set instead.");
+  }
+
+  const frames: Uint8Array[] = [];
+  let config: Uint8Array | null = null;
+  let encodeError: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push(data);
+      const description = meta?.decoderConfig?.description;
+      if (!config && description) {
+        config = description instanceof ArrayBuffer
+          ? new Uint8Array(description).slice()
+          : new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice();
+      }
+    },
+    error: (e) => {
+      encodeError = e instanceof Error ? e : new Error(String(e));
+    },
+  });
+  encoder.configure({ codec: 'mp4a.40.2', sampleRate, numberOfChannels: numChannels, bitrate });
+
+  // Feed the encoder one second at a time as planar float data
+  for (let start = 0; start < buffer.length; start += sampleRate) {
+    const count = Math.min(sampleRate, buffer.length - start);
+    const planar = new Float32Array(count * numChannels);
+    for (let channel = 0; channel < numChannels; channel++) {
+      planar.set(buffer.getChannelData(channel).subarray(start, start + count), channel * count);
+    }
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate,
+      numberOfFrames: count,
+      numberOfChannels: numChannels,
+      timestamp: Math.round((start / sampleRate) * 1e6),
+      data: planar,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) throw encodeError;
+
+  const audioDuration = frames.length * SAMPLES_PER_FRAME;
+  const movieDuration = Math.round((audioDuration / sampleRate) * CHAPTER_TIMESCALE);
+
+  // Chapter samples run from one start to the next, the last one to the end
+  const sorted = [...chapters].sort((a, b) => a.start - b.start);
+  const chapterStarts = sorted.map(c => Math.round(c.start * CHAPTER_TIMESCALE));
+  const chapterDurations = chapterStarts.map((start, i) => Math.max(1, (chapterStarts[i + 1] ?? movieDuration) - start));
+  const chapterSamples = sorted.map(c => chapterSample(c.title));
+
+  const ftyp = box('ftyp', ascii('M4B '), u32(0), ascii('M4B '), ascii('M4A '), ascii('mp42'), ascii('isom'));
+  const audioSize = frames.reduce((sum, f) => sum + f.length, 0);
+  const textSize = chapterSamples.reduce((sum, s) => sum + s.length, 0);
+  const audioOffset = ftyp.length + 8;
+  const textOffset = audioOffset + audioSize;
+  const mdatHeader = concat([u32(8 + audioSize + textSize), ascii('mdat')]);
+
+  const mp4a = box('mp4a',
+    new Uint8Array(6), u16(1),                // reserved, data reference index
+    u32(0), u32(0),                           // version, revision, vendor
+    u16(numChannels), u16(16), u16(0), u16(0),
+    u32(sampleRate * 0x10000),
+    buildEsds(config ?? buildAudioSpecificConfig(sampleRate, numChannels), bitrate)
+  );
+
+  const hasChapters = sorted.length > 0;
+  const audioTrack = box('trak',
+    trackHeader(1, movieDuration, 0x3, 0x0100),
+    ...(hasChapters ? [box('tref', box('chap', u32(2)))] : []),
+    box('mdia',
+      mediaHeader(sampleRate, audioDuration),
+      handler('soun', 'SoundHandler'),
+      box('minf',
+        fullBox('smhd', 0, 0, u16(0), u16(0)),
+        dataInformation(),
+        sampleTable(mp4a, frames.map(() => SAMPLES_PER_FRAME), frames.map(f => f.length), audioOffset)
+      )
+    )
+  );
+
+  // Disabled, so players don't show chapter titles as subtitles
+  const chapterTrack = box('trak',
+    trackHeader(2, movieDuration, 0, 0),
+    box('mdia',
+      mediaHeader(CHAPTER_TIMESCALE, movieDuration),
+      handler('text', 'ChapterHandler'),
+      box('minf',
+        fullBox('nmhd', 0, 0),
+        dataInformation(),
+        sampleTable(textSampleEntry(), chapterDurations, chapterSamples.map(s => s.length), textOffset)
+      )
+    )
+  );
+
+  const moov = box('moov',
+    fullBox('mvhd', 0, 0,
+      u32(0), u32(0),                         // creation and modification time
+      u32(CHAPTER_TIMESCALE), u32(movieDuration),
+      u32(0x00010000), u16(0x0100),           // rate, volume
+      new Uint8Array(10),                     // reserved
+      MATRIX,
+      new Uint8Array(24),                     // pre-defined
+      u32(hasChapters ? 3 : 2)                // next track id
+    ),
+    audioTrack,
+    ...(hasChapters ? [chapterTrack] : []),
+    box('udta', ...(hasChapters ? [neroChapters(sorted)] : []), itunesMetadata(metadata))
+  );
+
+  return new Blob([ftyp, mdatHeader, ...frames, ...chapterSamples, moov] as BlobPart[], { type: 'audio/mp4' });
+}
@@ -0,0 +1,41 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+// Sample rates LAME can write (MPEG-1, MPEG-2 and MPEG-2.5 layer III)
+export const MP3_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000];
+
+// Samples handed to LAME per call; a multiple of the 1152-sample MP3 frame
+const SAMPLES_PER_CALL = 1152 * 10;
+
+function toInt16(data: Float32Array): Int16Array {
+  const out = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    out[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return out;
+}
+
+// Encodes a mono or stereo AudioBuffer as constant-bitrate MP3. kbps is the bitrate in kbit/s.
+export function encodeMp3(buffer: AudioBuffer, kbps: number): Blob {
+  if (!MP3_SAMPLE_RATES.includes(buffer.sampleRate)) {
+    throw new Error(`MP3 does not support ${buffer.sampleRate} Hz audio`);
+  }
+
+  const numChannels = Math.min(buffer.numberOfChannels, 2);
+  const left = toInt16(buffer.getChannelData(0));
+  const right = numChannels > 1 ? toInt16(buffer.getChannelData(1)) : undefined;
+  const encoder = new Mp3Encoder(numChannels, buffer.sampleRate, kbps);
+
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < left.length; i += SAMPLES_PER_CALL) {
+    const frame = encoder.encodeBuffer(
+      left.subarray(i, i + SAMPLES_PER_CALL),
+      right?.subarray(i, i + SAMPLES_PER_CALL)
+    );
+    if (frame.length > 0) parts.push(frame);
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(tail);
+
+  return new Blob(parts as BlobPart[], { type: 'audio/mpeg' });
+}
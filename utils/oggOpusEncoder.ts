@@ -0,0 +1,219 @@
+// Opus-in-Ogg encoding on top of the browser's WebCodecs AudioEncoder.
+// WebCodecs only produces raw Opus packets, so the Ogg container (RFC 3533)
+// and the OpusHead/OpusTags headers (RFC 7845) are written here.
+
+// Opus always runs at 48 kHz internally; granule positions are counted at this rate
+export const OPUS_SAMPLE_RATE = 48000;
+
+// libopus encoder lookahead at 48 kHz, used when the encoder doesn't hand us an OpusHead
+const DEFAULT_PRE_SKIP = 312;
+
+// Flush a page after this many packets (~1 s of 20 ms packets)
+const PACKETS_PER_PAGE = 50;
+
+const CRC32_TABLE = new Uint32Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc = i << 24;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  }
+  CRC32_TABLE[i] = crc >>> 0;
+}
+
+function oggCrc(bytes: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ CRC32_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+function buildOpusHead(numChannels: number, preSkip: number, inputSampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii('OpusHead'), 0);
+  view.setUint8(8, 1);                       // version
+  view.setUint8(9, numChannels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true); // informational only
+  view.setInt16(16, 0, true);                // output gain
+  view.setUint8(18, 0);                      // mapping family 0: mono/stereo
+  return head;
+}
+
+function buildOpusTags(vendor: string): Uint8Array {
+  const vendorBytes = new TextEncoder().encode(vendor);
+  const tags = new Uint8Array(8 + 4 + vendorBytes.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(ascii('OpusTags'), 0);
+  view.setUint32(8, vendorBytes.length, true);
+  tags.set(vendorBytes, 12);
+  view.setUint32(12 + vendorBytes.length, 0, true); // no user comments
+  return tags;
+}
+
+// Writes packets into Ogg pages for a single logical stream
+class OggWriter {
+  private pages: Uint8Array[] = [];
+  private sequence = 0;
+  private serial = (Math.random() * 0xffffffff) >>> 0;
+
+  writePage(packets: Uint8Array[], granule: number, flags: number) {
+    const segments: number[] = [];
+    for (const packet of packets) {
+      let remaining = packet.length;
+      while (remaining >= 255) {
+        segments.push(255);
+        remaining -= 255;
+      }
+      segments.push(remaining);
+    }
+    if (segments.length > 255) {
+      throw new Error("Too many segments for one Ogg page");
+    }
+
+    const bodyLength = packets.reduce((sum, p) => sum + p.length, 0);
+    const page = new Uint8Array(27 + segments.length + bodyLength);
+    const view = new DataView(page.buffer);
+    page.set(ascii('OggS'), 0);
+    view.setUint8(4, 0);                                   // version
+    view.setUint8(5, flags);
+    view.setUint32(6, granule % 0x100000000, true);        // granule position, low word
+    view.setUint32(10, Math.floor(granule / 0x100000000), true);
+    view.setUint32(14, this.serial, true);
+    view.setUint32(18, this.sequence++, true);
+    view.setUint32(22, 0, true);                           // CRC, filled in below
+    view.setUint8(26, segments.length);
+    page.set(segments, 27);
+
+    let offset = 27 + segments.length;
+    for (const packet of packets) {
+      page.set(packet, offset);
+      offset += packet.length;
+    }
+    view.setUint32(22, oggCrc(page), true);
+    this.pages.push(page);
+  }
+
+  toBlob(): Blob {
+    return new Blob(this.pages as BlobPart[], { type: 'audio/ogg; codecs=opus' });
+  }
+}
+
+export async function isOpusEncodingSupported(numChannels: number, bitrate: number): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: 'opus',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfChannels: numChannels,
+      bitrate,
+    });
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+// Encodes a 48 kHz AudioBuffer (resample first) as Ogg Opus. bitrate is in bits per second.
+export async function encodeOggOpus(buffer: AudioBuffer, bitrate: number): Promise<Blob> {
+  if (buffer.sampleRate !== OPUS_SAMPLE_RATE) {
+    throw new Error(`Opus input must be ${OPUS_SAMPLE_RATE} Hz, got ${buffer.sampleRate} Hz`);
+  }
+  const numChannels = Math.min(buffer.numberOfChannels, 2);
+  if (!(await isOpusEncodingSupported(numChannels, bitrate))) {
+    throw new Error("This browser can't encode Opus. Try Chrome, Edge or a recent Firefox, or pick another format.");
+  }
+
+  const packets: { data: Uint8Array; samples: number }[] = [];
+  let opusHead: Uint8Array | null = null;
+  let encodeError: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const samples = Math.round(((chunk.duration ?? 20000) * OPUS_SAMPLE_RATE) / 1e6);
+      packets.push({ data, samples });
+
+      const description = metadata?.decoderConfig?.description;
+      if (!opusHead && description) {
+        const bytes = description instanceof ArrayBuffer
+          ? new Uint8Array(description)
+          : new Uint8Array(description.buffer, description.byteOffset, description.byteLength);
+        if (bytes.length >= 19 && String.fromCharCode(...bytes.subarray(0, 8)) === 'OpusHead') {
+          opusHead = bytes.slice();
+        }
+      }
+    },
+    error: (e) => {
+      encodeError = e instanceof Error ? e : new Error(String(e));
+    },
+  });
+
+  encoder.configure({
+    codec: 'opus',
+    sampleRate: OPUS_SAMPLE_RATE,
+    numberOfChannels: numChannels,
+    bitrate,
+  });
+
+  // Feed the encoder one second at a time as planar float data
+  const frameCount = buffer.length;
+  for (let start = 0; start < frameCount; start += OPUS_SAMPLE_RATE) {
+    const frames = Math.min(OPUS_SAMPLE_RATE, frameCount - start);
+    const planar = new Float32Array(frames * numChannels);
+    for (let channel = 0; channel < numChannels; channel++) {
+      planar.set(buffer.getChannelData(channel).subarray(start, start + frames), channel * frames);
+    }
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: frames,
+      numberOfChannels: numChannels,
+      timestamp: Math.round((start / OPUS_SAMPLE_RATE) * 1e6),
+      data: planar,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+
+  if (encodeError) throw encodeError;
+
+  const head = opusHead ?? buildOpusHead(numChannels, DEFAULT_PRE_SKIP, buffer.sampleRate);
+  const preSkip = new DataView(head.buffer, head.byteOffset).getUint16(10, true);
+  const finalGranule = preSkip + frameCount;
+
+  const ogg = new OggWriter();
+  ogg.writePage([head], 0, 0x02);                              // beginning of stream
+  ogg.writePage([buildOpusTags('Gemini Voice Studio')], 0, 0);
+
+  // Group packets into pages, staying under the 255 lacing values a page can hold
+  const segmentsFor = (packet: Uint8Array) => Math.floor(packet.length / 255) + 1;
+  let granule = preSkip;
+  let page: Uint8Array[] = [];
+  let pageSegments = 0;
+  packets.forEach((packet, i) => {
+    page.push(packet.data);
+    pageSegments += segmentsFor(packet.data);
+    granule += packet.samples;
+
+    const next = packets[i + 1];
+    const isLast = !next;
+    if (isLast || page.length >= PACKETS_PER_PAGE || pageSegments + segmentsFor(next.data) > 255) {
+      // The last page's granule trims the encoder's padding off the end
+      ogg.writePage(page, isLast ? finalGranule : Math.min(granule, finalGranule), isLast ? 0x04 : 0);
+      page = [];
+      pageSegments = 0;
+    }
+  });
+  if (packets.length === 0) {
+    ogg.writePage([], finalGranule, 0x04);
+  }
+
+  return ogg.toBlob();
+}
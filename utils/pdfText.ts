@@ -0,0 +1,484 @@
+// Pulls the text out of text-based PDFs, page by page. This is deliberately small:
+// it reads Flate-compressed content streams and object streams, maps glyphs through
+// each font's ToUnicode CMap, and reconstructs lines from the text positioning
+// operators. Scanned PDFs (images only) yield no text.
+
+interface PdfName { kind: 'name'; value: string }
+// Byte strings are kept as one char per byte until a font decodes them
+interface PdfString { kind: 'string'; value: string }
+interface PdfRef { kind: 'ref'; num: number }
+interface PdfDict { kind: 'dict'; entries: Map<string, PdfValue> }
+interface PdfOperator { kind: 'op'; value: string }
+
+type PdfValue = null | boolean | number | PdfName | PdfString | PdfRef | PdfDict | PdfValue[];
+
+interface PdfObject {
+  value: PdfValue;
+  // Raw (still encoded) stream data, when the object is a stream
+  stream?: string;
+}
+
+// Glyph code → text for one font, and how many bytes each code takes
+interface FontDecoder {
+  codeBytes: number;
+  map: Map<number, string>;
+}
+
+const WHITESPACE = ' \t\r\n\f\0';
+const DELIMITERS = '()<>[]{}/%';
+
+const toBinaryString = (bytes: Uint8Array) => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+const isName = (value: PdfValue | undefined, name?: string): value is PdfName =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'name' && (!name || value.value === name);
+
+const isOperator = (token: PdfValue | PdfOperator | undefined, value?: string): token is PdfOperator =>
+  typeof token === 'object' && token !== null && !Array.isArray(token) && token.kind === 'op' && (!value || token.value === value);
+
+const isDict = (value: PdfValue | undefined): value is PdfDict =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'dict';
+
+class PdfLexer {
+  constructor(private readonly text: string, public pos = 0) {}
+
+  private skipWhitespace() {
+    while (this.pos < this.text.length) {
+      const c = this.text[this.pos];
+      if (c === '%') {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n' && this.text[this.pos] !== '\r') this.pos++;
+      } else if (WHITESPACE.includes(c)) {
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readLiteralString(): PdfString {
+    let depth = 1;
+    let value = '';
+    this.pos++;
+    while (this.pos < this.text.length) {
+      const c = this.text[this.pos++];
+      if (c === '\\') {
+        const next = this.text[this.pos++];
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+        if (next in escapes) value += escapes[next];
+        else if (next === '\r' || next === '\n') {
+          // Line continuation
+          if (next === '\r' && this.text[this.pos] === '\n') this.pos++;
+        } else if (next >= '0' && next <= '7') {
+          let octal = next;
+          while (octal.length < 3 && this.text[this.pos] >= '0' && this.text[this.pos] <= '7') octal += this.text[this.pos++];
+          value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else value += next;
+      } else if (c === '(') {
+        depth++;
+        value += c;
+      } else if (c === ')') {
+        if (--depth === 0) break;
+        value += c;
+      } else value += c;
+    }
+    return { kind: 'string', value };
+  }
+
+  private readHexString(): PdfString {
+    const end = this.text.indexOf('>', this.pos);
+    let hex = this.text.slice(this.pos + 1, end < 0 ? undefined : end).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = end < 0 ? this.text.length : end + 1;
+    if (hex.length % 2) hex += '0';
+    let value = '';
+    for (let i = 0; i < hex.length; i += 2) value += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+    return { kind: 'string', value };
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (this.pos < this.text.length && !WHITESPACE.includes(this.text[this.pos]) && !DELIMITERS.includes(this.text[this.pos])) this.pos++;
+    return this.text.slice(start, this.pos);
+  }
+
+  // Reads one value, or an operator keyword in content streams; undefined at the end
+  next(): PdfValue | PdfOperator | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.text.length) return undefined;
+    const c = this.text[this.pos];
+
+    if (c === '(') return this.readLiteralString();
+    if (c === '<' && this.text[this.pos + 1] === '<') {
+      this.pos += 2;
+      const entries = new Map<string, PdfValue>();
+      for (;;) {
+        const key = this.next();
+        if (key === undefined || isOperator(key, '>>')) break;
+        const value = this.next();
+        if (isName(key as PdfValue)) entries.set((key as PdfName).value, value as PdfValue);
+      }
+      return { kind: 'dict', entries };
+    }
+    if (c === '>' && this.text[this.pos + 1] === '>') {
+      this.pos += 2;
+      return { kind: 'op', value: '>>' };
+    }
+    if (c === '<') return this.readHexString();
+    if (c === '[') {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        const item = this.next();
+        if (item === undefined || isOperator(item, ']')) break;
+        items.push(item as PdfValue);
+      }
+      return items;
+    }
+    if (c === ']' || c === '{' || c === '}' || c === ')') {
+      this.pos++;
+      return { kind: 'op', value: c };
+    }
+    if (c === '/') {
+      this.pos++;
+      const raw = this.readRegular();
+      return { kind: 'name', value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+    }
+
+    const word = this.readRegular();
+    if (!word) {
+      this.pos++;
+      return this.next();
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      const number = Number(word);
+      // "num gen R" is an indirect reference
+      if (/^\d+$/.test(word)) {
+        const saved = this.pos;
+        const generation = this.next();
+        if (typeof generation === 'number') {
+          const marker = this.next();
+          if (isOperator(marker, 'R')) {
+            return { kind: 'ref', num: number };
+          }
+        }
+        this.pos = saved;
+      }
+      return number;
+    }
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    return { kind: 'op', value: word };
+  }
+}
+
+async function inflate(data: string): Promise<string> {
+  const bytes = Uint8Array.from(data, c => c.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return toBinaryString(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfObject>();
+  private readonly decoded = new Map<number, Promise<string | null>>();
+
+  constructor(private readonly text: string) {}
+
+  // Indexes every "n g obj" in the file. Later definitions win, which is what
+  // incremental updates expect.
+  async load() {
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(this.text))) {
+      const lexer = new PdfLexer(this.text, match.index + match[0].length);
+      const value = lexer.next() as PdfValue;
+      const object: PdfObject = { value };
+      const after = this.text.slice(lexer.pos, lexer.pos + 20).match(/^\s*stream\r?\n/);
+      if (after && isDict(value)) {
+        const start = lexer.pos + after[0].length;
+        const length = value.entries.get('Length');
+        let end = typeof length === 'number' ? start + length : -1;
+        if (end < 0 || !/^\s*endstream/.test(this.text.slice(end, end + 20))) end = this.text.indexOf('endstream', start);
+        object.stream = this.text.slice(start, end < 0 ? undefined : end);
+        header.lastIndex = end < 0 ? this.text.length : end;
+      }
+      this.objects.set(Number(match[1]), object);
+    }
+
+    // Objects packed into object streams (PDF 1.5+)
+    for (const [, object] of [...this.objects]) {
+      if (!isDict(object.value) || !isName(object.value.entries.get('Type'), 'ObjStm')) continue;
+      const data = await this.streamData(object);
+      if (!data) continue;
+      const count = Number(object.value.entries.get('N')) || 0;
+      const first = Number(object.value.entries.get('First')) || 0;
+      const index = new PdfLexer(data);
+      const offsets: [number, number][] = [];
+      for (let i = 0; i < count; i++) offsets.push([index.next() as number, index.next() as number]);
+      for (const [num, offset] of offsets) {
+        if (!this.objects.has(num)) this.objects.set(num, { value: new PdfLexer(data, first + offset).next() as PdfValue });
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    for (let depth = 0; depth < 32 && typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'ref'; depth++) {
+      value = this.objects.get(value.num)?.value;
+    }
+    return value;
+  }
+
+  private async streamData(object: PdfObject): Promise<string | null> {
+    if (object.stream === undefined || !isDict(object.value)) return null;
+    const filter = this.resolve(object.value.entries.get('Filter'));
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(f => isName(f) ? f.value : '');
+    let data = object.stream;
+    for (const name of filters) {
+      if (name !== 'FlateDecode') return null;
+      try {
+        data = await inflate(data);
+      } catch {
+        return null;
+      }
+    }
+    return data;
+  }
+
+  // Decoded contents of the stream a reference points to (cached)
+  stream(ref: PdfValue | undefined): Promise<string | null> {
+    if (typeof ref !== 'object' || ref === null || Array.isArray(ref) || ref.kind !== 'ref') return Promise.resolve(null);
+    let data = this.decoded.get(ref.num);
+    if (!data) {
+      const object = this.objects.get(ref.num);
+      data = object ? this.streamData(object) : Promise.resolve(null);
+      this.decoded.set(ref.num, data);
+    }
+    return data;
+  }
+
+  // Page dictionaries in reading order, each with its (possibly inherited) resources
+  pages(): { page: PdfDict; resources: PdfDict | undefined }[] {
+    const result: { page: PdfDict; resources: PdfDict | undefined }[] = [];
+    const catalog = [...this.objects.values()].map(o => o.value).find(v => isDict(v) && isName(v.entries.get('Type'), 'Catalog')) as PdfDict | undefined;
+
+    const walk = (node: PdfValue | undefined, inherited: PdfDict | undefined, depth: number) => {
+      const dict = this.resolve(node);
+      if (!isDict(dict) || depth > 64) return;
+      const own = this.resolve(dict.entries.get('Resources'));
+      const resources = isDict(own) ? own : inherited;
+      const kids = this.resolve(dict.entries.get('Kids'));
+      if (Array.isArray(kids)) kids.forEach(kid => walk(kid, resources, depth + 1));
+      else result.push({ page: dict, resources });
+    };
+    if (catalog) walk(catalog.entries.get('Pages'), undefined, 0);
+
+    if (result.length === 0) {
+      this.objects.forEach(({ value }) => {
+        if (isDict(value) && isName(value.entries.get('Type'), 'Page')) {
+          const resources = this.resolve(value.entries.get('Resources'));
+          result.push({ page: value, resources: isDict(resources) ? resources : undefined });
+        }
+      });
+    }
+    return result;
+  }
+}
+
+const decodeUtf16 = (bytes: string) => {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  return text;
+};
+
+const toCode = (bytes: string) => [...bytes].reduce((code, c) => code * 256 + c.charCodeAt(0), 0);
+
+function parseToUnicode(cmap: string): FontDecoder {
+  const decoder: FontDecoder = { codeBytes: 1, map: new Map() };
+  const lexer = new PdfLexer(cmap);
+  const operands: (PdfValue | PdfOperator)[] = [];
+  let section = '';
+
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    const op = isOperator(token) ? token.value : null;
+    if (op === 'begincodespacerange' || op === 'beginbfchar' || op === 'beginbfrange') {
+      section = op;
+      operands.length = 0;
+    } else if (op === 'endcodespacerange' || op === 'endbfchar' || op === 'endbfrange') {
+      const strings = operands as (PdfString | PdfValue[])[];
+      if (section === 'begincodespacerange' && strings.length >= 1) {
+        decoder.codeBytes = (strings[0] as PdfString).value.length || 1;
+      } else if (section === 'beginbfchar') {
+        for (let i = 0; i + 1 < strings.length; i += 2) {
+          decoder.map.set(toCode((strings[i] as PdfString).value), decodeUtf16((strings[i + 1] as PdfString).value));
+        }
+      } else if (section === 'beginbfrange') {
+        for (let i = 0; i + 2 < strings.length; i += 3) {
+          const low = toCode((strings[i] as PdfString).value);
+          const high = toCode((strings[i + 1] as PdfString).value);
+          const target = strings[i + 2];
+          for (let code = low; code <= high && code - low < 0x10000; code++) {
+            if (Array.isArray(target)) {
+              const item = target[code - low] as PdfString | undefined;
+              if (item) decoder.map.set(code, decodeUtf16(item.value));
+            } else {
+              // The last character of the destination counts up through the range
+              const base = decodeUtf16(target.value);
+              decoder.map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - low));
+            }
+          }
+        }
+      }
+      section = '';
+      operands.length = 0;
+    } else if (section) {
+      operands.push(token);
+    }
+  }
+  return decoder;
+}
+
+const decodeText = (bytes: string, font: FontDecoder | undefined) => {
+  if (!font) return bytes;
+  let text = '';
+  for (let i = 0; i + font.codeBytes <= bytes.length; i += font.codeBytes) {
+    const code = toCode(bytes.slice(i, i + font.codeBytes));
+    text += font.map.get(code) ?? (font.codeBytes === 1 ? String.fromCharCode(code) : '');
+  }
+  return text;
+};
+
+async function loadFonts(doc: PdfDocument, resources: PdfDict | undefined): Promise<Map<string, FontDecoder | undefined>> {
+  const fonts = new Map<string, FontDecoder | undefined>();
+  const fontDict = doc.resolve(resources?.entries.get('Font'));
+  if (!isDict(fontDict)) return fonts;
+
+  for (const [name, ref] of fontDict.entries) {
+    const font = doc.resolve(ref);
+    if (!isDict(font)) continue;
+    const cmap = await doc.stream(font.entries.get('ToUnicode'));
+    if (cmap) fonts.set(name, parseToUnicode(cmap));
+    // Without a CMap, composite fonts use two-byte codes we can't map to text
+    else fonts.set(name, isName(font.entries.get('Subtype'), 'Type0') ? { codeBytes: 2, map: new Map() } : undefined);
+  }
+  return fonts;
+}
+
+// Replays the text operators of one content stream into lines of text
+function readContent(content: string, fonts: Map<string, FontDecoder | undefined>): string {
+  const lexer = new PdfLexer(content);
+  const operands: (PdfValue | PdfOperator)[] = [];
+  let font: FontDecoder | undefined;
+  // Baseline of the current line, and of the last text drawn
+  let lineY = 0;
+  let printedY: number | null = null;
+  let out = '';
+
+  // A change of baseline since the last text starts a new line
+  const append = (text: string) => {
+    if (!text) return;
+    if (printedY !== null && Math.abs(lineY - printedY) > 0.5) newLine();
+    printedY = lineY;
+    out += text;
+  };
+  const newLine = () => {
+    if (out && !out.endsWith('\n')) out += '\n';
+  };
+  const space = () => {
+    if (out && !/\s$/.test(out)) out += ' ';
+  };
+  // Moves along the same line separate words
+  const moveTo = (y: number, x: number) => {
+    if (y === lineY && x !== 0) space();
+    lineY = y;
+  };
+
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    const op = isOperator(token) ? token.value : null;
+    if (op === null) {
+      operands.push(token);
+      continue;
+    }
+    const num = (i: number) => Number(operands[operands.length - i]) || 0;
+
+    switch (op) {
+      case 'BT':
+        lineY = 0;
+        break;
+      case 'ET':
+        space();
+        break;
+      case 'Tf': {
+        const name = operands[operands.length - 2];
+        font = isName(name as PdfValue) ? fonts.get((name as PdfName).value) : undefined;
+        break;
+      }
+      case 'Td':
+      case 'TD': {
+        const ty = num(1);
+        const tx = num(2);
+        moveTo(lineY + ty, tx);
+        break;
+      }
+      case 'Tm':
+        moveTo(num(1), num(2));
+        break;
+      case 'T*':
+        newLine();
+        printedY = lineY;
+        break;
+      case 'Tj':
+      case "'":
+      case '"': {
+        if (op !== 'Tj') {
+          newLine();
+          printedY = lineY;
+        }
+        const string = operands[operands.length - 1] as PdfString | undefined;
+        if (string?.kind === 'string') append(decodeText(string.value, font));
+        break;
+      }
+      case 'TJ': {
+        const items = operands[operands.length - 1];
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (typeof item === 'number') {
+              // Large negative adjustments are how many generators draw word spaces
+              if (item < -180) space();
+            } else if (typeof item === 'object' && item !== null && !Array.isArray(item) && item.kind === 'string') {
+              append(decodeText(item.value, font));
+            }
+          }
+        }
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+  return out;
+}
+
+// Returns the text of every page. Throws if the file isn't a PDF.
+export async function extractPdfText(bytes: Uint8Array): Promise<string[]> {
+  const text = toBinaryString(bytes);
+  if (!text.startsWith('%PDF-')) throw new Error("Not a PDF file");
+  if (/\/Encrypt\s/.test(text)) throw new Error("Encrypted PDFs can't be imported");
+
+  const doc = new PdfDocument(text);
+  await doc.load();
+
+  const pages: string[] = [];
+  for (const { page, resources } of doc.pages()) {
+    const fonts = await loadFonts(doc, resources);
+    const contents = doc.resolve(page.entries.get('Contents'));
+    const refs = Array.isArray(contents) ? contents : [page.entries.get('Contents')];
+    const streams = await Promise.all(refs.map(ref => doc.stream(ref as PdfValue)));
+    pages.push(readContent(streams.filter((s): s is string => s !== null).join('\n'), fonts)
+      .replace(/[ \t]+\n/g, '\n')
+      .trim());
+  }
+  return pages;
+}
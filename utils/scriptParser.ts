@@ -0,0 +1,64 @@
+import { DialogueScript, ScriptLine, VoiceName } from "../types";
+
+// "Speaker: line" — names may contain spaces, digits and simple punctuation
+const SPEAKER_LINE = /^\s*([A-Za-z][\w .'-]{0,31}?)\s*:\s*(.*)$/;
+
+// Turns are separated by newlines, or inline by " / " when the next turn starts with a speaker
+const TURN_SEPARATOR = /\r?\n|\s\/\s(?=[A-Za-z][\w .'-]{0,31}?\s*:)/;
+
+// Parses "Narrator: ... / Kore: ..." style text into speaker turns.
+// Lines without a speaker prefix are appended to the previous turn.
+export function parseScript(text: string): ScriptLine[] {
+  const lines: ScriptLine[] = [];
+
+  for (const rawLine of text.split(TURN_SEPARATOR)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const match = line.match(SPEAKER_LINE);
+    if (match) {
+      lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+    } else if (lines.length > 0) {
+      const previous = lines[lines.length - 1];
+      previous.text = previous.text ? `${previous.text} ${line}` : line;
+    } else {
+      throw new Error(`Script must start with a speaker, e.g. "Narrator: ${line.slice(0, 24)}"`);
+    }
+  }
+
+  return lines.filter(line => line.text.length > 0);
+}
+
+// Unique speakers in order of first appearance
+export function getSpeakers(lines: ScriptLine[]): string[] {
+  return Array.from(new Set(lines.map(line => line.speaker)));
+}
+
+// Keeps existing assignments, maps speakers named after a voice to that voice,
+// and hands out the remaining voices round-robin starting from the fallback.
+export function assignVoices(
+  speakers: string[],
+  existing: Record<string, VoiceName>,
+  fallback: VoiceName
+): Record<string, VoiceName> {
+  const voices = Object.values(VoiceName);
+  const assigned: Record<string, VoiceName> = {};
+  let next = voices.indexOf(fallback);
+
+  for (const speaker of speakers) {
+    const named = voices.find(v => v.toLowerCase() === speaker.toLowerCase());
+    if (existing[speaker]) {
+      assigned[speaker] = existing[speaker];
+    } else if (named) {
+      assigned[speaker] = named;
+    } else {
+      assigned[speaker] = voices[next % voices.length];
+      next++;
+    }
+  }
+  return assigned;
+}
+
+export function formatScript(script: DialogueScript): string {
+  return script.lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { markupToChunks, parseMarkup } from './ssmlLite';
+
+describe('markupToChunks', () => {
+  it('leaves short segments as written', () => {
+    const chunks = markupToChunks(parseMarkup('It costs 3.50 dollars at example.com. <break time="300ms"/> Thanks, e.g. Dr. Lee.'), 200);
+    expect(chunks.map(c => c.text)).toEqual(['It costs 3.50 dollars at example.com.', 'Thanks, e.g. Dr. Lee.']);
+  });
+
+  it('keeps explicit zero-length breaks', () => {
+    const chunks = markupToChunks(parseMarkup('One. <break time="0ms"/> Two. <break strength="none"/> Three. <break time="1s"/> Four.'), 200);
+    expect(chunks.map(c => c.breakAfter)).toEqual([0, 0, 1, undefined]);
+  });
+
+  it('splits only segments over the limit, with the break after the last piece', () => {
+    const chunks = markupToChunks(parseMarkup('First sentence here. Second sentence 2.5 long. <break time="500ms"/> End.'), 30);
+    expect(chunks).toEqual([
+      { text: 'First sentence here.', pauseAfter: 'sentence', direction: undefined },
+      { text: 'Second sentence 2.5 long.', pauseAfter: 'paragraph', direction: undefined, breakAfter: 0.5 },
+      { text: 'End.', pauseAfter: 'paragraph', direction: undefined, breakAfter: undefined },
+    ]);
+  });
+});
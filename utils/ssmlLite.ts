@@ -0,0 +1,417 @@
+import { TextChunk } from "../types";
+import { splitText } from "./textChunker";
+
+// SSML-lite: a small subset of SSML for pacing and pronunciation.
+//
+//   <break time="500ms"/> or <break strength="strong"/>   real silence in the output
+//   <emphasis level="strong">words</emphasis>             delivery instruction
+//   <sub alias="World Wide Web">WWW</sub>                  spoken replacement
+//   <say-as interpret-as="date|number|characters">…</say-as>
+//   <lexeme grapheme="SQL" alias="sequel"/>                replaces every whole-word match
+//   <speak>…</speak>                                       optional wrapper
+
+export interface MarkupIssue {
+  message: string;
+  line: number;
+  column: number;
+}
+
+export class MarkupError extends Error {
+  issues: MarkupIssue[];
+
+  constructor(issues: MarkupIssue[]) {
+    super(issues.map(issue => `Line ${issue.line}, column ${issue.column}: ${issue.message}`).join('\n'));
+    this.name = 'MarkupError';
+    this.issues = issues;
+  }
+}
+
+// A run of text spoken in one request, followed by an optional inserted silence
+export interface MarkupSegment {
+  text: string;
+  // Delivery instruction derived from <emphasis> inside this segment
+  direction?: string;
+  breakAfter?: number;
+}
+
+export interface ParsedMarkup {
+  segments: MarkupSegment[];
+  spokenText: string;
+}
+
+const KNOWN_TAGS = ['speak', 'break', 'emphasis', 'sub', 'say-as', 'lexeme'];
+const VOID_TAGS = ['break', 'lexeme'];
+const MAX_BREAK_SECONDS = 10;
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  'none': 0,
+  'x-weak': 0.1,
+  'weak': 0.25,
+  'medium': 0.5,
+  'strong': 1,
+  'x-strong': 2,
+};
+
+const EMPHASIS_LEVELS: Record<string, string> = {
+  'strong': 'strongly emphasize',
+  'moderate': 'emphasize',
+  'reduced': 'de-emphasize',
+};
+
+const INTERPRETATIONS = ['date', 'number', 'characters'];
+
+const TAG = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[\w-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const MARKUP_HINT = new RegExp(`</?(?:${KNOWN_TAGS.join('|')})\\b`, 'i');
+
+type MarkupNode =
+  | { type: 'text'; value: string }
+  | { type: 'element'; name: string; attrs: Record<string, string>; children: MarkupNode[]; index: number };
+
+export function containsMarkup(text: string): boolean {
+  return MARKUP_HINT.test(text);
+}
+
+const decodeEntities = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+function positionOf(source: string, index: number): { line: number; column: number } {
+  const before = source.slice(0, index).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+function tokenize(source: string, issues: MarkupIssue[]): MarkupNode[] {
+  const root: MarkupNode = { type: 'element', name: '#root', attrs: {}, children: [], index: 0 };
+  const stack = [root] as Extract<MarkupNode, { type: 'element' }>[];
+  const report = (message: string, index: number) => issues.push({ message, ...positionOf(source, index) });
+
+  let textStart = 0;
+  let i = 0;
+  const flushText = (end: number) => {
+    if (end > textStart) {
+      stack[stack.length - 1].children.push({ type: 'text', value: decodeEntities(source.slice(textStart, end)) });
+    }
+  };
+
+  while (i < source.length) {
+    if (source[i] !== '<') {
+      i++;
+      continue;
+    }
+
+    TAG.lastIndex = i;
+    const match = TAG.exec(source);
+    if (!match) {
+      report("Unexpected '<'. Write &lt; for a literal less-than sign, or check the tag for typos.", i);
+      i++;
+      continue;
+    }
+
+    flushText(i);
+    const [whole, closing, rawName, rawAttrs, selfClosing] = match;
+    const name = rawName.toLowerCase();
+
+    if (!KNOWN_TAGS.includes(name)) {
+      report(`Unknown tag <${rawName}>. Supported tags: ${KNOWN_TAGS.map(t => `<${t}>`).join(', ')}.`, i);
+    } else if (closing) {
+      const open = stack[stack.length - 1];
+      if (open.name === name) {
+        stack.pop();
+      } else if (stack.some(el => el.name === name)) {
+        report(`</${name}> closes a tag while <${open.name}> is still open.`, i);
+        while (stack.length > 1 && stack[stack.length - 1].name !== name) stack.pop();
+        stack.pop();
+      } else {
+        report(`</${name}> has no matching <${name}>.`, i);
+      }
+    } else {
+      const attrs: Record<string, string> = {};
+      for (const attr of rawAttrs.matchAll(ATTRIBUTE)) {
+        attrs[attr[1].toLowerCase()] = decodeEntities(attr[2] ?? attr[3]);
+      }
+      const element: MarkupNode = { type: 'element', name, attrs, children: [], index: i };
+      stack[stack.length - 1].children.push(element);
+
+      if (VOID_TAGS.includes(name)) {
+        if (!selfClosing) report(`<${name}> must be self-closing, e.g. <${name} … />.`, i);
+      } else if (selfClosing) {
+        report(`<${name}/> needs content, e.g. <${name}>text</${name}>.`, i);
+      } else {
+        stack.push(element);
+      }
+    }
+
+    i += whole.length;
+    textStart = i;
+  }
+  flushText(source.length);
+
+  for (const open of stack.slice(1)) {
+    report(`<${open.name}> is never closed.`, open.index);
+  }
+  return root.children;
+}
+
+// ---- say-as helpers -------------------------------------------------------
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+
+function wordsUnderThousand(n: number): string {
+  const parts: string[] = [];
+  if (n >= 100) {
+    parts.push(`${ONES[Math.floor(n / 100)]} hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    parts.push(n % 10 ? `${TENS[Math.floor(n / 10)]}-${ONES[n % 10]}` : TENS[Math.floor(n / 10)]);
+  } else if (n > 0 || parts.length === 0) {
+    parts.push(ONES[n]);
+  }
+  return parts.join(' ');
+}
+
+function integerToWords(n: number): string {
+  if (n === 0) return 'zero';
+  const groups: string[] = [];
+  for (let scale = 0; n > 0; scale++, n = Math.floor(n / 1000)) {
+    const group = n % 1000;
+    if (group) groups.unshift(`${wordsUnderThousand(group)}${SCALES[scale] ? ` ${SCALES[scale]}` : ''}`);
+  }
+  return groups.join(' ');
+}
+
+export function numberToWords(raw: string): string | null {
+  const value = raw.replace(/[,\s]/g, '');
+  const match = value.match(/^(-)?(\d+)(?:\.(\d+))?$/);
+  if (!match || match[2].length > 15) return null;
+
+  let words = integerToWords(Number(match[2]));
+  if (match[3]) words += ` point ${match[3].split('').map(d => ONES[Number(d)]).join(' ')}`;
+  return match[1] ? `minus ${words}` : words;
+}
+
+function ordinalSuffix(day: number): string {
+  if (day % 100 >= 11 && day % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][day % 10] ?? 'th';
+}
+
+// Accepts YYYY-MM-DD, or D/M/Y style dates read according to `format` (mdy by default)
+export function dateToWords(raw: string, format: string = 'mdy'): string | null {
+  let year: number, month: number, day: number;
+  const iso = raw.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const slashed = raw.trim().match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (slashed) {
+    const [a, b, c] = [Number(slashed[1]), Number(slashed[2]), Number(slashed[3])];
+    switch (format) {
+      case 'dmy': [day, month, year] = [a, b, c]; break;
+      case 'ymd': [year, month, day] = [a, b, c]; break;
+      default: [month, day, year] = [a, b, c];
+    }
+    if (year < 100) year += year < 50 ? 2000 : 1900;
+  } else {
+    return null;
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${MONTHS[month - 1]} ${day}${ordinalSuffix(day)}, ${year}`;
+}
+
+function spellCharacters(raw: string): string {
+  return raw.replace(/\s+/g, '').split('').join(' ');
+}
+
+// ---- rendering ------------------------------------------------------------
+
+interface Lexeme {
+  pattern: RegExp;
+  alias: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function collectLexemes(nodes: MarkupNode[], lexemes: Lexeme[], source: string, issues: MarkupIssue[]) {
+  for (const node of nodes) {
+    if (node.type !== 'element') continue;
+    if (node.name === 'lexeme') {
+      const { grapheme, alias } = node.attrs;
+      if (!grapheme || alias === undefined) {
+        issues.push({ message: '<lexeme> needs both grapheme="…" and alias="…".', ...positionOf(source, node.index) });
+      } else {
+        lexemes.push({ pattern: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(grapheme)}(?![\\p{L}\\p{N}])`, 'gu'), alias });
+      }
+    }
+    collectLexemes(node.children, lexemes, source, issues);
+  }
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const textOf = (nodes: MarkupNode[]): string =>
+  nodes.map(node => node.type === 'text' ? node.value : textOf(node.children)).join('');
+
+// Parses SSML-lite markup into segments separated by breaks. Throws a MarkupError
+// listing every problem found, with line and column.
+export function parseMarkup(source: string): ParsedMarkup {
+  const issues: MarkupIssue[] = [];
+  const nodes = tokenize(source, issues);
+  const lexemes: Lexeme[] = [];
+  collectLexemes(nodes, lexemes, source, issues);
+
+  const report = (message: string, index: number) => issues.push({ message, ...positionOf(source, index) });
+  const applyLexicon = (text: string) =>
+    lexemes.reduce((result, lexeme) => result.replace(lexeme.pattern, lexeme.alias), text);
+
+  const segments: MarkupSegment[] = [];
+  let text = '';
+  let emphasis: string[] = [];
+
+  // breakAfter is undefined at the end of the text, where no <break> closes the segment
+  const flush = (breakAfter: number | undefined, index: number) => {
+    const spoken = text.replace(/\s+/g, ' ').trim();
+    if (!spoken) {
+      if (breakAfter === undefined) {
+        // Nothing after the last break
+      } else if (segments.length === 0) {
+        report('<break> must come after some text; leading silence is not supported.', index);
+      } else {
+        // Consecutive breaks add up
+        const last = segments[segments.length - 1];
+        last.breakAfter = (last.breakAfter ?? 0) + breakAfter;
+      }
+    } else {
+      segments.push({
+        text: spoken,
+        direction: emphasis.length > 0 ? capitalize(`${emphasis.join('; ')}.`) : undefined,
+        breakAfter,
+      });
+    }
+    text = '';
+    emphasis = [];
+  };
+
+  const render = (list: MarkupNode[]) => {
+    for (const node of list) {
+      if (node.type === 'text') {
+        text += applyLexicon(node.value);
+        continue;
+      }
+
+      switch (node.name) {
+        case 'speak':
+          render(node.children);
+          break;
+
+        case 'lexeme':
+          break;
+
+        case 'break': {
+          let seconds: number | null = null;
+          const { time, strength } = node.attrs;
+          if (time !== undefined) {
+            const match = time.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i);
+            if (match) seconds = Number(match[1]) / (match[2].toLowerCase() === 'ms' ? 1000 : 1);
+            else report(`<break time="${time}"> is not a valid duration. Use e.g. "500ms" or "1.5s".`, node.index);
+          } else if (strength !== undefined) {
+            if (strength in BREAK_STRENGTHS) seconds = BREAK_STRENGTHS[strength];
+            else report(`<break strength="${strength}"> must be one of ${Object.keys(BREAK_STRENGTHS).join(', ')}.`, node.index);
+          } else {
+            seconds = BREAK_STRENGTHS.medium;
+          }
+          if (seconds !== null && seconds > MAX_BREAK_SECONDS) {
+            report(`<break> of ${seconds}s is longer than the ${MAX_BREAK_SECONDS}s maximum.`, node.index);
+            seconds = MAX_BREAK_SECONDS;
+          }
+          if (seconds !== null) flush(seconds, node.index);
+          break;
+        }
+
+        case 'emphasis': {
+          const level = node.attrs.level ?? 'moderate';
+          if (!(level in EMPHASIS_LEVELS)) {
+            report(`<emphasis level="${level}"> must be one of ${Object.keys(EMPHASIS_LEVELS).join(', ')}.`, node.index);
+          }
+          const before = text.length;
+          render(node.children);
+          const phrase = text.slice(before).replace(/\s+/g, ' ').trim();
+          if (phrase) emphasis.push(`${EMPHASIS_LEVELS[level] ?? 'emphasize'} "${phrase}"`);
+          break;
+        }
+
+        case 'sub': {
+          const { alias } = node.attrs;
+          if (alias === undefined) {
+            report('<sub> needs an alias="…" attribute with the text to speak.', node.index);
+            text += textOf(node.children);
+          } else {
+            text += alias;
+          }
+          break;
+        }
+
+        case 'say-as': {
+          const interpretAs = node.attrs['interpret-as'];
+          const content = textOf(node.children).trim();
+          let spoken: string | null = content;
+          if (!interpretAs || !INTERPRETATIONS.includes(interpretAs)) {
+            report(`<say-as> needs interpret-as="${INTERPRETATIONS.join('|')}".`, node.index);
+          } else if (interpretAs === 'number') {
+            spoken = numberToWords(content);
+            if (spoken === null) report(`"${content}" is not a number.`, node.index);
+          } else if (interpretAs === 'date') {
+            spoken = dateToWords(content, node.attrs.format);
+            if (spoken === null) report(`"${content}" is not a date. Use YYYY-MM-DD or MM/DD/YYYY (format="dmy" for DD/MM/YYYY).`, node.index);
+          } else {
+            spoken = spellCharacters(content);
+          }
+          text += spoken ?? content;
+          break;
+        }
+      }
+    }
+  };
+
+  render(nodes);
+  flush(undefined, source.length);
+
+  const last = segments[segments.length - 1];
+  if (last?.breakAfter !== undefined) {
+    report('<break> at the very end has no effect; trailing silence is not supported.', source.length);
+  }
+  if (segments.length === 0 && issues.length === 0) {
+    report('There is no text to speak.', 0);
+  }
+  if (issues.length > 0) {
+    issues.sort((a, b) => a.line - b.line || a.column - b.column);
+    throw new MarkupError(issues);
+  }
+
+  return {
+    segments,
+    spokenText: segments.map(segment => segment.text).join(' '),
+  };
+}
+
+// Splits parsed markup into generation chunks; breaks become explicit pauses, a
+// zero-length one included. Only segments over the limit are split further.
+export function markupToChunks(parsed: ParsedMarkup, maxChars: number): TextChunk[] {
+  return parsed.segments.flatMap(segment => {
+    const pieces: TextChunk[] = segment.text.length > maxChars
+      ? splitText(segment.text, maxChars)
+      : [{ text: segment.text, pauseAfter: 'paragraph' }];
+    const chunks = pieces.map(chunk => ({ ...chunk, direction: segment.direction }));
+    chunks[chunks.length - 1].breakAfter = segment.breakAfter;
+    return chunks;
+  });
+}
@@ -0,0 +1,67 @@
+// Plays audio that arrives piece by piece (e.g. from a streaming TTS response)
+// back to back on a context, so the pieces join without gaps as long as each
+// arrives before the previous one finishes playing.
+export class StreamScheduler {
+  private sources: AudioBufferSourceNode[] = [];
+  private nextTime = 0;
+  private finished = false;
+  private stopped = false;
+  // Context time the first piece started, or null before anything was scheduled
+  startTime: number | null = null;
+
+  constructor(
+    private readonly ctx: BaseAudioContext,
+    private readonly destination: AudioNode,
+    private readonly onEnded: () => void,
+    // Headroom given to the first piece (and after an underrun) so it isn't clipped
+    private readonly leadSeconds = 0.05
+  ) {}
+
+  enqueue(buffer: AudioBuffer) {
+    if (this.stopped) return;
+
+    // If the stream fell behind, restart slightly in the future instead of in the past
+    const earliest = this.ctx.currentTime + this.leadSeconds;
+    const when = this.nextTime < earliest ? earliest : this.nextTime;
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.destination);
+    source.onended = () => {
+      this.sources = this.sources.filter(s => s !== source);
+      this.checkEnded();
+    };
+    source.start(when);
+
+    if (this.startTime === null) this.startTime = when;
+    this.nextTime = when + buffer.duration;
+    this.sources.push(source);
+  }
+
+  // No more pieces will come; onEnded fires once the scheduled audio has played out
+  finish() {
+    this.finished = true;
+    this.checkEnded();
+  }
+
+  stop() {
+    this.stopped = true;
+    for (const source of this.sources) {
+      try {
+        source.onended = null;
+        source.stop();
+        source.disconnect();
+      } catch (e) {
+        // Ignore errors if already stopped
+      }
+    }
+    this.sources = [];
+  }
+
+  private checkEnded() {
+    if (this.finished && !this.stopped && this.sources.length === 0) {
+      this.stopped = true;
+      this.onEnded();
+    }
+  }
+}
@@ -0,0 +1,94 @@
+// Plays several takes in lockstep from the same offset with only one of them
+// audible, so switching between takes keeps the position and is instant.
+export class SyncPlayer {
+  private voices = new Map<string, { source: AudioBufferSourceNode; gain: GainNode }>();
+  private startedAt = 0;
+  private offset = 0;
+  private longest = 0;
+  private active: string | null = null;
+
+  constructor(
+    private readonly ctx: BaseAudioContext,
+    private readonly destination: AudioNode,
+    private readonly onEnded: () => void,
+    // Crossfade when switching takes, short enough to feel instant without clicking
+    private readonly switchSeconds = 0.01
+  ) {}
+
+  get playing(): boolean {
+    return this.voices.size > 0;
+  }
+
+  get activeId(): string | null {
+    return this.active;
+  }
+
+  // Seconds since the start of the takes
+  get currentTime(): number {
+    return this.playing ? this.offset + this.ctx.currentTime - this.startedAt : this.offset;
+  }
+
+  play(buffers: Map<string, AudioBuffer>, activeId: string, offset = 0) {
+    this.stop();
+    this.active = activeId;
+    this.offset = offset;
+    this.longest = Math.max(0, ...[...buffers.values()].map(b => b.duration));
+    this.startedAt = this.ctx.currentTime;
+
+    buffers.forEach((buffer, id) => {
+      if (offset >= buffer.duration) return;
+      const source = this.ctx.createBufferSource();
+      source.buffer = buffer;
+      const gain = this.ctx.createGain();
+      gain.gain.value = id === activeId ? 1 : 0;
+      source.connect(gain);
+      gain.connect(this.destination);
+      source.onended = () => {
+        if (this.voices.get(id)?.source !== source) return;
+        this.voices.delete(id);
+        if (this.voices.size === 0) this.finish();
+      };
+      source.start(this.startedAt, offset);
+      this.voices.set(id, { source, gain });
+    });
+
+    if (this.voices.size === 0) this.finish();
+  }
+
+  setActive(id: string) {
+    this.active = id;
+    const now = this.ctx.currentTime;
+    this.voices.forEach(({ gain }, voiceId) => {
+      gain.gain.cancelScheduledValues(now);
+      gain.gain.setValueAtTime(gain.gain.value, now);
+      gain.gain.linearRampToValueAtTime(voiceId === id ? 1 : 0, now + this.switchSeconds);
+    });
+  }
+
+  // Stops playback and remembers the position for the next play()
+  pause() {
+    const time = this.currentTime;
+    this.stop();
+    this.offset = Math.min(time, this.longest);
+  }
+
+  stop() {
+    this.voices.forEach(({ source, gain }) => {
+      try {
+        source.onended = null;
+        source.stop();
+        source.disconnect();
+        gain.disconnect();
+      } catch (e) {
+        // Ignore errors if already stopped
+      }
+    });
+    this.voices.clear();
+    this.offset = 0;
+  }
+
+  private finish() {
+    this.offset = 0;
+    this.onEnded();
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { splitSentences, splitText } from './textChunker';
+
+describe('splitSentences', () => {
+  it('splits at terminal punctuation followed by whitespace', () => {
+    expect(splitSentences('First one. Second one! Third? "Quoted." (Bracketed.) Last'))
+      .toEqual(['First one.', 'Second one!', 'Third?', '"Quoted."', '(Bracketed.)', 'Last']);
+  });
+
+  it('keeps decimals, domains and abbreviations inside their sentence', () => {
+    expect(splitSentences('Pi is 3.14 today. See example.com for more. Dr. Smith met J. R. Jones, e.g. at 5 p.m. on Jan. 3. Then left.'))
+      .toEqual(['Pi is 3.14 today.', 'See example.com for more.', 'Dr. Smith met J. R. Jones, e.g. at 5 p.m. on Jan. 3.', 'Then left.']);
+  });
+
+  it('does not split before a lowercase word', () => {
+    expect(splitSentences('"Stop!" she said. Wait… then go.')).toEqual(['"Stop!" she said.', 'Wait… then go.']);
+  });
+
+  it('returns each sentence exactly as written', () => {
+    expect(splitSentences('  Two  spaces\tinside.   Next.  ')).toEqual(['Two  spaces\tinside.', 'Next.']);
+  });
+});
+
+describe('splitText', () => {
+  it('never changes the text, only where it is cut', () => {
+    const text = 'It costs 3.50 dollars at example.com, e.g. today.\nA second line. And more text here.';
+    const chunks = splitText(text, 40);
+    expect(chunks.map(c => c.text)).toEqual([
+      'It costs 3.50 dollars at example.com,',
+      'e.g. today.\nA second line.',
+      'And more text here.',
+    ]);
+    for (const chunk of chunks) expect(text).toContain(chunk.text);
+  });
+
+  it('packs sentences up to the limit and marks paragraph ends', () => {
+    const chunks = splitText('One. Two. Three.\n\nFour.', 10);
+    expect(chunks).toEqual([
+      { text: 'One. Two.', pauseAfter: 'sentence' },
+      { text: 'Three.', pauseAfter: 'paragraph' },
+      { text: 'Four.', pauseAfter: 'paragraph' },
+    ]);
+  });
+
+  it('breaks an overlong sentence between words, preferring commas', () => {
+    const chunks = splitText('alpha beta, gamma delta epsilon zeta', 16);
+    expect(chunks.map(c => c.text)).toEqual(['alpha beta,', 'gamma delta', 'epsilon zeta']);
+    expect(chunks.every(c => c.text.length <= 16)).toBe(true);
+  });
+
+  it('cuts a single word longer than the limit', () => {
+    expect(splitText('abcdefghij', 4).map(c => c.text)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+});
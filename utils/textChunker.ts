@@ -0,0 +1,124 @@
+import { TextChunk } from "../types";
+
+// [start, end) offsets into the text being split
+type Range = [number, number];
+
+// Terminal punctuation and any closing quotes/brackets. It only ends a sentence when
+// whitespace or the end of the text follows, so "3.14" and "example.com" stay whole.
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s|$)/g;
+
+// Words that take a period without ending the sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'cf', 'approx', 'dept',
+  'no', 'vol', 'fig', 'inc', 'ltd', 'co', 'corp', 'jan', 'feb', 'mar', 'apr', 'jun', 'jul',
+  'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+]);
+
+// Whether the punctuation at [start, end) closes a sentence. A lone period after an
+// abbreviation, an initial ("J. Smith") or a dotted word ("e.g.", "U.S.") doesn't,
+// nor does any break followed by a lowercase word.
+function endsSentence(text: string, start: number, end: number): boolean {
+  const next = text.slice(end).trimStart();
+  if (/^\p{Ll}/u.test(next)) return false;
+  if (text[start] !== '.' || text[start + 1] === '.') return true;
+
+  const word = (text.slice(0, start).match(/\S+$/)?.[0] ?? '').replace(/^[^\p{L}]+/u, '').toLowerCase();
+  return !(ABBREVIATIONS.has(word) || /^\p{L}$/u.test(word) || /^(?:\p{L}{1,2}\.)+\p{L}{1,2}$/u.test(word));
+}
+
+// Narrows a range to exclude surrounding whitespace; null when nothing is left
+function trimRange(text: string, start: number, end: number): Range | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? [start, end] : null;
+}
+
+// Ranges of the pieces of text between matches of a separator
+function rangesBetween(text: string, separator: RegExp): Range[] {
+  const ranges: Range[] = [];
+  let start = 0;
+  for (const match of text.matchAll(separator)) {
+    const range = trimRange(text, start, match.index!);
+    if (range) ranges.push(range);
+    start = match.index! + match[0].length;
+  }
+  const last = trimRange(text, start, text.length);
+  if (last) ranges.push(last);
+  return ranges;
+}
+
+// Where each sentence of the text is, without the whitespace around it
+export function sentenceRanges(text: string): Range[] {
+  const ranges: Range[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    if (!endsSentence(text, match.index!, end)) continue;
+    const range = trimRange(text, start, end);
+    if (range) ranges.push(range);
+    start = end;
+  }
+  const last = trimRange(text, start, text.length);
+  if (last) ranges.push(last);
+  return ranges;
+}
+
+// The sentences of a paragraph, each exactly as written
+export function splitSentences(paragraph: string): string[] {
+  return sentenceRanges(paragraph).map(([start, end]) => paragraph.slice(start, end));
+}
+
+// Index of the last match of a global regex in text, or -1
+function lastMatchIndex(text: string, pattern: RegExp): number {
+  let index = -1;
+  for (const match of text.matchAll(pattern)) index = match.index!;
+  return index;
+}
+
+// Last resort for a single sentence longer than the limit: break between words,
+// preferring the last comma or semicolon that still fits.
+function splitLongSentence(text: string, [start, end]: Range, maxChars: number): Range[] {
+  const pieces: Range[] = [];
+  let rest = start;
+
+  while (end - rest > maxChars) {
+    const window = text.slice(rest, rest + maxChars + 1);
+    let cut = lastMatchIndex(window, /[,;]\s/g) + 1;
+    if (cut <= 0) cut = lastMatchIndex(window, /\s/g);
+    if (cut <= 0) cut = maxChars;
+
+    const piece = trimRange(text, rest, rest + cut);
+    if (piece) pieces.push(piece);
+    rest = trimRange(text, rest + cut, end)?.[0] ?? end;
+  }
+  if (rest < end) pieces.push([rest, end]);
+  return pieces;
+}
+
+// Splits text into chunks no longer than maxChars, breaking at paragraph
+// boundaries first and sentence boundaries second. Chunks never span paragraphs.
+// Each chunk is a slice of the text as written, separators within it included.
+export function splitText(text: string, maxChars: number): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  for (const [paragraphStart, paragraphEnd] of rangesBetween(text, /\n\s*\n/g)) {
+    const paragraph = text.slice(paragraphStart, paragraphEnd);
+    const pieces = sentenceRanges(paragraph)
+      .flatMap(range => range[1] - range[0] > maxChars ? splitLongSentence(paragraph, range, maxChars) : [range]);
+
+    let current: Range | null = null;
+    for (const [start, end] of pieces) {
+      if (current && end - current[0] > maxChars) {
+        chunks.push({ text: paragraph.slice(...current), pauseAfter: 'sentence' });
+        current = [start, end];
+      } else {
+        current = [current?.[0] ?? start, end];
+      }
+    }
+    if (current) {
+      chunks.push({ text: paragraph.slice(...current), pauseAfter: 'paragraph' });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,141 @@
+import { encodeWav } from "./wavEncoder";
+
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+
+// Seekable, pausable playback of an AudioBuffer at variable speed. AudioBufferSourceNode
+// can't change speed without changing pitch, so the buffer is played through an <audio>
+// element (which time-stretches with preservesPitch) routed into the Web Audio graph.
+export class TransportPlayer {
+  private readonly audio: HTMLAudioElement;
+  private objectUrl: string | null = null;
+  private loadedBuffer: AudioBuffer | null = null;
+  private rate = 1;
+  private loopRegion: LoopRegion | null = null;
+  private frame: number | null = null;
+
+  constructor(
+    ctx: AudioContext,
+    destination: AudioNode,
+    private readonly onPlayingChange: (playing: boolean) => void
+  ) {
+    this.audio = new Audio();
+    this.audio.preservesPitch = true;
+    // A media element can only ever be connected to one source node
+    ctx.createMediaElementSource(this.audio).connect(destination);
+
+    this.audio.addEventListener('play', () => {
+      this.onPlayingChange(true);
+      this.watchLoop();
+    });
+    this.audio.addEventListener('pause', () => this.onPlayingChange(false));
+    this.audio.addEventListener('ended', () => {
+      // A loop that runs to the very end of the clip wraps here instead of in watchLoop
+      if (this.loopRegion) {
+        this.audio.currentTime = this.loopRegion.start;
+        this.audio.play().catch(() => this.onPlayingChange(false));
+        return;
+      }
+      this.onPlayingChange(false);
+    });
+  }
+
+  get buffer(): AudioBuffer | null {
+    return this.loadedBuffer;
+  }
+
+  get currentTime(): number {
+    return this.audio.currentTime;
+  }
+
+  get duration(): number {
+    return this.loadedBuffer?.duration ?? 0;
+  }
+
+  get paused(): boolean {
+    return this.audio.paused;
+  }
+
+  get playbackRate(): number {
+    return this.rate;
+  }
+
+  get loop(): LoopRegion | null {
+    return this.loopRegion;
+  }
+
+  load(buffer: AudioBuffer) {
+    this.unload();
+    this.loadedBuffer = buffer;
+    this.objectUrl = URL.createObjectURL(new Blob([encodeWav(buffer, 16)], { type: 'audio/wav' }));
+    this.audio.src = this.objectUrl;
+    // Loading a new source resets the element's rate
+    this.audio.defaultPlaybackRate = this.rate;
+    this.audio.playbackRate = this.rate;
+  }
+
+  unload() {
+    this.audio.pause();
+    this.audio.removeAttribute('src');
+    this.audio.load();
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+    this.loadedBuffer = null;
+  }
+
+  async play() {
+    if (!this.loadedBuffer) return;
+    // Resuming from the end (or past the loop) starts over
+    if (this.audio.ended || this.audio.currentTime >= this.duration) {
+      this.audio.currentTime = this.loopRegion?.start ?? 0;
+    }
+    await this.audio.play();
+  }
+
+  pause() {
+    this.audio.pause();
+  }
+
+  seek(time: number) {
+    if (!this.loadedBuffer) return;
+    this.audio.currentTime = Math.max(0, Math.min(this.duration, time));
+  }
+
+  setPlaybackRate(rate: number) {
+    this.rate = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+    this.audio.defaultPlaybackRate = this.rate;
+    this.audio.playbackRate = this.rate;
+  }
+
+  // Playback wraps from region.end back to region.start while a loop is set
+  setLoop(region: LoopRegion | null) {
+    this.loopRegion = region && region.end > region.start ? region : null;
+    if (this.loopRegion && (this.currentTime < this.loopRegion.start || this.currentTime > this.loopRegion.end)) {
+      this.seek(this.loopRegion.start);
+    }
+  }
+
+  // timeupdate fires only a few times a second, too coarse for tight loops
+  private watchLoop() {
+    if (this.frame !== null) return;
+    const tick = () => {
+      if (this.audio.paused) {
+        this.frame = null;
+        return;
+      }
+      const loop = this.loopRegion;
+      if (loop && this.audio.currentTime >= loop.end) {
+        this.audio.currentTime = loop.start;
+      }
+      this.frame = requestAnimationFrame(tick);
+    };
+    this.frame = requestAnimationFrame(tick);
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { UsageRecord } from '../types';
+import { budgetWarnings, estimateUsage } from './usageStats';
+import { splitText } from './textChunker';
+
+const engine = { provider: 'gemini', model: 'gemini-2.5-flash-preview-tts' };
+
+describe('estimateUsage', () => {
+  it('counts one request per part unless told otherwise', () => {
+    const chunks = splitText('One sentence here. Another one there. And a third.', 20);
+    const estimate = estimateUsage(engine, chunks.map(chunk => ({ voice: 'Kore', text: chunk.text })));
+    expect(estimate).toEqual({ provider: 'gemini', characters: 48, requests: 3, voices: { Kore: 48 } });
+  });
+
+  it('takes an explicit request count for parts sent together', () => {
+    const estimate = estimateUsage(engine, [{ voice: 'Kore', text: 'Hi.' }, { voice: 'Puck', text: 'Hello.' }], 1);
+    expect(estimate).toMatchObject({ requests: 1, voices: { Kore: 3, Puck: 6 } });
+  });
+});
+
+describe('budgetWarnings', () => {
+  const now = new Date(2026, 3, 15, 12).getTime();
+  const record: UsageRecord = {
+    id: '1', timestamp: now - 1000, source: 'editor', provider: 'gemini', model: engine.model,
+    characters: 900, requests: 9, latencyMs: 0, retries: 0, voices: { Kore: 900 },
+  };
+  const budgets = { dailyCharacters: 1000, monthlyCharacters: null, dailyRequests: 10, voiceDailyCharacters: null };
+
+  it('warns about every budget the estimate would push past', () => {
+    const estimate = estimateUsage(engine, [{ voice: 'Kore', text: 'x'.repeat(50) }, { voice: 'Kore', text: 'y'.repeat(60) }]);
+    expect(budgetWarnings([record], budgets, estimate, now)).toEqual([
+      'Daily characters: 1,010 of 1,000 characters',
+      'Daily requests: 11 of 10 requests',
+    ]);
+  });
+
+  it('stays quiet within the budgets', () => {
+    expect(budgetWarnings([record], budgets, estimateUsage(engine, [{ voice: 'Kore', text: 'Short.' }]), now)).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+import { GenerationUsage, TtsSelection, UsageBudgets, UsageRecord } from "../types";
+
+export interface UsageTotals {
+  generations: number;
+  characters: number;
+  requests: number;
+  tokens: number;
+  latencyMs: number;
+  retries: number;
+}
+
+// What a generation is about to send, for checking against the budgets first
+export interface UsageEstimate {
+  provider: string;
+  characters: number;
+  requests: number;
+  voices: Record<string, number>;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local calendar day and month, so "today" matches the user's clock
+export const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const monthKey = (timestamp: number) => dayKey(timestamp).slice(0, 7);
+
+const emptyTotals = (): UsageTotals => ({ generations: 0, characters: 0, requests: 0, tokens: 0, latencyMs: 0, retries: 0 });
+
+export const sumUsage = (records: UsageRecord[]): UsageTotals =>
+  records.reduce((totals, record) => {
+    totals.generations++;
+    totals.characters += record.characters;
+    totals.requests += record.requests;
+    totals.tokens += record.tokens?.totalTokens ?? 0;
+    totals.latencyMs += record.latencyMs;
+    totals.retries += record.retries;
+    return totals;
+  }, emptyTotals());
+
+// Newest day first
+export const totalsByDay = (records: UsageRecord[]): [string, UsageTotals][] => {
+  const days = new Map<string, UsageRecord[]>();
+  records.forEach(record => {
+    const key = dayKey(record.timestamp);
+    days.set(key, [...(days.get(key) ?? []), record]);
+  });
+  return [...days].map(([day, dayRecords]): [string, UsageTotals] => [day, sumUsage(dayRecords)])
+    .sort(([a], [b]) => b.localeCompare(a));
+};
+
+// Characters per voice, most used first
+export const charactersByVoice = (records: UsageRecord[]): [string, number][] => {
+  const voices = new Map<string, number>();
+  records.forEach(record => {
+    Object.entries(record.voices).forEach(([voice, characters]) => voices.set(voice, (voices.get(voice) ?? 0) + characters));
+  });
+  return [...voices].sort(([, a], [, b]) => b - a);
+};
+
+// Parts are what will be sent, one request each unless told otherwise (a dialogue's
+// lines can go out together as a single request)
+export const estimateUsage = (
+  engine: TtsSelection,
+  parts: { voice: string; text: string }[],
+  requests = parts.length
+): UsageEstimate => {
+  const voices: Record<string, number> = {};
+  parts.forEach(({ voice, text }) => { voices[voice] = (voices[voice] ?? 0) + text.length; });
+  return { provider: engine.provider, characters: parts.reduce((sum, p) => sum + p.text.length, 0), requests, voices };
+};
+
+// Every budget the estimate would push past, as sentences for a confirmation prompt.
+// Budgets already exceeded are reported too, so each new generation asks again.
+export const budgetWarnings = (
+  records: UsageRecord[],
+  budgets: UsageBudgets,
+  estimate: UsageEstimate,
+  now = Date.now()
+): string[] => {
+  const today = records.filter(r => dayKey(r.timestamp) === dayKey(now));
+  const month = records.filter(r => monthKey(r.timestamp) === monthKey(now));
+  const todayTotals = sumUsage(today);
+  const warnings: string[] = [];
+
+  const check = (label: string, used: number, adding: number, limit: number | null, unit: string) => {
+    if (limit !== null && used + adding > limit) {
+      warnings.push(`${label}: ${(used + adding).toLocaleString()} of ${limit.toLocaleString()} ${unit}`);
+    }
+  };
+
+  check('Daily characters', todayTotals.characters, estimate.characters, budgets.dailyCharacters, 'characters');
+  check('Monthly characters', sumUsage(month).characters, estimate.characters, budgets.monthlyCharacters, 'characters');
+  check('Daily requests', todayTotals.requests, estimate.requests, budgets.dailyRequests, 'requests');
+
+  const voiceToday = new Map(charactersByVoice(today));
+  Object.entries(estimate.voices).forEach(([voice, characters]) => {
+    check(`${voice} today`, voiceToday.get(voice) ?? 0, characters, budgets.voiceDailyCharacters, 'characters');
+  });
+  return warnings;
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per generation; the voices column lists "Voice:characters" pairs
+export const usageToCsv = (records: UsageRecord[]): string => {
+  const header = ['timestamp', 'date', 'source', 'provider', 'model', 'voices', 'characters', 'requests',
+    'prompt_tokens', 'output_tokens', 'total_tokens', 'latency_ms', 'retries'];
+  const rows = records.map(r => [
+    new Date(r.timestamp).toISOString(),
+    dayKey(r.timestamp),
+    r.source,
+    r.provider,
+    r.model,
+    Object.entries(r.voices).map(([voice, characters]) => `${voice}:${characters}`).join(' '),
+    r.characters,
+    r.requests,
+    r.tokens?.promptTokens ?? '',
+    r.tokens?.outputTokens ?? '',
+    r.tokens?.totalTokens ?? '',
+    r.latencyMs,
+    r.retries,
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
+
+// Adds up the usage of separate runs that produced one clip, like a chunked
+// text whose failed chunks were retried
+export const combineUsage = (a: GenerationUsage | null, b: GenerationUsage): GenerationUsage => {
+  if (!a) return b;
+  const tokens = a.tokens || b.tokens ? {
+    promptTokens: (a.tokens?.promptTokens ?? 0) + (b.tokens?.promptTokens ?? 0),
+    outputTokens: (a.tokens?.outputTokens ?? 0) + (b.tokens?.outputTokens ?? 0),
+    totalTokens: (a.tokens?.totalTokens ?? 0) + (b.tokens?.totalTokens ?? 0),
+  } : undefined;
+  return {
+    ...b,
+    characters: a.characters + b.characters,
+    requests: a.requests + b.requests,
+    ...(tokens ? { tokens } : {}),
+    latencyMs: a.latencyMs + b.latencyMs,
+    retries: a.retries + b.retries,
+    ...(a.cacheHits || b.cacheHits ? { cacheHits: (a.cacheHits ?? 0) + (b.cacheHits ?? 0) } : {}),
+  };
+};
@@ -0,0 +1,228 @@
+// Drawing for the audio visualizer, shared by the live view and video export.
+// Both read from a VisualizerSource: a live AnalyserNode, or a BufferAnalyser
+// positioned at an exact time of a clip so frames can be rendered offline.
+
+export type VisualizerStyle = 'bars' | 'waveform' | 'circular';
+
+export const VISUALIZER_STYLES: { id: VisualizerStyle; label: string }[] = [
+  { id: 'bars', label: 'Bars' },
+  { id: 'waveform', label: 'Waveform' },
+  { id: 'circular', label: 'Circular' },
+];
+
+// The part of AnalyserNode the visualizer uses
+export interface VisualizerSource {
+  readonly frequencyBinCount: number;
+  getByteFrequencyData(array: Uint8Array): void;
+  getByteTimeDomainData(array: Uint8Array): void;
+}
+
+const COLOR_LOW = '#3b82f6'; // Blue 500
+const COLOR_HIGH = '#a855f7'; // Purple 500
+
+// Rate at which a live AnalyserNode is usually read (once per animation frame);
+// the offline analyser smooths over steps of this size so both look the same
+const LIVE_READ_RATE = 60;
+// Smoothing carried over from earlier reads decays below 2% after this many steps
+const SMOOTHING_STEPS = 18;
+
+// In-place radix-2 FFT; n must be a power of two
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+// Reports what an AnalyserNode fed with the clip would show at any moment, following
+// the Web Audio spec (Blackman window, smoothing over time, dB range mapped to bytes).
+// The result depends only on the position, so any frame can be drawn in any order.
+export class BufferAnalyser implements VisualizerSource {
+  readonly frequencyBinCount: number;
+  private readonly mono: Float32Array;
+  private readonly sampleRate: number;
+  private readonly window: Float64Array;
+  private time = 0;
+
+  constructor(
+    buffer: AudioBuffer,
+    readonly fftSize = 256,
+    readonly smoothingTimeConstant = 0.8,
+    readonly minDecibels = -100,
+    readonly maxDecibels = -30,
+  ) {
+    this.frequencyBinCount = fftSize / 2;
+    this.sampleRate = buffer.sampleRate;
+    // Analysers down-mix to mono
+    this.mono = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < buffer.length; i++) this.mono[i] += data[i] / buffer.numberOfChannels;
+    }
+    this.window = Float64Array.from({ length: fftSize }, (_, i) => {
+      const phase = (2 * Math.PI * i) / fftSize;
+      return 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+    });
+  }
+
+  // Moves to a time in seconds; later reads describe the audio just before it
+  seek(time: number) {
+    this.time = time;
+  }
+
+  // Magnitude per bin of the fftSize samples ending at `time`
+  private magnitudes(time: number): Float64Array {
+    const re = new Float64Array(this.fftSize);
+    const im = new Float64Array(this.fftSize);
+    const end = Math.round(time * this.sampleRate);
+    for (let i = 0; i < this.fftSize; i++) {
+      const index = end - this.fftSize + i;
+      re[i] = index >= 0 && index < this.mono.length ? this.mono[index] * this.window[i] : 0;
+    }
+    fft(re, im);
+    const result = new Float64Array(this.frequencyBinCount);
+    for (let k = 0; k < this.frequencyBinCount; k++) {
+      result[k] = Math.hypot(re[k], im[k]) / this.fftSize;
+    }
+    return result;
+  }
+
+  getByteFrequencyData(array: Uint8Array) {
+    // Replays the smoothing a live analyser would have applied over the last few reads
+    let smoothed = new Float64Array(this.frequencyBinCount);
+    for (let step = SMOOTHING_STEPS; step >= 0; step--) {
+      const current = this.magnitudes(this.time - step / LIVE_READ_RATE);
+      for (let k = 0; k < smoothed.length; k++) {
+        smoothed[k] = this.smoothingTimeConstant * smoothed[k] + (1 - this.smoothingTimeConstant) * current[k];
+      }
+    }
+    const range = this.maxDecibels - this.minDecibels;
+    const count = Math.min(array.length, this.frequencyBinCount);
+    for (let k = 0; k < count; k++) {
+      const db = smoothed[k] > 0 ? 20 * Math.log10(smoothed[k]) : -Infinity;
+      array[k] = Math.max(0, Math.min(255, Math.floor((255 / range) * (db - this.minDecibels))));
+    }
+  }
+
+  getByteTimeDomainData(array: Uint8Array) {
+    const end = Math.round(this.time * this.sampleRate);
+    const count = Math.min(array.length, this.fftSize);
+    for (let i = 0; i < count; i++) {
+      const index = end - count + i;
+      const sample = index >= 0 && index < this.mono.length ? this.mono[index] : 0;
+      array[i] = Math.max(0, Math.min(255, Math.floor(128 * (sample + 1))));
+    }
+  }
+}
+
+export interface VisualizerRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const drawBars = (ctx: CanvasRenderingContext2D, data: Uint8Array, { x, y, width, height }: VisualizerRect) => {
+  // Speech sits in the lower bins, so only those are spread across the width
+  const barWidth = (width / data.length) * 2.5;
+  const gap = Math.max(1, barWidth * 0.15);
+  for (let i = 0, left = x; i < data.length && left < x + width; i++, left += barWidth + gap) {
+    const barHeight = (data[i] / 255) * height;
+    const gradient = ctx.createLinearGradient(0, y + height, 0, y + height - barHeight);
+    gradient.addColorStop(0, COLOR_LOW);
+    gradient.addColorStop(1, COLOR_HIGH);
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.roundRect(left, y + height - barHeight, barWidth, barHeight, Math.min(barWidth / 2, 2 + barWidth * 0.1));
+    ctx.fill();
+  }
+};
+
+const drawWaveform = (ctx: CanvasRenderingContext2D, data: Uint8Array, { x, y, width, height }: VisualizerRect) => {
+  const gradient = ctx.createLinearGradient(x, 0, x + width, 0);
+  gradient.addColorStop(0, COLOR_LOW);
+  gradient.addColorStop(1, COLOR_HIGH);
+  ctx.strokeStyle = gradient;
+  ctx.lineWidth = Math.max(2, height / 40);
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  for (let i = 0; i < data.length; i++) {
+    const px = x + (i / (data.length - 1)) * width;
+    const py = y + (data[i] / 255) * height;
+    if (i === 0) ctx.moveTo(px, py);
+    else ctx.lineTo(px, py);
+  }
+  ctx.stroke();
+};
+
+const drawCircular = (ctx: CanvasRenderingContext2D, data: Uint8Array, { x, y, width, height }: VisualizerRect) => {
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  const size = Math.min(width, height) / 2;
+  const radius = size * 0.45;
+  // The lower half of the bins, mirrored so the ring is symmetric
+  const bins = Math.floor(data.length / 2);
+  const spokes = bins * 2;
+  ctx.lineWidth = Math.max(2, ((2 * Math.PI * radius) / spokes) * 0.6);
+  ctx.lineCap = 'round';
+  for (let s = 0; s < spokes; s++) {
+    const value = data[s < bins ? s : spokes - 1 - s] / 255;
+    const angle = (s / spokes) * 2 * Math.PI - Math.PI / 2;
+    const length = 2 + value * (size - radius);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    ctx.strokeStyle = value > 0.6 ? COLOR_HIGH : COLOR_LOW;
+    ctx.beginPath();
+    ctx.moveTo(cx + cos * radius, cy + sin * radius);
+    ctx.lineTo(cx + cos * (radius + length), cy + sin * (radius + length));
+    ctx.stroke();
+  }
+  ctx.strokeStyle = 'rgba(148, 163, 184, 0.35)';
+  ctx.lineWidth = Math.max(1, size / 100);
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius * 0.92, 0, 2 * Math.PI);
+  ctx.stroke();
+};
+
+// Draws one frame of the visualizer into rect from the source's current data
+export function drawVisualization(
+  ctx: CanvasRenderingContext2D,
+  source: VisualizerSource,
+  style: VisualizerStyle,
+  rect: VisualizerRect,
+) {
+  ctx.save();
+  if (style === 'waveform') {
+    const data = new Uint8Array(source.frequencyBinCount * 2);
+    source.getByteTimeDomainData(data);
+    drawWaveform(ctx, data, rect);
+  } else {
+    const data = new Uint8Array(source.frequencyBinCount);
+    source.getByteFrequencyData(data);
+    (style === 'circular' ? drawCircular : drawBars)(ctx, data, rect);
+  }
+  ctx.restore();
+}
@@ -0,0 +1,78 @@
+// 16/24-bit integer PCM, or 32-bit IEEE float
+export type WavBitDepth = 16 | 24 | 32;
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+// Encodes an AudioBuffer as a RIFF/WAVE file with interleaved channels
+export function encodeWav(buffer: AudioBuffer, bitDepth: WavBitDepth = 16): ArrayBuffer {
+  const numChannels = buffer.numberOfChannels;
+  const isFloat = bitDepth === 32;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataLength = buffer.length * blockAlign;
+  // Non-PCM formats carry an extra 'fact' chunk with the frame count
+  const headerLength = isFloat ? 58 : 44;
+
+  const out = new ArrayBuffer(headerLength + dataLength);
+  const view = new DataView(out);
+  let pos = 0;
+
+  const setUint16 = (data: number) => {
+    view.setUint16(pos, data, true);
+    pos += 2;
+  };
+  const setUint32 = (data: number) => {
+    view.setUint32(pos, data, true);
+    pos += 4;
+  };
+
+  // write WAVE header
+  setUint32(0x46464952);                              // "RIFF"
+  setUint32(out.byteLength - 8);                      // file length - 8
+  setUint32(0x45564157);                              // "WAVE"
+
+  setUint32(0x20746d66);                              // "fmt " chunk
+  setUint32(isFloat ? 18 : 16);                       // chunk length
+  setUint16(isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM);
+  setUint16(numChannels);
+  setUint32(buffer.sampleRate);
+  setUint32(buffer.sampleRate * blockAlign);          // avg. bytes/sec
+  setUint16(blockAlign);
+  setUint16(bitDepth);
+  if (isFloat) {
+    setUint16(0);                                     // cbSize
+
+    setUint32(0x74636166);                            // "fact" chunk
+    setUint32(4);
+    setUint32(buffer.length);
+  }
+
+  setUint32(0x61746164);                              // "data" chunk
+  setUint32(dataLength);
+
+  // write interleaved data
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < numChannels; channel++) {
+    channels.push(buffer.getChannelData(channel));
+  }
+
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][i])); // clamp
+      if (isFloat) {
+        view.setFloat32(pos, sample, true);
+      } else if (bitDepth === 24) {
+        const value = (sample < 0 ? sample * 0x800000 : sample * 0x7fffff) | 0;
+        view.setUint8(pos, value & 0xff);
+        view.setUint8(pos + 1, (value >> 8) & 0xff);
+        view.setUint8(pos + 2, (value >> 16) & 0xff);
+      } else {
+        view.setInt16(pos, (sample < 0 ? sample * 0x8000 : sample * 0x7fff) | 0, true);
+      }
+      pos += bytesPerSample;
+    }
+  }
+
+  return out;
+}
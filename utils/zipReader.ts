@@ -0,0 +1,93 @@
+// Minimal ZIP reader for importing EPUBs. Handles stored and deflated entries
+// (deflate is undone by the browser's DecompressionStream); ZIP64 is not supported.
+
+interface ZipFileEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_HEADER = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export class ZipArchive {
+  private readonly entries = new Map<string, ZipFileEntry>();
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64 KiB
+    let end = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+      if (this.view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) throw new Error("Not a ZIP archive");
+
+    const count = this.view.getUint16(end + 10, true);
+    let offset = this.view.getUint32(end + 16, true);
+    if (offset === 0xffffffff) throw new Error("ZIP64 archives are not supported");
+
+    const decoder = new TextDecoder();
+    for (let i = 0; i < count; i++) {
+      if (this.view.getUint32(offset, true) !== CENTRAL_HEADER) {
+        throw new Error("The ZIP central directory is damaged");
+      }
+      const nameLength = this.view.getUint16(offset + 28, true);
+      const extraLength = this.view.getUint16(offset + 30, true);
+      const commentLength = this.view.getUint16(offset + 32, true);
+      const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+      this.entries.set(name, {
+        name,
+        method: this.view.getUint16(offset + 10, true),
+        compressedSize: this.view.getUint32(offset + 20, true),
+        localHeaderOffset: this.view.getUint32(offset + 42, true),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  get names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  async read(name: string): Promise<Uint8Array> {
+    const entry = this.entries.get(name);
+    if (!entry) throw new Error(`"${name}" is missing from the archive`);
+
+    const offset = entry.localHeaderOffset;
+    if (this.view.getUint32(offset, true) !== LOCAL_HEADER) {
+      throw new Error(`The ZIP entry "${name}" is damaged`);
+    }
+    // The local header's own name and extra lengths can differ from the central directory's
+    const start = offset + 30 + this.view.getUint16(offset + 26, true) + this.view.getUint16(offset + 28, true);
+    const data = this.bytes.subarray(start, start + entry.compressedSize);
+
+    switch (entry.method) {
+      case 0:
+        return data;
+      case 8:
+        return inflateRaw(data);
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.method} for "${name}"`);
+    }
+  }
+
+  async readText(name: string): Promise<string> {
+    return new TextDecoder().decode(await this.read(name));
+  }
+}